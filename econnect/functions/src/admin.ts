@@ -0,0 +1,11 @@
+import { initializeApp, getApps } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Initialize the Admin SDK once; the emulator injects credentials and project ID
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+export { db };
@@ -0,0 +1,164 @@
+// Meeting analytics computation, shared by the trigger and the backfill script
+
+export type ParticipantRole = 'moderator' | 'viewer';
+
+export interface AttendanceRecord {
+  userId: string;
+  displayName: string;
+  role: ParticipantRole;
+  joinTime: Date;
+  leaveTime?: Date | null;
+  lastSeen?: Date | null;
+}
+
+export interface MeetingRecord {
+  id: string;
+  eventId: string;
+  title?: string;
+  hostId: string;
+  startTime?: Date | null;
+  startedAt?: Date | null;
+  endTime?: Date | null;
+}
+
+export interface ParticipantAnalyticsRecord {
+  userId: string;
+  displayName: string;
+  role: ParticipantRole;
+  joinTime: Date;
+  leaveTime: Date;
+  duration: number; // in seconds
+  intervalCount: number; // how many separate stays were recorded
+}
+
+export interface MeetingAnalyticsRecord {
+  meetingId: string;
+  eventId: string;
+  title: string;
+  hostId: string;
+  participantCount: number;
+  averageDuration: number; // in seconds
+  peakParticipants: number;
+  startTime: Date;
+  endTime: Date;
+  participants: ParticipantAnalyticsRecord[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+// Clients refresh lastSeen every 30s; an open interval whose client went away
+// is assumed to have ended one missed heartbeat after it was last seen.
+const STALE_INTERVAL_GRACE_MS = 60 * 1000;
+
+// Sort and merge overlapping intervals, e.g. the same user in two tabs
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+
+  sorted.forEach((interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+
+  return merged;
+};
+
+// Highest number of intervals open at the same time. At equal timestamps
+// leaves are processed before joins so a hand-over isn't counted as overlap.
+const peakConcurrency = (intervals: Interval[]): number => {
+  const points = intervals.flatMap(({ start, end }) => [
+    { time: start, delta: 1 },
+    { time: end, delta: -1 },
+  ]);
+  points.sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+  let current = 0;
+  let peak = 0;
+  points.forEach(({ delta }) => {
+    current += delta;
+    peak = Math.max(peak, current);
+  });
+
+  return peak;
+};
+
+// Turn a meeting and its attendance intervals into a MeetingAnalytics record.
+// The result depends only on its inputs, so re-running it never double counts.
+const computeMeetingAnalytics = (
+  meeting: MeetingRecord,
+  attendance: AttendanceRecord[],
+  now: Date = new Date()
+): MeetingAnalyticsRecord => {
+  const joinTimes = attendance.map((record) => record.joinTime.getTime());
+  const meetingStart =
+    meeting.startedAt?.getTime() ??
+    (joinTimes.length > 0 ? Math.min(...joinTimes) : undefined) ??
+    meeting.startTime?.getTime() ??
+    now.getTime();
+  const meetingEnd = meeting.endTime?.getTime() ?? now.getTime();
+
+  // Close open intervals and clip everything to the meeting window
+  const byUser = new Map<string, { records: AttendanceRecord[]; intervals: Interval[] }>();
+  attendance.forEach((record) => {
+    const start = Math.max(record.joinTime.getTime(), Math.min(meetingStart, meetingEnd));
+    const lastSeen = (record.lastSeen ?? record.joinTime).getTime();
+    const end = Math.min(
+      record.leaveTime ? record.leaveTime.getTime() : lastSeen + STALE_INTERVAL_GRACE_MS,
+      meetingEnd
+    );
+
+    const entry = byUser.get(record.userId) || { records: [], intervals: [] };
+    entry.records.push(record);
+    if (end > start) {
+      entry.intervals.push({ start, end });
+    }
+    byUser.set(record.userId, entry);
+  });
+
+  const participants: ParticipantAnalyticsRecord[] = [];
+  const presence: Interval[] = [];
+
+  byUser.forEach(({ records, intervals }, userId) => {
+    const merged = mergeIntervals(intervals);
+    const latest = records.reduce((a, b) => (b.joinTime > a.joinTime ? b : a));
+    const firstJoin = merged.length > 0 ? merged[0].start : latest.joinTime.getTime();
+    const lastLeave = merged.length > 0 ? merged[merged.length - 1].end : firstJoin;
+
+    participants.push({
+      userId,
+      displayName: latest.displayName,
+      role: records.some((record) => record.role === 'moderator') ? 'moderator' : 'viewer',
+      joinTime: new Date(firstJoin),
+      leaveTime: new Date(lastLeave),
+      duration: Math.round(merged.reduce((sum, { start, end }) => sum + (end - start), 0) / 1000),
+      intervalCount: records.length,
+    });
+    presence.push(...merged);
+  });
+
+  participants.sort((a, b) => a.joinTime.getTime() - b.joinTime.getTime());
+
+  const totalDuration = participants.reduce((sum, participant) => sum + participant.duration, 0);
+
+  return {
+    meetingId: meeting.id,
+    eventId: meeting.eventId,
+    title: meeting.title || '',
+    hostId: meeting.hostId,
+    participantCount: participants.length,
+    averageDuration: participants.length > 0 ? Math.round(totalDuration / participants.length) : 0,
+    peakParticipants: peakConcurrency(presence),
+    startTime: new Date(Math.min(meetingStart, meetingEnd)),
+    endTime: new Date(meetingEnd),
+    participants,
+  };
+};
+
+export { mergeIntervals, peakConcurrency, computeMeetingAnalytics };
@@ -0,0 +1,197 @@
+// Keeping service slot bookings in step with the requests that hold them,
+// and checking new bookings against the provider's availability and
+// existing bookings.
+import { DocumentData, toDate, toOptionalString } from './values';
+
+// Scheduled requests made before slots existed have no end time
+const DEFAULT_BOOKING_MINUTES = 60;
+
+// Match DEFAULT_SLOT_MINUTES and DEFAULT_BUFFER_MINUTES in the app
+const DEFAULT_SLOT_MINUTES = 60;
+const DEFAULT_BUFFER_MINUTES = 0;
+
+const DAY_MINUTES = 24 * 60;
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface BookedTime {
+  id?: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface BookingClaim {
+  id: string;
+  serviceId: string;
+  providerId: string;
+  requesterId: string;
+  requestId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface BookingPlan {
+  release: string | null; // booking ID to delete, if it still belongs to the request
+  claim: BookingClaim | null; // booking to create for the request
+}
+
+// Matches bookingIdFor in the app: one document per provider and start time
+const bookingIdFor = (providerId: string, start: Date): string =>
+  `${providerId}_${start.getTime()}`;
+
+const slotSettings = (availability: DocumentData) => {
+  const { slotMinutes, bufferMinutes } = availability;
+  return {
+    slotMinutes:
+      typeof slotMinutes === 'number' && slotMinutes > 0 ? slotMinutes : DEFAULT_SLOT_MINUTES,
+    bufferMinutes:
+      typeof bufferMinutes === 'number' && bufferMinutes >= 0
+        ? bufferMinutes
+        : DEFAULT_BUFFER_MINUTES,
+  };
+};
+
+// Minutes since midnight of a time of day; accepts the same formats as
+// parseTimeOfDay in the app ("09:00", "9:00 AM")
+const minutesOfDay = (value: unknown): number | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp]\.?[Mm]\.?)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3] ? match[3][0].toUpperCase() : null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'P' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+// Weekday and minute of the day shown by the zone's clock at the instant
+const wallClock = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'long',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  return { weekday: part('weekday'), minute: Number(part('hour')) * 60 + Number(part('minute')) };
+};
+
+// Whether a service's availability offers a slot from start to end, the way
+// generateSlots in the app lays them out: slotMinutes long, one every
+// slotMinutes + bufferMinutes from the opening time, on the listed days in
+// the provider's zone. Hours that end before they start run past midnight.
+const isOfferedSlot = (
+  availability: DocumentData,
+  start: Date,
+  end: Date,
+  timeZone: string
+): boolean => {
+  const { slotMinutes, bufferMinutes } = slotSettings(availability);
+  const open = minutesOfDay(availability.startTime);
+  const close = minutesOfDay(availability.endTime);
+  const days: unknown = availability.days;
+  if (open === null || close === null || !Array.isArray(days)) return false;
+  if (end.getTime() - start.getTime() !== slotMinutes * 60000) return false;
+
+  let clock: { weekday: string; minute: number };
+  try {
+    clock = wallClock(start, timeZone);
+  } catch {
+    return false; // unknown time zone
+  }
+
+  const hoursLength = (close > open ? close : close + DAY_MINUTES) - open;
+  const previousDay = WEEKDAYS[(WEEKDAYS.indexOf(clock.weekday) + 6) % 7];
+  // A start after midnight may belong to the previous day's overnight hours
+  return [
+    { day: clock.weekday, offset: clock.minute - open },
+    { day: previousDay, offset: clock.minute + DAY_MINUTES - open },
+  ].some(
+    ({ day, offset }) =>
+      days.includes(day) &&
+      offset >= 0 &&
+      offset % (slotMinutes + bufferMinutes) === 0 &&
+      offset + slotMinutes <= hoursLength
+  );
+};
+
+// Whether two times clash, keeping the buffer free after whichever comes first
+const overlapsBooking = (slot: BookedTime, booked: BookedTime, bufferMinutes: number): boolean => {
+  const buffer = bufferMinutes * 60000;
+  return (
+    slot.startTime.getTime() < booked.endTime.getTime() + buffer &&
+    booked.startTime.getTime() < slot.endTime.getTime() + buffer
+  );
+};
+
+// A stored booking's times; null when they're missing
+const toBookedTime = (id: string, data: DocumentData): BookedTime | null => {
+  const startTime = toDate(data.startTime);
+  const endTime = toDate(data.endTime);
+  return startTime && endTime ? { id, startTime, endTime } : null;
+};
+
+// The first of a provider's bookings that clashes with the slot
+const findOverlappingBooking = (
+  slot: BookedTime,
+  bookings: BookedTime[],
+  bufferMinutes: number
+): BookedTime | null =>
+  bookings.find((booking) => overlapsBooking(slot, booking, bufferMinutes)) || null;
+
+// What a write to a service request means for its booking. Rejected and
+// deleted requests give their slot back. Accepted requests whose time has no
+// booking yet (made before slots existed, or moved by the provider) claim
+// one, so the slot stops being offered to others. Returns null when nothing
+// changes.
+const planBookingSync = (
+  requestId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): BookingPlan | null => {
+  const held = toOptionalString((after || before)?.bookingId) || null;
+
+  if (!after || after.status === 'rejected') {
+    return held ? { release: held, claim: null } : null;
+  }
+  if (after.status !== 'accepted') return null;
+
+  const start = toDate(after.scheduledTime);
+  const serviceId = toOptionalString(after.serviceId);
+  const providerId = toOptionalString(after.providerId);
+  if (!start || !serviceId || !providerId) return null;
+
+  const id = bookingIdFor(providerId, start);
+  if (held === id) return null;
+
+  const end =
+    toDate(after.scheduledEndTime) || new Date(start.getTime() + DEFAULT_BOOKING_MINUTES * 60000);
+  return {
+    release: held,
+    claim: {
+      id,
+      serviceId,
+      providerId,
+      requesterId: toOptionalString(after.requesterId) || '',
+      requestId,
+      startTime: start,
+      endTime: end,
+    },
+  };
+};
+
+export {
+  DEFAULT_BOOKING_MINUTES,
+  bookingIdFor,
+  slotSettings,
+  isOfferedSlot,
+  toBookedTime,
+  overlapsBooking,
+  findOverlappingBooking,
+  planBookingSync,
+};
@@ -0,0 +1,87 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions/v2';
+import { db } from './admin';
+import {
+  BookedTime,
+  findOverlappingBooking,
+  planBookingSync,
+  slotSettings,
+  toBookedTime,
+} from './booking';
+
+// Trigger: free a request's slot when it's rejected or deleted, and claim
+// one for accepted requests scheduled outside the slot picker. Runs in a
+// transaction so a booking is only ever removed by the request holding it,
+// and a claim never overlaps another booking of the provider.
+const onServiceRequestBookingChanged = onDocumentWritten(
+  'serviceRequests/{requestId}',
+  async (event) => {
+    const requestId = event.params.requestId;
+    const plan = planBookingSync(requestId, event.data?.before.data(), event.data?.after.data());
+    if (!plan) return;
+
+    const requestRef = db.collection('serviceRequests').doc(requestId);
+    const outcome = await db.runTransaction(async (transaction) => {
+      const releaseRef = plan.release ? db.collection('serviceBookings').doc(plan.release) : null;
+      const claimRef = plan.claim ? db.collection('serviceBookings').doc(plan.claim.id) : null;
+      const [released, request, service] = await Promise.all([
+        releaseRef ? transaction.get(releaseRef) : null,
+        transaction.get(requestRef),
+        plan.claim ? transaction.get(db.collection('services').doc(plan.claim.serviceId)) : null,
+      ]);
+      const { bufferMinutes } = slotSettings(service?.data()?.availability || {});
+      // Anything ending after the buffer before the claimed time could clash
+      const nearby = plan.claim
+        ? await transaction.get(
+            db
+              .collection('serviceBookings')
+              .where('providerId', '==', plan.claim.providerId)
+              .where(
+                'endTime',
+                '>',
+                new Date(plan.claim.startTime.getTime() - bufferMinutes * 60000)
+              )
+          )
+        : null;
+
+      if (releaseRef && released?.exists && released.data()?.requestId === requestId) {
+        transaction.delete(releaseRef);
+      }
+
+      if (!plan.claim || !claimRef) {
+        if (request.exists && plan.release) {
+          transaction.update(requestRef, { bookingId: null });
+        }
+        return 'released';
+      }
+      // The request's own bookings, including the one it's giving up, don't count
+      const booked = (nearby?.docs || [])
+        .filter((doc) => doc.get('requestId') !== requestId)
+        .map((doc) => toBookedTime(doc.id, doc.data()))
+        .filter((time): time is BookedTime => !!time);
+      const clash = findOverlappingBooking(plan.claim, booked, bufferMinutes);
+      if (clash) {
+        return 'conflict';
+      }
+
+      const { id, ...booking } = plan.claim;
+      transaction.set(claimRef, { ...booking, createdAt: FieldValue.serverTimestamp() });
+      if (request.exists) {
+        transaction.update(requestRef, { bookingId: id });
+      }
+      return 'claimed';
+    });
+
+    if (outcome === 'conflict') {
+      logger.warn('Accepted request overlaps another booking of the provider', {
+        requestId,
+        bookingId: plan.claim?.id,
+      });
+    } else {
+      logger.info('Synced service booking', { requestId, outcome });
+    }
+  }
+);
+
+export { onServiceRequestBookingChanged };
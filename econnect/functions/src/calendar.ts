@@ -0,0 +1,189 @@
+// Turning event and meeting documents into calendar entries, and deciding
+// which invite messages a change to an event needs
+
+import { CalendarAttendee, CalendarEvent, CalendarPerson } from './ical';
+import { eventMemberIds } from './membership';
+import { DocumentData, isSameValue, toDate, toOptionalString } from './values';
+
+export interface CalendarUser extends CalendarPerson {
+  id: string;
+}
+
+export interface CalendarMessagePlan {
+  update: boolean; // schedule changed: send everyone an updated invite
+  invite: string[]; // user IDs who joined and need an invite
+  uninvite: string[]; // user IDs who left and need a cancellation
+  cancel: boolean; // the event is gone: cancel it for everyone
+}
+
+// A change to any of these re-sends the invite with a higher SEQUENCE
+const CALENDAR_FIELDS = [
+  'title',
+  'description',
+  'startTime',
+  'endTime',
+  'recurrence',
+  'createdBy',
+] as const;
+
+const UID_DOMAIN = 'econnect';
+
+// Stable across updates so calendar clients replace rather than duplicate
+const calendarUid = (eventId: string): string => `${eventId}@${UID_DOMAIN}`;
+
+// Link participants follow to get into the event's meeting
+const meetingUrl = (appUrl: string, eventId: string): string =>
+  `${appUrl.replace(/\/$/, '')}/events/${eventId}/meeting`;
+
+// The host organizes; everyone else in the event attends. Users without an
+// email address can't be addressed in a calendar and are left out.
+const calendarPeople = (
+  event: DocumentData,
+  users: Map<string, CalendarUser>
+): { organizer: CalendarPerson | null; attendees: CalendarAttendee[] } => {
+  const hostId = toOptionalString(event.createdBy);
+  const host = hostId ? users.get(hostId) : undefined;
+  const attendees = eventMemberIds(event)
+    .filter((userId) => userId !== hostId)
+    .map((userId) => users.get(userId))
+    .filter((user): user is CalendarUser => !!user && !!user.email)
+    .map((user) => ({ name: user.name, email: user.email, status: 'ACCEPTED' as const }));
+
+  return {
+    organizer: host && host.email ? { name: host.name, email: host.email } : null,
+    attendees,
+  };
+};
+
+// Calendar entries for an event: one VEVENT, or for a recurring event the
+// series plus an entry per occurrence that was moved or edited. Cancelled
+// occurrences become EXDATEs.
+const toCalendarEvents = (
+  eventId: string,
+  event: DocumentData,
+  users: Map<string, CalendarUser>,
+  meetings: DocumentData[],
+  appUrl: string
+): CalendarEvent[] => {
+  const start = toDate(event.startTime);
+  const end = toDate(event.endTime);
+  if (!start || !end) return [];
+
+  const base: CalendarEvent = {
+    uid: calendarUid(eventId),
+    sequence: Number(event.icalSequence) || 0,
+    start,
+    end,
+    title: toOptionalString(event.title) || 'Event',
+    description: toOptionalString(event.description) || '',
+    url: meetingUrl(appUrl, eventId),
+    ...calendarPeople(event, users),
+    status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+  };
+  if (!event.recurrence) return [base];
+
+  const duration = end.getTime() - start.getTime();
+  const occurrences = meetings
+    .map((meeting) => ({
+      meeting,
+      original: toDate(meeting.occurrenceStart),
+      start: toDate(meeting.startTime),
+      end: toDate(meeting.scheduledEndTime),
+    }))
+    .filter((occurrence) => occurrence.original && occurrence.start);
+
+  const overrides = occurrences
+    .filter(
+      ({ meeting, original, start: occurrenceStart, end: occurrenceEnd }) =>
+        meeting.status !== 'cancelled' &&
+        (occurrenceStart!.getTime() !== original!.getTime() ||
+          (occurrenceEnd && occurrenceEnd.getTime() - occurrenceStart!.getTime() !== duration) ||
+          (meeting.title && meeting.title !== base.title) ||
+          (meeting.description !== undefined && meeting.description !== base.description))
+    )
+    .map(({ meeting, original, start: occurrenceStart, end: occurrenceEnd }) => ({
+      ...base,
+      recurrenceId: original!,
+      start: occurrenceStart!,
+      end: occurrenceEnd || new Date(occurrenceStart!.getTime() + duration),
+      title: toOptionalString(meeting.title) || base.title,
+      description:
+        typeof meeting.description === 'string' ? meeting.description : base.description,
+    }));
+
+  return [
+    {
+      ...base,
+      rrule: toOptionalString(event.recurrence) || null,
+      exdates: occurrences
+        .filter(({ meeting }) => meeting.status === 'cancelled')
+        .map(({ original }) => original!),
+    },
+    ...overrides,
+  ];
+};
+
+// A single cancelled occurrence, for a CANCEL message
+const cancelledOccurrence = (
+  eventId: string,
+  event: DocumentData,
+  meeting: DocumentData,
+  users: Map<string, CalendarUser>,
+  appUrl: string
+): CalendarEvent | null => {
+  const original = toDate(meeting.occurrenceStart);
+  const start = toDate(meeting.startTime);
+  if (!original || !start) return null;
+
+  return {
+    uid: calendarUid(eventId),
+    sequence: Number(event.icalSequence) || 0,
+    recurrenceId: original,
+    start,
+    end: toDate(meeting.scheduledEndTime) || start,
+    title: toOptionalString(meeting.title) || toOptionalString(event.title) || 'Event',
+    description: toOptionalString(meeting.description) || '',
+    url: meetingUrl(appUrl, eventId),
+    ...calendarPeople(event, users),
+    status: 'CANCELLED',
+  };
+};
+
+const isCancelled = (event: DocumentData | undefined): boolean => event?.status === 'cancelled';
+
+// Which invite messages a write to an event calls for. The host organizes
+// the event and never receives them. Deleting or cancelling the event
+// cancels it for everyone; after that nothing more is sent.
+const planCalendarMessages = (
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): CalendarMessagePlan => {
+  const host = (after || before)?.createdBy;
+  const beforeIds = eventMemberIds(before).filter((id) => id !== host);
+  const afterIds = eventMemberIds(after).filter((id) => id !== host);
+
+  if (!after || isCancelled(after)) {
+    return {
+      update: false,
+      invite: [],
+      uninvite: [],
+      cancel: !!before && !isCancelled(before) && beforeIds.length > 0,
+    };
+  }
+
+  return {
+    update: !!before && CALENDAR_FIELDS.some((field) => !isSameValue(before[field], after[field])),
+    invite: afterIds.filter((id) => !beforeIds.includes(id)),
+    uninvite: beforeIds.filter((id) => !afterIds.includes(id)),
+    cancel: false,
+  };
+};
+
+export {
+  CALENDAR_FIELDS,
+  calendarUid,
+  meetingUrl,
+  toCalendarEvents,
+  cancelledOccurrence,
+  planCalendarMessages,
+};
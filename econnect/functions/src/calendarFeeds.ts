@@ -0,0 +1,188 @@
+import { randomBytes } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
+import { defineString } from 'firebase-functions/params';
+import { db } from './admin';
+import { buildCalendar, isValidTimeZone, CalendarEvent } from './ical';
+import { toCalendarEvents, CalendarUser } from './calendar';
+import { eventMemberIds } from './membership';
+
+// Where the app is served, for the meeting links in calendar entries
+const appUrl = defineString('APP_URL', { default: 'http://localhost:3000' });
+// Public URL of the calendarFeed function; derived from the project when unset
+const calendarFeedUrl = defineString('CALENDAR_FEED_URL', { default: '' });
+
+// A feed covers the user's events that ended up to this far back
+const FEED_HISTORY_DAYS = 90;
+const FEED_EVENT_LIMIT = 500;
+
+type DocumentData = FirebaseFirestore.DocumentData;
+
+interface ExportEventCalendarRequest {
+  eventId: string;
+  timeZone?: string;
+}
+
+interface CalendarFeedUrlRequest {
+  reset?: boolean;
+}
+
+const resolveTimeZone = (timeZone: unknown): string =>
+  typeof timeZone === 'string' && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+
+// Names and emails for the given users, keyed by ID
+const loadCalendarUsers = async (userIds: string[]): Promise<Map<string, CalendarUser>> => {
+  const users = new Map<string, CalendarUser>();
+  if (userIds.length === 0) return users;
+
+  const snapshots = await db.getAll(...userIds.map((id) => db.collection('users').doc(id)));
+  snapshots.forEach((snapshot) => {
+    const data = snapshot.data();
+    if (data) {
+      users.set(snapshot.id, {
+        id: snapshot.id,
+        name: data.displayName || data.email || '',
+        email: data.email || '',
+      });
+    }
+  });
+  return users;
+};
+
+// Calendar entries for an event, reading its occurrences when it recurs
+const loadCalendarEvents = async (
+  eventId: string,
+  event: DocumentData,
+  users?: Map<string, CalendarUser>
+): Promise<CalendarEvent[]> => {
+  const meetings = event.recurrence
+    ? (await db.collection('meetings').where('eventId', '==', eventId).get()).docs.map((doc) =>
+        doc.data()
+      )
+    : [];
+
+  return toCalendarEvents(
+    eventId,
+    event,
+    users || (await loadCalendarUsers(eventMemberIds(event))),
+    meetings,
+    appUrl.value()
+  );
+};
+
+// File name like standup.ics
+const calendarFileName = (title: string): string =>
+  `${(title || 'event')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'event'}.ics`;
+
+// Callable: an event as an .ics file, for members of the event
+const exportEventCalendar = onCall<ExportEventCalendarRequest>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in to export an event');
+  }
+
+  const { eventId, timeZone } = request.data || ({} as ExportEventCalendarRequest);
+  if (typeof eventId !== 'string' || !eventId) {
+    throw new HttpsError('invalid-argument', 'eventId is required');
+  }
+
+  const eventDoc = await db.collection('events').doc(eventId).get();
+  const event = eventDoc.data();
+  if (!event) {
+    throw new HttpsError('not-found', 'Event not found');
+  }
+  if (!event.isPublic && !eventMemberIds(event).includes(request.auth.uid)) {
+    throw new HttpsError('permission-denied', 'You are not a member of this event');
+  }
+
+  // A series repeats in the zone it was scheduled in, so write it there;
+  // single events use the caller's zone
+  const ics = buildCalendar(await loadCalendarEvents(eventId, event), {
+    method: 'PUBLISH',
+    timeZone: resolveTimeZone(event.recurrence && event.timeZone ? event.timeZone : timeZone),
+  });
+  return { ics, fileName: calendarFileName(event.title) };
+});
+
+// Callable: the caller's private feed URL, creating the feed on first use.
+// Resetting replaces the token so the old URL stops working.
+const getCalendarFeedUrl = onCall<CalendarFeedUrlRequest>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in to subscribe to events');
+  }
+  const uid = request.auth.uid;
+  const feeds = db.collection('calendarFeeds');
+
+  const existing = await feeds.where('userId', '==', uid).get();
+  let token = existing.empty ? null : existing.docs[0].id;
+
+  if (!token || request.data?.reset) {
+    const batch = db.batch();
+    existing.docs.forEach((doc) => batch.delete(doc.ref));
+    token = randomBytes(24).toString('hex');
+    batch.set(feeds.doc(token), { userId: uid, createdAt: FieldValue.serverTimestamp() });
+    await batch.commit();
+  }
+
+  const base =
+    calendarFeedUrl.value() ||
+    `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/calendarFeed`;
+  return { url: `${base}?token=${token}` };
+});
+
+// HTTP: a user's events as a subscribable calendar. The token in the URL is
+// the only credential, as calendar apps can't sign in. Pass tz to choose the
+// time zone times are written in.
+const calendarFeed = onRequest(async (req, res) => {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  const feedDoc = token ? await db.collection('calendarFeeds').doc(token).get() : null;
+  const userId = feedDoc?.data()?.userId;
+  if (!userId) {
+    res.status(404).send('Calendar feed not found');
+    return;
+  }
+
+  // endsAt is the end of the last occurrence, so running series stay in the feed
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const memberships = await db
+    .collection('eventMembers')
+    .where('userId', '==', userId)
+    .where('endsAt', '>=', since)
+    .orderBy('endsAt')
+    .limit(FEED_EVENT_LIMIT)
+    .get();
+
+  const eventIds = memberships.docs.map((doc) => doc.get('eventId') as string);
+  const eventDocs = eventIds.length
+    ? await db.getAll(...eventIds.map((id) => db.collection('events').doc(id)))
+    : [];
+  const events = eventDocs.filter((doc) => doc.exists);
+
+  const users = await loadCalendarUsers(
+    Array.from(new Set([userId, ...events.flatMap((doc) => eventMemberIds(doc.data()))]))
+  );
+  const entries = (
+    await Promise.all(events.map((doc) => loadCalendarEvents(doc.id, doc.data()!, users)))
+  ).flat();
+
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Cache-Control', 'private, max-age=300');
+  res.send(
+    buildCalendar(entries, {
+      method: 'PUBLISH',
+      timeZone: resolveTimeZone(req.query.tz),
+      name: `econnect: ${users.get(userId)?.name || 'My events'}`,
+    })
+  );
+});
+
+export {
+  appUrl,
+  loadCalendarUsers,
+  loadCalendarEvents,
+  exportEventCalendar,
+  getCalendarFeedUrl,
+  calendarFeed,
+};
@@ -0,0 +1,199 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentWritten, onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions/v2';
+import { db } from './admin';
+import { buildCalendar, isValidTimeZone, CalendarEvent, CalendarMethod } from './ical';
+import { cancelledOccurrence, planCalendarMessages, CalendarUser } from './calendar';
+import { appUrl, loadCalendarEvents, loadCalendarUsers } from './calendarFeeds';
+import { eventMemberIds } from './membership';
+import { isSameValue } from './values';
+
+type DocumentData = FirebaseFirestore.DocumentData;
+
+// Invites are written in the event's own zone, so a recurring series repeats
+// at the same wall-clock time across daylight saving changes. Events created
+// before zones were recorded fall back to UTC. Calendar clients show the
+// times in the reader's zone either way.
+const INVITE_TIME_ZONE = 'UTC';
+
+const inviteTimeZone = (event: DocumentData): string =>
+  typeof event.timeZone === 'string' && isValidTimeZone(event.timeZone)
+    ? event.timeZone
+    : INVITE_TIME_ZONE;
+
+// Queue one email per recipient with the calendar attached. Documents in
+// mail/ follow the format of the Trigger Email extension, which sends them.
+const queueCalendarMail = async (
+  recipients: CalendarUser[],
+  method: CalendarMethod,
+  subject: string,
+  text: string,
+  entries: CalendarEvent[],
+  timeZone: string = INVITE_TIME_ZONE
+): Promise<number> => {
+  const addressed = recipients.filter((user) => !!user.email);
+  if (addressed.length === 0 || entries.length === 0) return 0;
+
+  const ics = buildCalendar(entries, { method, timeZone });
+  const batch = db.batch();
+  addressed.forEach((user) => {
+    batch.set(db.collection('mail').doc(), {
+      to: user.email,
+      message: {
+        subject,
+        text,
+        attachments: [
+          {
+            filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+            content: ics,
+            contentType: `text/calendar; charset=utf-8; method=${method}`,
+          },
+        ],
+      },
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+  await batch.commit();
+  return addressed.length;
+};
+
+const pick = (users: Map<string, CalendarUser>, ids: string[]): CalendarUser[] =>
+  ids.map((id) => users.get(id)).filter((user): user is CalendarUser => !!user);
+
+// Bump the event's SEQUENCE so clients take the new invite over the old one
+const nextSequence = async (eventId: string, event: DocumentData): Promise<number> => {
+  const sequence = (Number(event.icalSequence) || 0) + 1;
+  await db.collection('events').doc(eventId).update({ icalSequence: sequence });
+  return sequence;
+};
+
+// Trigger: send invites, updates and cancellations as people join and leave
+// and as the host changes or deletes the event
+const onEventCalendarChanged = onDocumentWritten('events/{eventId}', async (event) => {
+  const eventId = event.params.eventId;
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  const plan = planCalendarMessages(before, after);
+  if (!plan.update && !plan.cancel && plan.invite.length === 0 && plan.uninvite.length === 0) {
+    return;
+  }
+
+  const current = after || before!;
+  const users = await loadCalendarUsers(
+    Array.from(new Set([...eventMemberIds(before), ...eventMemberIds(after)]))
+  );
+  const title = current.title || 'Event';
+  let sent = 0;
+
+  if (plan.cancel) {
+    const entries = (await loadCalendarEvents(eventId, current, users)).map((entry) => ({
+      ...entry,
+      sequence: entry.sequence + 1,
+      status: 'CANCELLED' as const,
+    }));
+    sent += await queueCalendarMail(
+      pick(users, eventMemberIds(before).filter((id) => id !== current.createdBy)),
+      'CANCEL',
+      `Cancelled: ${title}`,
+      current.cancellationReason
+        ? `"${title}" has been cancelled: ${current.cancellationReason}`
+        : `"${title}" has been cancelled.`,
+      entries.filter((entry) => !entry.recurrenceId),
+      inviteTimeZone(current)
+    );
+  } else {
+    const sequence = plan.update ? await nextSequence(eventId, current) : current.icalSequence || 0;
+    const entries = await loadCalendarEvents(eventId, { ...current, icalSequence: sequence }, users);
+    const recipients = plan.update
+      ? eventMemberIds(after).filter((id) => id !== current.createdBy)
+      : plan.invite;
+
+    sent += await queueCalendarMail(
+      pick(users, recipients),
+      'REQUEST',
+      plan.update ? `Updated: ${title}` : `Invitation: ${title}`,
+      plan.update ? `"${title}" has changed.` : `You have joined "${title}".`,
+      entries,
+      inviteTimeZone(current)
+    );
+
+    if (plan.uninvite.length > 0) {
+      // Cancel the event only for the people who left
+      sent += await queueCalendarMail(
+        pick(users, plan.uninvite),
+        'CANCEL',
+        `Removed: ${title}`,
+        `You are no longer attending "${title}".`,
+        entries
+          .filter((entry) => !entry.recurrenceId)
+          .map((entry) => ({ ...entry, status: 'CANCELLED' as const })),
+        inviteTimeZone(current)
+      );
+    }
+  }
+
+  if (sent > 0) {
+    logger.info('Queued calendar messages', { eventId, sent });
+  }
+});
+
+// Trigger: cancel a single occurrence of a recurring event in attendees'
+// calendars, or re-send the series when an occurrence is moved or restored
+const onOccurrenceCalendarChanged = onDocumentUpdated('meetings/{meetingId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after || !after.occurrenceStart) return;
+
+  // Occurrences recreated when their series is rewritten are covered by the
+  // event's own update
+  if (!isSameValue(before.createdAt, after.createdAt)) return;
+
+  const cancelled = after.status === 'cancelled' && before.status !== 'cancelled';
+  const restored = before.status === 'cancelled' && after.status === 'scheduled';
+  const changed = ['title', 'description', 'startTime', 'scheduledEndTime'].some(
+    (field) => !isSameValue(before[field], after[field])
+  );
+  if (!cancelled && !restored && !changed) return;
+
+  const eventDoc = await db.collection('events').doc(after.eventId).get();
+  const parent = eventDoc.data();
+  // Cancelling the whole event sends one cancellation for the series, and
+  // occurrences renamed along with their event are covered by its update
+  if (!parent || parent.status === 'cancelled') return;
+  const renamedWithEvent =
+    !cancelled &&
+    !restored &&
+    isSameValue(after.updatedAt, parent.updatedAt) &&
+    ['startTime', 'scheduledEndTime'].every((field) => isSameValue(before[field], after[field]));
+  if (renamedWithEvent) return;
+
+  const sequence = await nextSequence(eventDoc.id, parent);
+  const current: DocumentData = { ...parent, icalSequence: sequence };
+  const users = await loadCalendarUsers(eventMemberIds(current));
+  const recipients = pick(users, eventMemberIds(current).filter((id) => id !== current.createdBy));
+  const title = after.title || current.title || 'Event';
+
+  if (cancelled) {
+    const entry = cancelledOccurrence(eventDoc.id, current, after, users, appUrl.value());
+    await queueCalendarMail(
+      recipients,
+      'CANCEL',
+      `Cancelled: ${title}`,
+      `One occurrence of "${title}" has been cancelled.`,
+      entry ? [entry] : [],
+      inviteTimeZone(current)
+    );
+    return;
+  }
+
+  await queueCalendarMail(
+    recipients,
+    'REQUEST',
+    `Updated: ${title}`,
+    `An occurrence of "${title}" has changed.`,
+    await loadCalendarEvents(eventDoc.id, current, users),
+    inviteTimeZone(current)
+  );
+});
+
+export { queueCalendarMail, onEventCalendarChanged, onOccurrenceCalendarChanged };
@@ -0,0 +1,97 @@
+// What a user's write to an event means for its audit log. Entries are
+// derived from the change itself, so the log records what actually happened
+// to the event whichever client made the write.
+import { toMemberIds } from './membership';
+import { DocumentData, isSameValue, toOptionalString } from './values';
+
+export type EventAuditAction =
+  | 'updated'
+  | 'cancelled'
+  | 'host-transferred'
+  | 'co-host-added'
+  | 'co-host-removed'
+  | 'participant-removed';
+
+export interface EventAuditEntry {
+  action: EventAuditAction;
+  actorId: string;
+  targetUserId: string | null;
+  fields: string[];
+  reason: string | null;
+}
+
+// Matches EDITABLE_FIELDS in the app
+const AUDITED_FIELDS = [
+  'title',
+  'description',
+  'startTime',
+  'endTime',
+  'timeZone',
+  'isPublic',
+  'maxParticipants',
+];
+
+const entry = (
+  action: EventAuditAction,
+  actorId: string,
+  details: { targetUserId?: string; fields?: string[]; reason?: string | null } = {}
+): EventAuditEntry => ({
+  action,
+  actorId,
+  targetUserId: details.targetUserId || null,
+  fields: details.fields || [],
+  reason: details.reason || null,
+});
+
+const without = (ids: string[], removed: string[]): string[] =>
+  ids.filter((id) => !removed.includes(id));
+
+// Entries for a user's update of an event. People leaving on their own and
+// co-hosts stepping down aren't host actions and aren't logged; nor is the
+// co-host role a participant loses along with their place, or the one the
+// new host gives up when the event is handed to them.
+const planAuditEntries = (
+  before: DocumentData,
+  after: DocumentData,
+  actorId: string
+): EventAuditEntry[] => {
+  const entries: EventAuditEntry[] = [];
+
+  const fields = AUDITED_FIELDS.filter((field) => !isSameValue(before[field], after[field]));
+  if (fields.length > 0) {
+    entries.push(entry('updated', actorId, { fields }));
+  }
+
+  if (before.status !== 'cancelled' && after.status === 'cancelled') {
+    entries.push(
+      entry('cancelled', actorId, { reason: toOptionalString(after.cancellationReason) })
+    );
+  }
+
+  const newHost = toOptionalString(after.createdBy);
+  if (newHost && newHost !== before.createdBy) {
+    entries.push(entry('host-transferred', actorId, { targetUserId: newHost }));
+  }
+
+  const removed = without(toMemberIds(before.participants), toMemberIds(after.participants));
+  const coHostsBefore = toMemberIds(before.coHosts);
+  const coHostsAfter = toMemberIds(after.coHosts);
+  without(coHostsAfter, coHostsBefore).forEach((userId) =>
+    entries.push(entry('co-host-added', actorId, { targetUserId: userId }))
+  );
+  without(coHostsBefore, coHostsAfter)
+    .filter((userId) => userId !== actorId && userId !== newHost && !removed.includes(userId))
+    .forEach((userId) =>
+      entries.push(entry('co-host-removed', actorId, { targetUserId: userId }))
+    );
+
+  removed
+    .filter((userId) => userId !== actorId)
+    .forEach((userId) =>
+      entries.push(entry('participant-removed', actorId, { targetUserId: userId }))
+    );
+
+  return entries;
+};
+
+export { planAuditEntries };
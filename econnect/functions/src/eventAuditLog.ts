@@ -0,0 +1,29 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentUpdatedWithAuthContext } from 'firebase-functions/v2/firestore';
+import { db } from './admin';
+import { planAuditEntries } from './eventAudit';
+
+// Writes made by a signed-in user of the app. The SDK's AuthType union
+// doesn't list it, but it's what Firestore reports for them.
+const APP_USER = 'app_user';
+
+// Trigger: record host actions on an event in its auditLog. Only users'
+// writes are logged; the backend's own updates, like waitlist promotions,
+// aren't host actions.
+const onEventAudited = onDocumentUpdatedWithAuthContext('events/{eventId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after || String(event.authType) !== APP_USER || !event.authId) return;
+
+  const entries = planAuditEntries(before, after, event.authId);
+  if (entries.length === 0) return;
+
+  const auditLog = db.collection('events').doc(event.params.eventId).collection('auditLog');
+  const batch = db.batch();
+  entries.forEach((entry) =>
+    batch.set(auditLog.doc(), { ...entry, createdAt: FieldValue.serverTimestamp() })
+  );
+  await batch.commit();
+});
+
+export { onEventAudited };
@@ -0,0 +1,291 @@
+// RFC 5545 iCalendar writer. Times are written in the calendar's time zone with a matching
+// VTIMEZONE built from the platform's time zone data.
+
+export type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface CalendarPerson {
+  name: string;
+  email: string;
+}
+
+export interface CalendarAttendee extends CalendarPerson {
+  status: 'ACCEPTED' | 'NEEDS-ACTION';
+}
+
+// One VEVENT: an event, a recurring series, or one occurrence of a series
+// (recurrenceId set) that was moved, edited or cancelled
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  title: string;
+  description: string;
+  url: string;
+  organizer: CalendarPerson | null;
+  attendees: CalendarAttendee[];
+  status: 'CONFIRMED' | 'CANCELLED';
+  rrule?: string | null;
+  exdates?: Date[];
+  recurrenceId?: Date | null;
+}
+
+export interface CalendarOptions {
+  method: CalendarMethod;
+  timeZone: string;
+  name?: string; // X-WR-CALNAME, shown by clients for subscribed feeds
+  stamp?: Date; // DTSTAMP, defaults to now
+}
+
+const PRODID = '-//econnect//Events//EN';
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whether the platform knows the IANA time zone
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock fields of an instant in a time zone
+const wallClock = (date: Date, timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Minutes the time zone is ahead of UTC at the given instant
+const offsetMinutes = (date: Date, timeZone: string): number => {
+  const wall = wallClock(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+// DATE-TIME in UTC form, e.g. 20261019T140000Z
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// DATE-TIME in local form, for use with a TZID parameter
+const formatLocal = (date: Date, timeZone: string): string => {
+  const wall = wallClock(date, timeZone);
+  return (
+    `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}` +
+    `T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`
+  );
+};
+
+// UTC-OFFSET, e.g. +0100 or -0530
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+// TEXT values escape backslashes, separators and line breaks
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+// Parameter values are quoted when they contain separators; DQUOTE itself is
+// not allowed in a parameter value
+const paramValue = (value: string): string => {
+  const clean = value.replace(/["\r\n]/g, '');
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+// Fold a content line into lines of at most 75 octets, never splitting a
+// UTF-8 character
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+// Offset changes of a time zone between two instants, to the minute
+const findTransitions = (timeZone: string, from: Date, to: Date) => {
+  const transitions: { at: Date; offsetFrom: number; offsetTo: number }[] = [];
+  let previous = from.getTime();
+  let previousOffset = offsetMinutes(from, timeZone);
+
+  for (let time = previous + DAY_MS; time <= to.getTime() + DAY_MS; time += DAY_MS) {
+    const offset = offsetMinutes(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      // Narrow down to the minute the offset changed
+      let low = previous;
+      let high = time;
+      while (high - low > 60 * 1000) {
+        const middle = low + Math.floor((high - low) / 2 / 60000) * 60000;
+        if (offsetMinutes(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+    previous = time;
+  }
+  return transitions;
+};
+
+// VTIMEZONE covering every year the events touch. Each offset change is its
+// own observance, so no recurrence rules are needed for the zone itself.
+const buildTimeZone = (timeZone: string, from: Date, to: Date): string[] => {
+  const rangeStart = new Date(Date.UTC(from.getUTCFullYear(), 0, 1));
+  const rangeEnd = new Date(Date.UTC(to.getUTCFullYear() + 1, 0, 1));
+  const initialOffset = offsetMinutes(rangeStart, timeZone);
+  const transitions = findTransitions(timeZone, rangeStart, rangeEnd);
+  const standardOffset = Math.min(initialOffset, ...transitions.map((change) => change.offsetTo));
+
+  // DTSTART of an observance is the local time before the change
+  const observance = (at: Date, offsetFrom: number, offsetTo: number): string[] => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtc(new Date(at.getTime() + offsetFrom * 60000)).replace('Z', '')}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(rangeStart, initialOffset, initialOffset),
+    ...transitions.flatMap((change) => observance(change.at, change.offsetFrom, change.offsetTo)),
+    'END:VTIMEZONE',
+  ];
+};
+
+const personLine = (property: 'ORGANIZER' | 'ATTENDEE', person: CalendarPerson, params = '') =>
+  `${property};CN=${paramValue(person.name || person.email)}${params}:mailto:${person.email}`;
+
+const buildEvent = (event: CalendarEvent, options: CalendarOptions, stamp: Date): string[] => {
+  const { timeZone } = options;
+  const local = (property: string, date: Date) =>
+    `${property};TZID=${timeZone}:${formatLocal(date, timeZone)}`;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    ...(event.recurrenceId ? [local('RECURRENCE-ID', event.recurrenceId)] : []),
+    local('DTSTART', event.start),
+    local('DTEND', event.end),
+    ...(event.rrule && !event.recurrenceId ? [`RRULE:${event.rrule}`] : []),
+    ...(event.exdates && event.exdates.length > 0 && !event.recurrenceId
+      ? [
+          `EXDATE;TZID=${timeZone}:${event.exdates
+            .map((date) => formatLocal(date, timeZone))
+            .join(',')}`,
+        ]
+      : []),
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    `LOCATION:${escapeText(event.url)}`,
+    `URL:${event.url}`,
+    `STATUS:${event.status}`,
+    `SEQUENCE:${event.sequence}`,
+    ...(event.organizer ? [personLine('ORGANIZER', event.organizer)] : []),
+    ...event.attendees.map((attendee) =>
+      personLine(
+        'ATTENDEE',
+        attendee,
+        `;ROLE=REQ-PARTICIPANT;PARTSTAT=${attendee.status};RSVP=${
+          attendee.status === 'NEEDS-ACTION' ? 'TRUE' : 'FALSE'
+        }`
+      )
+    ),
+    'END:VEVENT',
+  ];
+};
+
+// A complete VCALENDAR object with CRLF line endings
+const buildCalendar = (events: CalendarEvent[], options: CalendarOptions): string => {
+  const stamp = options.stamp || new Date();
+  const times = events.flatMap((event) => [
+    event.start,
+    event.end,
+    ...(event.exdates || []),
+    ...(event.recurrenceId ? [event.recurrenceId] : []),
+  ]);
+  const from = new Date(Math.min(stamp.getTime(), ...times.map((time) => time.getTime())));
+  const to = new Date(Math.max(stamp.getTime(), ...times.map((time) => time.getTime())));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method}`,
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...(options.method === 'PUBLISH' ? ['REFRESH-INTERVAL;VALUE=DURATION:PT1H'] : []),
+    ...(events.length > 0 ? buildTimeZone(options.timeZone, from, to) : []),
+    ...events.flatMap((event) => buildEvent(event, options, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export {
+  isValidTimeZone,
+  offsetMinutes,
+  formatUtc,
+  formatLocal,
+  escapeText,
+  foldLine,
+  buildCalendar,
+};
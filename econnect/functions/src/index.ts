@@ -0,0 +1,16 @@
+export { generateJitsiToken } from './jitsiToken';
+export {
+  createRecordingUploadUrl,
+  createRecordingDownloadUrl,
+  createRecordingDeleteUrl,
+} from './recordingStorage';
+export { onMeetingEnded, onAttendanceWritten } from './meetingAnalytics';
+export { onEventMembershipChanged, onMeetingMembershipChanged } from './membershipSync';
+export { onEventWaitlistChanged } from './waitlistPromotion';
+export { exportEventCalendar, getCalendarFeedUrl, calendarFeed } from './calendarFeeds';
+export { onEventCalendarChanged, onOccurrenceCalendarChanged } from './calendarInvites';
+export { onServiceRequestBookingChanged } from './bookingSync';
+export { bookServiceSlot } from './slotBooking';
+export { onServiceRequestAccepted } from './serviceRooms';
+export { onEventAudited } from './eventAuditLog';
+export { onMeetingLiveChanged } from './liveEvents';
@@ -0,0 +1,54 @@
+import * as jwt from 'jsonwebtoken';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineSecret, defineString } from 'firebase-functions/params';
+import { buildJitsiClaims, grantsModerator, toSeconds } from './roomAccess';
+import { getUserRecord, resolveRoomAccess } from './rooms';
+
+const jitsiAppId = defineString('JITSI_APP_ID', { default: 'econnect' });
+const jitsiDomain = defineString('JITSI_DOMAIN', { default: 'meet.jitsi' });
+const jitsiAppSecret = defineSecret('JITSI_APP_SECRET');
+
+interface GenerateJitsiTokenRequest {
+  roomName: string;
+  isModerator?: boolean;
+}
+
+// Callable: issue a Jitsi JWT for a room the caller participates in
+const generateJitsiToken = onCall<GenerateJitsiTokenRequest>(
+  { secrets: [jitsiAppSecret] },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'You must be signed in to join a meeting');
+    }
+
+    const { roomName, isModerator = false } = request.data || ({} as GenerateJitsiTokenRequest);
+    if (typeof roomName !== 'string' || !roomName.trim()) {
+      throw new HttpsError('invalid-argument', 'roomName is required');
+    }
+
+    const user = await getUserRecord(request.auth.uid);
+    const access = await resolveRoomAccess(roomName, user);
+
+    const claims = buildJitsiClaims({
+      roomName,
+      user,
+      event: access.event,
+      moderator: grantsModerator(access, user, isModerator),
+      appId: jitsiAppId.value(),
+      domain: jitsiDomain.value(),
+    });
+
+    if (claims.exp <= toSeconds(new Date())) {
+      throw new HttpsError('failed-precondition', 'This event has already ended');
+    }
+
+    const token = jwt.sign(claims, jitsiAppSecret.value(), {
+      algorithm: 'HS256',
+      header: { alg: 'HS256', typ: 'JWT' },
+    });
+
+    return { token, expiresAt: claims.exp };
+  }
+);
+
+export { generateJitsiToken };
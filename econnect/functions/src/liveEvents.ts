@@ -0,0 +1,44 @@
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { db } from './admin';
+
+const isLiveMeeting = (data: FirebaseFirestore.DocumentData | undefined): boolean =>
+  data?.status === 'live';
+
+// Set the event's isLive flag from whether any of its meetings is live. Counts
+// in a transaction so two sessions starting or ending at once agree.
+const syncEventLive = async (eventId: string): Promise<boolean> => {
+  const eventRef = db.collection('events').doc(eventId);
+
+  return db.runTransaction(async (transaction) => {
+    const [event, live] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(
+        db
+          .collection('meetings')
+          .where('eventId', '==', eventId)
+          .where('status', '==', 'live')
+          .limit(1)
+      ),
+    ]);
+    const isLive = !live.empty;
+    if (event.exists && event.get('isLive') !== isLive) {
+      transaction.update(eventRef, { isLive });
+    }
+    return isLive;
+  });
+};
+
+// Trigger: keep "live now" in discovery in step with meetings going live and
+// ending, whichever occurrence of the event it is
+const onMeetingLiveChanged = onDocumentWritten('meetings/{meetingId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (isLiveMeeting(before) === isLiveMeeting(after)) return;
+
+  const eventId = (after || before)?.eventId;
+  if (typeof eventId === 'string' && eventId) {
+    await syncEventLive(eventId);
+  }
+});
+
+export { syncEventLive, onMeetingLiveChanged };
@@ -0,0 +1,112 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentUpdated, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions/v2';
+import { db } from './admin';
+import {
+  computeMeetingAnalytics,
+  AttendanceRecord,
+  MeetingAnalyticsRecord,
+  MeetingRecord,
+} from './analytics';
+import { toDate } from './values';
+
+const isEnded = (data: FirebaseFirestore.DocumentData | undefined): boolean =>
+  !!data && (data.status === 'ended' || (!data.status && !!data.endTime));
+
+const toAttendanceRecord = (data: FirebaseFirestore.DocumentData): AttendanceRecord | null => {
+  const joinTime = toDate(data.joinTime);
+  if (!data.userId || !joinTime) return null;
+
+  return {
+    userId: data.userId,
+    displayName: data.displayName || 'Anonymous',
+    role: data.role === 'moderator' ? 'moderator' : 'viewer',
+    joinTime,
+    leaveTime: toDate(data.leaveTime),
+    lastSeen: toDate(data.lastSeen),
+  };
+};
+
+// Attendance intervals for a meeting. Meetings from before the attendance
+// subcollection kept a single join/leave per participant on the document.
+const loadAttendance = async (
+  meetingId: string,
+  meeting: FirebaseFirestore.DocumentData
+): Promise<AttendanceRecord[]> => {
+  const attendanceSnapshot = await db
+    .collection('meetings')
+    .doc(meetingId)
+    .collection('attendance')
+    .get();
+
+  const source: FirebaseFirestore.DocumentData[] = attendanceSnapshot.empty
+    ? (Array.isArray(meeting.participants) ? meeting.participants : []).filter(
+        (participant: unknown) => !!participant && typeof participant === 'object'
+      )
+    : attendanceSnapshot.docs.map((intervalDoc) => intervalDoc.data());
+
+  return source
+    .map(toAttendanceRecord)
+    .filter((record): record is AttendanceRecord => record !== null);
+};
+
+// Recompute meetingAnalytics/{meetingId} from scratch. The document is
+// overwritten on every run (only createdAt survives), so it is safe to call
+// as often as needed.
+const aggregateMeeting = async (meetingId: string): Promise<MeetingAnalyticsRecord | null> => {
+  const meetingRef = db.collection('meetings').doc(meetingId);
+  const meetingDoc = await meetingRef.get();
+  if (!meetingDoc.exists) {
+    logger.warn(`Meeting ${meetingId} not found, skipping analytics`);
+    return null;
+  }
+
+  const data = meetingDoc.data()!;
+  const meeting: MeetingRecord = {
+    id: meetingId,
+    eventId: data.eventId,
+    title: data.title,
+    hostId: data.hostId,
+    startTime: toDate(data.startTime),
+    startedAt: toDate(data.startedAt),
+    endTime: toDate(data.endTime),
+  };
+
+  const analytics = computeMeetingAnalytics(meeting, await loadAttendance(meetingId, data));
+  const analyticsRef = db.collection('meetingAnalytics').doc(meetingId);
+
+  await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(analyticsRef);
+    transaction.set(analyticsRef, {
+      ...analytics,
+      createdAt: existing.exists ? existing.data()!.createdAt : FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  return analytics;
+};
+
+// Trigger: aggregate once a meeting ends
+const onMeetingEnded = onDocumentUpdated('meetings/{meetingId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+
+  if (!isEnded(before) && isEnded(after)) {
+    await aggregateMeeting(event.params.meetingId);
+  }
+});
+
+// Trigger: refresh analytics when an ended meeting's attendance changes, e.g.
+// when the host closes intervals of participants who dropped out
+const onAttendanceWritten = onDocumentWritten(
+  'meetings/{meetingId}/attendance/{intervalId}',
+  async (event) => {
+    const meetingDoc = await db.collection('meetings').doc(event.params.meetingId).get();
+    if (isEnded(meetingDoc.data())) {
+      await aggregateMeeting(event.params.meetingId);
+    }
+  }
+);
+
+export { isEnded, aggregateMeeting, onMeetingEnded, onAttendanceWritten };
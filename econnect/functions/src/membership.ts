@@ -0,0 +1,111 @@
+// The eventMembers and meetingMembers indexes, shared by the triggers and
+// the backfill script.
+import { DocumentData, isSameValue } from './values';
+
+export interface MembershipPlan {
+  upserts: string[]; // user IDs whose membership document must be (re)written
+  removals: string[]; // user IDs whose membership document must be deleted
+}
+
+// Event fields copied onto every membership so "my events" lists need no
+// second read. A change to any of them rewrites every member's document.
+const EVENT_SUMMARY_FIELDS = [
+  'title',
+  'description',
+  'startTime',
+  'endTime',
+  'recurrenceEndTime',
+  'isPublic',
+  'status',
+  'createdBy',
+] as const;
+
+const MEETING_SUMMARY_FIELDS = ['eventId', 'title', 'startTime', 'status', 'sessionNumber'] as const;
+
+// Membership documents are keyed by parent and user so joins are idempotent
+const membershipId = (parentId: string, userId: string): string => `${parentId}_${userId}`;
+
+// Participant entries are user IDs; some early events stored { userId } objects
+const toMemberIds = (participants: unknown): string[] => {
+  if (!Array.isArray(participants)) return [];
+
+  const ids = participants
+    .map((entry) => (entry && typeof entry === 'object' ? entry.userId : entry))
+    .filter((id): id is string => typeof id === 'string' && id.length > 0);
+  return Array.from(new Set(ids));
+};
+
+// The host is a member of their own event even if they left the participant list
+const eventMemberIds = (event: DocumentData | undefined): string[] => {
+  if (!event) return [];
+  const ids = toMemberIds(event.participants);
+  return typeof event.createdBy === 'string' && !ids.includes(event.createdBy)
+    ? [event.createdBy, ...ids]
+    : ids;
+};
+
+const meetingMemberIds = (meeting: DocumentData | undefined): string[] =>
+  meeting ? toMemberIds(meeting.participants) : [];
+
+const summaryChanged = (
+  before: DocumentData | undefined,
+  after: DocumentData | undefined,
+  fields: readonly string[]
+): boolean => {
+  if (!before || !after) return before !== after;
+  return fields.some((field) => !isSameValue(before[field], after[field]));
+};
+
+// Work out which membership documents a write to the parent document touches.
+// Only joiners and leavers are written unless the copied summary changed.
+const planMembershipSync = (
+  beforeMembers: string[],
+  afterMembers: string[],
+  rewriteAll: boolean
+): MembershipPlan => {
+  const previous = new Set(beforeMembers);
+  const current = new Set(afterMembers);
+
+  return {
+    upserts: afterMembers.filter((userId) => rewriteAll || !previous.has(userId)),
+    removals: beforeMembers.filter((userId) => !current.has(userId)),
+  };
+};
+
+const pick = (data: DocumentData, fields: readonly string[]): DocumentData =>
+  fields.reduce<DocumentData>((result, field) => {
+    if (data[field] !== undefined) result[field] = data[field];
+    return result;
+  }, {});
+
+// endsAt is when the event's last occurrence ends, so feeds can keep a
+// recurring series until it's over rather than until its first occurrence ages
+const eventMembershipRecord = (eventId: string, event: DocumentData, userId: string) => {
+  const endsAt = event.recurrenceEndTime || event.endTime;
+  return {
+    ...pick(event, EVENT_SUMMARY_FIELDS),
+    ...(endsAt ? { endsAt } : {}),
+    eventId,
+    userId,
+    role: event.createdBy === userId ? 'host' : 'participant',
+  };
+};
+
+const meetingMembershipRecord = (meetingId: string, meeting: DocumentData, userId: string) => ({
+  ...pick(meeting, MEETING_SUMMARY_FIELDS),
+  meetingId,
+  userId,
+});
+
+export {
+  EVENT_SUMMARY_FIELDS,
+  MEETING_SUMMARY_FIELDS,
+  membershipId,
+  toMemberIds,
+  eventMemberIds,
+  meetingMemberIds,
+  summaryChanged,
+  planMembershipSync,
+  eventMembershipRecord,
+  meetingMembershipRecord,
+};
@@ -0,0 +1,106 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { db } from './admin';
+import {
+  EVENT_SUMMARY_FIELDS,
+  MEETING_SUMMARY_FIELDS,
+  membershipId,
+  eventMemberIds,
+  meetingMemberIds,
+  summaryChanged,
+  planMembershipSync,
+  eventMembershipRecord,
+  meetingMembershipRecord,
+} from './membership';
+
+type DocumentData = FirebaseFirestore.DocumentData;
+
+interface MembershipIndex {
+  collection: string;
+  summaryFields: readonly string[];
+  memberIds: (data: DocumentData | undefined) => string[];
+  record: (parentId: string, data: DocumentData, userId: string) => DocumentData;
+}
+
+const EVENT_MEMBERS: MembershipIndex = {
+  collection: 'eventMembers',
+  summaryFields: EVENT_SUMMARY_FIELDS,
+  memberIds: eventMemberIds,
+  record: eventMembershipRecord,
+};
+
+const MEETING_MEMBERS: MembershipIndex = {
+  collection: 'meetingMembers',
+  summaryFields: MEETING_SUMMARY_FIELDS,
+  memberIds: meetingMemberIds,
+  record: meetingMembershipRecord,
+};
+
+// Bring a parent document's membership index in line with a write to it.
+// Pass before as undefined to (re)write every current member, e.g. in a backfill.
+const syncMemberships = async (
+  index: MembershipIndex,
+  parentId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Promise<number> => {
+  const plan = planMembershipSync(
+    index.memberIds(before),
+    index.memberIds(after),
+    summaryChanged(before, after, index.summaryFields)
+  );
+  if (plan.upserts.length === 0 && plan.removals.length === 0) return 0;
+
+  const writer = db.bulkWriter();
+  const collection = db.collection(index.collection);
+
+  plan.upserts.forEach((userId) => {
+    writer.set(collection.doc(membershipId(parentId, userId)), {
+      ...index.record(parentId, after!, userId),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+  plan.removals.forEach((userId) => {
+    writer.delete(collection.doc(membershipId(parentId, userId)));
+  });
+
+  await writer.close();
+  return plan.upserts.length + plan.removals.length;
+};
+
+const syncEventMemberships = (
+  eventId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+) => syncMemberships(EVENT_MEMBERS, eventId, before, after);
+
+const syncMeetingMemberships = (
+  meetingId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+) => syncMemberships(MEETING_MEMBERS, meetingId, before, after);
+
+// Trigger: keep eventMembers in sync as users join, leave and hosts edit events
+const onEventMembershipChanged = onDocumentWritten('events/{eventId}', async (event) => {
+  await syncEventMemberships(
+    event.params.eventId,
+    event.data?.before.data(),
+    event.data?.after.data()
+  );
+});
+
+// Trigger: keep meetingMembers in sync as attendees are added to meetings
+const onMeetingMembershipChanged = onDocumentWritten('meetings/{meetingId}', async (event) => {
+  await syncMeetingMemberships(
+    event.params.meetingId,
+    event.data?.before.data(),
+    event.data?.after.data()
+  );
+});
+
+export {
+  syncEventMemberships,
+  syncMeetingMemberships,
+  onEventMembershipChanged,
+  onMeetingMembershipChanged,
+};
@@ -0,0 +1,27 @@
+// Where recordings live in the bucket. Every key sits under its owner's
+// prefix, so a recording can only ever point at a file its owner uploaded.
+
+const ownerPrefix = (ownerId: string): string => `recordings/${ownerId}/`;
+
+const recordingKeyFor = (
+  ownerId: string,
+  eventId: string,
+  meetingId: string,
+  fileName: string,
+  uniqueId: string
+): string => {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : 'mp4';
+  return `${ownerPrefix(ownerId)}${eventId}/${meetingId}/${uniqueId}.${extension}`;
+};
+
+// Rejects keys outside the owner's prefix and any that climb out of it
+const isOwnedRecordingKey = (key: unknown, ownerId: unknown): key is string =>
+  typeof key === 'string' &&
+  typeof ownerId === 'string' &&
+  !!ownerId &&
+  !ownerId.includes('/') &&
+  key.startsWith(ownerPrefix(ownerId)) &&
+  key.length > ownerPrefix(ownerId).length &&
+  !key.split('/').some((segment) => segment === '..' || segment === '.' || segment === '');
+
+export { recordingKeyFor, isOwnedRecordingKey };
@@ -0,0 +1,183 @@
+import { randomUUID } from 'crypto';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { FieldValue } from 'firebase-admin/firestore';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { defineSecret, defineString } from 'firebase-functions/params';
+import { db } from './admin';
+import { isOwnedRecordingKey, recordingKeyFor } from './recordingKeys';
+import { getUserRecord } from './rooms';
+
+const s3Bucket = defineString('S3_BUCKET', { default: 'econnect-recordings' });
+const s3Region = defineString('S3_REGION', { default: 'us-east-1' });
+// Set S3_ENDPOINT (e.g. http://localhost:9000) to use MinIO or another S3-compatible store
+const s3Endpoint = defineString('S3_ENDPOINT', { default: '' });
+const s3AccessKeyId = defineSecret('S3_ACCESS_KEY_ID');
+const s3SecretAccessKey = defineSecret('S3_SECRET_ACCESS_KEY');
+
+const UPLOAD_URL_TTL_SECONDS = 15 * 60;
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+const DELETE_URL_TTL_SECONDS = 5 * 60;
+
+const ALLOWED_CONTENT_TYPES = /^(video|audio)\//;
+
+let client: S3Client | null = null;
+
+const getS3Client = (): S3Client => {
+  if (!client) {
+    const endpoint = s3Endpoint.value();
+    client = new S3Client({
+      region: s3Region.value(),
+      credentials: {
+        accessKeyId: s3AccessKeyId.value(),
+        secretAccessKey: s3SecretAccessKey.value(),
+      },
+      ...(endpoint ? { endpoint, forcePathStyle: true } : {}),
+    });
+  }
+  return client;
+};
+
+// Plain object URL, stored on the Recording for reference; access still needs a signed URL
+const getObjectUrl = (key: string): string => {
+  const endpoint = s3Endpoint.value();
+  return endpoint
+    ? `${endpoint.replace(/\/$/, '')}/${s3Bucket.value()}/${key}`
+    : `https://${s3Bucket.value()}.s3.${s3Region.value()}.amazonaws.com/${key}`;
+};
+
+const requireAuth = (request: CallableRequest<unknown>): string => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in to manage recordings');
+  }
+  return request.auth.uid;
+};
+
+// Load a recording and make sure the caller owns it (admins may access any recording)
+const getOwnedRecording = async (uid: string, recordingId: unknown) => {
+  if (typeof recordingId !== 'string' || !recordingId) {
+    throw new HttpsError('invalid-argument', 'recordingId is required');
+  }
+
+  const recordingDoc = await db.collection('recordings').doc(recordingId).get();
+  if (!recordingDoc.exists) {
+    throw new HttpsError('not-found', 'Recording not found');
+  }
+
+  const recording = recordingDoc.data()!;
+  if (recording.ownerId !== uid) {
+    const user = await getUserRecord(uid);
+    if (user.role !== 'admin') {
+      throw new HttpsError('permission-denied', 'You do not own this recording');
+    }
+  }
+
+  if (typeof recording.s3Key !== 'string' || !recording.s3Key) {
+    throw new HttpsError('failed-precondition', 'Recording has no stored file');
+  }
+  if (!isOwnedRecordingKey(recording.s3Key, recording.ownerId)) {
+    throw new HttpsError('permission-denied', 'Recording file is outside its owner\'s storage');
+  }
+
+  return { id: recordingDoc.id, s3Key: recording.s3Key };
+};
+
+interface UploadUrlRequest {
+  eventId: string;
+  meetingId: string;
+  fileName: string;
+  contentType: string;
+}
+
+// Callable: pre-signed PUT URL for a new recording of a meeting the caller hosts.
+// The recording document is created here so its file key is never client-supplied;
+// the uploader fills in the probed details once the upload finishes.
+const createRecordingUploadUrl = onCall<UploadUrlRequest>(
+  { secrets: [s3AccessKeyId, s3SecretAccessKey] },
+  async (request) => {
+    const uid = requireAuth(request);
+    const { eventId, meetingId, fileName, contentType } = request.data || ({} as UploadUrlRequest);
+
+    if (!eventId || !meetingId || !fileName) {
+      throw new HttpsError('invalid-argument', 'eventId, meetingId and fileName are required');
+    }
+    if (typeof contentType !== 'string' || !ALLOWED_CONTENT_TYPES.test(contentType)) {
+      throw new HttpsError('invalid-argument', 'Only audio and video recordings can be uploaded');
+    }
+
+    const meetingDoc = await db.collection('meetings').doc(meetingId).get();
+    if (!meetingDoc.exists || meetingDoc.data()!.eventId !== eventId) {
+      throw new HttpsError('not-found', 'Meeting not found');
+    }
+    if (meetingDoc.data()!.hostId !== uid) {
+      const user = await getUserRecord(uid);
+      if (user.role !== 'admin') {
+        throw new HttpsError('permission-denied', 'Only the meeting host can upload recordings');
+      }
+    }
+
+    const key = recordingKeyFor(uid, eventId, meetingId, fileName, randomUUID());
+
+    const uploadUrl = await getSignedUrl(
+      getS3Client(),
+      new PutObjectCommand({ Bucket: s3Bucket.value(), Key: key, ContentType: contentType }),
+      { expiresIn: UPLOAD_URL_TTL_SECONDS }
+    );
+
+    const url = getObjectUrl(key);
+    const recordingRef = await db.collection('recordings').add({
+      meetingId,
+      eventId,
+      ownerId: uid,
+      fileType: contentType,
+      url,
+      s3Key: key,
+      startTime: FieldValue.serverTimestamp(),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { recordingId: recordingRef.id, uploadUrl, key, url };
+  }
+);
+
+// Callable: pre-signed GET URL for a recording the caller owns
+const createRecordingDownloadUrl = onCall<{ recordingId: string }>(
+  { secrets: [s3AccessKeyId, s3SecretAccessKey] },
+  async (request) => {
+    const uid = requireAuth(request);
+    const { s3Key } = await getOwnedRecording(uid, request.data?.recordingId);
+
+    const downloadUrl = await getSignedUrl(
+      getS3Client(),
+      new GetObjectCommand({ Bucket: s3Bucket.value(), Key: s3Key }),
+      { expiresIn: DOWNLOAD_URL_TTL_SECONDS }
+    );
+
+    return { downloadUrl };
+  }
+);
+
+// Callable: pre-signed DELETE URL for a recording the caller owns
+const createRecordingDeleteUrl = onCall<{ recordingId: string }>(
+  { secrets: [s3AccessKeyId, s3SecretAccessKey] },
+  async (request) => {
+    const uid = requireAuth(request);
+    const { s3Key } = await getOwnedRecording(uid, request.data?.recordingId);
+
+    const deleteUrl = await getSignedUrl(
+      getS3Client(),
+      new DeleteObjectCommand({ Bucket: s3Bucket.value(), Key: s3Key }),
+      { expiresIn: DELETE_URL_TTL_SECONDS }
+    );
+
+    return { deleteUrl };
+  }
+);
+
+export { createRecordingUploadUrl, createRecordingDownloadUrl, createRecordingDeleteUrl };
@@ -0,0 +1,120 @@
+// Who may enter a meeting room, and the Jitsi claims they enter with
+import { HttpsError } from 'firebase-functions/v2/https';
+import type { EventRecord, UserRecord } from './rooms';
+
+// Let people into the room a little before the event starts and linger after it ends
+const EARLY_JOIN_SECONDS = 15 * 60;
+const LATE_LEAVE_SECONDS = 60 * 60;
+
+export interface RoomAccess {
+  event: EventRecord;
+  isHost: boolean;
+  isCoHost: boolean;
+  isParticipant: boolean;
+}
+
+export interface JitsiTokenClaims {
+  aud: 'jitsi';
+  iss: string;
+  sub: string;
+  room: string;
+  nbf: number;
+  exp: number;
+  moderator: boolean;
+  context: {
+    user: {
+      id: string;
+      name: string;
+      email: string;
+      avatar: string;
+      moderator: 'true' | 'false';
+    };
+    features: Record<'recording' | 'livestreaming' | 'transcription' | 'outbound-call', 'true' | 'false'>;
+  };
+}
+
+const toSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+// When one occurrence of a series runs; its room is open for just that long
+export interface OccurrenceWindow {
+  eventId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+// The occurrence whose room is open at now, or else the next one to open
+const currentOccurrence = <T extends OccurrenceWindow>(occurrences: T[], now: Date): T | null =>
+  occurrences
+    .filter((occurrence) => toSeconds(occurrence.endTime) + LATE_LEAVE_SECONDS >= toSeconds(now))
+    .reduce<T | null>(
+      (next, occurrence) => (!next || occurrence.startTime < next.startTime ? occurrence : next),
+      null
+    );
+
+// Check that the user belongs to the event's room; admins may enter any room
+// of an event that hasn't been cancelled
+const checkRoomAccess = (event: EventRecord, user: UserRecord): RoomAccess => {
+  if (event.status === 'cancelled') {
+    throw new HttpsError('failed-precondition', 'This event has been cancelled');
+  }
+
+  const isHost = event.createdBy === user.id;
+  const isCoHost = !isHost && event.coHosts.includes(user.id);
+  const isParticipant = isHost || event.participants.includes(user.id);
+
+  if (!isParticipant && user.role !== 'admin') {
+    throw new HttpsError('permission-denied', 'You are not a participant of this room');
+  }
+
+  return { event, isHost, isCoHost, isParticipant };
+};
+
+// Only hosts, co-hosts and admins get the moderator rights they ask for
+const grantsModerator = (access: RoomAccess, user: UserRecord, requested: boolean): boolean =>
+  requested && (access.isHost || access.isCoHost || user.role === 'admin');
+
+// Build the claims Jitsi's token authentication expects
+const buildJitsiClaims = ({
+  roomName,
+  user,
+  event,
+  moderator,
+  appId,
+  domain,
+}: {
+  roomName: string;
+  user: UserRecord;
+  event: EventRecord;
+  moderator: boolean;
+  appId: string;
+  domain: string;
+}): JitsiTokenClaims => {
+  const flag = (value: boolean) => (value ? 'true' : 'false');
+
+  return {
+    aud: 'jitsi',
+    iss: appId,
+    sub: domain,
+    room: roomName,
+    nbf: toSeconds(event.startTime) - EARLY_JOIN_SECONDS,
+    exp: toSeconds(event.endTime) + LATE_LEAVE_SECONDS,
+    moderator,
+    context: {
+      user: {
+        id: user.id,
+        name: user.displayName || user.email || 'Anonymous',
+        email: user.email || '',
+        avatar: user.photoURL || '',
+        moderator: flag(moderator),
+      },
+      features: {
+        recording: flag(moderator),
+        livestreaming: flag(moderator),
+        transcription: flag(moderator),
+        'outbound-call': 'false',
+      },
+    },
+  };
+};
+
+export { buildJitsiClaims, checkRoomAccess, currentOccurrence, grantsModerator, toSeconds };
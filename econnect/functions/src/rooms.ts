@@ -0,0 +1,159 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { db } from './admin';
+import { checkRoomAccess, currentOccurrence, OccurrenceWindow, RoomAccess } from './roomAccess';
+import { toServiceSessionRecord } from './serviceSessions';
+import { toDate } from './values';
+
+export interface EventRecord {
+  id: string;
+  title: string;
+  createdBy: string;
+  coHosts: string[];
+  status: 'scheduled' | 'cancelled';
+  participants: string[];
+  startTime: Date;
+  endTime: Date;
+  jitsiRoomName: string;
+}
+
+export interface UserRecord {
+  id: string;
+  email?: string;
+  displayName?: string;
+  photoURL?: string;
+  role: 'admin' | 'user' | 'service-provider';
+}
+
+// Rooms derived from an event ID by the virtual space components
+const BROADCAST_ROOM = /^(.+)-broadcast$/;
+const TABLE_ROOM = /^(.+)-table-[^-]+$/;
+
+// Missing times read as the epoch, which no join window contains
+const readDate = (value: unknown): Date => toDate(value) || new Date(0);
+
+const toEventRecord = (id: string, data: FirebaseFirestore.DocumentData): EventRecord => ({
+  id,
+  title: data.title,
+  createdBy: data.createdBy,
+  coHosts: Array.isArray(data.coHosts) ? data.coHosts : [],
+  status: data.status === 'cancelled' ? 'cancelled' : 'scheduled',
+  participants: Array.isArray(data.participants) ? data.participants : [],
+  startTime: readDate(data.startTime),
+  endTime: readDate(data.endTime),
+  jitsiRoomName: data.jitsiRoomName,
+});
+
+// A series' rooms are open for one occurrence at a time, the one running now
+// or else the next, so the event is read with that occurrence's times rather
+// than those of the whole series. eventDocs are the series, or the parts it
+// was split into; occurrences are the meetings to choose from.
+const toOccurrenceRecord = async (
+  eventDocs: FirebaseFirestore.DocumentSnapshot[],
+  occurrences: FirebaseFirestore.Query
+): Promise<EventRecord> => {
+  const windows: OccurrenceWindow[] = (await occurrences.get()).docs
+    .map((meetingDoc) => meetingDoc.data())
+    .filter((meeting) => meeting.status !== 'cancelled')
+    .map((meeting) => ({
+      eventId: meeting.eventId,
+      startTime: readDate(meeting.startTime),
+      endTime: readDate(meeting.scheduledEndTime || meeting.startTime),
+    }));
+  const occurrence = currentOccurrence(windows, new Date());
+  const eventDoc = occurrence && eventDocs.find((candidate) => candidate.id === occurrence.eventId);
+  if (!occurrence || !eventDoc) {
+    throw new HttpsError('failed-precondition', 'This series has no upcoming occurrences');
+  }
+
+  return {
+    ...toEventRecord(eventDoc.id, eventDoc.data()!),
+    startTime: occurrence.startTime,
+    endTime: occurrence.endTime,
+  };
+};
+
+// Find the event, or service session, a Jitsi room belongs to
+const findEventForRoom = async (roomName: string): Promise<EventRecord | null> => {
+  const byRoom = await db.collection('events').where('jitsiRoomName', '==', roomName).get();
+
+  if (!byRoom.empty) {
+    // A split recurring series keeps its shared room, and so do its occurrences
+    if (byRoom.docs.some((eventDoc) => eventDoc.data().recurrence)) {
+      return toOccurrenceRecord(
+        byRoom.docs,
+        db.collection('meetings').where('jitsiRoomName', '==', roomName)
+      );
+    }
+    return byRoom.docs
+      .map((eventDoc) => toEventRecord(eventDoc.id, eventDoc.data()))
+      .reduce((latest, event) => (event.endTime > latest.endTime ? event : latest));
+  }
+
+  // Occurrences with a room of their own, open for just that occurrence
+  const byOccurrence = await db
+    .collection('meetings')
+    .where('jitsiRoomName', '==', roomName)
+    .limit(1)
+    .get();
+
+  if (!byOccurrence.empty) {
+    const meeting = byOccurrence.docs[0].data();
+    const eventDoc = await db.collection('events').doc(meeting.eventId).get();
+    if (eventDoc.exists) {
+      return {
+        ...toEventRecord(eventDoc.id, eventDoc.data()!),
+        startTime: readDate(meeting.startTime),
+        endTime: readDate(meeting.scheduledEndTime || meeting.startTime),
+      };
+    }
+  }
+
+  // Rooms of accepted service requests, for the provider and requester
+  const byRequest = await db
+    .collection('serviceRequests')
+    .where('jitsiRoomName', '==', roomName)
+    .limit(1)
+    .get();
+
+  if (!byRequest.empty) {
+    const request = byRequest.docs[0];
+    const serviceDoc = await db.collection('services').doc(request.data().serviceId).get();
+    return toServiceSessionRecord(request.id, request.data(), serviceDoc.data()?.title);
+  }
+
+  const derived = roomName.match(BROADCAST_ROOM) || roomName.match(TABLE_ROOM);
+  if (derived) {
+    const eventDoc = await db.collection('events').doc(derived[1]).get();
+    if (eventDoc.exists && eventDoc.data()!.recurrence) {
+      return toOccurrenceRecord(
+        [eventDoc],
+        db.collection('meetings').where('eventId', '==', eventDoc.id)
+      );
+    }
+    if (eventDoc.exists) {
+      return toEventRecord(eventDoc.id, eventDoc.data()!);
+    }
+  }
+
+  return null;
+};
+
+const getUserRecord = async (uid: string): Promise<UserRecord> => {
+  const userDoc = await db.collection('users').doc(uid).get();
+  if (!userDoc.exists) {
+    throw new HttpsError('not-found', 'User profile not found');
+  }
+  return { id: uid, ...userDoc.data() } as UserRecord;
+};
+
+// Resolve a room and check that the user belongs to it
+const resolveRoomAccess = async (roomName: string, user: UserRecord): Promise<RoomAccess> => {
+  const event = await findEventForRoom(roomName);
+  if (!event) {
+    throw new HttpsError('not-found', `No event found for room "${roomName}"`);
+  }
+
+  return checkRoomAccess(event, user);
+};
+
+export { findEventForRoom, getUserRecord, resolveRoomAccess };
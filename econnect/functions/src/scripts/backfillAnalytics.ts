@@ -0,0 +1,39 @@
+// Recompute meetingAnalytics for every ended meeting.
+//
+// Against the emulator:
+//   FIRESTORE_EMULATOR_HOST=localhost:8080 GCLOUD_PROJECT=econnect-1a083 npm run analytics:backfill
+// Pass meeting IDs as arguments to limit the run to those meetings.
+import { db } from '../admin';
+import { aggregateMeeting, isEnded } from '../meetingAnalytics';
+
+const backfillAnalytics = async (meetingIds: string[]): Promise<void> => {
+  const ids =
+    meetingIds.length > 0
+      ? meetingIds
+      : (await db.collection('meetings').get()).docs
+          .filter((meetingDoc) => isEnded(meetingDoc.data()))
+          .map((meetingDoc) => meetingDoc.id);
+
+  let aggregated = 0;
+  for (const meetingId of ids) {
+    try {
+      const analytics = await aggregateMeeting(meetingId);
+      if (analytics) {
+        aggregated++;
+        console.log(
+          `${meetingId}: ${analytics.participantCount} participants, peak ${analytics.peakParticipants}`
+        );
+      }
+    } catch (error) {
+      console.error(`Error aggregating meeting ${meetingId}:`, error);
+      process.exitCode = 1;
+    }
+  }
+
+  console.log(`Aggregated ${aggregated} of ${ids.length} meetings`);
+};
+
+backfillAnalytics(process.argv.slice(2)).catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
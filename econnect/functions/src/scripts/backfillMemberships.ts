@@ -0,0 +1,36 @@
+// Rebuild the eventMembers and meetingMembers indexes from the participant
+// lists on every event and meeting.
+//
+// Against the emulator:
+//   FIRESTORE_EMULATOR_HOST=localhost:8080 GCLOUD_PROJECT=econnect-1a083 npm run memberships:backfill
+import { db } from '../admin';
+import { syncEventMemberships, syncMeetingMemberships } from '../membershipSync';
+
+const backfillCollection = async (
+  collection: string,
+  sync: (id: string, before: undefined, after: FirebaseFirestore.DocumentData) => Promise<number>
+): Promise<void> => {
+  const snapshot = await db.collection(collection).get();
+
+  let written = 0;
+  for (const parentDoc of snapshot.docs) {
+    try {
+      written += await sync(parentDoc.id, undefined, parentDoc.data());
+    } catch (error) {
+      console.error(`Error syncing members of ${collection}/${parentDoc.id}:`, error);
+      process.exitCode = 1;
+    }
+  }
+
+  console.log(`${collection}: wrote ${written} memberships for ${snapshot.size} documents`);
+};
+
+const backfillMemberships = async (): Promise<void> => {
+  await backfillCollection('events', syncEventMemberships);
+  await backfillCollection('meetings', syncMeetingMemberships);
+};
+
+backfillMemberships().catch((error) => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import { randomBytes } from 'crypto';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions/v2';
+import { db } from './admin';
+import { needsSessionRoom } from './serviceSessions';
+
+// Trigger: give an accepted service request its own Jitsi room. Clients
+// can't set the room themselves, so only the provider and requester can get
+// a token for it (see rooms.ts).
+const onServiceRequestAccepted = onDocumentWritten('serviceRequests/{requestId}', async (event) => {
+  if (!needsSessionRoom(event.data?.after.data())) return;
+
+  const requestId = event.params.requestId;
+  const requestRef = db.collection('serviceRequests').doc(requestId);
+  const roomName = `service-${requestId}-${randomBytes(4).toString('hex')}`;
+
+  // Re-check in a transaction so a retried trigger doesn't replace the room
+  const provisioned = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(requestRef);
+    if (!needsSessionRoom(snapshot.data())) return false;
+
+    transaction.update(requestRef, { jitsiRoomName: roomName });
+    return true;
+  });
+
+  if (provisioned) {
+    logger.info('Provisioned service session room', { requestId, roomName });
+  }
+});
+
+export { onServiceRequestAccepted };
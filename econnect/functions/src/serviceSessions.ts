@@ -0,0 +1,39 @@
+// Meeting rooms of accepted service requests
+import type { EventRecord } from './rooms';
+import { DEFAULT_BOOKING_MINUTES } from './booking';
+import { DocumentData, toDate, toOptionalString } from './values';
+
+// Accepted requests get a room once; it's kept if the request is later
+// completed or cancelled so the record stays intact
+const needsSessionRoom = (data: DocumentData | undefined): boolean =>
+  !!data && data.status === 'accepted' && !data.jitsiRoomName;
+
+// A service request's room seen as an event, so room access and Jitsi tokens
+// work the same way: the provider hosts, the requester takes part, and the
+// room is open for the scheduled session only while the request is accepted
+const toServiceSessionRecord = (
+  id: string,
+  data: DocumentData,
+  title: string = 'Service session'
+): EventRecord => {
+  const start = toDate(data.scheduledTime) || toDate(data.respondedAt) || new Date(0);
+  const end =
+    toDate(data.scheduledEndTime) || new Date(start.getTime() + DEFAULT_BOOKING_MINUTES * 60000);
+
+  const providerId = toOptionalString(data.providerId) || '';
+  const requesterId = toOptionalString(data.requesterId) || '';
+
+  return {
+    id,
+    title,
+    createdBy: providerId,
+    coHosts: [],
+    status: data.status === 'accepted' ? 'scheduled' : 'cancelled',
+    participants: [providerId, requesterId].filter(Boolean),
+    startTime: start,
+    endTime: end,
+    jitsiRoomName: toOptionalString(data.jitsiRoomName) || '',
+  };
+};
+
+export { needsSessionRoom, toServiceSessionRecord };
@@ -0,0 +1,124 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { db } from './admin';
+import {
+  BookedTime,
+  bookingIdFor,
+  findOverlappingBooking,
+  isOfferedSlot,
+  slotSettings,
+  toBookedTime,
+} from './booking';
+import { isValidTimeZone } from './ical';
+
+// Longest message a requester can attach to a booking
+const MAX_MESSAGE_LENGTH = 1000;
+
+interface BookServiceSlotRequest {
+  serviceId: string;
+  startTime: number; // epoch millis
+  message?: string;
+  timeZone?: string; // the requester's zone, for services saved without one
+}
+
+// Callable: request a service for one of its slots. The slot must still be
+// offered by the service's availability, and may not clash with any booking
+// of the provider, on this or their other services, including the buffer
+// between sessions. The request and the booking are written in the same
+// transaction as the check. Fails with already-exists when the slot is taken
+// and failed-precondition when it's no longer offered.
+const bookServiceSlot = onCall<BookServiceSlotRequest>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in to book a service');
+  }
+  const uid = request.auth.uid;
+
+  const { serviceId, startTime, message, timeZone } =
+    request.data || ({} as BookServiceSlotRequest);
+  if (typeof serviceId !== 'string' || !serviceId) {
+    throw new HttpsError('invalid-argument', 'serviceId is required');
+  }
+  if (typeof startTime !== 'number' || !Number.isFinite(startTime)) {
+    throw new HttpsError('invalid-argument', 'startTime is required');
+  }
+  if (
+    message !== undefined &&
+    (typeof message !== 'string' || message.length > MAX_MESSAGE_LENGTH)
+  ) {
+    throw new HttpsError(
+      'invalid-argument',
+      `message must be at most ${MAX_MESSAGE_LENGTH} characters`
+    );
+  }
+
+  const start = new Date(startTime);
+  if (start <= new Date()) {
+    throw new HttpsError('failed-precondition', 'This slot has already started');
+  }
+
+  const serviceRef = db.collection('services').doc(serviceId);
+  return db.runTransaction(async (transaction) => {
+    const serviceDoc = await transaction.get(serviceRef);
+    const service = serviceDoc.data();
+    if (!service || !service.isActive) {
+      throw new HttpsError('not-found', 'This service is no longer available');
+    }
+    if (service.providerId === uid) {
+      throw new HttpsError('permission-denied', 'You cannot book your own service');
+    }
+
+    const availability = service.availability || {};
+    const { slotMinutes, bufferMinutes } = slotSettings(availability);
+    const slot = { startTime: start, endTime: new Date(startTime + slotMinutes * 60000) };
+    const zone: string =
+      [availability.timeZone, timeZone].find(
+        (candidate) => typeof candidate === 'string' && isValidTimeZone(candidate)
+      ) || 'UTC';
+    if (!isOfferedSlot(availability, slot.startTime, slot.endTime, zone)) {
+      throw new HttpsError('failed-precondition', 'This slot is no longer offered');
+    }
+
+    // Anything ending after the buffer before this slot could clash
+    const nearby = await transaction.get(
+      db
+        .collection('serviceBookings')
+        .where('providerId', '==', service.providerId)
+        .where('endTime', '>', new Date(startTime - bufferMinutes * 60000))
+    );
+    const booked = nearby.docs
+      .map((doc) => toBookedTime(doc.id, doc.data()))
+      .filter((time): time is BookedTime => !!time);
+    if (findOverlappingBooking(slot, booked, bufferMinutes)) {
+      throw new HttpsError('already-exists', 'This slot is already booked');
+    }
+
+    const bookingId = bookingIdFor(service.providerId, start);
+    const requestRef = db.collection('serviceRequests').doc();
+    transaction.create(requestRef, {
+      serviceId,
+      requesterId: uid,
+      providerId: service.providerId,
+      status: 'pending',
+      requestedTime: new Date(),
+      scheduledTime: slot.startTime,
+      scheduledEndTime: slot.endTime,
+      bookingId,
+      ...(message ? { message } : {}),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.create(db.collection('serviceBookings').doc(bookingId), {
+      serviceId,
+      providerId: service.providerId,
+      requesterId: uid,
+      requestId: requestRef.id,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    return { requestId: requestRef.id };
+  });
+});
+
+export { bookServiceSlot };
@@ -0,0 +1,36 @@
+// Reading fields of Firestore documents. Document data is untyped, so the
+// pure modules take it as unknown values and narrow what they use.
+
+export type DocumentData = Record<string, unknown>;
+
+const hasMethod = <Name extends string>(
+  value: unknown,
+  name: Name
+): value is Record<Name, (...args: unknown[]) => unknown> =>
+  !!value && typeof (value as Record<string, unknown>)[name] === 'function';
+
+// Timestamps, Dates, ISO strings and epoch millis as a Date; null when the
+// value is missing or isn't a valid time
+const toDate = (value: unknown): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (hasMethod(value, 'toDate')) return value.toDate() as Date;
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// The value if it's a non-empty string
+const toOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+// Whether a field kept its value across a write. Timestamps and Dates are
+// compared by time, everything else by identity; missing and null are the same.
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (hasMethod(a, 'isEqual')) return !!b && a.isEqual(b) === true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b || (a == null && b == null);
+};
+
+export { toDate, toOptionalString, isSameValue };
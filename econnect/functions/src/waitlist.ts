@@ -0,0 +1,35 @@
+// Promoting people off an event's waitlist
+
+import { toMemberIds } from './membership';
+import { DocumentData } from './values';
+
+export interface WaitlistPromotion {
+  participants: string[];
+  waitlist: string[];
+  promoted: string[]; // user IDs moved from the waitlist, in queue order
+}
+
+// Fill any open spots from the front of the waitlist. Events without a limit
+// (null or 0) let everyone waiting straight in; cancelled events let nobody
+// in. Returns null when nobody moves.
+const planWaitlistPromotion = (event: DocumentData | undefined): WaitlistPromotion | null => {
+  if (!event || event.status === 'cancelled') return null;
+
+  const participants = toMemberIds(event.participants);
+  const waitlist = toMemberIds(event.waitlist).filter((id) => !participants.includes(id));
+  if (waitlist.length === 0) return null;
+
+  const maxParticipants = Number(event.maxParticipants) || 0;
+  const openSpots =
+    maxParticipants > 0 ? Math.max(maxParticipants - participants.length, 0) : waitlist.length;
+  if (openSpots === 0) return null;
+
+  const promoted = waitlist.slice(0, openSpots);
+  return {
+    participants: [...participants, ...promoted],
+    waitlist: waitlist.slice(promoted.length),
+    promoted,
+  };
+};
+
+export { planWaitlistPromotion };
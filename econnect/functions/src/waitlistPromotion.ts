@@ -0,0 +1,38 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions/v2';
+import { db } from './admin';
+import { planWaitlistPromotion } from './waitlist';
+
+// Move people off the waitlist into any open spots. Re-reads the event in a
+// transaction so it never overfills when several people leave at once.
+const promoteWaitlist = async (eventId: string): Promise<string[]> => {
+  const eventRef = db.collection('events').doc(eventId);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(eventRef);
+    const plan = planWaitlistPromotion(snapshot.data());
+    if (!plan) return [];
+
+    transaction.update(eventRef, {
+      participants: plan.participants,
+      waitlist: plan.waitlist,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return plan.promoted;
+  });
+};
+
+// Trigger: when a spot frees up or the host raises the limit, let the next
+// people on the waitlist in. Users can't add others to an event themselves.
+const onEventWaitlistChanged = onDocumentUpdated('events/{eventId}', async (event) => {
+  const after = event.data?.after.data();
+  if (!planWaitlistPromotion(after)) return;
+
+  const promoted = await promoteWaitlist(event.params.eventId);
+  if (promoted.length > 0) {
+    logger.info('Promoted from waitlist', { eventId: event.params.eventId, promoted });
+  }
+});
+
+export { promoteWaitlist, onEventWaitlistChanged };
@@ -0,0 +1,132 @@
+import {
+  computeMeetingAnalytics,
+  mergeIntervals,
+  peakConcurrency,
+  AttendanceRecord,
+  MeetingRecord,
+} from '../src/analytics';
+
+const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 10, minutes));
+
+const meeting: MeetingRecord = {
+  id: 'm1',
+  eventId: 'e1',
+  hostId: 'alice',
+  startTime: at(0),
+  startedAt: at(0),
+  endTime: at(60),
+};
+
+const interval = (
+  userId: string,
+  join: number,
+  leave: number | null,
+  extra: Partial<AttendanceRecord> = {}
+): AttendanceRecord => ({
+  userId,
+  displayName: userId,
+  role: userId === 'alice' ? 'moderator' : 'viewer',
+  joinTime: at(join),
+  leaveTime: leave === null ? null : at(leave),
+  lastSeen: leave === null ? null : at(leave),
+  ...extra,
+});
+
+describe('mergeIntervals', () => {
+  it('merges overlapping and touching intervals', () => {
+    expect(
+      mergeIntervals([
+        { start: 10, end: 20 },
+        { start: 0, end: 5 },
+        { start: 15, end: 30 },
+        { start: 30, end: 40 },
+      ])
+    ).toEqual([
+      { start: 0, end: 5 },
+      { start: 10, end: 40 },
+    ]);
+  });
+});
+
+describe('peakConcurrency', () => {
+  it('counts the largest overlap', () => {
+    expect(
+      peakConcurrency([
+        { start: 0, end: 10 },
+        { start: 5, end: 15 },
+        { start: 6, end: 7 },
+        { start: 20, end: 30 },
+      ])
+    ).toBe(3);
+  });
+
+  it('does not count a hand-over at the same instant as overlap', () => {
+    expect(
+      peakConcurrency([
+        { start: 0, end: 10 },
+        { start: 10, end: 20 },
+      ])
+    ).toBe(1);
+  });
+});
+
+describe('computeMeetingAnalytics', () => {
+  it('sums repeated stays per participant', () => {
+    const analytics = computeMeetingAnalytics(meeting, [
+      interval('alice', 0, 60),
+      interval('bob', 5, 15),
+      interval('bob', 30, 45),
+      interval('carol', 10, 20),
+    ]);
+
+    expect(analytics.participantCount).toBe(3);
+    expect(analytics.peakParticipants).toBe(3);
+
+    const bob = analytics.participants.find((p) => p.userId === 'bob')!;
+    expect(bob.duration).toBe(25 * 60);
+    expect(bob.intervalCount).toBe(2);
+    expect(bob.joinTime).toEqual(at(5));
+    expect(bob.leaveTime).toEqual(at(45));
+
+    expect(analytics.averageDuration).toBe(Math.round(((60 + 25 + 10) * 60) / 3));
+  });
+
+  it('counts a user in two tabs once', () => {
+    const analytics = computeMeetingAnalytics(meeting, [
+      interval('alice', 0, 60),
+      interval('bob', 10, 30),
+      interval('bob', 20, 40),
+    ]);
+
+    expect(analytics.peakParticipants).toBe(2);
+    expect(analytics.participants.find((p) => p.userId === 'bob')!.duration).toBe(30 * 60);
+  });
+
+  it('closes abandoned intervals shortly after they were last seen', () => {
+    const analytics = computeMeetingAnalytics(meeting, [
+      interval('bob', 10, null, { lastSeen: at(20) }),
+    ]);
+
+    expect(analytics.participants[0].leaveTime).toEqual(at(21));
+    expect(analytics.participants[0].duration).toBe(11 * 60);
+  });
+
+  it('clips intervals to the end of the meeting', () => {
+    const analytics = computeMeetingAnalytics(meeting, [interval('bob', 50, 90)]);
+    expect(analytics.participants[0].duration).toBe(10 * 60);
+  });
+
+  it('returns the same result when run twice', () => {
+    const attendance = [interval('alice', 0, 60), interval('bob', 5, 15)];
+    expect(computeMeetingAnalytics(meeting, attendance)).toEqual(
+      computeMeetingAnalytics(meeting, attendance)
+    );
+  });
+
+  it('handles meetings nobody attended', () => {
+    const analytics = computeMeetingAnalytics(meeting, []);
+    expect(analytics.participantCount).toBe(0);
+    expect(analytics.averageDuration).toBe(0);
+    expect(analytics.peakParticipants).toBe(0);
+  });
+});
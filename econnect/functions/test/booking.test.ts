@@ -0,0 +1,171 @@
+import {
+  bookingIdFor,
+  findOverlappingBooking,
+  isOfferedSlot,
+  planBookingSync,
+  toBookedTime,
+} from '../src/booking';
+
+const start = new Date('2030-01-07T09:00:00Z');
+const end = new Date('2030-01-07T09:30:00Z');
+const bookingId = bookingIdFor('provider', start);
+
+const request = (data: Record<string, unknown> = {}) => ({
+  serviceId: 's1',
+  requesterId: 'alice',
+  providerId: 'provider',
+  status: 'pending',
+  scheduledTime: start,
+  scheduledEndTime: end,
+  bookingId,
+  ...data,
+});
+
+describe('planBookingSync', () => {
+  it('frees the slot of a rejected or deleted request', () => {
+    expect(planBookingSync('r1', request(), request({ status: 'rejected' }))).toEqual({
+      release: bookingId,
+      claim: null,
+    });
+    expect(planBookingSync('r1', request(), undefined)).toEqual({ release: bookingId, claim: null });
+  });
+
+  it('leaves requests that hold no slot or already hold theirs alone', () => {
+    expect(planBookingSync('r1', undefined, request({ bookingId: null }))).toBeNull();
+    expect(planBookingSync('r1', request({ bookingId: null }), undefined)).toBeNull();
+    expect(planBookingSync('r1', request(), request({ status: 'accepted' }))).toBeNull();
+    expect(planBookingSync('r1', request(), request({ status: 'completed' }))).toBeNull();
+  });
+
+  it('claims a slot for accepted requests made without one', () => {
+    const legacy = request({ bookingId: undefined, scheduledEndTime: undefined });
+    expect(planBookingSync('r1', legacy, { ...legacy, status: 'accepted' })).toEqual({
+      release: null,
+      claim: {
+        id: bookingId,
+        serviceId: 's1',
+        providerId: 'provider',
+        requesterId: 'alice',
+        requestId: 'r1',
+        startTime: start,
+        endTime: new Date('2030-01-07T10:00:00Z'),
+      },
+    });
+  });
+
+  it('moves the booking when the provider reschedules an accepted request', () => {
+    const moved = new Date('2030-01-08T09:00:00Z');
+    const plan = planBookingSync(
+      'r1',
+      request({ status: 'accepted' }),
+      request({ status: 'accepted', scheduledTime: { toDate: () => moved }, scheduledEndTime: null })
+    );
+    expect(plan?.release).toBe(bookingId);
+    expect(plan?.claim?.id).toBe(bookingIdFor('provider', moved));
+  });
+
+  it('ignores immediate requests', () => {
+    expect(
+      planBookingSync('r1', undefined, request({ status: 'accepted', scheduledTime: null, bookingId: null }))
+    ).toBeNull();
+  });
+});
+
+describe('isOfferedSlot', () => {
+  const availability = {
+    days: ['Monday', 'Tuesday'],
+    startTime: '09:00',
+    endTime: '12:00',
+    timeZone: 'Europe/Berlin',
+    slotMinutes: 45,
+    bufferMinutes: 15,
+  };
+  const offered = (
+    iso: string,
+    minutes = 45,
+    timeZone = 'Europe/Berlin',
+    hours: Record<string, unknown> = availability
+  ) => {
+    const slotStart = new Date(iso);
+    const slotEnd = new Date(slotStart.getTime() + minutes * 60000);
+    return isOfferedSlot(hours, slotStart, slotEnd, timeZone);
+  };
+
+  it('accepts slots on the cadence of the hours, in the provider zone', () => {
+    // 2030-01-07 is a Monday; Berlin is UTC+1 in winter
+    expect(offered('2030-01-07T08:00:00Z')).toBe(true);
+    expect(offered('2030-01-07T10:00:00Z')).toBe(true);
+    // Summer time moves the same wall-clock slot an hour earlier in UTC
+    expect(offered('2030-07-01T07:00:00Z')).toBe(true);
+  });
+
+  it('rejects slots off the cadence, outside the hours or on other days', () => {
+    expect(offered('2030-01-07T08:30:00Z')).toBe(false);
+    expect(offered('2030-01-07T11:00:00Z')).toBe(false);
+    expect(offered('2030-01-09T08:00:00Z')).toBe(false);
+  });
+
+  it('requires the slot to last exactly slotMinutes', () => {
+    expect(offered('2030-01-07T08:00:00Z', 60)).toBe(false);
+    expect(offered('2030-01-07T08:00:00Z', 30)).toBe(false);
+  });
+
+  it('follows overnight hours into the next day', () => {
+    const overnight = {
+      ...availability,
+      startTime: '10:00 PM',
+      endTime: '02:00',
+      slotMinutes: 60,
+      bufferMinutes: 0,
+    };
+    // Monday 23:00 and Tuesday 01:00 UTC both belong to Monday night
+    expect(offered('2030-01-07T23:00:00Z', 60, 'UTC', overnight)).toBe(true);
+    expect(offered('2030-01-08T01:00:00Z', 60, 'UTC', overnight)).toBe(true);
+    // Sunday night isn't offered, so Monday 01:00 isn't either
+    expect(offered('2030-01-07T01:00:00Z', 60, 'UTC', overnight)).toBe(false);
+  });
+
+  it('rejects unknown zones and unreadable hours', () => {
+    expect(offered('2030-01-07T08:00:00Z', 45, 'Mars/Olympus')).toBe(false);
+    expect(offered('2030-01-07T08:00:00Z', 45, 'UTC', { ...availability, startTime: 'soon' })).toBe(
+      false
+    );
+  });
+});
+
+describe('findOverlappingBooking', () => {
+  const booked = [
+    {
+      id: 'b1',
+      startTime: new Date('2030-01-07T09:00:00Z'),
+      endTime: new Date('2030-01-07T10:00:00Z'),
+    },
+  ];
+  const slot = (from: string, to: string) => ({ startTime: new Date(from), endTime: new Date(to) });
+
+  it('finds bookings that overlap the slot, whatever their key', () => {
+    const late = slot('2030-01-07T09:30:00Z', '2030-01-07T10:30:00Z');
+    const early = slot('2030-01-07T08:30:00Z', '2030-01-07T09:15:00Z');
+    expect(findOverlappingBooking(late, booked, 0)).toBe(booked[0]);
+    expect(findOverlappingBooking(early, booked, 0)).toBe(booked[0]);
+  });
+
+  it('keeps the buffer free around bookings', () => {
+    const after = slot('2030-01-07T10:00:00Z', '2030-01-07T11:00:00Z');
+    expect(findOverlappingBooking(after, booked, 0)).toBeNull();
+    expect(findOverlappingBooking(after, booked, 15)).toBe(booked[0]);
+  });
+});
+
+describe('toBookedTime', () => {
+  it('reads stored times and skips bookings without them', () => {
+    const startTime = new Date('2030-01-07T09:00:00Z');
+    const stored = { startTime: { toDate: () => startTime }, endTime: '2030-01-07T10:00:00Z' };
+    expect(toBookedTime('b1', stored)).toEqual({
+      id: 'b1',
+      startTime,
+      endTime: new Date('2030-01-07T10:00:00Z'),
+    });
+    expect(toBookedTime('b1', { startTime })).toBeNull();
+  });
+});
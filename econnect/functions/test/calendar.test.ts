@@ -0,0 +1,170 @@
+import { toCalendarEvents, planCalendarMessages, cancelledOccurrence, CalendarUser } from '../src/calendar';
+
+const users = new Map<string, CalendarUser>([
+  ['host', { id: 'host', name: 'Alice', email: 'alice@example.com' }],
+  ['bob', { id: 'bob', name: 'Bob', email: 'bob@example.com' }],
+  ['carol', { id: 'carol', name: 'Carol', email: '' }],
+]);
+
+const event = {
+  title: 'Standup',
+  description: 'Daily sync',
+  startTime: new Date('2026-03-23T09:00:00Z'),
+  endTime: new Date('2026-03-23T09:30:00Z'),
+  createdBy: 'host',
+  participants: ['host', 'bob', 'carol'],
+  icalSequence: 3,
+};
+
+describe('toCalendarEvents', () => {
+  it('maps a one-off event with the host as organizer', () => {
+    const [entry, ...rest] = toCalendarEvents('e1', event, users, [], 'https://app.example.com/');
+
+    expect(rest).toEqual([]);
+    expect(entry).toMatchObject({
+      uid: 'e1@econnect',
+      sequence: 3,
+      title: 'Standup',
+      url: 'https://app.example.com/events/e1/meeting',
+      organizer: { name: 'Alice', email: 'alice@example.com' },
+      status: 'CONFIRMED',
+    });
+    // Carol has no email address and can't be invited
+    expect(entry.attendees).toEqual([{ name: 'Bob', email: 'bob@example.com', status: 'ACCEPTED' }]);
+  });
+
+  it('turns cancelled occurrences into exceptions and moved ones into overrides', () => {
+    const series = { ...event, recurrence: 'FREQ=DAILY;COUNT=3' };
+    const meetings = [
+      {
+        occurrenceStart: new Date('2026-03-23T09:00:00Z'),
+        startTime: new Date('2026-03-23T09:00:00Z'),
+        scheduledEndTime: new Date('2026-03-23T09:30:00Z'),
+        status: 'scheduled',
+      },
+      {
+        occurrenceStart: new Date('2026-03-24T09:00:00Z'),
+        startTime: new Date('2026-03-24T09:00:00Z'),
+        scheduledEndTime: new Date('2026-03-24T09:30:00Z'),
+        status: 'cancelled',
+      },
+      {
+        occurrenceStart: new Date('2026-03-25T09:00:00Z'),
+        startTime: new Date('2026-03-25T11:00:00Z'),
+        scheduledEndTime: new Date('2026-03-25T12:00:00Z'),
+        status: 'scheduled',
+        title: 'Standup (long)',
+      },
+    ];
+
+    const [main, ...overrides] = toCalendarEvents('e1', series, users, meetings, 'https://app.example.com');
+
+    expect(main.rrule).toBe('FREQ=DAILY;COUNT=3');
+    expect(main.exdates).toEqual([new Date('2026-03-24T09:00:00Z')]);
+    expect(overrides).toHaveLength(1);
+    expect(overrides[0]).toMatchObject({
+      uid: 'e1@econnect',
+      recurrenceId: new Date('2026-03-25T09:00:00Z'),
+      start: new Date('2026-03-25T11:00:00Z'),
+      end: new Date('2026-03-25T12:00:00Z'),
+      title: 'Standup (long)',
+    });
+  });
+
+  it('marks cancelled events as cancelled in feeds', () => {
+    const [entry] = toCalendarEvents(
+      'e1',
+      { ...event, status: 'cancelled' },
+      users,
+      [],
+      'https://app.example.com'
+    );
+    expect(entry.status).toBe('CANCELLED');
+  });
+
+  it('skips events without a schedule', () => {
+    expect(toCalendarEvents('e1', { title: 'Draft' }, users, [], 'https://app.example.com')).toEqual([]);
+  });
+});
+
+describe('cancelledOccurrence', () => {
+  it('addresses the occurrence by its original start', () => {
+    const entry = cancelledOccurrence(
+      'e1',
+      event,
+      {
+        occurrenceStart: new Date('2026-03-24T09:00:00Z'),
+        startTime: new Date('2026-03-24T10:00:00Z'),
+        scheduledEndTime: new Date('2026-03-24T10:30:00Z'),
+      },
+      users,
+      'https://app.example.com'
+    );
+
+    expect(entry).toMatchObject({
+      recurrenceId: new Date('2026-03-24T09:00:00Z'),
+      start: new Date('2026-03-24T10:00:00Z'),
+      status: 'CANCELLED',
+    });
+  });
+});
+
+describe('planCalendarMessages', () => {
+  it('invites people who join and cancels for people who leave', () => {
+    expect(
+      planCalendarMessages(event, { ...event, participants: ['host', 'carol', 'dave'] })
+    ).toEqual({ update: false, invite: ['dave'], uninvite: ['bob'], cancel: false });
+  });
+
+  it('sends an update when the schedule changes', () => {
+    const plan = planCalendarMessages(event, {
+      ...event,
+      startTime: new Date('2026-03-23T10:00:00Z'),
+    });
+    expect(plan.update).toBe(true);
+  });
+
+  it('ignores changes that do not show in calendars', () => {
+    expect(planCalendarMessages(event, { ...event, icalSequence: 4, isPublic: true })).toEqual({
+      update: false,
+      invite: [],
+      uninvite: [],
+      cancel: false,
+    });
+  });
+
+  it('invites everyone but the host to a new event', () => {
+    expect(planCalendarMessages(undefined, event)).toEqual({
+      update: false,
+      invite: ['bob', 'carol'],
+      uninvite: [],
+      cancel: false,
+    });
+  });
+
+  it('cancels a cancelled event once, then stays quiet', () => {
+    const cancelled = { ...event, status: 'cancelled', cancellationReason: 'Venue closed' };
+    expect(planCalendarMessages(event, cancelled)).toEqual({
+      update: false,
+      invite: [],
+      uninvite: [],
+      cancel: true,
+    });
+    expect(planCalendarMessages(cancelled, { ...cancelled, title: 'Renamed' })).toEqual({
+      update: false,
+      invite: [],
+      uninvite: [],
+      cancel: false,
+    });
+  });
+
+  it('updates everyone but the new host when the event changes hands', () => {
+    const plan = planCalendarMessages(event, { ...event, createdBy: 'bob' });
+    expect(plan).toEqual({ update: true, invite: [], uninvite: [], cancel: false });
+  });
+
+  it('cancels a deleted event that had attendees', () => {
+    expect(planCalendarMessages(event, undefined).cancel).toBe(true);
+    expect(planCalendarMessages({ ...event, participants: ['host'] }, undefined).cancel).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { planAuditEntries } from '../src/eventAudit';
+
+const event = {
+  title: 'Standup',
+  description: '',
+  startTime: Timestamp.fromMillis(Date.parse('2030-01-07T08:00:00Z')),
+  endTime: Timestamp.fromMillis(Date.parse('2030-01-07T09:00:00Z')),
+  timeZone: 'UTC',
+  isPublic: true,
+  maxParticipants: 10,
+  status: 'scheduled',
+  createdBy: 'host',
+  coHosts: ['cohost'],
+  participants: ['host', 'cohost', 'alice', 'bob'],
+};
+
+describe('planAuditEntries', () => {
+  it('lists the edited fields, comparing times by value', () => {
+    const after = {
+      ...event,
+      title: 'Daily standup',
+      startTime: Timestamp.fromMillis(event.startTime.toMillis()),
+      maxParticipants: 12,
+      updatedAt: Timestamp.now(),
+    };
+    expect(planAuditEntries(event, after, 'host')).toEqual([
+      {
+        action: 'updated',
+        actorId: 'host',
+        targetUserId: null,
+        fields: ['title', 'maxParticipants'],
+        reason: null,
+      },
+    ]);
+  });
+
+  it('records a cancellation with its reason', () => {
+    const after = { ...event, status: 'cancelled', cancellationReason: 'Snowed in' };
+    expect(planAuditEntries(event, after, 'cohost')).toEqual([
+      { action: 'cancelled', actorId: 'cohost', targetUserId: null, fields: [], reason: 'Snowed in' },
+    ]);
+    expect(planAuditEntries(after, { ...after, updatedAt: Timestamp.now() }, 'host')).toEqual([]);
+  });
+
+  it('records a handover without the co-host role the new host gives up', () => {
+    const after = { ...event, createdBy: 'cohost', coHosts: [] };
+    expect(planAuditEntries(event, after, 'host')).toEqual([
+      {
+        action: 'host-transferred',
+        actorId: 'host',
+        targetUserId: 'cohost',
+        fields: [],
+        reason: null,
+      },
+    ]);
+  });
+
+  it('records co-hosts being added and removed', () => {
+    expect(
+      planAuditEntries(event, { ...event, coHosts: ['alice'] }, 'host').map(
+        ({ action, targetUserId }) => [action, targetUserId]
+      )
+    ).toEqual([
+      ['co-host-added', 'alice'],
+      ['co-host-removed', 'cohost'],
+    ]);
+  });
+
+  it('records removals once, and not people leaving or stepping down themselves', () => {
+    const removed = { ...event, coHosts: [], participants: ['host', 'alice', 'bob'] };
+    expect(planAuditEntries(event, removed, 'host')).toEqual([
+      {
+        action: 'participant-removed',
+        actorId: 'host',
+        targetUserId: 'cohost',
+        fields: [],
+        reason: null,
+      },
+    ]);
+    expect(planAuditEntries(event, removed, 'cohost')).toEqual([]);
+    expect(planAuditEntries(event, { ...event, coHosts: [] }, 'cohost')).toEqual([]);
+    expect(
+      planAuditEntries(event, { ...event, participants: ['host', 'cohost', 'alice'] }, 'bob')
+    ).toEqual([]);
+  });
+
+  it('ignores people joining', () => {
+    expect(
+      planAuditEntries(event, { ...event, participants: [...event.participants, 'carol'] }, 'carol')
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,564 @@
+/**
+ * Firestore security rules tests. Run against the emulator with:
+ *   npm run test:rules
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  initializeTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  serverTimestamp,
+} from 'firebase/firestore';
+
+let testEnv: RulesTestEnvironment;
+
+const seed = async (path: string, data: Record<string, unknown>) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), path), data);
+  });
+};
+
+const db = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-econnect',
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed('users/admin', { role: 'admin', displayName: 'Admin' });
+  await seed('users/provider', { role: 'service-provider', displayName: 'Provider' });
+  await seed('users/alice', { role: 'user', displayName: 'Alice' });
+  await seed('users/bob', { role: 'user', displayName: 'Bob' });
+});
+
+describe('users', () => {
+  it('lets users register themselves with the user role only', async () => {
+    await assertSucceeds(setDoc(doc(db('carol'), 'users/carol'), { role: 'user' }));
+    await assertFails(setDoc(doc(db('dave'), 'users/dave'), { role: 'admin' }));
+  });
+
+  it('stops users from changing their own role', async () => {
+    await assertSucceeds(updateDoc(doc(db('alice'), 'users/alice'), { displayName: 'Al' }));
+    await assertFails(updateDoc(doc(db('alice'), 'users/alice'), { role: 'admin' }));
+  });
+
+  it('lets admins change roles', async () => {
+    await assertSucceeds(updateDoc(doc(db('admin'), 'users/alice'), { role: 'service-provider' }));
+  });
+});
+
+describe('events', () => {
+  beforeEach(async () => {
+    await seed('events/e1', { title: 'Standup', createdBy: 'alice', participants: ['alice'] });
+  });
+
+  it('lets users create events they host', async () => {
+    await assertSucceeds(setDoc(doc(db('bob'), 'events/e2'), { createdBy: 'bob', participants: ['bob'] }));
+    await assertFails(setDoc(doc(db('bob'), 'events/e3'), { createdBy: 'alice', participants: [] }));
+  });
+
+  it('lets hosts and admins edit and delete, but not other users', async () => {
+    await assertSucceeds(updateDoc(doc(db('alice'), 'events/e1'), { title: 'Daily standup' }));
+    await assertSucceeds(updateDoc(doc(db('admin'), 'events/e1'), { title: 'Admin edit' }));
+    await assertFails(updateDoc(doc(db('bob'), 'events/e1'), { title: 'Hijacked' }));
+    await assertFails(deleteDoc(doc(db('bob'), 'events/e1')));
+    await assertSucceeds(deleteDoc(doc(db('admin'), 'events/e1')));
+  });
+
+  it('leaves the live flag to the backend', async () => {
+    await assertFails(
+      setDoc(doc(db('bob'), 'events/e2'), { createdBy: 'bob', participants: ['bob'], isLive: true })
+    );
+    await assertFails(updateDoc(doc(db('alice'), 'events/e1'), { isLive: true }));
+  });
+
+  it('lets users join and leave but not add others', async () => {
+    await assertSucceeds(updateDoc(doc(db('bob'), 'events/e1'), { participants: ['alice', 'bob'] }));
+    await assertSucceeds(updateDoc(doc(db('bob'), 'events/e1'), { participants: ['alice'] }));
+    await assertFails(updateDoc(doc(db('bob'), 'events/e1'), { participants: [] }));
+  });
+});
+
+describe('host management', () => {
+  beforeEach(async () => {
+    await seed('events/e1', {
+      title: 'Standup',
+      createdBy: 'alice',
+      participants: ['alice', 'bob'],
+      coHosts: [],
+      waitlist: [],
+      status: 'scheduled',
+    });
+    await seed('events/cancelled', {
+      createdBy: 'alice',
+      participants: ['alice'],
+      waitlist: [],
+      status: 'cancelled',
+    });
+  });
+
+  it('lets hosts hand the event to a participant only', async () => {
+    await assertFails(updateDoc(doc(db('alice'), 'events/e1'), { createdBy: 'carol' }));
+    await assertSucceeds(updateDoc(doc(db('alice'), 'events/e1'), { createdBy: 'bob' }));
+    await assertFails(updateDoc(doc(db('alice'), 'events/e1'), { title: 'Not mine any more' }));
+  });
+
+  it('only lets participants be co-hosts', async () => {
+    await assertSucceeds(updateDoc(doc(db('alice'), 'events/e1'), { coHosts: ['bob'] }));
+    await assertFails(updateDoc(doc(db('alice'), 'events/e1'), { coHosts: ['bob', 'carol'] }));
+    await assertFails(updateDoc(doc(db('bob'), 'events/e1'), { coHosts: ['bob'] }));
+  });
+
+  it('lets co-hosts leave, giving up the role', async () => {
+    await seed('events/e1', { createdBy: 'alice', participants: ['alice', 'bob'], coHosts: ['bob'], waitlist: [] });
+    await assertSucceeds(updateDoc(doc(db('bob'), 'events/e1'), { participants: ['alice'], coHosts: [] }));
+  });
+
+  it('keeps cancelled events cancelled and closed to new members', async () => {
+    await assertFails(updateDoc(doc(db('bob'), 'events/cancelled'), { participants: ['alice', 'bob'] }));
+    await assertFails(updateDoc(doc(db('bob'), 'events/cancelled'), { waitlist: ['bob'] }));
+    await assertFails(updateDoc(doc(db('alice'), 'events/cancelled'), { status: 'scheduled' }));
+    await assertFails(
+      updateDoc(doc(db('alice'), 'events/cancelled'), { activeMeetingId: 'm1', sessionCount: 1 })
+    );
+  });
+
+  it('keeps the audit log for the backend to write', async () => {
+    const entry = {
+      action: 'updated',
+      actorId: 'alice',
+      fields: ['title'],
+      createdAt: serverTimestamp(),
+    };
+    await assertFails(setDoc(doc(db('alice'), 'events/e1/auditLog/own'), entry));
+    await assertFails(setDoc(doc(db('bob'), 'events/e1/auditLog/forged'), { ...entry, actorId: 'bob' }));
+
+    await seed('events/e1/auditLog/a1', { action: 'updated', actorId: 'alice', fields: [] });
+    await assertSucceeds(getDoc(doc(db('alice'), 'events/e1/auditLog/a1')));
+    await assertFails(getDoc(doc(db('bob'), 'events/e1/auditLog/a1')));
+    await assertFails(updateDoc(doc(db('alice'), 'events/e1/auditLog/a1'), { fields: ['x'] }));
+    await assertFails(deleteDoc(doc(db('alice'), 'events/e1/auditLog/a1')));
+  });
+});
+
+describe('capacity and waitlist', () => {
+  beforeEach(async () => {
+    await seed('users/carol', { role: 'user', displayName: 'Carol' });
+    await seed('events/full', {
+      createdBy: 'alice',
+      participants: ['alice', 'bob'],
+      maxParticipants: 2,
+      waitlist: [],
+    });
+    await seed('events/queued', {
+      createdBy: 'alice',
+      participants: ['alice'],
+      maxParticipants: 2,
+      waitlist: ['bob'],
+    });
+    await seed('virtualTables/t1', { eventId: 'full', capacity: 1, participants: ['bob'] });
+  });
+
+  it('stops users joining a full event but lets them queue at the back', async () => {
+    await assertFails(
+      updateDoc(doc(db('carol'), 'events/full'), { participants: ['alice', 'bob', 'carol'] })
+    );
+    await assertSucceeds(updateDoc(doc(db('carol'), 'events/full'), { waitlist: ['carol'] }));
+  });
+
+  it('stops users jumping the queue or reordering it', async () => {
+    await assertFails(
+      updateDoc(doc(db('carol'), 'events/queued'), { participants: ['alice', 'carol'] })
+    );
+    await assertFails(updateDoc(doc(db('carol'), 'events/queued'), { waitlist: ['carol', 'bob'] }));
+    await assertSucceeds(updateDoc(doc(db('carol'), 'events/queued'), { waitlist: ['bob', 'carol'] }));
+    await assertSucceeds(updateDoc(doc(db('bob'), 'events/queued'), { waitlist: [] }));
+  });
+
+  it('lets the host manage the waitlist', async () => {
+    await assertSucceeds(
+      updateDoc(doc(db('alice'), 'events/queued'), { participants: ['alice', 'bob'], waitlist: [] })
+    );
+  });
+
+  it('stops users sitting at a full table', async () => {
+    await assertFails(updateDoc(doc(db('carol'), 'virtualTables/t1'), { participants: ['bob', 'carol'] }));
+    await assertSucceeds(updateDoc(doc(db('bob'), 'virtualTables/t1'), { participants: [] }));
+  });
+});
+
+describe('meetings', () => {
+  beforeEach(async () => {
+    await seed('events/e1', { title: 'Standup', createdBy: 'alice', participants: ['alice', 'bob'] });
+  });
+
+  it('lets event members open the next session for the host', async () => {
+    await assertSucceeds(
+      setDoc(doc(db('bob'), 'meetings/e1-session-1'), {
+        eventId: 'e1',
+        hostId: 'alice',
+        status: 'scheduled',
+        participants: [],
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(db('bob'), 'events/e1'), { activeMeetingId: 'e1-session-1', sessionCount: 1 })
+    );
+  });
+
+  it('stops outsiders from opening sessions or claiming to host them', async () => {
+    await seed('users/carol', { role: 'user' });
+    await assertFails(
+      setDoc(doc(db('carol'), 'meetings/e1-session-1'), {
+        eventId: 'e1',
+        hostId: 'alice',
+        status: 'scheduled',
+        participants: [],
+      })
+    );
+    await assertFails(
+      setDoc(doc(db('bob'), 'meetings/e1-session-2'), {
+        eventId: 'e1',
+        hostId: 'bob',
+        status: 'scheduled',
+        participants: [],
+      })
+    );
+  });
+
+  it('lets hosts create a recurring event and its occurrences in one batch', async () => {
+    const batch = writeBatch(db('alice'));
+    batch.set(doc(db('alice'), 'events/series'), { createdBy: 'alice', participants: ['alice'] });
+    batch.set(doc(db('alice'), 'meetings/series-session-1'), {
+      eventId: 'series',
+      hostId: 'alice',
+      status: 'scheduled',
+      participants: [],
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('lets members switch a recurring event to one of its upcoming occurrences', async () => {
+    await seed('meetings/e1-session-2', { eventId: 'e1', hostId: 'alice', status: 'scheduled' });
+    await seed('meetings/e1-session-3', { eventId: 'e1', hostId: 'alice', status: 'cancelled' });
+    await seed('meetings/other-session-1', { eventId: 'other', hostId: 'bob', status: 'scheduled' });
+    await assertSucceeds(updateDoc(doc(db('bob'), 'events/e1'), { activeMeetingId: 'e1-session-2' }));
+    await assertFails(updateDoc(doc(db('bob'), 'events/e1'), { activeMeetingId: 'e1-session-3' }));
+    await assertFails(updateDoc(doc(db('bob'), 'events/e1'), { activeMeetingId: 'other-session-1' }));
+  });
+
+  it('lets users record only their own attendance', async () => {
+    await seed('meetings/m1', { eventId: 'e1', hostId: 'alice', status: 'live', participants: [] });
+    await assertSucceeds(
+      setDoc(doc(db('bob'), 'meetings/m1/attendance/i1'), { userId: 'bob', leaveTime: null })
+    );
+    await assertFails(
+      setDoc(doc(db('bob'), 'meetings/m1/attendance/i2'), { userId: 'alice', leaveTime: null })
+    );
+    await assertSucceeds(updateDoc(doc(db('bob'), 'meetings/m1'), { participants: ['bob'] }));
+    await assertFails(updateDoc(doc(db('bob'), 'meetings/m1'), { participants: ['bob', 'carol'] }));
+  });
+
+  it('lets the host close intervals of participants who dropped out', async () => {
+    await seed('meetings/m1', { eventId: 'e1', hostId: 'alice', status: 'live', participants: ['bob'] });
+    await seed('meetings/m1/attendance/i1', { userId: 'bob', leaveTime: null });
+    await assertSucceeds(
+      updateDoc(doc(db('alice'), 'meetings/m1/attendance/i1'), { leaveTime: new Date() })
+    );
+    await seed('users/carol', { role: 'user' });
+    await assertFails(
+      updateDoc(doc(db('carol'), 'meetings/m1/attendance/i1'), { leaveTime: new Date() })
+    );
+  });
+
+  it('lets only event members start a scheduled session', async () => {
+    await seed('meetings/m1', { eventId: 'e1', hostId: 'alice', status: 'scheduled', participants: [] });
+    await seed('users/carol', { role: 'user' });
+    await assertFails(updateDoc(doc(db('carol'), 'meetings/m1'), { status: 'live' }));
+    await assertSucceeds(updateDoc(doc(db('bob'), 'meetings/m1'), { status: 'live' }));
+  });
+
+  it('lets co-hosts record a session without managing it', async () => {
+    await seed('events/e1', {
+      title: 'Standup',
+      createdBy: 'alice',
+      participants: ['alice', 'bob', 'carol'],
+      coHosts: ['bob'],
+    });
+    await seed('meetings/m1', { eventId: 'e1', hostId: 'alice', status: 'live', participants: [] });
+    const recording = {
+      recordingEnabled: true,
+      recordingMode: 'file',
+      recordingStarted: new Date(),
+    };
+    await assertSucceeds(updateDoc(doc(db('bob'), 'meetings/m1'), recording));
+    await assertFails(updateDoc(doc(db('carol'), 'meetings/m1'), recording));
+    await assertFails(updateDoc(doc(db('bob'), 'meetings/m1'), { status: 'ended' }));
+  });
+
+  it('lets only the host end a session', async () => {
+    await seed('meetings/m1', { eventId: 'e1', hostId: 'alice', status: 'live', participants: [] });
+    await assertFails(updateDoc(doc(db('bob'), 'meetings/m1'), { status: 'ended' }));
+    await assertSucceeds(updateDoc(doc(db('alice'), 'meetings/m1'), { status: 'ended' }));
+  });
+});
+
+describe('services', () => {
+  beforeEach(async () => {
+    await seed('services/s1', { providerId: 'provider', title: 'Tutoring', isActive: true });
+  });
+
+  it('only lets providers publish services', async () => {
+    await assertSucceeds(setDoc(doc(db('provider'), 'services/s2'), { providerId: 'provider' }));
+    await assertFails(setDoc(doc(db('alice'), 'services/s3'), { providerId: 'alice' }));
+  });
+
+  it('lets providers manage their own services only', async () => {
+    await seed('users/provider2', { role: 'service-provider' });
+    await assertSucceeds(updateDoc(doc(db('provider'), 'services/s1'), { isActive: false }));
+    await assertFails(updateDoc(doc(db('provider2'), 'services/s1'), { isActive: false }));
+    await assertSucceeds(updateDoc(doc(db('admin'), 'services/s1'), { isActive: true }));
+  });
+});
+
+describe('service requests', () => {
+  beforeEach(async () => {
+    await seed('serviceRequests/r1', {
+      serviceId: 's1',
+      requesterId: 'alice',
+      providerId: 'provider',
+      status: 'pending',
+    });
+  });
+
+  it('is visible to the requester and provider only', async () => {
+    await assertSucceeds(getDoc(doc(db('alice'), 'serviceRequests/r1')));
+    await assertSucceeds(getDoc(doc(db('provider'), 'serviceRequests/r1')));
+    await assertFails(getDoc(doc(db('bob'), 'serviceRequests/r1')));
+  });
+
+  it('lets the provider, not the requester, change the status', async () => {
+    await assertFails(updateDoc(doc(db('alice'), 'serviceRequests/r1'), { status: 'accepted' }));
+    await assertSucceeds(updateDoc(doc(db('provider'), 'serviceRequests/r1'), { status: 'accepted' }));
+  });
+
+  it('only allows valid status changes', async () => {
+    await assertFails(updateDoc(doc(db('provider'), 'serviceRequests/r1'), { status: 'completed' }));
+    await assertSucceeds(updateDoc(doc(db('provider'), 'serviceRequests/r1'), { status: 'rejected' }));
+    await assertFails(updateDoc(doc(db('provider'), 'serviceRequests/r1'), { status: 'accepted' }));
+    await assertSucceeds(updateDoc(doc(db('admin'), 'serviceRequests/r1'), { status: 'accepted' }));
+    await assertSucceeds(
+      updateDoc(doc(db('provider'), 'serviceRequests/r1'), {
+        status: 'completed',
+        responseMessage: 'Thanks!',
+      })
+    );
+  });
+
+  it('leaves the session room to the backend', async () => {
+    await assertFails(
+      updateDoc(doc(db('provider'), 'serviceRequests/r1'), { status: 'accepted', jitsiRoomName: 'mine' })
+    );
+  });
+
+  it('takes direct requests for the service provider, without a schedule', async () => {
+    await seed('services/s1', { providerId: 'provider', title: 'Tutoring', isActive: true });
+    const request = { serviceId: 's1', requesterId: 'alice', providerId: 'provider', status: 'pending' };
+    await assertSucceeds(setDoc(doc(db('alice'), 'serviceRequests/r2'), request));
+    await assertFails(
+      setDoc(doc(db('alice'), 'serviceRequests/r3'), { ...request, providerId: 'bob' })
+    );
+    await assertFails(
+      setDoc(doc(db('alice'), 'serviceRequests/r4'), {
+        ...request,
+        scheduledTime: new Date('2030-01-07T09:30:00Z'),
+        scheduledEndTime: new Date('2030-01-07T10:30:00Z'),
+      })
+    );
+  });
+});
+
+describe('service bookings', () => {
+  const start = new Date('2030-01-07T09:00:00Z');
+  const end = new Date('2030-01-07T10:00:00Z');
+  const bookingId = `provider_${start.getTime()}`;
+  const booking = {
+    serviceId: 's1',
+    providerId: 'provider',
+    requesterId: 'alice',
+    requestId: 'r1',
+    startTime: start,
+    endTime: end,
+  };
+
+  beforeEach(async () => {
+    await seed('services/s1', { providerId: 'provider', title: 'Tutoring', isActive: true });
+  });
+
+  it('leaves booking slots to the backend', async () => {
+    await assertFails(setDoc(doc(db('alice'), 'serviceBookings', bookingId), booking));
+
+    const batch = writeBatch(db('alice'));
+    batch.set(doc(db('alice'), 'serviceRequests/r1'), {
+      serviceId: 's1',
+      requesterId: 'alice',
+      providerId: 'provider',
+      status: 'pending',
+      bookingId,
+    });
+    batch.set(doc(db('alice'), 'serviceBookings', bookingId), booking);
+    await assertFails(batch.commit());
+  });
+
+  it('lets anyone signed in see which slots are taken', async () => {
+    await seed(`serviceBookings/${bookingId}`, booking);
+    await assertSucceeds(getDoc(doc(db('bob'), 'serviceBookings', bookingId)));
+  });
+
+  it('lets the provider, not the requester, free a slot', async () => {
+    await seed('serviceRequests/r1', {
+      serviceId: 's1',
+      requesterId: 'alice',
+      providerId: 'provider',
+      status: 'pending',
+      bookingId,
+    });
+    await seed(`serviceBookings/${bookingId}`, booking);
+    await assertFails(deleteDoc(doc(db('alice'), 'serviceBookings', bookingId)));
+    await assertFails(updateDoc(doc(db('provider'), 'serviceRequests/r1'), { bookingId: null }));
+    await assertSucceeds(deleteDoc(doc(db('provider'), 'serviceBookings', bookingId)));
+  });
+});
+
+describe('service reviews', () => {
+  const review = (data: Record<string, unknown> = {}) => ({
+    serviceId: 's1',
+    providerId: 'provider',
+    reviewerId: 'alice',
+    rating: 5,
+    comment: 'Great session',
+    createdAt: serverTimestamp(),
+    ...data,
+  });
+
+  beforeEach(async () => {
+    await seed('serviceRequests/done', {
+      serviceId: 's1',
+      requesterId: 'alice',
+      providerId: 'provider',
+      status: 'completed',
+    });
+    await seed('serviceRequests/open', {
+      serviceId: 's1',
+      requesterId: 'alice',
+      providerId: 'provider',
+      status: 'accepted',
+    });
+  });
+
+  it('lets requesters review their completed requests once', async () => {
+    await assertSucceeds(setDoc(doc(db('alice'), 'serviceReviews/done'), review()));
+    await assertSucceeds(getDoc(doc(db('bob'), 'serviceReviews/done')));
+    await assertFails(setDoc(doc(db('alice'), 'serviceReviews/done'), review({ rating: 1 })));
+  });
+
+  it('rejects reviews of open or other people\'s requests', async () => {
+    await assertFails(setDoc(doc(db('alice'), 'serviceReviews/open'), review()));
+    await assertFails(setDoc(doc(db('bob'), 'serviceReviews/done'), review({ reviewerId: 'bob' })));
+    await assertFails(setDoc(doc(db('provider'), 'serviceReviews/done'), review({ reviewerId: 'provider' })));
+  });
+
+  it('only accepts whole-star ratings for the reviewed service', async () => {
+    await assertFails(setDoc(doc(db('alice'), 'serviceReviews/done'), review({ rating: 6 })));
+    await assertFails(setDoc(doc(db('alice'), 'serviceReviews/done'), review({ rating: 4.5 })));
+    await assertFails(setDoc(doc(db('alice'), 'serviceReviews/done'), review({ serviceId: 's2' })));
+  });
+});
+
+describe('recordings and analytics', () => {
+  beforeEach(async () => {
+    await seed('recordings/rec1', { ownerId: 'alice', s3Key: 'recordings/alice/e1/m1/x.mp4' });
+    await seed('meetingAnalytics/m1', { hostId: 'alice', participantCount: 2 });
+  });
+
+  it('restricts recordings to their owner and admins', async () => {
+    await assertSucceeds(getDoc(doc(db('alice'), 'recordings/rec1')));
+    await assertSucceeds(getDoc(doc(db('admin'), 'recordings/rec1')));
+    await assertFails(getDoc(doc(db('bob'), 'recordings/rec1')));
+  });
+
+  it('leaves recording file keys to the backend', async () => {
+    await assertFails(
+      setDoc(doc(db('alice'), 'recordings/rec2'), {
+        ownerId: 'alice',
+        s3Key: 'recordings/bob/e1/m1/y.mp4',
+      })
+    );
+    await assertFails(
+      updateDoc(doc(db('alice'), 'recordings/rec1'), { s3Key: 'recordings/bob/e1/m1/y.mp4' })
+    );
+    await assertFails(updateDoc(doc(db('alice'), 'recordings/rec1'), { ownerId: 'bob' }));
+    await assertSucceeds(
+      updateDoc(doc(db('alice'), 'recordings/rec1'), { title: 'Keynote', duration: 60 })
+    );
+  });
+
+  it('keeps analytics read-only for clients', async () => {
+    await assertSucceeds(getDoc(doc(db('alice'), 'meetingAnalytics/m1')));
+    await assertFails(getDoc(doc(db('bob'), 'meetingAnalytics/m1')));
+    await assertFails(updateDoc(doc(db('alice'), 'meetingAnalytics/m1'), { participantCount: 99 }));
+  });
+});
+
+describe('memberships', () => {
+  beforeEach(async () => {
+    await seed('eventMembers/e1_alice', { eventId: 'e1', userId: 'alice', role: 'host' });
+    await seed('meetingMembers/m1_alice', { meetingId: 'm1', userId: 'alice' });
+  });
+
+  it('lets users read only their own memberships', async () => {
+    await assertSucceeds(getDoc(doc(db('alice'), 'eventMembers/e1_alice')));
+    await assertSucceeds(getDoc(doc(db('alice'), 'meetingMembers/m1_alice')));
+    await assertFails(getDoc(doc(db('bob'), 'eventMembers/e1_alice')));
+    await assertFails(getDoc(doc(db('bob'), 'meetingMembers/m1_alice')));
+  });
+
+  it('keeps memberships read-only for clients', async () => {
+    await assertFails(setDoc(doc(db('bob'), 'eventMembers/e1_bob'), { eventId: 'e1', userId: 'bob' }));
+    await assertFails(deleteDoc(doc(db('alice'), 'eventMembers/e1_alice')));
+  });
+});
+
+describe('calendar feeds and mail', () => {
+  beforeEach(async () => {
+    await seed('calendarFeeds/token1', { userId: 'alice' });
+    await seed('mail/mail1', { to: 'alice@example.com' });
+  });
+
+  it('keeps feed tokens and queued mail away from clients', async () => {
+    await assertFails(getDoc(doc(db('alice'), 'calendarFeeds/token1')));
+    await assertFails(setDoc(doc(db('bob'), 'calendarFeeds/token2'), { userId: 'bob' }));
+    await assertFails(getDoc(doc(db('admin'), 'mail/mail1')));
+    await assertFails(setDoc(doc(db('bob'), 'mail/mail2'), { to: 'alice@example.com' }));
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  buildCalendar,
+  escapeText,
+  foldLine,
+  formatLocal,
+  offsetMinutes,
+  isValidTimeZone,
+  CalendarEvent,
+} from '../src/ical';
+
+// Checks an iCalendar object against the RFC 5545 rules the writer has to
+// follow: CRLF line endings, lines folded at 75 octets, well-formed content
+// lines, balanced components, the required properties of each component,
+// and a VTIMEZONE for every TZID that is referenced.
+const validateICalendar = (ics: string): string[] => {
+  const problems: string[] = [];
+
+  if (!ics.endsWith('\r\n')) problems.push('object must end with CRLF');
+  if (/[^\r]\n/.test(ics) || /\r(?!\n)/.test(ics)) problems.push('bare CR or LF');
+
+  const physical = ics.slice(0, -2).split('\r\n');
+  physical.forEach((line, index) => {
+    if (Buffer.byteLength(line, 'utf8') > 75) problems.push(`line ${index + 1} exceeds 75 octets`);
+  });
+
+  // Unfold: a CRLF followed by a single space or tab continues the line
+  const lines = ics.slice(0, -2).replace(/\r\n[ \t]/g, '').split('\r\n');
+  const contentLine = /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:,]*)(?:,(?:"[^"]*"|[^";:,]*))*)*):(.*)$/;
+
+  type Component = { name: string; props: { name: string; params: string; value: string }[] };
+  const stack: Component[] = [];
+  const components: Component[] = [];
+  const tzids = new Set<string>();
+  const referenced = new Set<string>();
+
+  lines.forEach((line, index) => {
+    const match = line.match(contentLine);
+    if (!match) {
+      problems.push(`line ${index + 1} is not a content line: ${line}`);
+      return;
+    }
+    const [, rawName, params, value] = match;
+    const name = rawName.toUpperCase();
+
+    if (name === 'BEGIN') {
+      stack.push({ name: value, props: [] });
+      return;
+    }
+    if (name === 'END') {
+      const component = stack.pop();
+      if (!component || component.name !== value) problems.push(`unbalanced END:${value}`);
+      else components.push(component);
+      return;
+    }
+    if (stack.length === 0) {
+      problems.push(`property ${name} outside a component`);
+      return;
+    }
+
+    stack[stack.length - 1].props.push({ name, params, value });
+    const tzid = params.match(/;TZID=("[^"]*"|[^;:]*)/);
+    if (tzid) referenced.add(tzid[1]);
+    if (name === 'TZID') tzids.add(value);
+  });
+  if (stack.length > 0) problems.push(`unclosed ${stack.map((c) => c.name).join(', ')}`);
+
+  const count = (component: Component, property: string) =>
+    component.props.filter((prop) => prop.name === property).length;
+  const requireOnce = (component: Component, property: string) => {
+    if (count(component, property) !== 1) {
+      problems.push(`${component.name} must have exactly one ${property}`);
+    }
+  };
+
+  components.forEach((component) => {
+    switch (component.name) {
+      case 'VCALENDAR':
+        requireOnce(component, 'VERSION');
+        requireOnce(component, 'PRODID');
+        break;
+      case 'VEVENT':
+        requireOnce(component, 'UID');
+        requireOnce(component, 'DTSTAMP');
+        requireOnce(component, 'DTSTART');
+        if (count(component, 'DTEND') > 1) problems.push('VEVENT has more than one DTEND');
+        component.props
+          .filter((prop) => prop.name === 'DTSTAMP')
+          .forEach((prop) => {
+            if (!/^\d{8}T\d{6}Z$/.test(prop.value)) problems.push('DTSTAMP must be UTC');
+          });
+        component.props
+          .filter((prop) => prop.name === 'RRULE')
+          .forEach((prop) => {
+            const until = prop.value.match(/UNTIL=([^;]+)/);
+            if (until && !/Z$/.test(until[1])) {
+              problems.push('UNTIL must be UTC when DTSTART has a TZID');
+            }
+          });
+        break;
+      case 'VTIMEZONE':
+        requireOnce(component, 'TZID');
+        break;
+      case 'STANDARD':
+      case 'DAYLIGHT':
+        requireOnce(component, 'DTSTART');
+        requireOnce(component, 'TZOFFSETFROM');
+        requireOnce(component, 'TZOFFSETTO');
+        component.props
+          .filter((prop) => prop.name.startsWith('TZOFFSET'))
+          .forEach((prop) => {
+            if (!/^[+-]\d{4}$/.test(prop.value)) problems.push(`bad UTC offset ${prop.value}`);
+          });
+        break;
+    }
+  });
+
+  referenced.forEach((tzid) => {
+    if (!tzids.has(tzid)) problems.push(`TZID ${tzid} has no VTIMEZONE`);
+  });
+
+  return problems;
+};
+
+// Property values of a calendar, unfolded
+const propertyValues = (ics: string, property: string): string[] =>
+  ics
+    .replace(/\r\n[ \t]/g, '')
+    .split('\r\n')
+    .filter((line) => line.startsWith(`${property}:`) || line.startsWith(`${property};`))
+    .map((line) => line.slice(line.indexOf(':') + 1));
+
+const standup: CalendarEvent = {
+  uid: 'e1@econnect',
+  sequence: 0,
+  start: new Date('2026-03-23T09:00:00Z'),
+  end: new Date('2026-03-23T09:30:00Z'),
+  title: 'Standup; daily, quick',
+  description: 'Line one\nLine two',
+  url: 'https://app.example.com/events/e1/meeting',
+  organizer: { name: 'Alice Example', email: 'alice@example.com' },
+  attendees: [{ name: 'Bob, Jr.', email: 'bob@example.com', status: 'ACCEPTED' }],
+  status: 'CONFIRMED',
+};
+
+describe('buildCalendar', () => {
+  it('produces a valid calendar for a single event', () => {
+    const ics = buildCalendar([standup], {
+      method: 'PUBLISH',
+      timeZone: 'Europe/Berlin',
+      stamp: new Date('2026-03-01T00:00:00Z'),
+    });
+
+    expect(validateICalendar(ics)).toEqual([]);
+    expect(propertyValues(ics, 'METHOD')).toEqual(['PUBLISH']);
+    expect(propertyValues(ics, 'SUMMARY')).toEqual(['Standup\\; daily\\, quick']);
+    expect(propertyValues(ics, 'DESCRIPTION')).toEqual(['Line one\\nLine two']);
+    expect(propertyValues(ics, 'URL')).toEqual(['https://app.example.com/events/e1/meeting']);
+    expect(propertyValues(ics, 'DTSTART;TZID=Europe/Berlin')).toEqual(['20260323T100000']);
+    expect(ics).toContain('ORGANIZER;CN=Alice Example:mailto:alice@example.com');
+    expect(ics.replace(/\r\n /g, '')).toContain(
+      'ATTENDEE;CN="Bob, Jr.";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:bob@example.com'
+    );
+  });
+
+  it('describes the daylight saving changes of the time zone', () => {
+    const ics = buildCalendar([standup], {
+      method: 'PUBLISH',
+      timeZone: 'Europe/Berlin',
+      stamp: new Date('2026-03-01T00:00:00Z'),
+    });
+
+    expect(ics).toContain(
+      'BEGIN:DAYLIGHT\r\nDTSTART:20260329T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0200'
+    );
+    expect(ics).toContain(
+      'BEGIN:STANDARD\r\nDTSTART:20261025T030000\r\nTZOFFSETFROM:+0200\r\nTZOFFSETTO:+0100'
+    );
+  });
+
+  it('writes recurring series with exceptions and moved occurrences', () => {
+    const ics = buildCalendar(
+      [
+        {
+          ...standup,
+          rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260430T235959Z',
+          exdates: [new Date('2026-03-25T09:00:00Z')],
+        },
+        {
+          ...standup,
+          recurrenceId: new Date('2026-03-30T08:00:00Z'),
+          start: new Date('2026-03-30T10:00:00Z'),
+          end: new Date('2026-03-30T10:30:00Z'),
+          title: 'Standup (moved)',
+        },
+      ],
+      { method: 'REQUEST', timeZone: 'America/New_York', stamp: new Date('2026-03-01T00:00:00Z') }
+    );
+
+    expect(validateICalendar(ics)).toEqual([]);
+    expect(propertyValues(ics, 'RRULE')).toEqual(['FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260430T235959Z']);
+    expect(propertyValues(ics, 'EXDATE')).toEqual(['20260325T050000']);
+    expect(propertyValues(ics, 'RECURRENCE-ID')).toEqual(['20260330T040000']);
+    expect(propertyValues(ics, 'UID')).toEqual(['e1@econnect', 'e1@econnect']);
+  });
+
+  it('marks cancellations', () => {
+    const ics = buildCalendar([{ ...standup, status: 'CANCELLED', sequence: 2 }], {
+      method: 'CANCEL',
+      timeZone: 'UTC',
+    });
+
+    expect(validateICalendar(ics)).toEqual([]);
+    expect(propertyValues(ics, 'METHOD')).toEqual(['CANCEL']);
+    expect(propertyValues(ics, 'STATUS')).toEqual(['CANCELLED']);
+    expect(propertyValues(ics, 'SEQUENCE')).toEqual(['2']);
+  });
+
+  it('produces a valid empty feed', () => {
+    const ics = buildCalendar([], { method: 'PUBLISH', timeZone: 'UTC', name: 'My events' });
+    expect(validateICalendar(ics)).toEqual([]);
+    expect(propertyValues(ics, 'X-WR-CALNAME')).toEqual(['My events']);
+  });
+});
+
+describe('foldLine', () => {
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const line = `SUMMARY:${'é'.repeat(100)}`;
+    const folded = foldLine(line);
+
+    folded.split('\r\n').forEach((part) => {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+    });
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+
+  it('leaves short lines alone', () => {
+    expect(foldLine('VERSION:2.0')).toBe('VERSION:2.0');
+  });
+});
+
+describe('escapeText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeText('a\\b;c,d\r\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+  });
+});
+
+describe('time zones', () => {
+  it('reads offsets and wall-clock times from the platform', () => {
+    expect(offsetMinutes(new Date('2026-01-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    expect(offsetMinutes(new Date('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+    expect(formatLocal(new Date('2026-07-15T12:00:00Z'), 'America/New_York')).toBe('20260715T080000');
+  });
+
+  it('recognises IANA time zone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Not/AZone')).toBe(false);
+  });
+});
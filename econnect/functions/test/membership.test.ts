@@ -0,0 +1,121 @@
+import {
+  toMemberIds,
+  eventMemberIds,
+  summaryChanged,
+  planMembershipSync,
+  eventMembershipRecord,
+  EVENT_SUMMARY_FIELDS,
+} from '../src/membership';
+
+// Stand-in for a Firestore Timestamp, which is compared with isEqual
+const timestamp = (millis: number) => ({
+  millis,
+  isEqual: (other: { millis: number }) => other.millis === millis,
+});
+
+describe('toMemberIds', () => {
+  it('accepts both ID strings and legacy { userId } entries', () => {
+    expect(toMemberIds(['alice', { userId: 'bob' }, 'alice', null, { name: 'x' }])).toEqual([
+      'alice',
+      'bob',
+    ]);
+  });
+
+  it('treats a missing list as empty', () => {
+    expect(toMemberIds(undefined)).toEqual([]);
+  });
+});
+
+describe('eventMemberIds', () => {
+  it('keeps the host as a member even when not listed as a participant', () => {
+    expect(eventMemberIds({ createdBy: 'alice', participants: ['bob'] })).toEqual(['alice', 'bob']);
+  });
+});
+
+describe('summaryChanged', () => {
+  const event = { title: 'Standup', startTime: timestamp(1000), participants: ['alice'] };
+
+  it('ignores changes outside the copied fields', () => {
+    expect(
+      summaryChanged(event, { ...event, participants: ['alice', 'bob'] }, EVENT_SUMMARY_FIELDS)
+    ).toBe(false);
+  });
+
+  it('rewrites memberships when the event is cancelled or changes hands', () => {
+    expect(summaryChanged(event, { ...event, status: 'cancelled' }, EVENT_SUMMARY_FIELDS)).toBe(true);
+    expect(summaryChanged(event, { ...event, createdBy: 'bob' }, EVENT_SUMMARY_FIELDS)).toBe(true);
+  });
+
+  it('compares timestamps by value', () => {
+    expect(summaryChanged(event, { ...event, startTime: timestamp(1000) }, EVENT_SUMMARY_FIELDS)).toBe(
+      false
+    );
+    expect(summaryChanged(event, { ...event, startTime: timestamp(2000) }, EVENT_SUMMARY_FIELDS)).toBe(
+      true
+    );
+  });
+
+  it('reports creation and deletion as changes', () => {
+    expect(summaryChanged(undefined, event, EVENT_SUMMARY_FIELDS)).toBe(true);
+    expect(summaryChanged(event, undefined, EVENT_SUMMARY_FIELDS)).toBe(true);
+  });
+});
+
+describe('planMembershipSync', () => {
+  it('writes only joiners and removes leavers', () => {
+    expect(planMembershipSync(['alice', 'bob'], ['alice', 'carol'], false)).toEqual({
+      upserts: ['carol'],
+      removals: ['bob'],
+    });
+  });
+
+  it('rewrites every member when the summary changed', () => {
+    expect(planMembershipSync(['alice', 'bob'], ['alice', 'bob'], true)).toEqual({
+      upserts: ['alice', 'bob'],
+      removals: [],
+    });
+  });
+
+  it('removes everyone when the parent is deleted', () => {
+    expect(planMembershipSync(['alice', 'bob'], [], true)).toEqual({
+      upserts: [],
+      removals: ['alice', 'bob'],
+    });
+  });
+});
+
+describe('eventMembershipRecord', () => {
+  it('copies the summary and marks the host', () => {
+    const event = {
+      title: 'Standup',
+      description: 'Daily',
+      createdBy: 'alice',
+      participants: ['alice', 'bob'],
+      jitsiRoomName: 'room',
+    };
+
+    expect(eventMembershipRecord('e1', event, 'alice')).toEqual({
+      title: 'Standup',
+      description: 'Daily',
+      createdBy: 'alice',
+      eventId: 'e1',
+      userId: 'alice',
+      role: 'host',
+    });
+    expect(eventMembershipRecord('e1', event, 'bob').role).toBe('participant');
+  });
+
+  it('records when the last occurrence ends', () => {
+    const startTime = timestamp(1);
+    const endTime = timestamp(2);
+    const recurrenceEndTime = timestamp(3);
+    const single = { createdBy: 'alice', startTime, endTime };
+    const series = { ...single, recurrenceEndTime };
+
+    expect(eventMembershipRecord('e1', single, 'alice').endsAt).toBe(endTime);
+    expect(eventMembershipRecord('e1', series, 'alice').endsAt).toBe(recurrenceEndTime);
+    expect(eventMembershipRecord('e1', { createdBy: 'alice' }, 'alice')).not.toHaveProperty(
+      'endsAt'
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { isOwnedRecordingKey, recordingKeyFor } from '../src/recordingKeys';
+
+describe('recordingKeyFor', () => {
+  it('files recordings under the owner, event and meeting', () => {
+    expect(recordingKeyFor('alice', 'e1', 'm1', 'Talk.WEBM', 'abc')).toBe(
+      'recordings/alice/e1/m1/abc.webm'
+    );
+    expect(recordingKeyFor('alice', 'e1', 'm1', 'recording', 'abc')).toBe(
+      'recordings/alice/e1/m1/abc.mp4'
+    );
+  });
+});
+
+describe('isOwnedRecordingKey', () => {
+  it('accepts keys under the owner prefix', () => {
+    expect(isOwnedRecordingKey(recordingKeyFor('alice', 'e1', 'm1', 'a.mp4', 'x'), 'alice')).toBe(
+      true
+    );
+  });
+
+  it("rejects other users' files and keys that leave the prefix", () => {
+    expect(isOwnedRecordingKey('recordings/bob/e1/m1/x.mp4', 'alice')).toBe(false);
+    expect(isOwnedRecordingKey('recordings/alice2/e1/m1/x.mp4', 'alice')).toBe(false);
+    expect(isOwnedRecordingKey('recordings/alice/../bob/e1/x.mp4', 'alice')).toBe(false);
+    expect(isOwnedRecordingKey('recordings/alice/', 'alice')).toBe(false);
+    expect(isOwnedRecordingKey('exports/alice/x.csv', 'alice')).toBe(false);
+  });
+
+  it('rejects missing keys and owners', () => {
+    expect(isOwnedRecordingKey(undefined, 'alice')).toBe(false);
+    expect(isOwnedRecordingKey('recordings/alice/x.mp4', undefined)).toBe(false);
+    expect(isOwnedRecordingKey('recordings//x.mp4', '')).toBe(false);
+  });
+});
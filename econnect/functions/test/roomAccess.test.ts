@@ -0,0 +1,185 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import {
+  buildJitsiClaims,
+  checkRoomAccess,
+  currentOccurrence,
+  grantsModerator,
+} from '../src/roomAccess';
+import type { EventRecord, UserRecord } from '../src/rooms';
+
+const event = (data: Partial<EventRecord> = {}): EventRecord => ({
+  id: 'e1',
+  title: 'Standup',
+  createdBy: 'host',
+  coHosts: ['cohost'],
+  status: 'scheduled',
+  participants: ['host', 'cohost', 'alice'],
+  startTime: new Date('2030-01-07T09:00:00Z'),
+  endTime: new Date('2030-01-07T10:00:00Z'),
+  jitsiRoomName: 'standup-abcd',
+  ...data,
+});
+
+const user = (id: string, data: Partial<UserRecord> = {}): UserRecord => ({
+  id,
+  role: 'user',
+  ...data,
+});
+
+// The HttpsError code a check fails with
+const codeOf = (check: () => unknown): string | undefined => {
+  try {
+    check();
+  } catch (error) {
+    if (error instanceof HttpsError) return error.code;
+    throw error;
+  }
+  return undefined;
+};
+
+describe('checkRoomAccess', () => {
+  it('tells hosts, co-hosts and participants apart', () => {
+    expect(checkRoomAccess(event(), user('host'))).toMatchObject({
+      isHost: true,
+      isCoHost: false,
+      isParticipant: true,
+    });
+    expect(checkRoomAccess(event(), user('cohost'))).toMatchObject({
+      isHost: false,
+      isCoHost: true,
+      isParticipant: true,
+    });
+    expect(checkRoomAccess(event(), user('alice'))).toMatchObject({
+      isHost: false,
+      isCoHost: false,
+      isParticipant: true,
+    });
+  });
+
+  it('counts the host as a participant even when not listed', () => {
+    expect(checkRoomAccess(event({ participants: [] }), user('host')).isParticipant).toBe(true);
+  });
+
+  it('keeps non-members out, but lets admins in', () => {
+    expect(codeOf(() => checkRoomAccess(event(), user('mallory')))).toBe('permission-denied');
+    expect(checkRoomAccess(event(), user('admin', { role: 'admin' }))).toMatchObject({
+      isHost: false,
+      isCoHost: false,
+      isParticipant: false,
+    });
+  });
+
+  it('closes the rooms of cancelled events to everyone', () => {
+    const cancelled = event({ status: 'cancelled' });
+    ['host', 'cohost', 'alice'].forEach((id) =>
+      expect(codeOf(() => checkRoomAccess(cancelled, user(id)))).toBe('failed-precondition')
+    );
+    expect(codeOf(() => checkRoomAccess(cancelled, user('admin', { role: 'admin' })))).toBe(
+      'failed-precondition'
+    );
+  });
+});
+
+describe('grantsModerator', () => {
+  const moderates = (member: UserRecord, requested = true) =>
+    grantsModerator(checkRoomAccess(event(), member), member, requested);
+
+  it('grants moderator rights to hosts, co-hosts and admins who ask for them', () => {
+    expect(moderates(user('host'))).toBe(true);
+    expect(moderates(user('cohost'))).toBe(true);
+    expect(moderates(user('admin', { role: 'admin' }))).toBe(true);
+    expect(moderates(user('host'), false)).toBe(false);
+  });
+
+  it('never grants them to other participants', () => {
+    expect(moderates(user('alice'))).toBe(false);
+    expect(moderates(user('alice', { role: 'service-provider' }))).toBe(false);
+  });
+});
+
+describe('buildJitsiClaims', () => {
+  const claims = (member: UserRecord, moderator: boolean) =>
+    buildJitsiClaims({
+      roomName: 'standup-abcd',
+      user: member,
+      event: event(),
+      moderator,
+      appId: 'econnect',
+      domain: 'meet.jitsi',
+    });
+
+  it('opens the room shortly before the event and closes it an hour after', () => {
+    expect(claims(user('alice'), false)).toMatchObject({
+      aud: 'jitsi',
+      iss: 'econnect',
+      sub: 'meet.jitsi',
+      room: 'standup-abcd',
+      nbf: Date.parse('2030-01-07T08:45:00Z') / 1000,
+      exp: Date.parse('2030-01-07T11:00:00Z') / 1000,
+    });
+  });
+
+  it('gives moderators the recording and streaming features', () => {
+    const host = claims(user('host', { displayName: 'Hana', email: 'hana@example.com' }), true);
+    expect(host.moderator).toBe(true);
+    expect(host.context).toEqual({
+      user: {
+        id: 'host',
+        name: 'Hana',
+        email: 'hana@example.com',
+        avatar: '',
+        moderator: 'true',
+      },
+      features: {
+        recording: 'true',
+        livestreaming: 'true',
+        transcription: 'true',
+        'outbound-call': 'false',
+      },
+    });
+  });
+
+  it('leaves participants without them', () => {
+    const participant = claims(user('alice', { email: 'alice@example.com' }), false);
+    expect(participant.moderator).toBe(false);
+    expect(participant.context.user).toMatchObject({ name: 'alice@example.com', moderator: 'false' });
+    expect(Object.values(participant.context.features)).toEqual(['false', 'false', 'false', 'false']);
+  });
+});
+
+describe('currentOccurrence', () => {
+  // A weekly series; each occurrence runs 09:00 to 10:00
+  const occurrences = ['2030-01-07', '2030-01-14', '2030-01-21'].map((day) => ({
+    eventId: 'e1',
+    startTime: new Date(`${day}T09:00:00Z`),
+    endTime: new Date(`${day}T10:00:00Z`),
+  }));
+
+  it('picks the occurrence whose room is open, late leavers included', () => {
+    expect(currentOccurrence(occurrences, new Date('2030-01-14T09:30:00Z'))).toBe(occurrences[1]);
+    expect(currentOccurrence(occurrences, new Date('2030-01-14T10:59:00Z'))).toBe(occurrences[1]);
+  });
+
+  it('otherwise picks the next one, in any order', () => {
+    const shuffled = [occurrences[2], occurrences[0], occurrences[1]];
+    expect(currentOccurrence(shuffled, new Date('2030-01-09T12:00:00Z'))).toBe(occurrences[1]);
+  });
+
+  it('finds nothing once the last occurrence has closed', () => {
+    expect(currentOccurrence(occurrences, new Date('2030-01-21T11:01:00Z'))).toBeNull();
+  });
+
+  it('scopes the token to that occurrence rather than the series', () => {
+    const occurrence = currentOccurrence(occurrences, new Date('2030-01-14T09:30:00Z'))!;
+    const claims = buildJitsiClaims({
+      roomName: 'standup-abcd',
+      user: user('alice'),
+      event: event({ startTime: occurrence.startTime, endTime: occurrence.endTime }),
+      moderator: false,
+      appId: 'econnect',
+      domain: 'meet.jitsi',
+    });
+    expect(claims.nbf).toBe(Date.parse('2030-01-14T08:45:00Z') / 1000);
+    expect(claims.exp).toBe(Date.parse('2030-01-14T11:00:00Z') / 1000);
+  });
+});
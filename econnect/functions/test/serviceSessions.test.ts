@@ -0,0 +1,50 @@
+import { needsSessionRoom, toServiceSessionRecord } from '../src/serviceSessions';
+
+const request = (data: Record<string, unknown> = {}) => ({
+  serviceId: 's1',
+  requesterId: 'alice',
+  providerId: 'provider',
+  status: 'accepted',
+  scheduledTime: new Date('2030-01-07T09:00:00Z'),
+  scheduledEndTime: new Date('2030-01-07T09:30:00Z'),
+  jitsiRoomName: 'service-r1-abcd',
+  ...data,
+});
+
+describe('needsSessionRoom', () => {
+  it('provisions a room for accepted requests without one', () => {
+    expect(needsSessionRoom(request({ jitsiRoomName: undefined }))).toBe(true);
+  });
+
+  it('skips other statuses and requests that already have a room', () => {
+    expect(needsSessionRoom(request())).toBe(false);
+    expect(needsSessionRoom(request({ status: 'pending', jitsiRoomName: undefined }))).toBe(false);
+    expect(needsSessionRoom(request({ status: 'rejected', jitsiRoomName: undefined }))).toBe(false);
+    expect(needsSessionRoom(undefined)).toBe(false);
+  });
+});
+
+describe('toServiceSessionRecord', () => {
+  it('lets the provider host and the requester take part during the session', () => {
+    expect(toServiceSessionRecord('r1', request(), 'Tutoring')).toEqual({
+      id: 'r1',
+      title: 'Tutoring',
+      createdBy: 'provider',
+      coHosts: [],
+      status: 'scheduled',
+      participants: ['provider', 'alice'],
+      startTime: new Date('2030-01-07T09:00:00Z'),
+      endTime: new Date('2030-01-07T09:30:00Z'),
+      jitsiRoomName: 'service-r1-abcd',
+    });
+  });
+
+  it('defaults to an hour-long session and closes the room once the request is done', () => {
+    const record = toServiceSessionRecord(
+      'r1',
+      request({ status: 'completed', scheduledEndTime: null })
+    );
+    expect(record.status).toBe('cancelled');
+    expect(record.endTime).toEqual(new Date('2030-01-07T10:00:00Z'));
+  });
+});
@@ -0,0 +1,36 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { isSameValue, toDate, toOptionalString } from '../src/values';
+
+describe('toDate', () => {
+  it('reads Timestamps, Dates, ISO strings and epoch millis', () => {
+    const date = new Date('2030-01-07T08:00:00Z');
+    expect(toDate(Timestamp.fromDate(date))).toEqual(date);
+    expect(toDate(date)).toEqual(date);
+    expect(toDate('2030-01-07T08:00:00Z')).toEqual(date);
+    expect(toDate(date.getTime())).toEqual(date);
+  });
+
+  it('gives null for missing and unreadable values', () => {
+    [undefined, null, '', 'soon', {}, true].forEach((value) => expect(toDate(value)).toBeNull());
+  });
+});
+
+describe('toOptionalString', () => {
+  it('keeps non-empty strings only', () => {
+    expect(toOptionalString('a')).toBe('a');
+    expect(toOptionalString('')).toBeUndefined();
+    expect(toOptionalString(1)).toBeUndefined();
+  });
+});
+
+describe('isSameValue', () => {
+  it('compares times by value and everything else by identity', () => {
+    const time = Date.parse('2030-01-07T08:00:00Z');
+    expect(isSameValue(Timestamp.fromMillis(time), Timestamp.fromMillis(time))).toBe(true);
+    expect(isSameValue(Timestamp.fromMillis(time), null)).toBe(false);
+    expect(isSameValue(new Date(time), new Date(time))).toBe(true);
+    expect(isSameValue(undefined, null)).toBe(true);
+    expect(isSameValue('a', 'b')).toBe(false);
+    expect(isSameValue([], [])).toBe(false);
+  });
+});
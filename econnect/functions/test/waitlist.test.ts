@@ -0,0 +1,51 @@
+import { planWaitlistPromotion } from '../src/waitlist';
+
+describe('planWaitlistPromotion', () => {
+  it('fills open spots from the front of the waitlist', () => {
+    expect(
+      planWaitlistPromotion({
+        participants: ['alice'],
+        waitlist: ['bob', 'carol', 'dave'],
+        maxParticipants: 3,
+      })
+    ).toEqual({
+      participants: ['alice', 'bob', 'carol'],
+      waitlist: ['dave'],
+      promoted: ['bob', 'carol'],
+    });
+  });
+
+  it('lets everyone in when the event has no limit', () => {
+    expect(
+      planWaitlistPromotion({ participants: ['alice'], waitlist: ['bob', 'carol'], maxParticipants: null })
+    ).toEqual({ participants: ['alice', 'bob', 'carol'], waitlist: [], promoted: ['bob', 'carol'] });
+  });
+
+  it('does nothing while the event is full or nobody is waiting', () => {
+    expect(
+      planWaitlistPromotion({ participants: ['alice', 'bob'], waitlist: ['carol'], maxParticipants: 2 })
+    ).toBeNull();
+    expect(
+      planWaitlistPromotion({ participants: ['alice', 'bob', 'carol'], waitlist: ['dave'], maxParticipants: 2 })
+    ).toBeNull();
+    expect(planWaitlistPromotion({ participants: ['alice'], maxParticipants: 2 })).toBeNull();
+    expect(planWaitlistPromotion(undefined)).toBeNull();
+  });
+
+  it('drops waitlist entries for people who are already participants', () => {
+    expect(
+      planWaitlistPromotion({ participants: ['alice'], waitlist: ['alice', 'bob'], maxParticipants: 5 })
+    ).toEqual({ participants: ['alice', 'bob'], waitlist: [], promoted: ['bob'] });
+  });
+
+  it('lets nobody in once the event is cancelled', () => {
+    expect(
+      planWaitlistPromotion({
+        participants: ['alice'],
+        waitlist: ['bob'],
+        maxParticipants: null,
+        status: 'cancelled',
+      })
+    ).toBeNull();
+  });
+});
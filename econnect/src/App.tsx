@@ -11,6 +11,9 @@ import ForgotPassword from './components/auth/ForgotPassword';
 
 // Layout Components
 import Layout from './components/common/Layout';
+import ProtectedRoute from './components/auth/ProtectedRoute';
+import PublicOnlyRoute from './components/auth/PublicOnlyRoute';
+import RequirePermission from './components/auth/RequirePermission';
 
 // Dashboard Components
 import Dashboard from './components/dashboard/Dashboard';
@@ -20,30 +23,32 @@ import UserProfile from './components/dashboard/UserProfile';
 import EventList from './components/events/EventList';
 import EventDetails from './components/events/EventDetails';
 import EventCreation from './components/events/EventCreation';
+import EventDiscovery from './components/events/EventDiscovery';
 
 // Meeting Components
 import MeetingRoom from './components/meetings/MeetingRoom';
+import EventMeetingRedirect from './components/meetings/EventMeetingRedirect';
 
 // Virtual Space Components
 import VirtualSpace from './components/virtualSpace/VirtualSpace';
 
 // Service Components
 import ServiceList from './components/services/ServiceList';
-// import ServiceDetails from './components/services/ServiceDetails';
-import ServiceRequest from './components/services/ServiceCreation';
+import ServiceDetails from './components/services/ServiceDetails';
+import ServiceCreation from './components/services/ServiceCreation';
+import ProviderProfile from './components/services/ProviderProfile';
+import ServiceRequestInbox from './components/services/ServiceRequestInbox';
+import ServiceSessionRoom from './components/services/ServiceSessionRoom';
 
-// Protected Route Component
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // Check if user is authenticated
-  const isAuthenticated = localStorage.getItem('user') !== null;
-  
-  if (!isAuthenticated) {
-    // Redirect to login if not authenticated
-    return <Navigate to="/login" />;
-  }
-  
-  return <>{children}</>;
-};
+// Analytics Components
+import MeetingAnalytics from './components/analytics/MeetingAnalytics';
+import MeetingAnalyticsDetails from './components/analytics/MeetingAnalyticsDetails';
+
+// Recording Components
+import RecordingsList from './components/recordings/RecordingsList';
+
+// Admin Components
+import UserManagement from './components/admin/UserManagement';
 
 // Theme
 const theme = createTheme({
@@ -65,8 +70,10 @@ function App() {
         <Router>
           <Routes>
             {/* Auth Routes */}
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
+            <Route element={<PublicOnlyRoute />}>
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+            </Route>
             <Route path="/forgot-password" element={<ForgotPassword />} />
             
             {/* Protected Routes */}
@@ -82,19 +89,42 @@ function App() {
               {/* Event Routes */}
               <Route path="events" element={<EventList />} />
               <Route path="events/create" element={<EventCreation />} />
+              <Route path="events/discover" element={<EventDiscovery />} />
               <Route path="events/:eventId" element={<EventDetails />} />
+              <Route path="events/:eventId/meeting" element={<EventMeetingRedirect />} />
               
               {/* Meeting Routes */}
               <Route path="meetings/:meetingId" element={<MeetingRoom />} />
               
+              {/* Analytics Routes */}
+              <Route path="analytics" element={<RequirePermission permission="analytics:view" />}>
+                <Route index element={<MeetingAnalytics />} />
+                <Route path=":meetingId" element={<MeetingAnalyticsDetails />} />
+              </Route>
+
+              {/* Recording Routes */}
+              <Route path="recordings" element={<RecordingsList />} />
+              
               {/* Virtual Space Routes */}
               <Route path="virtual-space" element={<VirtualSpace />} />
               <Route path="virtual-space/:eventId" element={<VirtualSpace />} />
               
               {/* Service Routes */}
               <Route path="services" element={<ServiceList />} />
-              {/* <Route path="services/:serviceId" element={<ServiceDetails />} /> */}
-              <Route path="services/request" element={<ServiceRequest />} />
+              <Route path="services/create" element={
+                <RequirePermission permission="services:create">
+                  <ServiceCreation />
+                </RequirePermission>
+              } />
+              <Route path="services/requests" element={<ServiceRequestInbox />} />
+              <Route path="services/requests/:requestId/session" element={<ServiceSessionRoom />} />
+              <Route path="services/:serviceId" element={<ServiceDetails />} />
+              <Route path="providers/:providerId" element={<ProviderProfile />} />
+
+              {/* Admin Routes */}
+              <Route path="admin" element={<RequirePermission permission="users:manage" />}>
+                <Route path="users" element={<UserManagement />} />
+              </Route>
             </Route>
             
             {/* Fallback Route */}
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Typography,
+  Paper,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Select,
+  MenuItem,
+  Avatar,
+  CircularProgress,
+  Alert,
+  SelectChangeEvent,
+} from '@mui/material';
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { firestore } from '../../services/firebase';
+import { useAuth } from '../../context/AuthContext';
+import { ROLE_LABELS } from '../../services/permissions';
+import { usersRepository } from '../../services/repository';
+import { User, UserRole } from '../../types';
+
+const ROLES: UserRole[] = ['user', 'service-provider', 'admin'];
+
+const UserManagement: React.FC = () => {
+  const { userProfile } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const usersData = await usersRepository.list();
+        usersData.sort((a, b) => (a.displayName || '').localeCompare(b.displayName || ''));
+
+        setUsers(usersData);
+        setLoading(false);
+      } catch (error) {
+        console.error('Error fetching users:', error);
+        setError('Failed to load users');
+        setLoading(false);
+      }
+    };
+
+    fetchUsers();
+  }, []);
+
+  const handleRoleChange = async (user: User, event: SelectChangeEvent) => {
+    const role = event.target.value as UserRole;
+
+    try {
+      setUpdatingId(user.id);
+      setError(null);
+
+      await updateDoc(doc(firestore, 'users', user.id), {
+        role,
+        updatedAt: serverTimestamp(),
+      });
+
+      setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, role } : u)));
+    } catch (error) {
+      console.error('Error updating role:', error);
+      setError('Failed to update role');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '60vh',
+        }}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" gutterBottom>
+        User Management
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>User</TableCell>
+                <TableCell>Email</TableCell>
+                <TableCell>Role</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Avatar src={user.photoURL || undefined} sx={{ width: 32, height: 32 }}>
+                        {user.displayName?.charAt(0) || 'U'}
+                      </Avatar>
+                      {user.displayName}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell>
+                    <Select
+                      size="small"
+                      value={user.role}
+                      onChange={(event) => handleRoleChange(user, event)}
+                      // Admins can't demote themselves and lock everyone out
+                      disabled={updatingId === user.id || user.id === userProfile?.id}
+                    >
+                      {ROLES.map((role) => (
+                        <MenuItem key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+    </Container>
+  );
+};
+
+export default UserManagement;
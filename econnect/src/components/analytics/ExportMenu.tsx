@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem, ListItemIcon, ListItemText } from '@mui/material';
+import {
+  FileDownload as FileDownloadIcon,
+  TableChart as TableChartIcon,
+  DataObject as DataObjectIcon,
+  PictureAsPdf as PictureAsPdfIcon,
+} from '@mui/icons-material';
+import { exportAnalytics, AnalyticsExportOptions, ExportFormat } from '../../services/analyticsExport';
+import { MeetingAnalytics } from '../../types';
+
+interface ExportMenuProps {
+  analytics: MeetingAnalytics[];
+  options: AnalyticsExportOptions;
+  onError?: (message: string) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: React.ReactNode }[] = [
+  { format: 'csv', label: 'CSV', icon: <TableChartIcon fontSize="small" /> },
+  { format: 'json', label: 'JSON', icon: <DataObjectIcon fontSize="small" /> },
+  { format: 'pdf', label: 'PDF report', icon: <PictureAsPdfIcon fontSize="small" /> },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ analytics, options, onError }) => {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    setAnchorEl(null);
+    try {
+      exportAnalytics(analytics, exportFormat, options);
+    } catch (error) {
+      if (onError) {
+        onError('Failed to export attendance');
+      }
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FileDownloadIcon />}
+        disabled={analytics.length === 0}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {FORMATS.map(({ format, label, icon }) => (
+          <MenuItem key={format} onClick={() => handleExport(format)}>
+            <ListItemIcon>{icon}</ListItemIcon>
+            <ListItemText>{label}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default ExportMenu;
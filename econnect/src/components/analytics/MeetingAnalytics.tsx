@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -15,23 +16,44 @@ import {
   TableRow,
   CircularProgress,
   Alert,
-  Select,
-  MenuItem,
-  FormControl,
-  InputLabel,
-  SelectChangeEvent,
+  Autocomplete,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
-import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { BarChart } from '@mui/x-charts/BarChart';
+import { LineChart } from '@mui/x-charts/LineChart';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { endOfDay, startOfDay } from 'date-fns';
 import { useAuth } from '../../context/AuthContext';
-import { MeetingAnalytics as MeetingAnalyticsType, ParticipantAnalytics } from '../../types';
+import useTimeZone from '../../hooks/useTimeZone';
+import { formatDateInTimeZone, formatTimeInTimeZone } from '../../services/timeZones';
+import {
+  getHostAnalytics,
+  groupAnalyticsByPeriod,
+  formatDuration,
+  AnalyticsPeriod,
+} from '../../services/analytics';
+import { MeetingAnalytics as MeetingAnalyticsType } from '../../types';
+import ExportMenu from './ExportMenu';
+
+const getMeetingLabel = (meeting: MeetingAnalyticsType, timeZone: string) =>
+  `${meeting.title || 'Meeting'} (${formatDateInTimeZone(meeting.startTime, timeZone)})`;
 
 const MeetingAnalytics: React.FC = () => {
+  const navigate = useNavigate();
   const { userProfile } = useAuth();
+  const timeZone = useTimeZone();
   const [analytics, setAnalytics] = useState<MeetingAnalyticsType[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedMeeting, setSelectedMeeting] = useState<string>('all');
+  const [selectedMeetings, setSelectedMeetings] = useState<MeetingAnalyticsType[]>([]);
+  const [fromDate, setFromDate] = useState<Date | null>(null);
+  const [toDate, setToDate] = useState<Date | null>(null);
+  const [period, setPeriod] = useState<AnalyticsPeriod>('week');
+  const [exportError, setExportError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchAnalytics = async () => {
@@ -44,18 +66,8 @@ const MeetingAnalytics: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        // Query analytics for meetings hosted by the current user
-        const analyticsQuery = query(
-          collection(firestore, 'meetingAnalytics'),
-          where('hostId', '==', userProfile.id),
-          orderBy('startTime', 'desc')
-        );
-        const analyticsSnapshot = await getDocs(analyticsQuery);
-        const analyticsData = analyticsSnapshot.docs.map(
-          (doc) => ({ id: doc.id, ...doc.data() } as MeetingAnalyticsType)
-        );
-
-        setAnalytics(analyticsData);
+        // Analytics for meetings hosted by the current user
+        setAnalytics(await getHostAnalytics(userProfile.id));
         setLoading(false);
       } catch (error) {
         console.error('Error fetching analytics:', error);
@@ -67,14 +79,21 @@ const MeetingAnalytics: React.FC = () => {
     fetchAnalytics();
   }, [userProfile]);
 
-  const handleMeetingChange = (event: SelectChangeEvent) => {
-    setSelectedMeeting(event.target.value);
-  };
+  // Filter by date range, then by the picked meetings (none picked = all)
+  const filteredAnalytics = useMemo(() => {
+    const selectedIds = new Set(selectedMeetings.map((meeting) => meeting.id));
+    return analytics.filter(
+      (meeting) =>
+        (!fromDate || meeting.startTime >= startOfDay(fromDate)) &&
+        (!toDate || meeting.startTime <= endOfDay(toDate)) &&
+        (selectedIds.size === 0 || selectedIds.has(meeting.id))
+    );
+  }, [analytics, selectedMeetings, fromDate, toDate]);
 
-  // Filter analytics based on selected meeting
-  const filteredAnalytics = selectedMeeting === 'all'
-    ? analytics
-    : analytics.filter((a) => a.id === selectedMeeting);
+  const trends = useMemo(
+    () => groupAnalyticsByPeriod(filteredAnalytics, period),
+    [filteredAnalytics, period]
+  );
 
   // Calculate total participants and average duration
   const totalParticipants = filteredAnalytics.reduce((sum, a) => sum + a.participantCount, 0);
@@ -82,13 +101,6 @@ const MeetingAnalytics: React.FC = () => {
     ? Math.round(filteredAnalytics.reduce((sum, a) => sum + a.averageDuration, 0) / filteredAnalytics.length / 60)
     : 0;
 
-  // Format duration in minutes and seconds
-  const formatDuration = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}m ${remainingSeconds}s`;
-  };
-
   if (loading) {
     return (
       <Box
@@ -132,30 +144,54 @@ const MeetingAnalytics: React.FC = () => {
 
   return (
     <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
-      <Typography variant="h4" gutterBottom>
-        Meeting Analytics
-      </Typography>
-
-      <Box sx={{ mb: 4 }}>
-        <FormControl sx={{ minWidth: 200 }}>
-          <InputLabel id="meeting-select-label">Meeting</InputLabel>
-          <Select
-            labelId="meeting-select-label"
-            id="meeting-select"
-            value={selectedMeeting}
-            label="Meeting"
-            onChange={handleMeetingChange}
-          >
-            <MenuItem value="all">All Meetings</MenuItem>
-            {analytics.map((a) => (
-              <MenuItem key={a.id} value={a.id}>
-                {new Date(a.startTime).toLocaleDateString()} - {a.participantCount} participants
-              </MenuItem>
-            ))}
-          </Select>
-        </FormControl>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4">Meeting Analytics</Typography>
+        <ExportMenu
+          analytics={filteredAnalytics}
+          options={{ hostName: userProfile?.displayName || '', from: fromDate, to: toDate }}
+          onError={setExportError}
+        />
       </Box>
 
+      {exportError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setExportError(null)}>
+          {exportError}
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <LocalizationProvider dateAdapter={AdapterDateFns}>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 4 }}>
+          <Autocomplete
+            multiple
+            limitTags={2}
+            options={analytics}
+            value={selectedMeetings}
+            onChange={(_, value) => setSelectedMeetings(value)}
+            getOptionLabel={(meeting) => getMeetingLabel(meeting, timeZone)}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
+            sx={{ flex: '1 1 320px' }}
+            renderInput={(params) => (
+              <TextField {...params} label="Meetings" placeholder="All meetings" />
+            )}
+          />
+          <DatePicker
+            label="From"
+            value={fromDate}
+            onChange={setFromDate}
+            maxDate={toDate || undefined}
+            slotProps={{ field: { clearable: true } }}
+          />
+          <DatePicker
+            label="To"
+            value={toDate}
+            onChange={setToDate}
+            minDate={fromDate || undefined}
+            slotProps={{ field: { clearable: true } }}
+          />
+        </Box>
+      </LocalizationProvider>
+
       {/* Summary Cards */}
       <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
         <Card sx={{ flex: '1 1 30%', minWidth: '250px' }}>
@@ -184,6 +220,61 @@ const MeetingAnalytics: React.FC = () => {
         </Card>
       </Box>
 
+      {/* Trends */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">Trends</Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={period}
+            onChange={(_, value: AnalyticsPeriod | null) => value && setPeriod(value)}
+          >
+            <ToggleButton value="week">Weekly</ToggleButton>
+            <ToggleButton value="month">Monthly</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+        {trends.length > 0 ? (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap' }}>
+            <Box sx={{ flex: '1 1 50%', minWidth: '300px' }}>
+              <BarChart
+                height={300}
+                dataset={trends.map(({ label, meetings, participants }) => ({
+                  label,
+                  meetings,
+                  participants,
+                }))}
+                xAxis={[{ scaleType: 'band', dataKey: 'label' }]}
+                series={[
+                  { dataKey: 'meetings', label: 'Meetings' },
+                  { dataKey: 'participants', label: 'Participants' },
+                ]}
+              />
+            </Box>
+            <Box sx={{ flex: '1 1 50%', minWidth: '300px' }}>
+              <LineChart
+                height={300}
+                xAxis={[{ scaleType: 'point', data: trends.map((point) => point.label) }]}
+                series={[
+                  {
+                    data: trends.map((point) => Math.round(point.averageDuration / 60)),
+                    label: 'Avg. time per participant (min)',
+                  },
+                  {
+                    data: trends.map((point) => point.peakParticipants),
+                    label: 'Peak participants',
+                  },
+                ]}
+              />
+            </Box>
+          </Box>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No meetings in the selected range.
+          </Typography>
+        )}
+      </Paper>
+
       {/* Meeting Statistics Table */}
       <Paper sx={{ p: 2, mb: 3 }}>
         <Typography variant="h6" gutterBottom>
@@ -193,6 +284,7 @@ const MeetingAnalytics: React.FC = () => {
           <Table>
             <TableHead>
               <TableRow>
+                <TableCell>Meeting</TableCell>
                 <TableCell>Date</TableCell>
                 <TableCell>Participants</TableCell>
                 <TableCell>Peak Participants</TableCell>
@@ -203,13 +295,19 @@ const MeetingAnalytics: React.FC = () => {
             </TableHead>
             <TableBody>
               {filteredAnalytics.map((analytics) => (
-                <TableRow key={analytics.id}>
-                  <TableCell>{new Date(analytics.startTime).toLocaleDateString()}</TableCell>
+                <TableRow
+                  key={analytics.id}
+                  hover
+                  sx={{ cursor: 'pointer' }}
+                  onClick={() => navigate(`/analytics/${analytics.meetingId}`)}
+                >
+                  <TableCell>{analytics.title || 'Meeting'}</TableCell>
+                  <TableCell>{formatDateInTimeZone(analytics.startTime, timeZone)}</TableCell>
                   <TableCell>{analytics.participantCount}</TableCell>
                   <TableCell>{analytics.peakParticipants}</TableCell>
                   <TableCell>{formatDuration(analytics.averageDuration)}</TableCell>
-                  <TableCell>{new Date(analytics.startTime).toLocaleTimeString()}</TableCell>
-                  <TableCell>{new Date(analytics.endTime).toLocaleTimeString()}</TableCell>
+                  <TableCell>{formatTimeInTimeZone(analytics.startTime, timeZone)}</TableCell>
+                  <TableCell>{formatTimeInTimeZone(analytics.endTime, timeZone)}</TableCell>
                 </TableRow>
               ))}
             </TableBody>
@@ -218,7 +316,7 @@ const MeetingAnalytics: React.FC = () => {
       </Paper>
 
       {/* Role Distribution Table */}
-      <Paper sx={{ p: 2, mb: 3 }}>
+      <Paper sx={{ p: 2 }}>
         <Typography variant="h6" gutterBottom>
           Participant Role Distribution
         </Typography>
@@ -235,14 +333,14 @@ const MeetingAnalytics: React.FC = () => {
               {(() => {
                 const roles: Record<string, number> = {};
                 let total = 0;
-                
+
                 filteredAnalytics.forEach((a) => {
                   a.participants.forEach((p) => {
                     roles[p.role] = (roles[p.role] || 0) + 1;
                     total++;
                   });
                 });
-                
+
                 return Object.entries(roles).map(([role, count]) => (
                   <TableRow key={role}>
                     <TableCell>{role}</TableCell>
@@ -255,43 +353,6 @@ const MeetingAnalytics: React.FC = () => {
           </Table>
         </TableContainer>
       </Paper>
-
-      {/* Participant Details Table */}
-      <Paper sx={{ p: 2 }}>
-        <Typography variant="h6" gutterBottom>
-          Participant Details
-        </Typography>
-        <TableContainer>
-          <Table>
-            <TableHead>
-              <TableRow>
-                <TableCell>Name</TableCell>
-                <TableCell>Role</TableCell>
-                <TableCell>Join Time</TableCell>
-                <TableCell>Leave Time</TableCell>
-                <TableCell>Duration</TableCell>
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {filteredAnalytics.flatMap((a) =>
-                a.participants.map((p, index) => (
-                  <TableRow key={`${a.id}-${index}`}>
-                    <TableCell>{p.displayName}</TableCell>
-                    <TableCell>{p.role}</TableCell>
-                    <TableCell>{new Date(p.joinTime).toLocaleString()}</TableCell>
-                    <TableCell>
-                      {p.leaveTime ? new Date(p.leaveTime).toLocaleString() : 'Still in meeting'}
-                    </TableCell>
-                    <TableCell>
-                      {p.duration ? formatDuration(p.duration) : 'N/A'}
-                    </TableCell>
-                  </TableRow>
-                ))
-              )}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      </Paper>
     </Container>
   );
 };
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Card,
+  CardContent,
+  CardHeader,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  CircularProgress,
+  Alert,
+  Button,
+  Tooltip,
+} from '@mui/material';
+import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+import { LineChart } from '@mui/x-charts/LineChart';
+import {
+  getMeetingAnalytics,
+  getAttendanceSpans,
+  getParticipantSpans,
+  buildParticipantCountSeries,
+  formatDuration,
+  AttendanceSpan,
+} from '../../services/analytics';
+import { getMeetingAttendance } from '../../services/attendance';
+import {
+  formatDateTimeInTimeZone,
+  formatInTimeZone,
+  formatTimeInTimeZone,
+} from '../../services/timeZones';
+import { useAuth } from '../../context/AuthContext';
+import useTimeZone from '../../hooks/useTimeZone';
+import { AttendanceInterval, MeetingAnalytics } from '../../types';
+import ExportMenu from './ExportMenu';
+
+const MeetingAnalyticsDetails: React.FC = () => {
+  const { meetingId } = useParams<{ meetingId: string }>();
+  const navigate = useNavigate();
+  const { userProfile } = useAuth();
+  const timeZone = useTimeZone();
+  const [analytics, setAnalytics] = useState<MeetingAnalytics | null>(null);
+  const [attendance, setAttendance] = useState<AttendanceInterval[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDetails = async () => {
+      if (!meetingId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [analyticsData, attendanceData] = await Promise.all([
+          getMeetingAnalytics(meetingId),
+          getMeetingAttendance(meetingId),
+        ]);
+
+        if (!analyticsData) {
+          setError('No analytics available for this meeting yet');
+          setLoading(false);
+          return;
+        }
+
+        setAnalytics(analyticsData);
+        setAttendance(attendanceData);
+        setLoading(false);
+      } catch (error) {
+        console.error('Error fetching meeting analytics:', error);
+        setError('Failed to load meeting analytics');
+        setLoading(false);
+      }
+    };
+
+    fetchDetails();
+  }, [meetingId]);
+
+  // Each participant's stays, from the raw intervals when the meeting has them
+  const spans = useMemo(() => {
+    if (!analytics) return new Map<string, AttendanceSpan[]>();
+    return attendance.length > 0
+      ? getAttendanceSpans(attendance, analytics.startTime, analytics.endTime)
+      : getParticipantSpans(analytics.participants);
+  }, [analytics, attendance]);
+
+  const series = useMemo(
+    () => (analytics ? buildParticipantCountSeries(spans, analytics.startTime, analytics.endTime) : []),
+    [analytics, spans]
+  );
+
+  if (loading) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '60vh',
+        }}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error || 'Failed to load meeting analytics'}
+        </Alert>
+        <Button variant="contained" onClick={() => navigate('/analytics')}>
+          Back to Analytics
+        </Button>
+      </Container>
+    );
+  }
+
+  const meetingStart = analytics.startTime.getTime();
+  const meetingLength = Math.max(analytics.endTime.getTime() - meetingStart, 1);
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/analytics')} sx={{ mb: 2 }}>
+        All meetings
+      </Button>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            {analytics.title || 'Meeting'}
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            {formatDateTimeInTimeZone(analytics.startTime, timeZone)} -{' '}
+            {formatTimeInTimeZone(analytics.endTime, timeZone)}
+          </Typography>
+        </Box>
+        <ExportMenu
+          analytics={[analytics]}
+          options={{ hostName: userProfile?.displayName || '' }}
+          onError={setExportError}
+        />
+      </Box>
+
+      {exportError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setExportError(null)}>
+          {exportError}
+        </Alert>
+      )}
+
+      {/* Summary Cards */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Card sx={{ flex: '1 1 22%', minWidth: '200px' }}>
+          <CardHeader title="Participants" />
+          <CardContent>
+            <Typography variant="h3" align="center">
+              {analytics.participantCount}
+            </Typography>
+          </CardContent>
+        </Card>
+        <Card sx={{ flex: '1 1 22%', minWidth: '200px' }}>
+          <CardHeader title="Peak" />
+          <CardContent>
+            <Typography variant="h3" align="center">
+              {analytics.peakParticipants}
+            </Typography>
+          </CardContent>
+        </Card>
+        <Card sx={{ flex: '1 1 22%', minWidth: '200px' }}>
+          <CardHeader title="Average Stay" />
+          <CardContent>
+            <Typography variant="h3" align="center">
+              {formatDuration(analytics.averageDuration)}
+            </Typography>
+          </CardContent>
+        </Card>
+        <Card sx={{ flex: '1 1 22%', minWidth: '200px' }}>
+          <CardHeader title="Length" />
+          <CardContent>
+            <Typography variant="h3" align="center">
+              {formatDuration(Math.round(meetingLength / 1000))}
+            </Typography>
+          </CardContent>
+        </Card>
+      </Box>
+
+      {/* Participant count over the meeting */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Participants Over Time
+        </Typography>
+        <LineChart
+          height={300}
+          xAxis={[
+            {
+              scaleType: 'time',
+              data: series.map((point) => point.time),
+              valueFormatter: (value: Date) => formatInTimeZone(value, timeZone, 'h:mm a'),
+            },
+          ]}
+          yAxis={[{ min: 0, tickMinStep: 1 }]}
+          series={[
+            {
+              data: series.map((point) => point.count),
+              label: 'Participants',
+              curve: 'stepAfter',
+              area: true,
+              showMark: false,
+            },
+          ]}
+        />
+      </Paper>
+
+      {/* Attendance timeline */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Attendance Timeline
+        </Typography>
+        {analytics.participants.map((participant) => (
+          <Box key={participant.userId} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+            <Typography variant="body2" noWrap sx={{ width: 160, flexShrink: 0, pr: 1 }}>
+              {participant.displayName}
+            </Typography>
+            <Box sx={{ position: 'relative', flexGrow: 1, height: 20, bgcolor: 'grey.100', borderRadius: 1 }}>
+              {(spans.get(participant.userId) || []).map(({ start, end }) => (
+                <Tooltip
+                  key={start.getTime()}
+                  title={`${formatTimeInTimeZone(start, timeZone)} - ${formatTimeInTimeZone(end, timeZone)}`}
+                >
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      top: 0,
+                      bottom: 0,
+                      left: `${((start.getTime() - meetingStart) / meetingLength) * 100}%`,
+                      width: `${Math.max(((end.getTime() - start.getTime()) / meetingLength) * 100, 0.5)}%`,
+                      bgcolor: participant.role === 'moderator' ? 'secondary.main' : 'primary.main',
+                      borderRadius: 1,
+                    }}
+                  />
+                </Tooltip>
+              ))}
+            </Box>
+          </Box>
+        ))}
+      </Paper>
+
+      {/* Participant Details Table */}
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="h6" gutterBottom>
+          Participant Details
+        </Typography>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Role</TableCell>
+                <TableCell>First Joined</TableCell>
+                <TableCell>Last Left</TableCell>
+                <TableCell>Stays</TableCell>
+                <TableCell>Time in Meeting</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {analytics.participants.map((p) => (
+                <TableRow key={p.userId}>
+                  <TableCell>{p.displayName}</TableCell>
+                  <TableCell>{p.role}</TableCell>
+                  <TableCell>{formatTimeInTimeZone(p.joinTime, timeZone)}</TableCell>
+                  <TableCell>{p.leaveTime ? formatTimeInTimeZone(p.leaveTime, timeZone) : 'N/A'}</TableCell>
+                  <TableCell>{p.intervalCount || 1}</TableCell>
+                  <TableCell>{p.duration !== undefined ? formatDuration(p.duration) : 'N/A'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+    </Container>
+  );
+};
+
+export default MeetingAnalyticsDetails;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import {
   Container,
   Box,
@@ -11,6 +11,7 @@ import {
   CircularProgress,
 } from '@mui/material';
 import { useAuth } from '../../context/AuthContext';
+import { getReturnPath } from './redirects';
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState<string>('');
@@ -18,6 +19,7 @@ const Login: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { login } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -33,16 +35,10 @@ const Login: React.FC = () => {
       setLoading(true);
       
       // Attempt to login
-      const user = await login(email, password);
+      await login(email, password);
       
-      // Store user in localStorage for ProtectedRoute check
-      localStorage.setItem('user', JSON.stringify({
-        uid: user.uid,
-        email: user.email,
-      }));
-      
-      // Navigate to dashboard on success
-      navigate('/');
+      // Continue to the page that required sign-in, or the dashboard
+      navigate(getReturnPath(location.state), { replace: true });
     } catch (error) {
       console.error('Login error:', error);
       setError('Failed to log in. Please check your credentials and try again.');
@@ -127,7 +123,7 @@ const Login: React.FC = () => {
                 <Link to="/forgot-password">Forgot password?</Link>
               </Box>
               <Box>
-                <Link to="/register">Don't have an account? Sign Up</Link>
+                <Link to="/register" state={location.state}>Don't have an account? Sign Up</Link>
               </Box>
             </Box>
           </Box>
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import SplashScreen from '../common/SplashScreen';
+
+interface ProtectedRouteProps {
+  children?: React.ReactNode;
+}
+
+// Route guard: waits for Firebase Auth to resolve, then either renders its
+// children (or nested routes) or sends the visitor to /login, remembering
+// where they were headed so they can be sent back after signing in.
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+  const { currentUser, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <SplashScreen />;
+  }
+
+  if (!currentUser) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default ProtectedRoute;
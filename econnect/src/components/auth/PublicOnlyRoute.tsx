@@ -0,0 +1,28 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import SplashScreen from '../common/SplashScreen';
+import { getReturnPath } from './redirects';
+
+interface PublicOnlyRouteProps {
+  children?: React.ReactNode;
+}
+
+// Route guard for the sign-in and sign-up pages: signed-in users are sent on
+// to the page they originally asked for, or to the dashboard.
+const PublicOnlyRoute: React.FC<PublicOnlyRouteProps> = ({ children }) => {
+  const { currentUser, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <SplashScreen />;
+  }
+
+  if (currentUser) {
+    return <Navigate to={getReturnPath(location.state)} replace />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default PublicOnlyRoute;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import {
   Container,
   Box,
@@ -11,6 +11,7 @@ import {
   CircularProgress,
 } from '@mui/material';
 import { useAuth } from '../../context/AuthContext';
+import { getReturnPath } from './redirects';
 
 const Register: React.FC = () => {
   const [email, setEmail] = useState<string>('');
@@ -20,6 +21,7 @@ const Register: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { register } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -46,16 +48,10 @@ const Register: React.FC = () => {
       setLoading(true);
       
       // Register the user
-      const user = await register(email, password, displayName);
+      await register(email, password, displayName);
       
-      // Store user in localStorage for ProtectedRoute check
-      localStorage.setItem('user', JSON.stringify({
-        uid: user.uid,
-        email: user.email,
-      }));
-      
-      // Navigate to dashboard on success
-      navigate('/');
+      // Continue to the page that required sign-in, or the dashboard
+      navigate(getReturnPath(location.state), { replace: true });
     } catch (error) {
       console.error('Registration error:', error);
       setError('Failed to create an account. Please try again.');
@@ -161,7 +157,7 @@ const Register: React.FC = () => {
               alignItems: 'center',
               mt: 1
             }}>
-              <Link to="/login">Already have an account? Sign In</Link>
+              <Link to="/login" state={location.state}>Already have an account? Sign In</Link>
             </Box>
           </Box>
         </Paper>
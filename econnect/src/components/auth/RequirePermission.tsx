@@ -0,0 +1,54 @@
+import React from 'react';
+import { Outlet } from 'react-router-dom';
+import { Box, Container, CircularProgress, Alert } from '@mui/material';
+import { useAuth } from '../../context/AuthContext';
+import usePermissions from '../../hooks/usePermissions';
+import { Permission } from '../../services/permissions';
+import { UserRole } from '../../types';
+
+interface RequirePermissionProps {
+  roles?: UserRole | UserRole[];
+  permission?: Permission;
+  children?: React.ReactNode;
+}
+
+// Route guard: renders its children (or nested routes) only for users with
+// one of the given roles and/or the given permission.
+const RequirePermission: React.FC<RequirePermissionProps> = ({
+  roles,
+  permission,
+  children,
+}) => {
+  const { loading, userProfile } = useAuth();
+  const { can, hasRole } = usePermissions();
+
+  if (loading) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '60vh',
+        }}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const allowed =
+    !!userProfile && (!roles || hasRole(roles)) && (!permission || can(permission));
+
+  if (!allowed) {
+    return (
+      <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="warning">You don't have permission to view this page.</Alert>
+      </Container>
+    );
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default RequirePermission;
@@ -0,0 +1,17 @@
+import { Location } from 'react-router-dom';
+
+export interface RedirectState {
+  from?: Pick<Location, 'pathname' | 'search' | 'hash'>;
+}
+
+// Where to send a user after signing in: the page ProtectedRoute bounced
+// them from, or the dashboard. Auth pages are never valid targets.
+const getReturnPath = (state: unknown): string => {
+  const from = (state as RedirectState | null)?.from;
+  if (!from?.pathname || ['/login', '/register'].includes(from.pathname)) {
+    return '/';
+  }
+  return `${from.pathname}${from.search || ''}${from.hash || ''}`;
+};
+
+export { getReturnPath };
@@ -0,0 +1,22 @@
+import React from 'react';
+import usePermissions from '../../hooks/usePermissions';
+import { Permission } from '../../services/permissions';
+import { UserRole } from '../../types';
+
+interface CanProps {
+  permission?: Permission;
+  roles?: UserRole | UserRole[];
+  when?: boolean; // extra condition, e.g. an ownership check from usePermissions
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// Component-level gating: renders children only when every given condition holds
+const Can: React.FC<CanProps> = ({ permission, roles, when = true, fallback = null, children }) => {
+  const { can, hasRole } = usePermissions();
+  const allowed = when && (!permission || can(permission)) && (!roles || hasRole(roles));
+
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -17,6 +17,7 @@ import {
   ListItemIcon,
   ListItemText,
   Divider,
+  Chip,
 } from '@mui/material';
 import {
   Menu as MenuIcon,
@@ -27,14 +28,24 @@ import {
   Handyman as HandymanIcon,
   AccountCircle as AccountCircleIcon,
   Logout as LogoutIcon,
+  AdminPanelSettings as AdminPanelSettingsIcon,
+  Insights as InsightsIcon,
+  VideoLibrary as VideoLibraryIcon,
+  Explore as ExploreIcon,
+  Inbox as InboxIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../../context/AuthContext';
+import usePermissions from '../../hooks/usePermissions';
+import { Permission } from '../../services/permissions';
+import { useAppSelector } from '../../store/hooks';
 
 const Layout: React.FC = () => {
   const [drawerOpen, setDrawerOpen] = useState<boolean>(false);
   const [anchorElUser, setAnchorElUser] = useState<null | HTMLElement>(null);
   const { userProfile, logout } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
+  const session = useAppSelector((state) => state.session);
 
   const handleOpenUserMenu = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorElUser(event.currentTarget);
@@ -51,18 +62,22 @@ const Layout: React.FC = () => {
   const handleLogout = async () => {
     try {
       await logout();
-      localStorage.removeItem('user');
-      navigate('/login');
+      navigate('/login', { replace: true });
     } catch (error) {
       console.error('Logout error:', error);
     }
   };
 
-  const menuItems = [
+  const menuItems: { text: string; icon: React.ReactNode; path: string; permission?: Permission }[] = [
     { text: 'Dashboard', icon: <DashboardIcon />, path: '/' },
     { text: 'Events', icon: <EventIcon />, path: '/events' },
+    { text: 'Discover', icon: <ExploreIcon />, path: '/events/discover' },
     { text: 'Virtual Space', icon: <PeopleIcon />, path: '/virtual-space' },
     { text: 'Services', icon: <HandymanIcon />, path: '/services' },
+    { text: 'Service Requests', icon: <InboxIcon />, path: '/services/requests' },
+    { text: 'Analytics', icon: <InsightsIcon />, path: '/analytics', permission: 'analytics:view' },
+    { text: 'Recordings', icon: <VideoLibraryIcon />, path: '/recordings' },
+    { text: 'Users', icon: <AdminPanelSettingsIcon />, path: '/admin/users', permission: 'users:manage' },
   ];
 
   const drawer = (
@@ -72,7 +87,7 @@ const Layout: React.FC = () => {
       </Typography>
       <Divider />
       <List>
-        {menuItems.map((item) => (
+        {menuItems.filter((item) => !item.permission || can(item.permission)).map((item) => (
           <ListItem key={item.text} component={Link} to={item.path}>
             <ListItemIcon>{item.icon}</ListItemIcon>
             <ListItemText primary={item.text} />
@@ -115,6 +130,15 @@ const Layout: React.FC = () => {
 
             <Box sx={{ flexGrow: 1 }} />
 
+            {session.status !== 'idle' && (
+              <Chip
+                icon={<VideoCallIcon />}
+                label={session.status === 'joined' ? 'In meeting' : 'Joining meeting'}
+                color={session.status === 'joined' ? 'success' : 'default'}
+                sx={{ mr: 2 }}
+              />
+            )}
+
             <Box sx={{ flexGrow: 0 }}>
               <Tooltip title="Open settings">
                 <IconButton onClick={handleOpenUserMenu} sx={{ p: 0 }}>
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Box, CircularProgress, Typography } from '@mui/material';
+
+// Full-page placeholder shown while Firebase Auth restores the session
+const SplashScreen: React.FC = () => {
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center',
+        alignItems: 'center',
+        minHeight: '100vh',
+        gap: 2,
+      }}
+    >
+      <Typography variant="h4" color="primary">
+        eConnect
+      </Typography>
+      <CircularProgress />
+    </Box>
+  );
+};
+
+export default SplashScreen;
@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import { Autocomplete, TextField } from '@mui/material';
+import { listTimeZones } from '../../services/timeZones';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  label?: string;
+  helperText?: string;
+  disabled?: boolean;
+}
+
+// Searchable picker of IANA time zones, e.g. "Europe/Berlin"
+const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({
+  value,
+  onChange,
+  label = 'Time zone',
+  helperText,
+  disabled,
+}) => {
+  const options = useMemo(() => {
+    const zones = listTimeZones();
+    return zones.includes(value) ? zones : [value, ...zones];
+  }, [value]);
+
+  return (
+    <Autocomplete
+      disableClearable
+      options={options}
+      value={value}
+      onChange={(_, timeZone) => onChange(timeZone)}
+      getOptionLabel={(timeZone) => timeZone.replace(/_/g, ' ')}
+      disabled={disabled}
+      renderInput={(params) => (
+        <TextField {...params} margin="normal" label={label} helperText={helperText} />
+      )}
+    />
+  );
+};
+
+export default TimeZoneSelect;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Box, Typography, TextField, Button, Alert, CircularProgress } from '@mui/material';
+import useTimeZone from '../../hooks/useTimeZone';
+import { getCalendarFeed, toWebcalUrl } from '../../services/calendar';
+
+// Subscribe to "my events" from Google Calendar, Outlook or Apple Calendar.
+// The URL works without signing in, so it can be reset if it leaks.
+const CalendarFeedSettings: React.FC = () => {
+  const timeZone = useTimeZone();
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const loadFeed = async (reset: boolean) => {
+    if (reset && !window.confirm('Reset your calendar link? Existing subscriptions will stop updating.')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setCopied(false);
+      setLoading(true);
+      setUrl(await getCalendarFeed(reset, timeZone));
+    } catch (error) {
+      console.error('Calendar feed error:', error);
+      setError('Failed to get your calendar link. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error('Clipboard error:', error);
+      setError('Copy the link manually');
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Calendar Subscription
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Add your events to your calendar app. Events you join or leave are kept in sync.
+        Anyone with the link can see your events, so keep it private.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {url ? (
+        <>
+          <TextField
+            fullWidth
+            label="Calendar link"
+            value={url}
+            InputProps={{ readOnly: true }}
+            onFocus={(e) => e.target.select()}
+            sx={{ mb: 2 }}
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Button variant="contained" onClick={handleCopy}>
+              {copied ? 'Copied' : 'Copy Link'}
+            </Button>
+            <Button variant="outlined" href={toWebcalUrl(url)}>
+              Open in Calendar App
+            </Button>
+            <Button color="error" onClick={() => loadFeed(true)} disabled={loading}>
+              Reset Link
+            </Button>
+          </Box>
+        </>
+      ) : (
+        <Button variant="outlined" onClick={() => loadFeed(false)} disabled={loading}>
+          {loading ? <CircularProgress size={24} /> : 'Get Calendar Link'}
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { Timestamp } from 'firebase/firestore';
 import {
   Container,
   Typography,
@@ -17,135 +16,75 @@ import {
   CircularProgress,
   Alert,
 } from '@mui/material';
-import { collection, query, where, getDocs, orderBy, limit } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { skipToken } from '@reduxjs/toolkit/query';
 import { useAuth } from '../../context/AuthContext';
-import { Event, Meeting, Recording } from '../../types';
+import useTimeZone from '../../hooks/useTimeZone';
+import { getRecordingDownloadUrl } from '../../services/aws';
+import { formatDateInTimeZone, formatDateTimeInTimeZone } from '../../services/timeZones';
+import { useGetUpcomingEventsQuery, eventMembershipsSelectors } from '../../store/eventsApi';
+import { useGetRecentMeetingsQuery, meetingMembershipsSelectors } from '../../store/meetingsApi';
+import { useGetUserRecordingsQuery, recordingsSelectors } from '../../store/recordingsApi';
+import { Recording } from '../../types';
 
-// Helper function to convert Firestore timestamp to JavaScript Date
-const convertTimestamp = (timestamp: any): Date | undefined => {
-  if (!timestamp) return undefined;
-  if (timestamp?.toDate && typeof timestamp.toDate === 'function') {
-    return timestamp.toDate();
-  }
-  if (timestamp instanceof Date) return timestamp;
-  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-    const date = new Date(timestamp);
-    return isNaN(date.getTime()) ? undefined : date;
-  }
-  return undefined;
-};
+const DASHBOARD_LIST_SIZE = 5;
 
 const Dashboard: React.FC = () => {
   const { userProfile } = useAuth();
-  const [upcomingEvents, setUpcomingEvents] = useState<Event[]>([]);
-  const [recentMeetings, setRecentMeetings] = useState<Meeting[]>([]);
-  const [recordings, setRecordings] = useState<Recording[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchDashboardData = async () => {
-      if (!userProfile || !userProfile.id) {
-        console.error('User profile or user ID is missing');
-        setError('User profile information is incomplete');
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Fetch upcoming events
-        const now = new Date();
-        const eventsQuery = query(
-          collection(firestore, 'events'),
-          where('participants', 'array-contains-any', [userProfile.id, { userId: userProfile.id }]),
-          where('startTime', '>=', now),
-          orderBy('startTime'),
-          limit(5)
-        );
-        const eventsSnapshot = await getDocs(eventsQuery);
-        const eventsData = eventsSnapshot.docs.map((doc) => {
-          const data = doc.data();
-          // Convert Firestore timestamps to JavaScript Date objects
-          return {
-            id: doc.id,
-            ...data,
-            startTime: convertTimestamp(data.startTime) || new Date(),
-            endTime: convertTimestamp(data.endTime) || new Date(),
-            createdAt: convertTimestamp(data.createdAt) || new Date(),
-            updatedAt: convertTimestamp(data.updatedAt) || new Date()
-          } as Event;
-        });
-        setUpcomingEvents(eventsData);
-
-        // Fetch recent meetings
-        const meetingsQuery = query(
-          collection(firestore, 'meetings'),
-          where('participants', 'array-contains-any', [{ userId: userProfile.id }, userProfile.id]),
-          orderBy('startTime', 'desc'),
-          limit(5)
-        );
-        const meetingsSnapshot = await getDocs(meetingsQuery);
-        const meetingsData = meetingsSnapshot.docs.map((doc) => {
-          const data = doc.data();
-          // Convert Firestore timestamps to JavaScript Date objects
-          return {
-            id: doc.id,
-            ...data,
-            startTime: convertTimestamp(data.startTime) || new Date(),
-            endTime: convertTimestamp(data.endTime) || new Date(),
-            createdAt: convertTimestamp(data.createdAt) || new Date(),
-            updatedAt: convertTimestamp(data.updatedAt) || new Date(),
-            recordingStarted: convertTimestamp(data.recordingStarted),
-            recordingEnded: convertTimestamp(data.recordingEnded),
-            participants: Array.isArray(data.participants) ? data.participants.map((p: any) => ({
-              ...p,
-              joinTime: convertTimestamp(p.joinTime) || new Date(),
-              leaveTime: convertTimestamp(p.leaveTime)
-            })) : []
-          } as Meeting;
-        });
-        setRecentMeetings(meetingsData);
-
-        // Fetch recordings
-        const recordingsQuery = query(
-          collection(firestore, 'recordings'),
-          where('ownerId', '==', userProfile.id),
-          orderBy('startTime', 'desc'),
-          limit(5)
-        );
-        const recordingsSnapshot = await getDocs(recordingsQuery);
-        const recordingsData = recordingsSnapshot.docs.map((doc) => {
-          const data = doc.data();
-          // Convert Firestore timestamps to JavaScript Date objects
-          return {
-            id: doc.id,
-            ...data,
-            startTime: convertTimestamp(data.startTime) || new Date(),
-            endTime: convertTimestamp(data.endTime),
-            createdAt: convertTimestamp(data.createdAt) || new Date(),
-            updatedAt: convertTimestamp(data.updatedAt) || new Date()
-          } as Recording;
-        });
-        setRecordings(recordingsData);
-
-        setLoading(false);
-      } catch (error: any) {
-        console.error('Error fetching dashboard data:', error);
-        // Provide more specific error message for debugging
-        const errorMessage = error.message 
-          ? `Failed to load dashboard data: ${error.message}` 
-          : 'Failed to load dashboard data';
-        setError(errorMessage);
-        setLoading(false);
-      }
-    };
+  const timeZone = useTimeZone();
+  const userId = userProfile?.id;
+
+  // The events and recordings queries are shared with their own pages, so
+  // the dashboard just takes the first few entries of each
+  const eventsResult = useGetUpcomingEventsQuery(userId ?? skipToken);
+  const meetingsResult = useGetRecentMeetingsQuery(userId ?? skipToken);
+  const recordingsResult = useGetUserRecordingsQuery(userId ?? skipToken);
+
+  const upcomingEvents = useMemo(
+    () => ({
+      data: eventsResult.data
+        ? eventMembershipsSelectors.selectAll(eventsResult.data).slice(0, DASHBOARD_LIST_SIZE)
+        : [],
+      loading: eventsResult.isLoading,
+      error: eventsResult.error,
+    }),
+    [eventsResult.data, eventsResult.isLoading, eventsResult.error]
+  );
+  const recentMeetings = useMemo(
+    () => ({
+      data: meetingsResult.data ? meetingMembershipsSelectors.selectAll(meetingsResult.data) : [],
+      loading: meetingsResult.isLoading,
+      error: meetingsResult.error,
+    }),
+    [meetingsResult.data, meetingsResult.isLoading, meetingsResult.error]
+  );
+  const recordings = useMemo(
+    () => ({
+      data: recordingsResult.data
+        ? recordingsSelectors.selectAll(recordingsResult.data).slice(0, DASHBOARD_LIST_SIZE)
+        : [],
+      loading: recordingsResult.isLoading,
+      error: recordingsResult.error,
+    }),
+    [recordingsResult.data, recordingsResult.isLoading, recordingsResult.error]
+  );
 
-    fetchDashboardData();
-  }, [userProfile]);
+  const loading = upcomingEvents.loading || recentMeetings.loading || recordings.loading;
+  const loadError = upcomingEvents.error || recentMeetings.error || recordings.error;
+  const error = !userId
+    ? 'User profile information is incomplete'
+    : loadError
+      ? `Failed to load dashboard data: ${loadError.message}`
+      : null;
+
+  // Recordings are private, so open them through a short-lived signed URL
+  const handleViewRecording = async (recording: Recording) => {
+    try {
+      const downloadUrl = await getRecordingDownloadUrl(recording.id);
+      window.open(downloadUrl, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error opening recording:', error);
+    }
+  };
 
   if (loading) {
     return (
@@ -187,16 +126,14 @@ const Dashboard: React.FC = () => {
             <Typography variant="h6" gutterBottom>
               Upcoming Events
             </Typography>
-            {upcomingEvents.length > 0 ? (
+            {upcomingEvents.data.length > 0 ? (
               <List>
-                {upcomingEvents.map((event) => (
-                  <React.Fragment key={event.id}>
+                {upcomingEvents.data.map((event) => (
+                  <React.Fragment key={event.eventId}>
                     <ListItem>
                       <ListItemText
                         primary={event.title}
-                        secondary={`${new Date(event.startTime).toLocaleDateString()} at ${new Date(
-                          event.startTime
-                        ).toLocaleTimeString()}`}
+                        secondary={formatDateTimeInTimeZone(new Date(event.startTime), timeZone)}
                       />
                     </ListItem>
                     <Divider component="li" />
@@ -224,16 +161,14 @@ const Dashboard: React.FC = () => {
             <Typography variant="h6" gutterBottom>
               Recent Meetings
             </Typography>
-            {recentMeetings.length > 0 ? (
+            {recentMeetings.data.length > 0 ? (
               <List>
-                {recentMeetings.map((meeting) => (
-                  <React.Fragment key={meeting.id}>
+                {recentMeetings.data.map((meeting) => (
+                  <React.Fragment key={meeting.meetingId}>
                     <ListItem>
                       <ListItemText
                         primary={meeting.title}
-                        secondary={`${new Date(meeting.startTime).toLocaleDateString()} at ${new Date(
-                          meeting.startTime
-                        ).toLocaleTimeString()}`}
+                        secondary={formatDateTimeInTimeZone(new Date(meeting.startTime), timeZone)}
                       />
                     </ListItem>
                     <Divider component="li" />
@@ -253,20 +188,20 @@ const Dashboard: React.FC = () => {
         <Typography variant="h6" gutterBottom>
           Your Recordings
         </Typography>
-        {recordings.length > 0 ? (
+        {recordings.data.length > 0 ? (
           <List>
-            {recordings.map((recording) => (
+            {recordings.data.map((recording) => (
               <React.Fragment key={recording.id}>
                 <ListItem>
                   <ListItemText
-                    primary={`Recording from ${new Date(recording.startTime).toLocaleDateString()}`}
+                    primary={`Recording from ${formatDateInTimeZone(new Date(recording.startTime), timeZone)}`}
                     secondary={`Duration: ${
                       recording.duration
                         ? `${Math.floor(recording.duration / 60)}m ${recording.duration % 60}s`
                         : 'N/A'
                     }`}
                   />
-                  <Button size="small" href={recording.url} target="_blank" rel="noopener noreferrer">
+                  <Button size="small" onClick={() => handleViewRecording(recording)}>
                     View
                   </Button>
                 </ListItem>
@@ -1,5 +1,4 @@
 import React, { useState } from 'react';
-import { Timestamp } from 'firebase/firestore';
 import {
   Container,
   Typography,
@@ -13,25 +12,17 @@ import {
   Divider,
 } from '@mui/material';
 import { useAuth } from '../../context/AuthContext';
-
-// Helper function to convert Firestore timestamp to JavaScript Date
-const convertTimestamp = (timestamp: any): Date | undefined => {
-  if (!timestamp) return undefined;
-  if (timestamp?.toDate && typeof timestamp.toDate === 'function') {
-    return timestamp.toDate();
-  }
-  if (timestamp instanceof Date) return timestamp;
-  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-    const date = new Date(timestamp);
-    return isNaN(date.getTime()) ? undefined : date;
-  }
-  return undefined;
-};
+import useTimeZone from '../../hooks/useTimeZone';
+import { formatDateInTimeZone } from '../../services/timeZones';
+import TimeZoneSelect from '../common/TimeZoneSelect';
+import CalendarFeedSettings from './CalendarFeedSettings';
 
 const UserProfile: React.FC = () => {
   const { userProfile, updateUserProfile } = useAuth();
   const [displayName, setDisplayName] = useState<string>(userProfile?.displayName || '');
   const [photoURL, setPhotoURL] = useState<string>(userProfile?.photoURL || '');
+  const currentTimeZone = useTimeZone();
+  const [timeZone, setTimeZone] = useState<string>(currentTimeZone);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -50,7 +41,7 @@ const UserProfile: React.FC = () => {
       setLoading(true);
       
       // Update user profile
-      await updateUserProfile(displayName, photoURL);
+      await updateUserProfile(displayName, photoURL, timeZone);
       
       setSuccess('Profile updated successfully');
     } catch (error) {
@@ -132,8 +123,16 @@ const UserProfile: React.FC = () => {
             onChange={(e) => setPhotoURL(e.target.value)}
             disabled={loading}
             helperText="Enter a URL to an image for your profile picture"
-            sx={{ mb: 3 }}
+            sx={{ mb: 2 }}
           />
+          <Box sx={{ mb: 3 }}>
+            <TimeZoneSelect
+              value={timeZone}
+              onChange={setTimeZone}
+              helperText="Event and meeting times are shown in this zone"
+              disabled={loading}
+            />
+          </Box>
           <Button
             type="submit"
             variant="contained"
@@ -169,10 +168,14 @@ const UserProfile: React.FC = () => {
               Account Created
             </Typography>
             <Typography variant="body1">
-              {convertTimestamp(userProfile.createdAt)?.toLocaleDateString() || 'N/A'}
+              {formatDateInTimeZone(userProfile.createdAt, currentTimeZone)}
             </Typography>
           </Box>
         </Box>
+
+        <Divider sx={{ my: 4 }} />
+
+        <CalendarFeedSettings />
       </Paper>
     </Container>
   );
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+
+interface EventCancelDialogProps {
+  title: string;
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string) => Promise<void>;
+}
+
+// Confirm cancelling an event, with an optional reason for the participants
+const EventCancelDialog: React.FC<EventCancelDialogProps> = ({ title, open, onClose, onConfirm }) => {
+  const [reason, setReason] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason('');
+    setError(null);
+  }, [open]);
+
+  const handleConfirm = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onConfirm(reason);
+      onClose();
+    } catch (error: any) {
+      setError(error?.message || 'Failed to cancel the event');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Cancel "{title}"?</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <DialogContentText>
+          Participants are notified and can no longer join. Upcoming occurrences are cancelled too.
+          This cannot be undone.
+        </DialogContentText>
+        <TextField
+          margin="normal"
+          fullWidth
+          label="Reason (Optional)"
+          multiline
+          rows={2}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={saving}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Keep Event
+        </Button>
+        <Button variant="contained" color="error" onClick={handleConfirm} disabled={saving}>
+          {saving ? <CircularProgress size={24} /> : 'Cancel Event'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EventCancelDialog;
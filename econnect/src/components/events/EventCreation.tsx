@@ -12,24 +12,57 @@ import {
   CircularProgress,
   Alert,
   InputAdornment,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { addHours, startOfHour } from 'date-fns';
+import { createEvent } from '../../services/events';
+import { RecurrenceError } from '../../services/recurrence';
+import {
+  fromDateTimeInputValue,
+  fromZonedTime,
+  toDateTimeInputValue,
+  toZonedTime,
+} from '../../services/timeZones';
 import { useAuth } from '../../context/AuthContext';
+import useTimeZone from '../../hooks/useTimeZone';
+import { OccurrenceRoomMode, RecurrenceRule } from '../../types';
+import TimeZoneSelect from '../common/TimeZoneSelect';
+import RecurrenceFields from './RecurrenceFields';
+
+const DEFAULT_RECURRENCE: RecurrenceRule = {
+  frequency: 'WEEKLY',
+  interval: 1,
+  byWeekday: [],
+  count: 10,
+  until: null,
+};
+
+// Input value for the start of the hour some hours from now in the zone
+const hoursFromNow = (hours: number, timeZone: string): string =>
+  toDateTimeInputValue(
+    fromZonedTime(startOfHour(addHours(toZonedTime(new Date(), timeZone), hours)), timeZone),
+    timeZone
+  );
 
 const EventCreation: React.FC = () => {
   const navigate = useNavigate();
   const { userProfile } = useAuth();
+  const userTimeZone = useTimeZone();
   const [title, setTitle] = useState<string>('');
   const [description, setDescription] = useState<string>('');
-  const [startTime, setStartTime] = useState<string>(
-    new Date().toISOString().slice(0, 16)
-  );
-  const [endTime, setEndTime] = useState<string>(
-    new Date(new Date().getTime() + 60 * 60 * 1000).toISOString().slice(0, 16)
-  );
+  // Times are entered as wall-clock times in the chosen zone, starting at the
+  // next full hour
+  const [timeZone, setTimeZone] = useState<string>(userTimeZone);
+  const [startTime, setStartTime] = useState<string>(() => hoursFromNow(1, userTimeZone));
+  const [endTime, setEndTime] = useState<string>(() => hoursFromNow(2, userTimeZone));
   const [isPublic, setIsPublic] = useState<boolean>(true);
   const [maxParticipants, setMaxParticipants] = useState<number | ''>('');
+  const [repeats, setRepeats] = useState<boolean>(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(DEFAULT_RECURRENCE);
+  const [roomMode, setRoomMode] = useState<OccurrenceRoomMode>('shared');
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -46,8 +79,8 @@ const EventCreation: React.FC = () => {
       return;
     }
 
-    const startDate = new Date(startTime);
-    const endDate = new Date(endTime);
+    const startDate = fromDateTimeInputValue(startTime, timeZone);
+    const endDate = fromDateTimeInputValue(endTime, timeZone);
 
     if (startDate >= endDate) {
       setError('End time must be after start time');
@@ -58,31 +91,29 @@ const EventCreation: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      // Generate a unique room name for Jitsi
-      const roomName = `event-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-
-      // Create the event in Firestore
-      const eventData = {
-        title,
-        description,
-        startTime: startDate,
-        endTime: endDate,
-        createdBy: userProfile.id,
-        isPublic,
-        maxParticipants: maxParticipants || null,
-        participants: [userProfile.id], // Creator is automatically a participant
-        jitsiRoomName: roomName,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      };
-
-      const eventRef = await addDoc(collection(firestore, 'events'), eventData);
+      const eventId = await createEvent(
+        {
+          title,
+          description,
+          startTime: startDate,
+          endTime: endDate,
+          timeZone,
+          isPublic,
+          maxParticipants: maxParticipants || null,
+        },
+        userProfile.id,
+        repeats ? { rule: recurrence, roomMode } : null
+      );
 
       // Navigate to the event details page
-      navigate(`/events/${eventRef.id}`);
+      navigate(`/events/${eventId}`);
     } catch (error) {
       console.error('Error creating event:', error);
-      setError('Failed to create event. Please try again.');
+      setError(
+        error instanceof RecurrenceError
+          ? error.message
+          : 'Failed to create event. Please try again.'
+      );
       setLoading(false);
     }
   };
@@ -164,6 +195,15 @@ const EventCreation: React.FC = () => {
             />
           </Box>
 
+          <Box sx={{ mb: 2 }}>
+            <TimeZoneSelect
+              value={timeZone}
+              onChange={setTimeZone}
+              helperText="Attendees see the times converted to their own zone"
+              disabled={loading}
+            />
+          </Box>
+
           <TextField
             margin="normal"
             fullWidth
@@ -181,6 +221,41 @@ const EventCreation: React.FC = () => {
             sx={{ mb: 2 }}
           />
 
+          <FormControlLabel
+            control={
+              <Switch
+                checked={repeats}
+                onChange={(e) => setRepeats(e.target.checked)}
+                disabled={loading}
+              />
+            }
+            label="Repeating event"
+            sx={{ display: 'block' }}
+          />
+
+          {repeats && (
+            <Box sx={{ mt: 2, mb: 2 }}>
+              <RecurrenceFields
+                value={recurrence}
+                onChange={setRecurrence}
+                timeZone={timeZone}
+                disabled={loading}
+              />
+              <FormControl fullWidth sx={{ mt: 2 }} disabled={loading}>
+                <InputLabel id="room-mode-label">Meeting room</InputLabel>
+                <Select
+                  labelId="room-mode-label"
+                  label="Meeting room"
+                  value={roomMode}
+                  onChange={(e) => setRoomMode(e.target.value as OccurrenceRoomMode)}
+                >
+                  <MenuItem value="shared">Same room for every occurrence</MenuItem>
+                  <MenuItem value="per-occurrence">A new room for each occurrence</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+
           <FormControlLabel
             control={
               <Switch
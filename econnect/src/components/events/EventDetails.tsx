@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import {
   Container,
@@ -15,113 +15,198 @@ import {
   Chip,
   CircularProgress,
   Alert,
+  IconButton,
+  Tooltip,
 } from "@mui/material";
 import {
   Event as EventIcon,
   AccessTime as AccessTimeIcon,
   People as PeopleIcon,
   VideoCall as VideoCallIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  PersonAdd as PersonAddIcon,
+  PersonRemove as PersonRemoveIcon,
+  Repeat as RepeatIcon,
+  Edit as EditIcon,
+  EventBusy as EventBusyIcon,
+  Restore as RestoreIcon,
+  CalendarMonth as CalendarMonthIcon,
+  SupervisorAccount as SupervisorAccountIcon,
+  SwapHoriz as SwapHorizIcon,
 } from "@mui/icons-material";
-import {
-  doc,
-  getDoc,
-  updateDoc,
-  arrayUnion,
-  arrayRemove,
-  serverTimestamp,
-} from "firebase/firestore";
-import { firestore } from "../../services/firebase";
+import { skipToken } from "@reduxjs/toolkit/query";
 import { useAuth } from "../../context/AuthContext";
-import { Event, User } from "../../types";
+import usePermissions from "../../hooks/usePermissions";
+import useTimeZone from "../../hooks/useTimeZone";
+import {
+  getOrCreateMeetingForEvent,
+  currentOccurrence,
+  OccurrenceChanges,
+} from "../../services/meetings";
+import { parseRRule, describeRecurrence } from "../../services/recurrence";
+import { usersRepository } from "../../services/repository";
+import { hasOpenSpot, EventChanges } from "../../services/events";
+import { downloadEventCalendar } from "../../services/calendar";
+import {
+  formatDateInTimeZone,
+  formatDateTimeInTimeZone,
+  formatTimeInTimeZone,
+  formatTimeRangeInTimeZone,
+} from "../../services/timeZones";
+import {
+  useGetEventQuery,
+  useGetEventAuditLogQuery,
+  useJoinEventMutation,
+  useLeaveEventMutation,
+  usePromoteFromWaitlistMutation,
+  useMoveInWaitlistMutation,
+  useUpdateFollowingOccurrencesMutation,
+  useUpdateEventMutation,
+  useCancelEventMutation,
+  useTransferHostMutation,
+  useSetCoHostMutation,
+  useRemoveParticipantMutation,
+  useDeleteEventMutation,
+  eventAuditSelectors,
+} from "../../store/eventsApi";
+import {
+  useGetEventMeetingsQuery,
+  useUpdateOccurrenceMutation,
+  useSetOccurrenceCancelledMutation,
+  meetingsSelectors,
+} from "../../store/meetingsApi";
+import Can from "../common/Can";
+import OccurrenceEditDialog, { OccurrenceEditScope } from "./OccurrenceEditDialog";
+import EventEditDialog from "./EventEditDialog";
+import EventCancelDialog from "./EventCancelDialog";
+import { Event, EventAuditEntry, Meeting, RecurrenceRule, User } from "../../types";
+
+// Summary of an event's RRULE, or null when it can't be read
+const recurrenceSummary = (recurrence: string, timeZone: string): string | null => {
+  try {
+    return describeRecurrence(parseRRule(recurrence, timeZone), timeZone);
+  } catch {
+    return null;
+  }
+};
+
+// One line of the event's activity log, e.g. "Alice made Bob a co-host"
+const describeAuditEntry = (entry: EventAuditEntry, nameOf: (userId: string) => string): string => {
+  const actor = nameOf(entry.actorId);
+  const target = entry.targetUserId ? nameOf(entry.targetUserId) : "someone";
+
+  switch (entry.action) {
+    case "updated":
+      return `${actor} changed ${entry.fields.join(", ") || "the event"}`;
+    case "cancelled":
+      return `${actor} cancelled the event${entry.reason ? `: ${entry.reason}` : ""}`;
+    case "host-transferred":
+      return `${actor} made ${target} the host`;
+    case "co-host-added":
+      return `${actor} made ${target} a co-host`;
+    case "co-host-removed":
+      return `${actor} removed ${target} as co-host`;
+    case "participant-removed":
+      return `${actor} removed ${target} from the event`;
+  }
+};
 
 const EventDetails: React.FC = () => {
   const { eventId } = useParams<{ eventId: string }>();
   const navigate = useNavigate();
   const { userProfile } = useAuth();
-  const [event, setEvent] = useState<Event | null>(null);
-  const [participants, setParticipants] = useState<User[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
+  const { canManageEvent } = usePermissions();
+  const timeZone = useTimeZone();
+  const [profiles, setProfiles] = useState<Record<string, User>>({});
   const [error, setError] = useState<string | null>(null);
-  const [isParticipant, setIsParticipant] = useState<boolean>(false);
-  const [isHost, setIsHost] = useState<boolean>(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<Meeting | null>(null);
+  const [editOpen, setEditOpen] = useState<boolean>(false);
+  const [cancelOpen, setCancelOpen] = useState<boolean>(false);
+
+  const {
+    data: event,
+    isLoading: eventLoading,
+    error: eventError,
+  } = useGetEventQuery(eventId ?? skipToken);
+  const { data: meetings, isLoading: sessionsLoading } = useGetEventMeetingsQuery(
+    eventId ?? skipToken
+  );
+  const [joinEvent] = useJoinEventMutation();
+  const [leaveEvent] = useLeaveEventMutation();
+  const [promoteFromWaitlist] = usePromoteFromWaitlistMutation();
+  const [moveInWaitlist] = useMoveInWaitlistMutation();
+  const [deleteEvent] = useDeleteEventMutation();
+  const [updateOccurrence] = useUpdateOccurrenceMutation();
+  const [setOccurrenceCancelled] = useSetOccurrenceCancelledMutation();
+  const [updateFollowingOccurrences] = useUpdateFollowingOccurrencesMutation();
+  const [updateEvent] = useUpdateEventMutation();
+  const [cancelEvent] = useCancelEventMutation();
+  const [transferHost] = useTransferHostMutation();
+  const [setCoHost] = useSetCoHostMutation();
+  const [removeParticipant] = useRemoveParticipantMutation();
+
+  const sessions = useMemo(
+    () => (meetings ? meetingsSelectors.selectAll(meetings) : []),
+    [meetings]
+  );
+  const isParticipant = !!event && !!userProfile && event.participants.includes(userProfile.id);
+  const isHost = !!event && !!userProfile && event.createdBy === userProfile.id;
+  const isCoHost = !!event && !!userProfile && event.coHosts.includes(userProfile.id);
+  const canManage = !!event && canManageEvent(event);
+  // Hosts, co-hosts and admins see who changed what
+  const { data: auditLog } = useGetEventAuditLogQuery(
+    eventId && (canManage || isCoHost) ? eventId : skipToken
+  );
+  const auditEntries = useMemo(
+    () => (auditLog ? eventAuditSelectors.selectAll(auditLog) : []),
+    [auditLog]
+  );
+  const waitlistPosition = event && userProfile ? event.waitlist.indexOf(userProfile.id) : -1;
+  const isWaitlisted = waitlistPosition !== -1;
+  const isFull = !!event && !hasOpenSpot(event);
+  const loading = eventLoading || sessionsLoading;
 
+  // Refetch profiles whenever someone joins, leaves or moves off the waitlist
+  const profileIds = event ? [...event.participants, ...event.waitlist].join(",") : "";
   useEffect(() => {
-    const fetchEventDetails = async () => {
-      if (!eventId || !userProfile) {
-        setLoading(false);
-        return;
-      }
-
+    const fetchProfiles = async () => {
       try {
-        setLoading(true);
-        setError(null);
-
-        // Fetch event details
-        const eventDoc = doc(firestore, "events", eventId);
-        const eventSnapshot = await getDoc(eventDoc);
-
-        if (!eventSnapshot.exists()) {
-          setError("Event not found");
-          setLoading(false);
-          return;
-        }
-
-        const eventData = eventSnapshot.data() as Event;
-        // Normalize Firestore Timestamp to JS Date or ISO string
-        const normalizeDate = (d: any) =>
-          d && typeof d.toDate === "function" ? d.toDate().toISOString() : d;
-        setEvent({
-          ...eventData,
-          startTime: normalizeDate(eventData.startTime),
-          endTime: normalizeDate(eventData.endTime),
-        });
-
-        // Check if user is a participant
-        setIsParticipant(eventData.participants.includes(userProfile.id));
-
-        // Check if user is the host
-        setIsHost(eventData.createdBy === userProfile.id);
-
-        // Fetch participant details
-        const participantPromises = eventData.participants.map(
-          async (userId) => {
-            const userDoc = doc(firestore, "users", userId);
-            const userSnapshot = await getDoc(userDoc);
-            return userSnapshot.exists() ? (userSnapshot.data() as User) : null;
-          }
+        const users = await Promise.all(
+          profileIds
+            .split(",")
+            .filter(Boolean)
+            .map((userId) => usersRepository.get(userId))
         );
-
-        const participantData = await Promise.all(participantPromises);
-        setParticipants(
-          participantData.filter((user): user is User => user !== null)
+        setProfiles(
+          users.reduce<Record<string, User>>((result, user) => {
+            if (user) result[user.id] = user;
+            return result;
+          }, {})
         );
-
-        setLoading(false);
       } catch (error) {
-        console.error("Error fetching event details:", error);
-        setError("Failed to load event details");
-        setLoading(false);
+        console.error("Error fetching event participants:", error);
       }
     };
 
-    fetchEventDetails();
-  }, [eventId, userProfile]);
+    fetchProfiles();
+  }, [profileIds]);
+
+  const participants = event
+    ? event.participants.map((id) => profiles[id]).filter((user): user is User => !!user)
+    : [];
 
   const handleJoinEvent = async () => {
     if (!event || !userProfile || !eventId) return;
 
     try {
-      // Add user to participants
-      await updateDoc(doc(firestore, "events", eventId), {
-        participants: arrayUnion(userProfile.id),
-        updatedAt: serverTimestamp(),
-      });
-
-      setIsParticipant(true);
-      setEvent({
-        ...event,
-        participants: [...event.participants, userProfile.id],
-      });
+      const outcome = await joinEvent({ eventId, userId: userProfile.id }).unwrap();
+      setNotice(
+        outcome === "waitlisted"
+          ? "This event is full. You're on the waitlist and will be added when a spot opens."
+          : null
+      );
     } catch (error) {
       console.error("Error joining event:", error);
       setError("Failed to join event");
@@ -132,46 +217,171 @@ const EventDetails: React.FC = () => {
     if (!event || !userProfile || !eventId) return;
 
     try {
-      // Remove user from participants
-      await updateDoc(doc(firestore, "events", eventId), {
-        participants: arrayRemove(userProfile.id),
-        updatedAt: serverTimestamp(),
-      });
-
-      setIsParticipant(false);
-      setEvent({
-        ...event,
-        participants: event.participants.filter((id) => id !== userProfile.id),
-      });
+      await leaveEvent({ eventId, userId: userProfile.id }).unwrap();
+      setNotice(null);
     } catch (error) {
       console.error("Error leaving event:", error);
       setError("Failed to leave event");
     }
   };
 
-  const handleJoinMeeting = () => {
-    if (!event) return;
-    navigate(`/meetings/${event.jitsiRoomName}`);
+  const handlePromote = async (userId: string) => {
+    if (!eventId) return;
+
+    try {
+      await promoteFromWaitlist({ eventId, userId }).unwrap();
+    } catch (error) {
+      console.error("Error promoting from waitlist:", error);
+      setError("Failed to add participant from the waitlist");
+    }
   };
 
-  const handleJoinVirtualSpace = () => {
+  const handleRemoveFromWaitlist = async (userId: string) => {
     if (!eventId) return;
-    navigate(`/virtual-space/${eventId}`);
+
+    try {
+      await leaveEvent({ eventId, userId }).unwrap();
+    } catch (error) {
+      console.error("Error removing from waitlist:", error);
+      setError("Failed to remove from the waitlist");
+    }
+  };
+
+  const handleMoveInWaitlist = async (userId: string, offset: -1 | 1) => {
+    if (!eventId) return;
+
+    try {
+      await moveInWaitlist({ eventId, userId, offset }).unwrap();
+    } catch (error) {
+      console.error("Error reordering waitlist:", error);
+      setError("Failed to reorder the waitlist");
+    }
+  };
+
+  const handleDeleteEvent = async () => {
+    if (!event || !eventId) return;
+    if (!window.confirm(`Delete "${event.title}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteEvent(eventId).unwrap();
+      navigate("/events");
+    } catch (error) {
+      console.error("Error deleting event:", error);
+      setError("Failed to delete event");
+    }
   };
 
-  const formatEventDate = (event: Event) => {
-    const startDate = new Date(event.startTime);
-    const endDate = new Date(event.endTime);
+  const handleJoinMeeting = async () => {
+    if (!eventId) return;
+
+    try {
+      const meetingId = await getOrCreateMeetingForEvent(eventId);
+      navigate(`/meetings/${meetingId}`);
+    } catch (error) {
+      console.error("Error joining meeting:", error);
+      setError("Failed to join meeting");
+    }
+  };
+
+  const handleSaveOccurrence = async (
+    scope: OccurrenceEditScope,
+    changes: OccurrenceChanges,
+    rule: RecurrenceRule
+  ) => {
+    if (!eventId || !editingOccurrence) return;
 
-    const sameDay = startDate.toDateString() === endDate.toDateString();
+    if (scope === "this") {
+      await updateOccurrence({ meetingId: editingOccurrence.id, changes }).unwrap();
+      return;
+    }
 
-    if (sameDay) {
-      return `${startDate.toLocaleDateString()} ${startDate.toLocaleTimeString()} - ${endDate.toLocaleTimeString()}`;
-    } else {
-      return `${startDate.toLocaleDateString()} ${startDate.toLocaleTimeString()} - ${endDate.toLocaleDateString()} ${endDate.toLocaleTimeString()}`;
+    const seriesId = await updateFollowingOccurrences({
+      eventId,
+      meetingId: editingOccurrence.id,
+      changes,
+      rule,
+    }).unwrap();
+    if (seriesId !== eventId) {
+      setNotice("The series was split. These occurrences now belong to a new event.");
+      navigate(`/events/${seriesId}`);
     }
   };
 
+  const handleCancelOccurrence = async (meetingId: string, cancelled: boolean) => {
+    try {
+      await setOccurrenceCancelled({ meetingId, cancelled }).unwrap();
+    } catch (error) {
+      console.error("Error cancelling occurrence:", error);
+      setError(cancelled ? "Failed to cancel the occurrence" : "Failed to restore the occurrence");
+    }
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!eventId) return;
+
+    try {
+      await downloadEventCalendar(eventId, timeZone);
+    } catch (error) {
+      console.error("Error exporting event:", error);
+      setError("Failed to export the event");
+    }
+  };
+
+  const handleUpdateEvent = async (changes: EventChanges) => {
+    if (!eventId || !userProfile) return;
+    await updateEvent({ eventId, changes }).unwrap();
+  };
+
+  const handleCancelEvent = async (reason: string) => {
+    if (!eventId || !userProfile) return;
+    await cancelEvent({ eventId, reason }).unwrap();
+  };
+
+  const handleTransferHost = async (user: User) => {
+    if (!eventId || !userProfile) return;
+    if (!window.confirm(`Make ${user.displayName} the host? You will no longer be able to manage this event.`)) {
+      return;
+    }
+
+    try {
+      await transferHost({ eventId, userId: user.id }).unwrap();
+    } catch (error) {
+      console.error("Error transferring host:", error);
+      setError("Failed to transfer the event");
+    }
+  };
+
+  const handleToggleCoHost = async (userId: string, coHost: boolean) => {
+    if (!eventId || !userProfile) return;
+
+    try {
+      await setCoHost({ eventId, userId, coHost }).unwrap();
+    } catch (error) {
+      console.error("Error updating co-hosts:", error);
+      setError("Failed to update co-hosts");
+    }
+  };
+
+  const handleRemoveParticipant = async (user: User) => {
+    if (!eventId || !userProfile) return;
+    if (!window.confirm(`Remove ${user.displayName} from this event?`)) return;
+
+    try {
+      await removeParticipant({ eventId, userId: user.id }).unwrap();
+    } catch (error) {
+      console.error("Error removing participant:", error);
+      setError("Failed to remove the participant");
+    }
+  };
+
+  const handleJoinVirtualSpace = () => {
+    if (!eventId) return;
+    navigate(`/virtual-space/${eventId}`);
+  };
+
+  const formatEventDate = (event: Event) =>
+    formatTimeRangeInTimeZone(event.startTime, event.endTime, timeZone);
+
   if (loading) {
     return (
       <Box
@@ -187,16 +397,28 @@ const EventDetails: React.FC = () => {
     );
   }
 
-  if (error || !event) {
+  if (error || eventError || !event) {
     return (
       <Alert severity="error" sx={{ mb: 2 }}>
-        {error || "Failed to load event details"}
+        {error ||
+          (eventError ? "Failed to load event details" : "Event not found")}
       </Alert>
     );
   }
 
-  const eventStarted = new Date() >= new Date(event.startTime);
-  const eventEnded = new Date() >= new Date(event.endTime);
+  // A recurring event runs until its last occurrence, and its meeting opens
+  // once the current occurrence has started
+  const now = new Date();
+  const nextOccurrence = event.recurrence ? currentOccurrence(sessions, now) : undefined;
+  const eventStarted = now >= new Date(nextOccurrence ? nextOccurrence.startTime : event.startTime);
+  const eventEnded = now >= new Date(event.recurrenceEndTime || event.endTime);
+  const isCancelled = event.status === "cancelled";
+  // Nobody can join or start meetings once the event is over or cancelled
+  const eventClosed = eventEnded || isCancelled;
+  const nameOf = (userId: string) => profiles[userId]?.displayName || userId;
+  const recurrence = event.recurrence ? recurrenceSummary(event.recurrence, timeZone) : null;
+  // The host's own zone, shown alongside when the viewer is somewhere else
+  const eventTimeZone = event.timeZone && event.timeZone !== timeZone ? event.timeZone : null;
 
   return (
     <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
@@ -205,19 +427,49 @@ const EventDetails: React.FC = () => {
           <Typography variant="h4" gutterBottom>
             {event.title}
           </Typography>
+          {isCancelled && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              This event was cancelled
+              {event.cancelledAt && ` on ${formatDateInTimeZone(event.cancelledAt, timeZone)}`}
+              {event.cancellationReason && `: ${event.cancellationReason}`}
+            </Alert>
+          )}
           <Box sx={{ display: "flex", alignItems: "center", mb: 2 }}>
             <EventIcon sx={{ mr: 1 }} color="action" />
             <Typography variant="body1">{formatEventDate(event)}</Typography>
           </Box>
+          {eventTimeZone && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2, ml: 4 }}>
+              {formatTimeRangeInTimeZone(event.startTime, event.endTime, eventTimeZone)} in{" "}
+              {eventTimeZone}
+            </Typography>
+          )}
+          {recurrence && (
+            <Box sx={{ display: "flex", alignItems: "center", mb: 2 }}>
+              <RepeatIcon sx={{ mr: 1 }} color="action" />
+              <Typography variant="body1">
+                {recurrence}
+                {nextOccurrence &&
+                  ` · next ${formatDateTimeInTimeZone(nextOccurrence.startTime, timeZone)}`}
+              </Typography>
+            </Box>
+          )}
           <Box sx={{ display: "flex", alignItems: "center", mb: 2 }}>
             <PeopleIcon sx={{ mr: 1 }} color="action" />
             <Typography variant="body1">
               {event.participants.length} participants
               {event.maxParticipants && ` (max: ${event.maxParticipants})`}
+              {event.waitlist.length > 0 && `, ${event.waitlist.length} on the waitlist`}
             </Typography>
           </Box>
           <Box sx={{ display: "flex", gap: 1, mb: 3 }}>
             {isHost && <Chip label="You are the host" color="primary" />}
+            {isCoHost && <Chip label="You are a co-host" color="primary" variant="outlined" />}
+            {isCancelled && <Chip label="Cancelled" color="error" />}
+            {isWaitlisted && (
+              <Chip label={`Waitlisted (#${waitlistPosition + 1})`} color="warning" />
+            )}
+            {isFull && <Chip label="Full" variant="outlined" />}
             {event.isPublic ? (
               <Chip label="Public Event" color="success" />
             ) : (
@@ -253,17 +505,27 @@ const EventDetails: React.FC = () => {
               event.participants: {event.participants.join(", ")}
             </Typography>
           </Box>
+          {notice && (
+            <Alert severity="info" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+              {notice}
+            </Alert>
+          )}
           <Box sx={{ display: "flex", gap: 2 }}>
-            {!isParticipant && !eventEnded && (
+            {!isParticipant && !isWaitlisted && !eventClosed && (
               <Button
                 variant="contained"
                 color="primary"
                 onClick={handleJoinEvent}
               >
-                Join Event
+                {isFull ? "Join Waitlist" : "Join Event"}
               </Button>
             )}
-            {isParticipant && !eventEnded && (
+            {isWaitlisted && !eventClosed && (
+              <Button variant="outlined" color="error" onClick={handleLeaveEvent}>
+                Leave Waitlist
+              </Button>
+            )}
+            {isParticipant && !eventClosed && (
               <>
                 {eventStarted && (
                   <>
@@ -292,14 +554,233 @@ const EventDetails: React.FC = () => {
                 </Button>
               </>
             )}
-            {eventEnded && (
+            {(isParticipant || isHost || event.isPublic) && !isCancelled && (
+              <Button
+                variant="outlined"
+                startIcon={<CalendarMonthIcon />}
+                onClick={handleAddToCalendar}
+              >
+                Add to Calendar
+              </Button>
+            )}
+            {eventEnded && !isCancelled && (
               <Typography variant="body1" color="text.secondary">
                 This event has ended
               </Typography>
             )}
+            <Can when={canManage}>
+              {!isCancelled && (
+                <>
+                  <Button variant="outlined" startIcon={<EditIcon />} onClick={() => setEditOpen(true)}>
+                    Edit Event
+                  </Button>
+                  {!eventEnded && (
+                    <Button
+                      variant="outlined"
+                      color="warning"
+                      startIcon={<EventBusyIcon />}
+                      onClick={() => setCancelOpen(true)}
+                    >
+                      Cancel Event
+                    </Button>
+                  )}
+                </>
+              )}
+              <Button variant="outlined" color="error" onClick={handleDeleteEvent}>
+                Delete Event
+              </Button>
+            </Can>
           </Box>
         </Box>
 
+        {sessions.length > 0 && (
+          <>
+            <Divider sx={{ mb: 3 }} />
+
+            <Box sx={{ mb: 4 }}>
+              <Typography variant="h6" gutterBottom>
+                {event.recurrence ? "Occurrences" : "Sessions"} ({sessions.length})
+              </Typography>
+              <List>
+                {sessions.map((session) => (
+                  <ListItem
+                    key={session.id}
+                    secondaryAction={
+                      <>
+                        {session.status !== "ended" &&
+                          session.status !== "cancelled" &&
+                          isParticipant &&
+                          !isCancelled &&
+                          (!event.recurrence || session.id === nextOccurrence?.id) && (
+                            <Button
+                              size="small"
+                              onClick={
+                                event.recurrence
+                                  ? handleJoinMeeting
+                                  : () => navigate(`/meetings/${session.id}`)
+                              }
+                            >
+                              Join
+                            </Button>
+                          )}
+                        {event.recurrence && canManage && session.status === "scheduled" && (
+                          <>
+                            <Tooltip title="Edit">
+                              <IconButton onClick={() => setEditingOccurrence(session)}>
+                                <EditIcon />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Cancel occurrence">
+                              <IconButton
+                                color="error"
+                                onClick={() => handleCancelOccurrence(session.id, true)}
+                              >
+                                <EventBusyIcon />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                        {event.recurrence && canManage && !isCancelled && session.status === "cancelled" && (
+                          <Tooltip title="Restore occurrence">
+                            <IconButton onClick={() => handleCancelOccurrence(session.id, false)}>
+                              <RestoreIcon />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </>
+                    }
+                  >
+                    <ListItemAvatar>
+                      <Avatar>
+                        <VideoCallIcon />
+                      </Avatar>
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={
+                        event.recurrence
+                          ? `${session.title} · ${formatDateTimeInTimeZone(session.startTime, timeZone)}`
+                          : `Session ${session.sessionNumber}`
+                      }
+                      secondary={
+                        event.recurrence && !session.endTime
+                          ? `Occurrence ${session.sessionNumber}${
+                              session.occurrenceStart &&
+                              session.occurrenceStart.getTime() !== session.startTime.getTime()
+                                ? `, moved from ${formatDateTimeInTimeZone(session.occurrenceStart, timeZone)}`
+                                : ""
+                            }`
+                          : session.endTime
+                          ? `${formatDateTimeInTimeZone(session.startedAt || session.startTime, timeZone)} - ${formatTimeInTimeZone(session.endTime, timeZone)}`
+                          : formatDateTimeInTimeZone(session.startedAt || session.startTime, timeZone)
+                      }
+                    />
+                    <Chip
+                      size="small"
+                      label={session.status}
+                      color={
+                        session.status === "live"
+                          ? "success"
+                          : session.status === "cancelled"
+                            ? "error"
+                            : "default"
+                      }
+                      sx={{ mr: event.recurrence && canManage ? 14 : 2, textTransform: "capitalize" }}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          </>
+        )}
+
+        {canManage && event.waitlist.length > 0 && (
+          <>
+            <Divider sx={{ mb: 3 }} />
+
+            <Box sx={{ mb: 4 }}>
+              <Typography variant="h6" gutterBottom>
+                Waitlist ({event.waitlist.length})
+              </Typography>
+              <List>
+                {event.waitlist.map((userId, index) => (
+                  <ListItem
+                    key={userId}
+                    secondaryAction={
+                      <>
+                        <Tooltip title="Move up">
+                          <span>
+                            <IconButton
+                              disabled={index === 0}
+                              onClick={() => handleMoveInWaitlist(userId, -1)}
+                            >
+                              <ArrowUpwardIcon />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Move down">
+                          <span>
+                            <IconButton
+                              disabled={index === event.waitlist.length - 1}
+                              onClick={() => handleMoveInWaitlist(userId, 1)}
+                            >
+                              <ArrowDownwardIcon />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Let in">
+                          <IconButton color="primary" onClick={() => handlePromote(userId)}>
+                            <PersonAddIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Remove from waitlist">
+                          <IconButton color="error" onClick={() => handleRemoveFromWaitlist(userId)}>
+                            <PersonRemoveIcon />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    }
+                  >
+                    <ListItemAvatar>
+                      <Avatar src={profiles[userId]?.photoURL || undefined}>{index + 1}</Avatar>
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={profiles[userId]?.displayName || userId}
+                      secondary={`#${index + 1} in line`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          </>
+        )}
+
+        {canManage && (
+          <>
+            <EventEditDialog
+              event={event}
+              open={editOpen}
+              onClose={() => setEditOpen(false)}
+              onSave={handleUpdateEvent}
+            />
+            <EventCancelDialog
+              title={event.title}
+              open={cancelOpen}
+              onClose={() => setCancelOpen(false)}
+              onConfirm={handleCancelEvent}
+            />
+          </>
+        )}
+
+        {event.recurrence && (
+          <OccurrenceEditDialog
+            occurrence={editingOccurrence}
+            recurrence={event.recurrence}
+            timeZone={event.timeZone || timeZone}
+            onClose={() => setEditingOccurrence(null)}
+            onSave={handleSaveOccurrence}
+          />
+        )}
+
         <Divider sx={{ mb: 3 }} />
 
         <Box>
@@ -308,7 +789,39 @@ const EventDetails: React.FC = () => {
           </Typography>
           <List>
             {participants.map((participant) => (
-              <ListItem key={participant.id}>
+              <ListItem
+                key={participant.id}
+                secondaryAction={
+                  canManage &&
+                  !isCancelled &&
+                  participant.id !== event.createdBy && (
+                    <>
+                      <Tooltip
+                        title={event.coHosts.includes(participant.id) ? "Remove as co-host" : "Make co-host"}
+                      >
+                        <IconButton
+                          color={event.coHosts.includes(participant.id) ? "primary" : "default"}
+                          onClick={() =>
+                            handleToggleCoHost(participant.id, !event.coHosts.includes(participant.id))
+                          }
+                        >
+                          <SupervisorAccountIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Make host">
+                        <IconButton onClick={() => handleTransferHost(participant)}>
+                          <SwapHorizIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Remove from event">
+                        <IconButton color="error" onClick={() => handleRemoveParticipant(participant)}>
+                          <PersonRemoveIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )
+                }
+              >
                 <ListItemAvatar>
                   <Avatar src={participant.photoURL || undefined}>
                     {participant.displayName.charAt(0)}
@@ -317,13 +830,39 @@ const EventDetails: React.FC = () => {
                 <ListItemText
                   primary={participant.displayName}
                   secondary={
-                    participant.id === event.createdBy ? "Host" : "Participant"
+                    participant.id === event.createdBy
+                      ? "Host"
+                      : event.coHosts.includes(participant.id)
+                        ? "Co-host"
+                        : "Participant"
                   }
                 />
               </ListItem>
             ))}
           </List>
         </Box>
+
+        {auditEntries.length > 0 && (
+          <>
+            <Divider sx={{ my: 3 }} />
+
+            <Box>
+              <Typography variant="h6" gutterBottom>
+                Activity
+              </Typography>
+              <List dense>
+                {auditEntries.map((entry) => (
+                  <ListItem key={entry.id}>
+                    <ListItemText
+                      primary={describeAuditEntry(entry, nameOf)}
+                      secondary={formatDateTimeInTimeZone(entry.createdAt, timeZone)}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          </>
+        )}
       </Paper>
     </Container>
   );
@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Card,
+  CardContent,
+  CardActions,
+  Button,
+  TextField,
+  InputAdornment,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Chip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { Search as SearchIcon, FiberManualRecord as LiveIcon } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { endOfDay, startOfDay } from 'date-fns';
+import { useAuth } from '../../context/AuthContext';
+import useTimeZone from '../../hooks/useTimeZone';
+import { formatDateTimeInTimeZone, fromZonedTime } from '../../services/timeZones';
+import {
+  useDiscoverEventsInfiniteQuery,
+  useGetLiveEventsQuery,
+  useGetStartingSoonEventsQuery,
+  highlightsSelectors,
+  openSpots,
+  matchesDiscoveryFilters,
+  DiscoveryFilters,
+  HIGHLIGHT_LIMIT,
+  STARTING_SOON_REFRESH_MS,
+} from '../../store/discoveryApi';
+import { Event } from '../../types';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const CAPACITY_OPTIONS = [
+  { value: 0, label: 'Any capacity' },
+  { value: 1, label: 'Has open spots' },
+  { value: 5, label: 'Room for 5+' },
+  { value: 10, label: 'Room for 10+' },
+];
+
+interface EventCardProps {
+  event: Event;
+  userId?: string;
+  live?: boolean;
+}
+
+const EventCard: React.FC<EventCardProps> = ({ event, userId, live }) => {
+  const timeZone = useTimeZone();
+  const spots = openSpots(event);
+  const joined = !!userId && event.participants.includes(userId);
+
+  return (
+    <Card sx={{ display: 'flex', flexDirection: 'column' }}>
+      <CardContent sx={{ flexGrow: 1 }}>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+          {live && <Chip icon={<LiveIcon />} label="Live" color="error" size="small" />}
+          {joined && <Chip label="Joined" color="primary" size="small" />}
+          {spots === Infinity ? (
+            <Chip label="Open" color="success" size="small" variant="outlined" />
+          ) : spots > 0 ? (
+            <Chip label={`${spots} spots left`} color="success" size="small" variant="outlined" />
+          ) : (
+            <Chip label="Full" size="small" variant="outlined" />
+          )}
+        </Box>
+        <Typography variant="h6" gutterBottom>
+          {event.title}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {formatDateTimeInTimeZone(event.startTime, timeZone)}
+        </Typography>
+        <Typography variant="body2">
+          {event.description.length > 120
+            ? `${event.description.substring(0, 120)}...`
+            : event.description}
+        </Typography>
+      </CardContent>
+      <CardActions>
+        <Button size="small" component={Link} to={`/events/${event.id}`}>
+          {joined ? 'Open' : 'View & Join'}
+        </Button>
+      </CardActions>
+    </Card>
+  );
+};
+
+const cardGridSx = {
+  display: 'grid',
+  gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+  gap: 2,
+};
+
+const EventDiscovery: React.FC = () => {
+  const { userProfile } = useAuth();
+  const timeZone = useTimeZone();
+  const [searchInput, setSearchInput] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [fromDate, setFromDate] = useState<Date | null>(null);
+  const [toDate, setToDate] = useState<Date | null>(null);
+  const [minOpenSpots, setMinOpenSpots] = useState<number>(0);
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  // Move the starting-soon window along with the clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), STARTING_SOON_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Only query once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const filters: DiscoveryFilters = useMemo(
+    () => ({
+      search,
+      // Picked days run midnight to midnight in the user's zone
+      from: fromDate ? fromZonedTime(startOfDay(fromDate), timeZone).getTime() : null,
+      to: toDate ? fromZonedTime(endOfDay(toDate), timeZone).getTime() : null,
+      minOpenSpots,
+    }),
+    [search, fromDate, toDate, minOpenSpots, timeZone]
+  );
+
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useDiscoverEventsInfiniteQuery(filters);
+  const { data: liveData } = useGetLiveEventsQuery();
+  const { data: soonData } = useGetStartingSoonEventsQuery(now);
+
+  const events = useMemo(() => (data ? data.pages.flatMap((page) => page.events) : []), [data]);
+  const liveEvents = useMemo(
+    () =>
+      liveData
+        ? highlightsSelectors.selectAll(liveData).filter((event) => matchesDiscoveryFilters(event, filters))
+        : [],
+    [liveData, filters]
+  );
+  const startingSoon = useMemo(
+    () =>
+      soonData
+        ? highlightsSelectors
+            .selectAll(soonData)
+            .filter((event) => matchesDiscoveryFilters(event, filters))
+            .slice(0, HIGHLIGHT_LIMIT)
+        : [],
+    [soonData, filters]
+  );
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" gutterBottom>
+        Discover Events
+      </Typography>
+
+      {/* Filters */}
+      <Paper sx={{ p: 2, mb: 4 }}>
+        <LocalizationProvider dateAdapter={AdapterDateFns}>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            <TextField
+              label="Search events"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              sx={{ flex: '1 1 280px' }}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+            <DatePicker
+              label="From"
+              value={fromDate}
+              onChange={setFromDate}
+              disablePast
+              maxDate={toDate || undefined}
+              slotProps={{ field: { clearable: true } }}
+            />
+            <DatePicker
+              label="To"
+              value={toDate}
+              onChange={setToDate}
+              disablePast
+              minDate={fromDate || undefined}
+              slotProps={{ field: { clearable: true } }}
+            />
+            <FormControl sx={{ minWidth: 180 }}>
+              <InputLabel id="capacity-filter-label">Capacity</InputLabel>
+              <Select
+                labelId="capacity-filter-label"
+                label="Capacity"
+                value={minOpenSpots}
+                onChange={(e) => setMinOpenSpots(Number(e.target.value))}
+              >
+                {CAPACITY_OPTIONS.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+        </LocalizationProvider>
+      </Paper>
+
+      {liveEvents.length > 0 && (
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h5" gutterBottom>
+            Live now
+          </Typography>
+          <Box sx={cardGridSx}>
+            {liveEvents.map((event) => (
+              <EventCard key={event.id} event={event} userId={userProfile?.id} live />
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      {startingSoon.length > 0 && (
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h5" gutterBottom>
+            Starting soon
+          </Typography>
+          <Box sx={cardGridSx}>
+            {startingSoon.map((event) => (
+              <EventCard key={event.id} event={event} userId={userProfile?.id} />
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      <Typography variant="h5" gutterBottom>
+        Upcoming public events
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Failed to load events: {error.message}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : events.length > 0 ? (
+        <Box sx={cardGridSx}>
+          {events.map((event) => (
+            <EventCard key={event.id} event={event} userId={userProfile?.id} />
+          ))}
+        </Box>
+      ) : (
+        !error && (
+          <Typography variant="body1" color="text.secondary" sx={{ p: 3, textAlign: 'center' }}>
+            {hasNextPage ? 'No matches yet, load more to keep searching' : 'No events match your filters'}
+          </Typography>
+        )
+      )}
+
+      {hasNextPage && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 3 }}>
+          <Button variant="outlined" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? <CircularProgress size={24} /> : 'Load more'}
+          </Button>
+        </Box>
+      )}
+    </Container>
+  );
+};
+
+export default EventDiscovery;
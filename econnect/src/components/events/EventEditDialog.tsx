@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  FormControlLabel,
+  Switch,
+  InputAdornment,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import useTimeZone from '../../hooks/useTimeZone';
+import { EventChanges } from '../../services/events';
+import { fromDateTimeInputValue, toDateTimeInputValue } from '../../services/timeZones';
+import { Event } from '../../types';
+import TimeZoneSelect from '../common/TimeZoneSelect';
+
+interface EventEditDialogProps {
+  event: Event;
+  open: boolean;
+  onClose: () => void;
+  onSave: (changes: EventChanges) => Promise<void>;
+}
+
+// Edit an event's details. A recurring event's schedule is edited per
+// occurrence, so its times aren't offered here.
+const EventEditDialog: React.FC<EventEditDialogProps> = ({ event, open, onClose, onSave }) => {
+  const viewerTimeZone = useTimeZone();
+  const [title, setTitle] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [startTime, setStartTime] = useState<string>('');
+  const [endTime, setEndTime] = useState<string>('');
+  const [timeZone, setTimeZone] = useState<string>(viewerTimeZone);
+  const [isPublic, setIsPublic] = useState<boolean>(true);
+  const [maxParticipants, setMaxParticipants] = useState<number | ''>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved event each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    // Times are entered in the event's own zone
+    const eventTimeZone = event.timeZone || viewerTimeZone;
+    setTitle(event.title);
+    setDescription(event.description);
+    setTimeZone(eventTimeZone);
+    setStartTime(toDateTimeInputValue(event.startTime, eventTimeZone));
+    setEndTime(toDateTimeInputValue(event.endTime, eventTimeZone));
+    setIsPublic(event.isPublic);
+    setMaxParticipants(event.maxParticipants || '');
+    setError(null);
+  }, [open, event, viewerTimeZone]);
+
+  const handleSave = async () => {
+    const startDate = fromDateTimeInputValue(startTime, timeZone);
+    const endDate = fromDateTimeInputValue(endTime, timeZone);
+
+    if (!title || !startTime || !endTime) {
+      setError('Please fill in all required fields');
+      return;
+    }
+    if (startDate >= endDate) {
+      setError('End time must be after start time');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave({
+        title,
+        description,
+        isPublic,
+        maxParticipants: maxParticipants || null,
+        ...(event.recurrence ? {} : { startTime: startDate, endTime: endDate, timeZone }),
+      });
+      onClose();
+    } catch (error: any) {
+      setError(error?.message || 'Failed to update the event');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Edit event</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TextField
+          margin="normal"
+          required
+          fullWidth
+          label="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          disabled={saving}
+        />
+        <TextField
+          margin="normal"
+          fullWidth
+          label="Description"
+          multiline
+          rows={3}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={saving}
+        />
+        {event.recurrence ? (
+          <Alert severity="info" sx={{ my: 2 }}>
+            To change when this series takes place, edit its occurrences.
+          </Alert>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="Start Time"
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              disabled={saving}
+            />
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              label="End Time"
+              type="datetime-local"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              disabled={saving}
+            />
+          </Box>
+        )}
+        {!event.recurrence && (
+          <TimeZoneSelect value={timeZone} onChange={setTimeZone} disabled={saving} />
+        )}
+        <TextField
+          margin="normal"
+          fullWidth
+          label="Maximum Participants (Optional)"
+          type="number"
+          InputProps={{
+            inputProps: { min: 1 },
+            startAdornment: <InputAdornment position="start">Max</InputAdornment>,
+          }}
+          value={maxParticipants}
+          onChange={(e) => setMaxParticipants(e.target.value === '' ? '' : parseInt(e.target.value))}
+          helperText={
+            maxParticipants && maxParticipants < event.participants.length
+              ? 'Everyone already in the event keeps their spot'
+              : undefined
+          }
+          disabled={saving}
+        />
+        <FormControlLabel
+          control={
+            <Switch checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} disabled={saving} />
+          }
+          label="Public Event (Anyone can join)"
+          sx={{ mt: 1, display: 'block' }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? <CircularProgress size={24} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EventEditDialog;
@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Timestamp } from 'firebase/firestore';
 import {
   Container,
   Typography,
@@ -17,25 +16,17 @@ import {
   CircularProgress,
   Alert,
 } from '@mui/material';
-import { Add as AddIcon } from '@mui/icons-material';
-import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { Add as AddIcon, Explore as ExploreIcon } from '@mui/icons-material';
+import { skipToken } from '@reduxjs/toolkit/query';
 import { useAuth } from '../../context/AuthContext';
-import { Event } from '../../types';
-
-// Helper function to convert Firestore timestamp to JavaScript Date
-const convertTimestamp = (timestamp: any): Date | undefined => {
-  if (!timestamp) return undefined;
-  if (timestamp?.toDate && typeof timestamp.toDate === 'function') {
-    return timestamp.toDate();
-  }
-  if (timestamp instanceof Date) return timestamp;
-  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-    const date = new Date(timestamp);
-    return isNaN(date.getTime()) ? undefined : date;
-  }
-  return undefined;
-};
+import useTimeZone from '../../hooks/useTimeZone';
+import { formatTimeRangeInTimeZone } from '../../services/timeZones';
+import {
+  useGetUpcomingEventsQuery,
+  useGetPastEventsQuery,
+  eventMembershipsSelectors,
+} from '../../store/eventsApi';
+import { EventMembership } from '../../types';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -58,100 +49,37 @@ const TabPanel: React.FC<TabPanelProps> = ({ children, value, index }) => {
 
 const EventList: React.FC = () => {
   const [tabValue, setTabValue] = useState<number>(0);
-  const [upcomingEvents, setUpcomingEvents] = useState<Event[]>([]);
-  const [pastEvents, setPastEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
   const { userProfile } = useAuth();
+  const timeZone = useTimeZone();
   const navigate = useNavigate();
+  const userId = userProfile?.id;
 
-  useEffect(() => {
-    const fetchEvents = async () => {
-      if (!userProfile || !userProfile.id) {
-        console.error('User profile or user ID is missing');
-        setError('User profile information is incomplete');
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        const now = new Date();
-        
-        // Fetch upcoming events
-        const upcomingQuery = query(
-          collection(firestore, 'events'),
-          where('participants', 'array-contains-any', [userProfile.id, { userId: userProfile.id }]),
-          where('startTime', '>=', now),
-          orderBy('startTime')
-        );
-        const upcomingSnapshot = await getDocs(upcomingQuery);
-        const upcomingData = upcomingSnapshot.docs.map((doc) => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            ...data,
-            startTime: convertTimestamp(data.startTime) || new Date(),
-            endTime: convertTimestamp(data.endTime) || new Date(),
-            createdAt: convertTimestamp(data.createdAt) || new Date(),
-            updatedAt: convertTimestamp(data.updatedAt) || new Date()
-          } as Event;
-        });
-        setUpcomingEvents(upcomingData);
+  const upcoming = useGetUpcomingEventsQuery(userId ?? skipToken);
+  const past = useGetPastEventsQuery(userId ?? skipToken);
 
-        // Fetch past events
-        const pastQuery = query(
-          collection(firestore, 'events'),
-          where('participants', 'array-contains-any', [userProfile.id, { userId: userProfile.id }]),
-          where('startTime', '<', now),
-          orderBy('startTime', 'desc')
-        );
-        const pastSnapshot = await getDocs(pastQuery);
-        const pastData = pastSnapshot.docs.map((doc) => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            ...data,
-            startTime: convertTimestamp(data.startTime) || new Date(),
-            endTime: convertTimestamp(data.endTime) || new Date(),
-            createdAt: convertTimestamp(data.createdAt) || new Date(),
-            updatedAt: convertTimestamp(data.updatedAt) || new Date()
-          } as Event;
-        });
-        setPastEvents(pastData);
-
-        setLoading(false);
-      } catch (error: any) {
-        console.error('Error fetching events:', error);
-        const errorMessage = error.message 
-          ? `Failed to load events: ${error.message}` 
-          : 'Failed to load events';
-        setError(errorMessage);
-        setLoading(false);
-      }
-    };
+  const upcomingEvents = useMemo(
+    () => (upcoming.data ? eventMembershipsSelectors.selectAll(upcoming.data) : []),
+    [upcoming.data]
+  );
+  const pastEvents = useMemo(
+    () => (past.data ? eventMembershipsSelectors.selectAll(past.data) : []),
+    [past.data]
+  );
 
-    fetchEvents();
-  }, [userProfile]);
+  const loading = upcoming.isLoading || past.isLoading;
+  const loadError = upcoming.error || past.error;
+  const error = !userId
+    ? 'User profile information is incomplete'
+    : loadError
+      ? `Failed to load events: ${loadError.message}`
+      : null;
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
 
-  const formatEventDate = (event: Event) => {
-    const startDate = new Date(event.startTime);
-    const endDate = new Date(event.endTime);
-    
-    const sameDay = startDate.toDateString() === endDate.toDateString();
-    
-    if (sameDay) {
-      return `${startDate.toLocaleDateString()} ${startDate.toLocaleTimeString()} - ${endDate.toLocaleTimeString()}`;
-    } else {
-      return `${startDate.toLocaleDateString()} ${startDate.toLocaleTimeString()} - ${endDate.toLocaleDateString()} ${endDate.toLocaleTimeString()}`;
-    }
-  };
+  const formatEventDate = (event: EventMembership) =>
+    formatTimeRangeInTimeZone(event.startTime, event.endTime, timeZone);
 
   if (loading) {
     return (
@@ -180,13 +108,22 @@ const EventList: React.FC = () => {
     <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">Events</Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => navigate('/events/create')}
-        >
-          Create Event
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<ExploreIcon />}
+            onClick={() => navigate('/events/discover')}
+          >
+            Discover Events
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => navigate('/events/create')}
+          >
+            Create Event
+          </Button>
+        </Box>
       </Box>
 
       <Paper sx={{ width: '100%' }}>
@@ -205,10 +142,10 @@ const EventList: React.FC = () => {
           {upcomingEvents.length > 0 ? (
             <List>
               {upcomingEvents.map((event) => (
-                <React.Fragment key={event.id}>
+                <React.Fragment key={event.eventId}>
                   <ListItem
                     component={Link}
-                    to={`/events/${event.id}`}
+                    to={`/events/${event.eventId}`}
                     sx={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start' }}
                   >
                     <Box sx={{ width: '100%', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -217,9 +154,12 @@ const EventList: React.FC = () => {
                         secondary={formatEventDate(event)}
                       />
                       <Box>
-                        {event.createdBy === userProfile?.id && (
+                        {event.role === 'host' && (
                           <Chip label="Host" color="primary" size="small" sx={{ mr: 1 }} />
                         )}
+                        {event.status === 'cancelled' && (
+                          <Chip label="Cancelled" color="error" size="small" sx={{ mr: 1 }} />
+                        )}
                         {event.isPublic ? (
                           <Chip label="Public" color="success" size="small" />
                         ) : (
@@ -258,10 +198,10 @@ const EventList: React.FC = () => {
           {pastEvents.length > 0 ? (
             <List>
               {pastEvents.map((event) => (
-                <React.Fragment key={event.id}>
+                <React.Fragment key={event.eventId}>
                   <ListItem
                     component={Link}
-                    to={`/events/${event.id}`}
+                    to={`/events/${event.eventId}`}
                     sx={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start' }}
                   >
                     <Box sx={{ width: '100%', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -270,9 +210,12 @@ const EventList: React.FC = () => {
                         secondary={formatEventDate(event)}
                       />
                       <Box>
-                        {event.createdBy === userProfile?.id && (
+                        {event.role === 'host' && (
                           <Chip label="Host" color="primary" size="small" sx={{ mr: 1 }} />
                         )}
+                        {event.status === 'cancelled' && (
+                          <Chip label="Cancelled" color="error" size="small" sx={{ mr: 1 }} />
+                        )}
                         {event.isPublic ? (
                           <Chip label="Public" color="success" size="small" />
                         ) : (
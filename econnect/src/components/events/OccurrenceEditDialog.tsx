@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  Alert,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { OccurrenceChanges } from '../../services/meetings';
+import { parseRRule } from '../../services/recurrence';
+import { fromDateTimeInputValue, toDateTimeInputValue } from '../../services/timeZones';
+import { Meeting, RecurrenceRule } from '../../types';
+import RecurrenceFields from './RecurrenceFields';
+
+export type OccurrenceEditScope = 'this' | 'following';
+
+interface OccurrenceEditDialogProps {
+  occurrence: Meeting | null; // the dialog is open while this is set
+  recurrence: string;
+  timeZone: string; // zone of the event, which the series repeats in
+  onClose: () => void;
+  onSave: (
+    scope: OccurrenceEditScope,
+    changes: OccurrenceChanges,
+    rule: RecurrenceRule
+  ) => Promise<void>;
+}
+
+// Edit one occurrence of a recurring event, or it and every one after it
+const OccurrenceEditDialog: React.FC<OccurrenceEditDialogProps> = ({
+  occurrence,
+  recurrence,
+  timeZone,
+  onClose,
+  onSave,
+}) => {
+  const [scope, setScope] = useState<OccurrenceEditScope>('this');
+  const [title, setTitle] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [startTime, setStartTime] = useState<string>('');
+  const [endTime, setEndTime] = useState<string>('');
+  const [rule, setRule] = useState<RecurrenceRule | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the occurrence being edited each time the dialog opens
+  useEffect(() => {
+    if (!occurrence) return;
+
+    const end =
+      occurrence.scheduledEndTime || new Date(occurrence.startTime.getTime() + 60 * 60 * 1000);
+    setScope('this');
+    setTitle(occurrence.title);
+    setDescription(occurrence.description || '');
+    setStartTime(toDateTimeInputValue(occurrence.startTime, timeZone));
+    setEndTime(toDateTimeInputValue(end, timeZone));
+    setError(null);
+    try {
+      // A new series starting here only needs the occurrences that were left
+      const parsed = parseRRule(recurrence, timeZone);
+      setRule(
+        parsed.count !== null
+          ? { ...parsed, count: Math.max(parsed.count - occurrence.sessionNumber + 1, 1) }
+          : parsed
+      );
+    } catch {
+      setRule(null);
+    }
+  }, [occurrence, recurrence, timeZone]);
+
+  const handleSave = async () => {
+    const startDate = fromDateTimeInputValue(startTime, timeZone);
+    const endDate = fromDateTimeInputValue(endTime, timeZone);
+
+    if (!title || !startTime || !endTime) {
+      setError('Please fill in all required fields');
+      return;
+    }
+    if (startDate >= endDate) {
+      setError('End time must be after start time');
+      return;
+    }
+    if (!rule) {
+      setError('This event has a recurrence the app cannot edit');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave(scope, { title, description, startTime: startDate, endTime: endDate }, rule);
+      onClose();
+    } catch (error: any) {
+      setError(error?.message || 'Failed to update the occurrence');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!occurrence} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Edit occurrence</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <RadioGroup
+          row
+          value={scope}
+          onChange={(e) => setScope(e.target.value as OccurrenceEditScope)}
+          sx={{ mb: 1 }}
+        >
+          <FormControlLabel value="this" control={<Radio />} label="This occurrence" disabled={saving} />
+          <FormControlLabel
+            value="following"
+            control={<Radio />}
+            label="This and following occurrences"
+            disabled={saving}
+          />
+        </RadioGroup>
+
+        <TextField
+          margin="normal"
+          required
+          fullWidth
+          label="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          disabled={saving}
+        />
+        <TextField
+          margin="normal"
+          fullWidth
+          label="Description"
+          multiline
+          rows={3}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={saving}
+        />
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <TextField
+            margin="normal"
+            required
+            fullWidth
+            label="Start Time"
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            disabled={saving}
+          />
+          <TextField
+            margin="normal"
+            required
+            fullWidth
+            label="End Time"
+            type="datetime-local"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            disabled={saving}
+          />
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Times are in {timeZone}
+        </Typography>
+
+        {scope === 'following' && rule && (
+          <RecurrenceFields value={rule} onChange={setRule} timeZone={timeZone} disabled={saving} />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? <CircularProgress size={24} /> : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OccurrenceEditDialog;
@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  Box,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  Typography,
+} from '@mui/material';
+import { endOfDay, parseISO } from 'date-fns';
+import { WEEKDAYS, WEEKDAY_LABELS, MAX_OCCURRENCES, describeRecurrence } from '../../services/recurrence';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from '../../services/timeZones';
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '../../types';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  timeZone: string; // zone of the event; the last date ends at midnight there
+  disabled?: boolean;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+];
+
+// Editor for the supported RRULE subset: frequency, interval, weekdays and
+// an end given as a number of occurrences or a last date
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ value, onChange, timeZone, disabled }) => {
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...value, ...changes });
+  const endOfDayInZone = (day: Date) => fromZonedTime(endOfDay(day), timeZone);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <FormControl sx={{ flex: 1 }} disabled={disabled}>
+          <InputLabel id="recurrence-frequency-label">Repeats</InputLabel>
+          <Select
+            labelId="recurrence-frequency-label"
+            label="Repeats"
+            value={value.frequency}
+            onChange={(e) =>
+              update({
+                frequency: e.target.value as RecurrenceFrequency,
+                byWeekday: e.target.value === 'WEEKLY' ? value.byWeekday : [],
+              })
+            }
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          label="Every"
+          type="number"
+          value={value.interval}
+          onChange={(e) => update({ interval: Math.max(parseInt(e.target.value) || 1, 1) })}
+          InputProps={{ inputProps: { min: 1 } }}
+          disabled={disabled}
+          sx={{ flex: 1 }}
+        />
+      </Box>
+
+      {value.frequency === 'WEEKLY' && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            On (defaults to the start day)
+          </Typography>
+          <ToggleButtonGroup
+            size="small"
+            value={value.byWeekday}
+            onChange={(_e, days: Weekday[]) => update({ byWeekday: days })}
+            disabled={disabled}
+          >
+            {WEEKDAYS.map((day) => (
+              <ToggleButton key={day} value={day}>
+                {WEEKDAY_LABELS[day]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+      )}
+
+      <RadioGroup
+        row
+        value={value.count !== null ? 'count' : 'until'}
+        onChange={(e) =>
+          update(
+            e.target.value === 'count'
+              ? { count: 10, until: null }
+              : { count: null, until: endOfDayInZone(toZonedTime(new Date(), timeZone)) }
+          )
+        }
+      >
+        <FormControlLabel value="count" control={<Radio />} label="Ends after" disabled={disabled} />
+        <FormControlLabel value="until" control={<Radio />} label="Ends on" disabled={disabled} />
+      </RadioGroup>
+
+      {value.count !== null ? (
+        <TextField
+          label="Occurrences"
+          type="number"
+          value={value.count}
+          onChange={(e) =>
+            update({ count: Math.min(Math.max(parseInt(e.target.value) || 1, 1), MAX_OCCURRENCES) })
+          }
+          InputProps={{ inputProps: { min: 1, max: MAX_OCCURRENCES } }}
+          disabled={disabled}
+        />
+      ) : (
+        <TextField
+          label="Last date"
+          type="date"
+          value={value.until ? formatInTimeZone(value.until, timeZone, 'yyyy-MM-dd') : ''}
+          onChange={(e) =>
+            update({ until: e.target.value ? endOfDayInZone(parseISO(e.target.value)) : null })
+          }
+          InputLabelProps={{ shrink: true }}
+          disabled={disabled}
+        />
+      )}
+
+      <Typography variant="body2" color="text.secondary">
+        {describeRecurrence(value, timeZone)}
+      </Typography>
+    </Box>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Navigate } from 'react-router-dom';
+import { Box, Container, CircularProgress, Alert, Button } from '@mui/material';
+import { getOrCreateMeetingForEvent } from '../../services/meetings';
+
+// Resolves /events/:eventId/meeting to the event's open meeting session,
+// creating one if needed, so events can be linked to without a meeting ID.
+const EventMeetingRedirect: React.FC = () => {
+  const { eventId } = useParams<{ eventId: string }>();
+  const navigate = useNavigate();
+  const [meetingId, setMeetingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    getOrCreateMeetingForEvent(eventId)
+      .then(setMeetingId)
+      .catch(() => setError('Failed to open the meeting for this event'));
+  }, [eventId]);
+
+  if (meetingId) {
+    return <Navigate to={`/meetings/${meetingId}`} replace />;
+  }
+
+  if (error) {
+    return (
+      <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+        <Button variant="contained" onClick={() => navigate(`/events/${eventId}`)}>
+          Back to Event
+        </Button>
+      </Container>
+    );
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        minHeight: '60vh',
+      }}
+    >
+      <CircularProgress />
+    </Box>
+  );
+};
+
+export default EventMeetingRedirect;
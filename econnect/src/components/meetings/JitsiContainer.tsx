@@ -1,41 +1,80 @@
-import React, { useState, useCallback } from 'react';
-import { Box, Typography, Button, CircularProgress, Alert } from '@mui/material';
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+} from '@mui/material';
 import useJitsi from '../../hooks/useJitsi';
-import { startRecording, stopRecording } from '../../services/jitsi';
+import useRecording from '../../hooks/useRecording';
+import useAttendance from '../../hooks/useAttendance';
+import RecordingIngestDialog from '../recordings/RecordingIngestDialog';
 import { useAuth } from '../../context/AuthContext';
+import { JitsiEventMap, JitsiEventHandlers, JitsiRecordingMode } from '../../types';
+
+type MeetingParticipant = JitsiEventMap['participantJoined'] & { handRaised?: boolean };
 
 interface JitsiContainerProps {
   roomName: string;
+  meetingId?: string;
+  eventId?: string;
   isHost?: boolean;
+  isModerator?: boolean;
+  onMeetingJoined?: () => void;
   onMeetingEnd?: () => void;
 }
 
+const RECORDING_STATUS_LABELS = {
+  idle: 'Not recording',
+  starting: 'Starting...',
+  on: 'Live',
+  stopping: 'Stopping...',
+  failed: 'Recording failed',
+};
+
 const JitsiContainer: React.FC<JitsiContainerProps> = ({
   roomName,
+  meetingId,
+  eventId,
   isHost = false,
+  isModerator = isHost,
+  onMeetingJoined,
   onMeetingEnd,
 }) => {
-  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [ingestDialogOpen, setIngestDialogOpen] = useState<boolean>(false);
+  const [streamDialogOpen, setStreamDialogOpen] = useState<boolean>(false);
+  const [streamKey, setStreamKey] = useState<string>('');
   const [recordingError, setRecordingError] = useState<string | null>(null);
-  const [participants, setParticipants] = useState<any[]>([]);
+  const [participants, setParticipants] = useState<MeetingParticipant[]>([]);
+  const [dominantSpeakerId, setDominantSpeakerId] = useState<string | null>(null);
   const { userProfile } = useAuth();
 
   // Handle participant joined event
-  const handleParticipantJoined = useCallback((participant: any) => {
+  const handleParticipantJoined = useCallback((participant: JitsiEventMap['participantJoined']) => {
     console.log('Participant joined:', participant);
     setParticipants((prev) => [...prev, participant]);
   }, []);
 
   // Handle participant left event
-  const handleParticipantLeft = useCallback((participant: any) => {
+  const handleParticipantLeft = useCallback((participant: JitsiEventMap['participantLeft']) => {
     console.log('Participant left:', participant);
     setParticipants((prev) => prev.filter((p) => p.id !== participant.id));
   }, []);
 
   // Handle video conference joined event
-  const handleVideoConferenceJoined = useCallback((participant: any) => {
+  const handleVideoConferenceJoined = useCallback((participant: JitsiEventMap['videoConferenceJoined']) => {
     console.log('Video conference joined:', participant);
-  }, []);
+    if (onMeetingJoined) {
+      onMeetingJoined();
+    }
+  }, [onMeetingJoined]);
 
   // Handle video conference left event
   const handleVideoConferenceLeft = useCallback(() => {
@@ -45,24 +84,63 @@ const JitsiContainer: React.FC<JitsiContainerProps> = ({
     }
   }, [onMeetingEnd]);
 
+  // Keep the participant list in sync with name changes, raised hands and the active speaker
+  const eventHandlers: JitsiEventHandlers = {
+    displayNameChange: ({ id, displayname }) => {
+      setParticipants((prev) =>
+        prev.map((p) => (p.id === id ? { ...p, displayName: displayname } : p))
+      );
+    },
+    raiseHandUpdated: ({ id, handRaised }) => {
+      setParticipants((prev) =>
+        prev.map((p) => (p.id === id ? { ...p, handRaised: handRaised > 0 } : p))
+      );
+    },
+    dominantSpeakerChanged: ({ id }) => {
+      setDominantSpeakerId(id);
+    },
+  };
+
   // Initialize Jitsi
-  const { jitsiAPI, isLoading, error, containerRef } = useJitsi({
+  const { jitsiAPI, eventBus, isLoading, error, containerRef } = useJitsi({
     roomName,
     isHost,
+    isModerator,
+    eventHandlers,
     onParticipantJoined: handleParticipantJoined,
     onParticipantLeft: handleParticipantLeft,
     onVideoConferenceJoined: handleVideoConferenceJoined,
     onVideoConferenceLeft: handleVideoConferenceLeft,
   });
 
-  // Handle recording start
-  const handleStartRecording = async () => {
-    if (!jitsiAPI) return;
+  // Join/leave intervals for meeting attendance reports
+  useAttendance(eventBus, { meetingId, isHost, isModerator });
+
+  // Recording state machine, persisted on the meeting when a meetingId is
+  // known. Co-hosts run recordings too.
+  const { recordingState, saveError, startRecording, stopRecording } = useRecording(
+    jitsiAPI,
+    isModerator ? meetingId : undefined
+  );
+  // Offer to save the file once a file recording has finished
+  useEffect(() => {
+    if (
+      recordingState.status === 'idle' &&
+      recordingState.mode === 'file' &&
+      recordingState.endedAt
+    ) {
+      setIngestDialogOpen(true);
+    }
+  }, [recordingState]);
+
+  const recordingBusy =
+    recordingState.status === 'starting' || recordingState.status === 'stopping';
 
+  // Handle recording start
+  const handleStartRecording = async (mode: JitsiRecordingMode = 'file') => {
     try {
       setRecordingError(null);
-      await startRecording(jitsiAPI);
-      setIsRecording(true);
+      await startRecording(mode, mode === 'stream' ? { rtmpStreamKey: streamKey } : undefined);
     } catch (error) {
       console.error('Error starting recording:', error);
       setRecordingError(
@@ -71,14 +149,17 @@ const JitsiContainer: React.FC<JitsiContainerProps> = ({
     }
   };
 
+  // Handle livestream start from the stream key dialog
+  const handleStartLivestream = async () => {
+    setStreamDialogOpen(false);
+    await handleStartRecording('stream');
+  };
+
   // Handle recording stop
   const handleStopRecording = async () => {
-    if (!jitsiAPI) return;
-
     try {
       setRecordingError(null);
-      await stopRecording(jitsiAPI);
-      setIsRecording(false);
+      await stopRecording();
     } catch (error) {
       console.error('Error stopping recording:', error);
       setRecordingError(
@@ -121,26 +202,56 @@ const JitsiContainer: React.FC<JitsiContainerProps> = ({
       >
         <Typography variant="h6">{roomName}</Typography>
         <Box>
-          {isHost && (
+          {isModerator && (
             <>
-              {isRecording ? (
+              <Chip
+                label={
+                  recordingState.mode === 'stream' && recordingState.status === 'on'
+                    ? 'Streaming'
+                    : RECORDING_STATUS_LABELS[recordingState.status]
+                }
+                color={
+                  recordingState.status === 'on'
+                    ? 'error'
+                    : recordingState.status === 'failed'
+                    ? 'warning'
+                    : 'default'
+                }
+                size="small"
+                sx={{ mr: 1 }}
+              />
+              {recordingState.status === 'on' || recordingState.status === 'stopping' ? (
                 <Button
                   variant="contained"
                   color="error"
                   onClick={handleStopRecording}
+                  disabled={recordingBusy}
                   sx={{ mr: 1 }}
                 >
-                  Stop Recording
+                  {recordingState.mode === 'stream' ? 'Stop Livestream' : 'Stop Recording'}
                 </Button>
               ) : (
-                <Button
-                  variant="contained"
-                  color="primary"
-                  onClick={handleStartRecording}
-                  sx={{ mr: 1 }}
-                >
-                  Start Recording
-                </Button>
+                <>
+                  <Button
+                    variant="contained"
+                    color="primary"
+                    onClick={() => handleStartRecording('file')}
+                    disabled={!jitsiAPI || recordingBusy}
+                    startIcon={recordingBusy ? <CircularProgress size={20} /> : null}
+                    sx={{ mr: 1 }}
+                  >
+                    Start Recording
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    color="primary"
+                    onClick={() => setStreamDialogOpen(true)}
+                    disabled={!jitsiAPI || recordingBusy}
+                    sx={{ mr: 1 }}
+                  >
+                    Go Live
+                  </Button>
+                </>
               )}
             </>
           )}
@@ -151,12 +262,50 @@ const JitsiContainer: React.FC<JitsiContainerProps> = ({
       </Box>
 
       {/* Recording error alert */}
-      {recordingError && (
+      {(recordingError || recordingState.error || saveError) && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          {recordingError}
+          {recordingError || recordingState.error || saveError}
         </Alert>
       )}
 
+      {/* Save finished recording dialog */}
+      {isHost && meetingId && eventId && (
+        <RecordingIngestDialog
+          open={ingestDialogOpen}
+          eventId={eventId}
+          meetingId={meetingId}
+          defaultTitle={roomName}
+          startTime={recordingState.startedAt}
+          endTime={recordingState.endedAt}
+          onClose={() => setIngestDialogOpen(false)}
+        />
+      )}
+
+      {/* Livestream dialog */}
+      <Dialog open={streamDialogOpen} onClose={() => setStreamDialogOpen(false)}>
+        <DialogTitle>Start Livestream</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="normal"
+            label="RTMP Stream Key"
+            value={streamKey}
+            onChange={(e) => setStreamKey(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setStreamDialogOpen(false)}>Cancel</Button>
+          <Button
+            onClick={handleStartLivestream}
+            variant="contained"
+            disabled={!streamKey.trim()}
+          >
+            Go Live
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Jitsi container */}
       {isLoading ? (
         <Box
@@ -217,6 +366,8 @@ const JitsiContainer: React.FC<JitsiContainerProps> = ({
         {participants.map((participant) => (
           <Typography key={participant.id} variant="body2">
             {participant.displayName}
+            {participant.id === dominantSpeakerId ? ' - Speaking' : ''}
+            {participant.handRaised ? ' - Hand raised' : ''}
           </Typography>
         ))}
       </Box>
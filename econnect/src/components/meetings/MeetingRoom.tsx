@@ -9,20 +9,24 @@ import {
   Alert,
   Button,
 } from '@mui/material';
-import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
 import { useAuth } from '../../context/AuthContext';
 import JitsiContainer from './JitsiContainer';
+import { getMeeting, startMeeting, endMeeting } from '../../services/meetings';
+import { eventsRepository } from '../../services/repository';
+import { useAppDispatch } from '../../store/hooks';
+import { sessionJoining, sessionJoined, sessionLeft } from '../../store/sessionSlice';
 import { Meeting } from '../../types';
 
 const MeetingRoom: React.FC = () => {
   const { meetingId } = useParams<{ meetingId: string }>();
   const navigate = useNavigate();
-  const { currentUser, userProfile } = useAuth();
+  const { currentUser } = useAuth();
+  const dispatch = useAppDispatch();
   const [meeting, setMeeting] = useState<Meeting | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [isHost, setIsHost] = useState<boolean>(false);
+  const [isCoHost, setIsCoHost] = useState<boolean>(false);
 
   useEffect(() => {
     const fetchMeeting = async () => {
@@ -33,39 +37,24 @@ const MeetingRoom: React.FC = () => {
       }
 
       try {
-        const meetingDoc = doc(firestore, 'meetings', meetingId);
-        const meetingSnapshot = await getDoc(meetingDoc);
+        const meetingData = await getMeeting(meetingId);
 
-        if (!meetingSnapshot.exists()) {
+        if (!meetingData) {
           setError('Meeting not found');
           setLoading(false);
           return;
         }
 
-        const meetingData = meetingSnapshot.data() as Meeting;
         setMeeting(meetingData);
         
         // Check if the current user is the host
         setIsHost(meetingData.hostId === currentUser.uid);
 
-        // Update participant list if not already in the meeting
-        const participantExists = meetingData.participants.some(
-          (p) => p.userId === currentUser.uid
-        );
-
-        if (!participantExists) {
-          const newParticipant = {
-            userId: currentUser.uid,
-            displayName: userProfile?.displayName || currentUser.email || 'Anonymous',
-            role: meetingData.hostId === currentUser.uid ? 'moderator' : 'viewer',
-            joinTime: new Date(),
-          };
-
-          await updateDoc(meetingDoc, {
-            participants: [...meetingData.participants, newParticipant],
-            updatedAt: serverTimestamp(),
-          });
-        }
+        // Co-hosts of the event moderate the meeting too
+        const event = await eventsRepository.get(meetingData.eventId);
+        setIsCoHost(!!event && event.coHosts.includes(currentUser.uid));
+
+        // Attendance is recorded by JitsiContainer once the conference is joined
 
         setLoading(false);
       } catch (error) {
@@ -76,34 +65,46 @@ const MeetingRoom: React.FC = () => {
     };
 
     fetchMeeting();
-  }, [meetingId, currentUser, userProfile]);
+  }, [meetingId, currentUser]);
+
+  // Track the open meeting in the store for the rest of the app
+  const sessionMeetingId =
+    meeting && meeting.status !== 'ended' && meeting.status !== 'cancelled' ? meeting.id : null;
+  const sessionEventId = meeting?.eventId;
+  const sessionRoomName = meeting?.jitsiRoomName;
+  useEffect(() => {
+    if (!sessionMeetingId || !sessionEventId || !sessionRoomName) return;
+
+    dispatch(
+      sessionJoining({
+        meetingId: sessionMeetingId,
+        eventId: sessionEventId,
+        roomName: sessionRoomName,
+        isHost,
+      })
+    );
+    return () => {
+      dispatch(sessionLeft({ meetingId: sessionMeetingId }));
+    };
+  }, [dispatch, sessionMeetingId, sessionEventId, sessionRoomName, isHost]);
+
+  const handleMeetingJoined = () => {
+    if (!meetingId) return;
+    dispatch(sessionJoined({ meetingId, joinedAt: Date.now() }));
+    startMeeting(meetingId).catch(() => undefined);
+  };
 
   const handleMeetingEnd = async () => {
     if (!meetingId || !currentUser) return;
 
     try {
-      // Update participant leave time
-      const meetingDoc = doc(firestore, 'meetings', meetingId);
-      const meetingSnapshot = await getDoc(meetingDoc);
-
-      if (meetingSnapshot.exists()) {
-        const meetingData = meetingSnapshot.data() as Meeting;
-        const updatedParticipants = meetingData.participants.map((p) => {
-          if (p.userId === currentUser.uid) {
-            return { ...p, leaveTime: new Date() };
-          }
-          return p;
-        });
-
-        await updateDoc(meetingDoc, {
-          participants: updatedParticipants,
-          ...(isHost ? { endTime: new Date() } : {}),
-          updatedAt: serverTimestamp(),
-        });
+      // The session ends when its host leaves
+      if (isHost) {
+        await endMeeting(meetingId);
       }
 
-      // Navigate back to the events page
-      navigate('/events');
+      // Navigate back to the event page
+      navigate(meeting ? `/events/${meeting.eventId}` : '/events');
     } catch (error) {
       console.error('Error updating meeting end:', error);
     }
@@ -126,6 +127,21 @@ const MeetingRoom: React.FC = () => {
     );
   }
 
+  if (meeting && (meeting.status === 'ended' || meeting.status === 'cancelled')) {
+    return (
+      <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {meeting.status === 'cancelled'
+            ? 'This occurrence has been cancelled.'
+            : 'This meeting has ended.'}
+        </Alert>
+        <Button variant="contained" onClick={() => navigate(`/events/${meeting.eventId}`)}>
+          Back to Event
+        </Button>
+      </Container>
+    );
+  }
+
   if (error || !meeting) {
     return (
       <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
@@ -152,7 +168,11 @@ const MeetingRoom: React.FC = () => {
       >
         <JitsiContainer
           roomName={meeting.jitsiRoomName}
+          meetingId={meetingId}
+          eventId={meeting.eventId}
           isHost={isHost}
+          isModerator={isHost || isCoHost}
+          onMeetingJoined={handleMeetingJoined}
           onMeetingEnd={handleMeetingEnd}
         />
       </Paper>
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  CircularProgress,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import {
+  UploadFile as UploadFileIcon,
+  FolderOpen as FolderOpenIcon,
+} from '@mui/icons-material';
+import { useAuth } from '../../context/AuthContext';
+import { ingestRecording } from '../../services/recordingIngestion';
+import { Recording } from '../../types';
+
+interface RecordingIngestDialogProps {
+  open: boolean;
+  eventId: string;
+  meetingId: string;
+  defaultTitle?: string;
+  startTime?: Date;
+  endTime?: Date;
+  onClose: () => void;
+  onIngested?: (recording: Recording) => void;
+}
+
+const RecordingIngestDialog: React.FC<RecordingIngestDialogProps> = ({
+  open,
+  eventId,
+  meetingId,
+  defaultTitle,
+  startTime,
+  endTime,
+  onClose,
+  onIngested,
+}) => {
+  const { userProfile } = useAuth();
+  const [files, setFiles] = useState<File[]>([]);
+  const [title, setTitle] = useState<string>(defaultTitle || '');
+  const [uploading, setUploading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(event.target.files ? Array.from(event.target.files) : []);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (uploading) return;
+    setFiles([]);
+    setError(null);
+    onClose();
+  };
+
+  const handleUpload = async () => {
+    if (!userProfile || files.length === 0) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      const recording = await ingestRecording({
+        files,
+        ownerId: userProfile.id,
+        eventId,
+        meetingId,
+        title: title.trim() || undefined,
+        startTime,
+        endTime,
+      });
+
+      setUploading(false);
+      setFiles([]);
+      if (onIngested) {
+        onIngested(recording);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error uploading recording:', error);
+      setError(error instanceof Error ? error.message : 'Failed to upload recording');
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Save Recording</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Select the finished recording file, or the Jibri output folder for this session.
+        </Typography>
+
+        <TextField
+          fullWidth
+          margin="normal"
+          label="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          disabled={uploading}
+        />
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <Button
+            variant="outlined"
+            component="label"
+            startIcon={<UploadFileIcon />}
+            disabled={uploading}
+          >
+            Choose File
+            <input type="file" accept="video/*" hidden onChange={handleFilesChange} />
+          </Button>
+          <Button
+            variant="outlined"
+            component="label"
+            startIcon={<FolderOpenIcon />}
+            disabled={uploading}
+          >
+            Choose Folder
+            <input
+              type="file"
+              hidden
+              multiple
+              ref={(input) => {
+                input?.setAttribute('webkitdirectory', '');
+              }}
+              onChange={handleFilesChange}
+            />
+          </Button>
+        </Box>
+
+        {files.length > 0 && (
+          <Typography variant="body2" sx={{ mt: 2 }}>
+            {files.length === 1 ? files[0].name : `${files.length} files selected`}
+          </Typography>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={uploading}>
+          Skip
+        </Button>
+        <Button
+          onClick={handleUpload}
+          variant="contained"
+          disabled={uploading || files.length === 0}
+          startIcon={uploading ? <CircularProgress size={20} /> : null}
+        >
+          {uploading ? 'Uploading...' : 'Upload'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecordingIngestDialog;
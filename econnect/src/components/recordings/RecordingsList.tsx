@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Container,
   Typography,
@@ -22,93 +22,69 @@ import {
   Delete as DeleteIcon,
   Download as DownloadIcon,
 } from '@mui/icons-material';
-import { collection, query, where, getDocs, doc, deleteDoc } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { skipToken } from '@reduxjs/toolkit/query';
 import { useAuth } from '../../context/AuthContext';
-import { getRecordingDownloadUrl, deleteRecording } from '../../services/aws';
+import useTimeZone from '../../hooks/useTimeZone';
+import { getRecordingDownloadUrl } from '../../services/aws';
+import { formatDateTimeInTimeZone } from '../../services/timeZones';
+import {
+  useGetUserRecordingsQuery,
+  useDeleteRecordingMutation,
+  recordingsSelectors,
+} from '../../store/recordingsApi';
 import { Recording } from '../../types';
 
 const RecordingsList: React.FC = () => {
   const { userProfile } = useAuth();
-  const [recordings, setRecordings] = useState<Recording[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const timeZone = useTimeZone();
+  const [actionError, setActionError] = useState<string | null>(null);
   const [selectedRecording, setSelectedRecording] = useState<Recording | null>(null);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [isDeleting, setIsDeleting] = useState<boolean>(false);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState<boolean>(false);
 
-  useEffect(() => {
-    const fetchRecordings = async () => {
-      if (!userProfile) {
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Query recordings for the current user
-        const recordingsQuery = query(
-          collection(firestore, 'recordings'),
-          where('userId', '==', userProfile.id)
-        );
-        const recordingsSnapshot = await getDocs(recordingsQuery);
-        const recordingsData = recordingsSnapshot.docs.map(
-          (doc) => ({ id: doc.id, ...doc.data() } as Recording)
-        );
-
-        // Sort by start time (newest first)
-        recordingsData.sort((a, b) => {
-          return new Date(b.startTime).getTime() - new Date(a.startTime).getTime();
-        });
-
-        setRecordings(recordingsData);
-        setLoading(false);
-      } catch (error) {
-        console.error('Error fetching recordings:', error);
-        setError('Failed to load recordings');
-        setLoading(false);
-      }
-    };
-
-    fetchRecordings();
-  }, [userProfile]);
+  // Newest first; shared with the dashboard's recent recordings
+  const {
+    data,
+    isLoading: loading,
+    error: loadError,
+  } = useGetUserRecordingsQuery(userProfile?.id ?? skipToken);
+  const [deleteRecording] = useDeleteRecordingMutation();
+  const recordings = useMemo(() => (data ? recordingsSelectors.selectAll(data) : []), [data]);
+  const error = actionError || (loadError ? 'Failed to load recordings' : null);
 
   const handlePlayRecording = async (recording: Recording) => {
     try {
       setSelectedRecording(recording);
       
       // Get a pre-signed URL for the recording
-      const downloadUrl = await getRecordingDownloadUrl(recording.s3Key);
+      const downloadUrl = await getRecordingDownloadUrl(recording.id);
       
       // Open the recording in a dialog
+      setPlaybackUrl(downloadUrl);
       setIsPlaying(true);
-      
-      // You could also open in a new window/tab
-      // window.open(downloadUrl, '_blank');
     } catch (error) {
       console.error('Error playing recording:', error);
-      setError('Failed to play recording');
+      setActionError('Failed to play recording');
     }
   };
 
   const handleDownloadRecording = async (recording: Recording) => {
     try {
       // Get a pre-signed URL for the recording
-      const downloadUrl = await getRecordingDownloadUrl(recording.s3Key);
+      const downloadUrl = await getRecordingDownloadUrl(recording.id);
       
       // Create a temporary link and trigger download
       const link = document.createElement('a');
       link.href = downloadUrl;
-      link.download = `recording-${recording.id}.mp4`; // Assuming MP4 format
+      link.download = `recording-${recording.id}.${recording.s3Key.split('.').pop() || 'mp4'}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
     } catch (error) {
       console.error('Error downloading recording:', error);
-      setError('Failed to download recording');
+      setActionError('Failed to download recording');
     }
   };
 
@@ -123,20 +99,18 @@ const RecordingsList: React.FC = () => {
     try {
       setIsDeleting(true);
       
-      // Delete from S3
-      await deleteRecording(selectedRecording.s3Key);
-      
-      // Delete from Firestore
-      await deleteDoc(doc(firestore, 'recordings', selectedRecording.id));
-      
-      // Update state
-      setRecordings(recordings.filter((r) => r.id !== selectedRecording.id));
+      // Delete from S3 and Firestore
+      await deleteRecording({
+        recordingId: selectedRecording.id,
+        ownerId: selectedRecording.ownerId,
+      }).unwrap();
+
       setDeleteConfirmOpen(false);
       setSelectedRecording(null);
       setIsDeleting(false);
     } catch (error) {
       console.error('Error deleting recording:', error);
-      setError('Failed to delete recording');
+      setActionError('Failed to delete recording');
       setIsDeleting(false);
     }
   };
@@ -156,7 +130,7 @@ const RecordingsList: React.FC = () => {
   };
 
   const formatDate = (date: Date) => {
-    return new Date(date).toLocaleString();
+    return formatDateTimeInTimeZone(new Date(date), timeZone);
   };
 
   if (loading) {
@@ -258,10 +232,10 @@ const RecordingsList: React.FC = () => {
             : 'Recording'}
         </DialogTitle>
         <DialogContent>
-          {selectedRecording && (
+          {selectedRecording && playbackUrl && (
             <Box sx={{ width: '100%', height: '400px' }}>
               <video
-                src={selectedRecording.url}
+                src={playbackUrl}
                 controls
                 autoPlay
                 style={{ width: '100%', height: '100%' }}
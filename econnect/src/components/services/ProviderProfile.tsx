@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Card,
+  CardContent,
+  CardActions,
+  Button,
+  Chip,
+  Avatar,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { skipToken } from '@reduxjs/toolkit/query';
+import useTimeZone from '../../hooks/useTimeZone';
+import { ROLE_LABELS } from '../../services/permissions';
+import { usersRepository } from '../../services/repository';
+import { summarizeRatings } from '../../services/reviews';
+import { describeAvailability, formatDateInTimeZone } from '../../services/timeZones';
+import {
+  useGetProviderServicesQuery,
+  useGetServiceReviewsQuery,
+  servicesSelectors,
+  reviewsSelectors,
+} from '../../store/servicesApi';
+import { User } from '../../types';
+import ServiceReviewList from './ServiceReviewList';
+
+// Public profile of a provider: who they are, what they offer now and how
+// their past sessions were rated
+const ProviderProfile: React.FC = () => {
+  const { providerId } = useParams<{ providerId: string }>();
+  const timeZone = useTimeZone();
+  const [provider, setProvider] = useState<User | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: servicesData, isLoading: servicesLoading } = useGetProviderServicesQuery(
+    providerId ?? skipToken
+  );
+  const { data: reviewsData } = useGetServiceReviewsQuery(
+    providerId ? { field: 'providerId', id: providerId } : skipToken
+  );
+  const services = useMemo(
+    () => (servicesData ? servicesSelectors.selectAll(servicesData) : []),
+    [servicesData]
+  );
+  const reviews = useMemo(
+    () => (reviewsData ? reviewsSelectors.selectAll(reviewsData) : []),
+    [reviewsData]
+  );
+  const serviceTitles = useMemo(
+    () =>
+      services.reduce<Record<string, string>>((titles, service) => {
+        titles[service.id] = service.title;
+        return titles;
+      }, {}),
+    [services]
+  );
+
+  useEffect(() => {
+    const fetchProvider = async () => {
+      if (!providerId) {
+        setError('Invalid provider ID');
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const user = await usersRepository.get(providerId);
+        setProvider(user);
+        setError(user ? null : 'Provider not found');
+      } catch (error) {
+        console.error('Error fetching provider profile:', error);
+        setError('Failed to load provider profile');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProvider();
+  }, [providerId]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !provider) {
+    return (
+      <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error || 'Provider not found'}
+        </Alert>
+        <Button variant="contained" component={Link} to="/services">
+          Back to Services
+        </Button>
+      </Container>
+    );
+  }
+
+  const summary = summarizeRatings(reviews);
+
+  return (
+    <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+      <Paper sx={{ p: 3, mb: 3, display: 'flex', alignItems: 'center', gap: 3 }}>
+        <Avatar src={provider.photoURL} alt={provider.displayName} sx={{ width: 80, height: 80 }}>
+          {provider.displayName?.charAt(0)}
+        </Avatar>
+        <Box>
+          <Typography variant="h4">{provider.displayName}</Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+            <Chip label={ROLE_LABELS[provider.role]} size="small" />
+            <Typography variant="body2" color="text.secondary">
+              Member since {formatDateInTimeZone(provider.createdAt, timeZone)}
+            </Typography>
+          </Box>
+        </Box>
+      </Paper>
+
+      <Typography variant="h5" gutterBottom>
+        Services
+      </Typography>
+      {servicesLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : services.length === 0 ? (
+        <Paper sx={{ p: 3, mb: 3, textAlign: 'center' }}>
+          <Typography variant="body1" color="text.secondary">
+            {provider.displayName} doesn't offer any services right now.
+          </Typography>
+        </Paper>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+          {services.map((service) => (
+            <Card key={service.id} sx={{ width: '100%', maxWidth: 345 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  {service.title}
+                </Typography>
+                <Chip label={service.category} size="small" sx={{ mb: 2 }} />
+                <Typography variant="body1" sx={{ fontWeight: 'bold' }}>
+                  {service.price} {service.currency}
+                </Typography>
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                  Available: {service.availability.days.join(', ')},{' '}
+                  {describeAvailability(service.availability, timeZone)}
+                </Typography>
+              </CardContent>
+              <CardActions>
+                <Button size="small" component={Link} to={`/services/${service.id}`}>
+                  View Details
+                </Button>
+              </CardActions>
+            </Card>
+          ))}
+        </Box>
+      )}
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Reviews
+        </Typography>
+        <ServiceReviewList reviews={reviews} summary={summary} serviceTitles={serviceTitles} />
+      </Paper>
+    </Container>
+  );
+};
+
+export default ProviderProfile;
@@ -22,10 +22,20 @@ import {
 import { TimePicker } from '@mui/x-date-pickers/TimePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { format } from 'date-fns';
 import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
 import { firestore } from '../../services/firebase';
 import { useAuth } from '../../context/AuthContext';
+import usePermissions from '../../hooks/usePermissions';
+import useTimeZone from '../../hooks/useTimeZone';
+import {
+  BUFFER_MINUTE_OPTIONS,
+  DEFAULT_BUFFER_MINUTES,
+  DEFAULT_SLOT_MINUTES,
+  SLOT_MINUTE_OPTIONS,
+} from '../../services/bookings';
 import { Service } from '../../types';
+import TimeZoneSelect from '../common/TimeZoneSelect';
 
 const DAYS_OF_WEEK = [
   'Monday',
@@ -52,6 +62,8 @@ const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CNY', 'INR'];
 
 const ServiceCreation: React.FC = () => {
   const { currentUser, userProfile } = useAuth();
+  const { can } = usePermissions();
+  const userTimeZone = useTimeZone();
   const [title, setTitle] = useState<string>('');
   const [description, setDescription] = useState<string>('');
   const [category, setCategory] = useState<string>('');
@@ -64,6 +76,11 @@ const ServiceCreation: React.FC = () => {
   const [endTime, setEndTime] = useState<Date | null>(
     new Date(new Date().setHours(17, 0, 0, 0))
   );
+  // Opening hours are wall-clock times in the provider's zone
+  const [timeZone, setTimeZone] = useState<string>(userTimeZone);
+  // Requesters book the hours in slots of this length, with a gap after each
+  const [slotMinutes, setSlotMinutes] = useState<number>(DEFAULT_SLOT_MINUTES);
+  const [bufferMinutes, setBufferMinutes] = useState<number>(DEFAULT_BUFFER_MINUTES);
   const [isActive, setIsActive] = useState<boolean>(true);
   const [submitting, setSubmitting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -111,9 +128,10 @@ const ServiceCreation: React.FC = () => {
     setIsActive(event.target.checked);
   };
 
+  // Stored as 24-hour "HH:mm", independent of the browser's locale
   const formatTime = (date: Date | null): string => {
     if (!date) return '';
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return format(date, 'HH:mm');
   };
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -134,6 +152,11 @@ const ServiceCreation: React.FC = () => {
       return;
     }
 
+    if (endTime.getTime() - startTime.getTime() < slotMinutes * 60000) {
+      setError('Opening hours must fit at least one session');
+      return;
+    }
+
     try {
       setSubmitting(true);
       setError(null);
@@ -150,6 +173,9 @@ const ServiceCreation: React.FC = () => {
           days: selectedDays,
           startTime: formatTime(startTime),
           endTime: formatTime(endTime),
+          timeZone,
+          slotMinutes,
+          bufferMinutes,
         },
         isActive,
         createdAt: serverTimestamp() as any,
@@ -170,6 +196,9 @@ const ServiceCreation: React.FC = () => {
       setSelectedDays([]);
       setStartTime(new Date(new Date().setHours(9, 0, 0, 0)));
       setEndTime(new Date(new Date().setHours(17, 0, 0, 0)));
+      setTimeZone(userTimeZone);
+      setSlotMinutes(DEFAULT_SLOT_MINUTES);
+      setBufferMinutes(DEFAULT_BUFFER_MINUTES);
       setIsActive(true);
     } catch (error) {
       console.error('Error creating service:', error);
@@ -183,7 +212,7 @@ const ServiceCreation: React.FC = () => {
   };
 
   // Check if user is a service provider
-  if (userProfile && userProfile.role !== 'service-provider' && userProfile.role !== 'admin') {
+  if (userProfile && !can('services:create')) {
     return (
       <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
         <Alert severity="warning">
@@ -305,6 +334,49 @@ const ServiceCreation: React.FC = () => {
             </Box>
           </LocalizationProvider>
 
+          <TimeZoneSelect
+            value={timeZone}
+            onChange={setTimeZone}
+            helperText="Clients see your hours converted to their own zone"
+            disabled={submitting}
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="slot-minutes-label">Session length</InputLabel>
+              <Select
+                labelId="slot-minutes-label"
+                id="slot-minutes"
+                value={String(slotMinutes)}
+                label="Session length"
+                onChange={(e: SelectChangeEvent) => setSlotMinutes(Number(e.target.value))}
+              >
+                {SLOT_MINUTE_OPTIONS.map((minutes) => (
+                  <MenuItem key={minutes} value={String(minutes)}>
+                    {minutes} minutes
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth margin="normal">
+              <InputLabel id="buffer-minutes-label">Break between sessions</InputLabel>
+              <Select
+                labelId="buffer-minutes-label"
+                id="buffer-minutes"
+                value={String(bufferMinutes)}
+                label="Break between sessions"
+                onChange={(e: SelectChangeEvent) => setBufferMinutes(Number(e.target.value))}
+              >
+                {BUFFER_MINUTE_OPTIONS.map((minutes) => (
+                  <MenuItem key={minutes} value={String(minutes)}>
+                    {minutes === 0 ? 'None' : `${minutes} minutes`}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
           <FormControlLabel
             control={
               <Checkbox
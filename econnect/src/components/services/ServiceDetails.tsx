@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Button,
+  Chip,
+  Avatar,
+  Divider,
+  CircularProgress,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+} from '@mui/material';
+import { skipToken } from '@reduxjs/toolkit/query';
+import { useAuth } from '../../context/AuthContext';
+import useTimeZone from '../../hooks/useTimeZone';
+import { DEFAULT_BUFFER_MINUTES, DEFAULT_SLOT_MINUTES } from '../../services/bookings';
+import { usersRepository } from '../../services/repository';
+import { summarizeRatings } from '../../services/reviews';
+import { describeAvailability } from '../../services/timeZones';
+import {
+  useGetServiceQuery,
+  useGetServiceReviewsQuery,
+  reviewsSelectors,
+} from '../../store/servicesApi';
+import { BookingSlot, User } from '../../types';
+import ServiceRequestForm from './ServiceRequestForm';
+import ServiceReviewList from './ServiceReviewList';
+import SlotPicker from './SlotPicker';
+
+// Everything a user needs to decide on a service: what it is and costs, when
+// it's free, who provides it and how past sessions were rated
+const ServiceDetails: React.FC = () => {
+  const { serviceId } = useParams<{ serviceId: string }>();
+  const { userProfile } = useAuth();
+  const timeZone = useTimeZone();
+  const [provider, setProvider] = useState<User | null>(null);
+  const [requestDialogOpen, setRequestDialogOpen] = useState<boolean>(false);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+
+  const { data: service, isLoading, error } = useGetServiceQuery(serviceId ?? skipToken);
+  const { data: reviewsData } = useGetServiceReviewsQuery(
+    serviceId ? { field: 'serviceId', id: serviceId } : skipToken
+  );
+  const reviews = useMemo(
+    () => (reviewsData ? reviewsSelectors.selectAll(reviewsData) : []),
+    [reviewsData]
+  );
+
+  const providerId = service?.providerId;
+  useEffect(() => {
+    if (!providerId) return;
+
+    const fetchProvider = async () => {
+      try {
+        setProvider(await usersRepository.get(providerId));
+      } catch (error) {
+        console.error('Error fetching service provider:', error);
+      }
+    };
+
+    fetchProvider();
+  }, [providerId]);
+
+  const openRequestDialog = (slot: BookingSlot | null) => {
+    setSelectedSlot(slot);
+    setRequestDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !service) {
+    return (
+      <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error ? 'Failed to load service details' : 'Service not found'}
+        </Alert>
+        <Button variant="contained" component={Link} to="/services">
+          Back to Services
+        </Button>
+      </Container>
+    );
+  }
+
+  const isOwnService = userProfile?.id === service.providerId;
+  const canRequest = !!userProfile && service.isActive && !isOwnService;
+  const slotMinutes = service.availability.slotMinutes || DEFAULT_SLOT_MINUTES;
+  const bufferMinutes = service.availability.bufferMinutes ?? DEFAULT_BUFFER_MINUTES;
+
+  return (
+    <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+      {!service.isActive && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          This service is no longer offered.
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2 }}>
+          <Box>
+            <Typography variant="h4" gutterBottom>
+              {service.title}
+            </Typography>
+            <Chip label={service.category} size="small" />
+          </Box>
+          <Box sx={{ textAlign: 'right' }}>
+            <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
+              {service.price} {service.currency}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              per {slotMinutes}-minute session
+            </Typography>
+          </Box>
+        </Box>
+
+        <Typography variant="body1" sx={{ mt: 2, whiteSpace: 'pre-line' }}>
+          {service.description}
+        </Typography>
+
+        <Box sx={{ mt: 3 }}>
+          <Button
+            variant="contained"
+            onClick={() => openRequestDialog(null)}
+            disabled={!canRequest}
+          >
+            Request Service
+          </Button>
+          {isOwnService && (
+            <Typography variant="caption" color="text.secondary" sx={{ ml: 2 }}>
+              This is your service
+            </Typography>
+          )}
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Provided by
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Avatar src={provider?.photoURL} alt={provider?.displayName}>
+            {provider?.displayName?.charAt(0)}
+          </Avatar>
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="subtitle1">{provider?.displayName || 'Unknown provider'}</Typography>
+          </Box>
+          <Button component={Link} to={`/providers/${service.providerId}`}>
+            View Profile
+          </Button>
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Availability
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {service.availability.days.join(', ')}, {describeAvailability(service.availability, timeZone)}
+          {' · '}
+          {slotMinutes}-minute sessions
+          {bufferMinutes > 0 && ` with ${bufferMinutes} minutes between them`}
+        </Typography>
+        <Divider sx={{ my: 2 }} />
+        {service.isActive ? (
+          <SlotPicker
+            service={service}
+            value={null}
+            onChange={(slot) => slot && openRequestDialog(slot)}
+            disabled={!canRequest}
+          />
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No slots are offered
+          </Typography>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Reviews
+        </Typography>
+        <ServiceReviewList reviews={reviews} summary={summarizeRatings(reviews)} />
+      </Paper>
+
+      <Dialog
+        open={requestDialogOpen}
+        onClose={() => setRequestDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Request Service</DialogTitle>
+        <DialogContent>
+          {requestDialogOpen && (
+            <ServiceRequestForm
+              serviceId={service.id}
+              initialSlot={selectedSlot}
+              onRequestSubmitted={() => setRequestDialogOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default ServiceDetails;
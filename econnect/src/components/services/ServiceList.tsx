@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Container,
   Typography,
@@ -18,60 +18,42 @@ import {
   DialogTitle,
   DialogContent,
 } from '@mui/material';
-import { Search as SearchIcon } from '@mui/icons-material';
-import { collection, query, getDocs, where, orderBy } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { Link } from 'react-router-dom';
+import { Search as SearchIcon, Add as AddIcon } from '@mui/icons-material';
 import { useAuth } from '../../context/AuthContext';
+import usePermissions from '../../hooks/usePermissions';
+import useTimeZone from '../../hooks/useTimeZone';
+import { describeAvailability } from '../../services/timeZones';
+import {
+  useGetActiveServicesQuery,
+  useDeactivateServiceMutation,
+  servicesSelectors,
+} from '../../store/servicesApi';
+import Can from '../common/Can';
 import { Service } from '../../types';
 import ServiceRequestForm from './ServiceRequestForm';
 
 const ServiceList: React.FC = () => {
   const { userProfile } = useAuth();
-  const [services, setServices] = useState<Service[]>([]);
+  const timeZone = useTimeZone();
+  const { canManageService } = usePermissions();
   const [filteredServices, setFilteredServices] = useState<Service[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [categories, setCategories] = useState<string[]>([]);
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [requestDialogOpen, setRequestDialogOpen] = useState<boolean>(false);
 
-  useEffect(() => {
-    const fetchServices = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Query active services
-        const servicesQuery = query(
-          collection(firestore, 'services'),
-          where('isActive', '==', true),
-          orderBy('createdAt', 'desc')
-        );
-        const servicesSnapshot = await getDocs(servicesQuery);
-        const servicesData = servicesSnapshot.docs.map(
-          (doc) => ({ id: doc.id, ...doc.data() } as Service)
-        );
-
-        // Extract unique categories
-        const uniqueCategories = Array.from(
-          new Set(servicesData.map((service) => service.category))
-        );
+  // Active services, kept live as providers add or deactivate them
+  const { data, isLoading: loading, error: servicesError } = useGetActiveServicesQuery();
+  const [deactivateService] = useDeactivateServiceMutation();
+  const services = useMemo(() => (data ? servicesSelectors.selectAll(data) : []), [data]);
 
-        setServices(servicesData);
-        setFilteredServices(servicesData);
-        setCategories(uniqueCategories);
-        setLoading(false);
-      } catch (error) {
-        console.error('Error fetching services:', error);
-        setError('Failed to load services');
-        setLoading(false);
-      }
-    };
-
-    fetchServices();
-  }, []);
+  // Extract unique categories
+  const categories = useMemo(
+    () => Array.from(new Set(services.map((service) => service.category))),
+    [services]
+  );
 
   useEffect(() => {
     // Filter services based on search term and selected category
@@ -114,6 +96,15 @@ const ServiceList: React.FC = () => {
     setRequestDialogOpen(false);
   };
 
+  const handleDeactivateService = async (service: Service) => {
+    try {
+      await deactivateService(service.id).unwrap();
+    } catch (error) {
+      console.error('Error deactivating service:', error);
+      setError('Failed to deactivate service');
+    }
+  };
+
   if (loading) {
     return (
       <Box
@@ -129,19 +120,29 @@ const ServiceList: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (error || servicesError) {
     return (
       <Alert severity="error" sx={{ mb: 2 }}>
-        {error}
+        {error || 'Failed to load services'}
       </Alert>
     );
   }
 
   return (
     <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
-      <Typography variant="h4" gutterBottom>
-        Available Services
-      </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h4">Available Services</Typography>
+        <Can permission="services:create">
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            component={Link}
+            to="/services/create"
+          >
+            Offer a Service
+          </Button>
+        </Can>
+      </Box>
 
       {/* Search and Filter */}
       <Box sx={{ mb: 4 }}>
@@ -186,7 +187,14 @@ const ServiceList: React.FC = () => {
           {filteredServices.map((service) => (
             <Card key={service.id} sx={{ width: '100%', maxWidth: 345 }}>
               <CardContent>
-                <Typography variant="h6" gutterBottom>
+                <Typography
+                  variant="h6"
+                  gutterBottom
+                  component={Link}
+                  to={`/services/${service.id}`}
+                  color="inherit"
+                  sx={{ display: 'block', textDecoration: 'none' }}
+                >
                   {service.title}
                 </Typography>
                 <Chip
@@ -202,7 +210,8 @@ const ServiceList: React.FC = () => {
                   {service.price} {service.currency}
                 </Typography>
                 <Typography variant="body2" sx={{ mt: 1 }}>
-                  Available: {service.availability.days.join(', ')}, {service.availability.startTime} - {service.availability.endTime}
+                  Available: {service.availability.days.join(', ')},{' '}
+                  {describeAvailability(service.availability, timeZone)}
                 </Typography>
               </CardContent>
               <CardActions>
@@ -215,6 +224,18 @@ const ServiceList: React.FC = () => {
                 >
                   Request Service
                 </Button>
+                <Button size="small" component={Link} to={`/services/${service.id}`}>
+                  View Details
+                </Button>
+                <Can when={canManageService(service)}>
+                  <Button
+                    size="small"
+                    color="error"
+                    onClick={() => handleDeactivateService(service)}
+                  >
+                    Deactivate
+                  </Button>
+                </Can>
               </CardActions>
             </Card>
           ))}
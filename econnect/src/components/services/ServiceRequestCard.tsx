@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Box, Button, Card, CardActions, CardContent, Chip, Typography } from '@mui/material';
+import { VideoCall as VideoCallIcon, Star as StarIcon } from '@mui/icons-material';
+import useTimeZone from '../../hooks/useTimeZone';
+import { usersRepository } from '../../services/repository';
+import { getSessionWindow, isSessionRoomOpen, sessionTimes } from '../../services/serviceRequests';
+import { formatDateTimeInTimeZone, formatTimeRangeInTimeZone } from '../../services/timeZones';
+import { useGetServiceQuery } from '../../store/servicesApi';
+import { ServiceRequest, ServiceRequestStatus } from '../../types';
+
+interface ServiceRequestCardProps {
+  request: ServiceRequest;
+  role: 'provider' | 'requester';
+  now: Date;
+  onAction?: (request: ServiceRequest, status: Exclude<ServiceRequestStatus, 'pending'>) => void;
+  reviewed?: boolean;
+  onReview?: (request: ServiceRequest) => void; // requesters rate completed sessions
+}
+
+const STATUS_CHIPS: Record<
+  ServiceRequestStatus,
+  { label: string; color: 'default' | 'warning' | 'success' | 'error' | 'info' }
+> = {
+  pending: { label: 'Pending', color: 'warning' },
+  accepted: { label: 'Accepted', color: 'success' },
+  rejected: { label: 'Declined', color: 'error' },
+  completed: { label: 'Completed', color: 'info' },
+};
+
+// One request in an inbox: what was asked, by or of whom, when, and the
+// actions open to the viewer
+const ServiceRequestCard: React.FC<ServiceRequestCardProps> = ({
+  request,
+  role,
+  now,
+  onAction,
+  reviewed,
+  onReview,
+}) => {
+  const timeZone = useTimeZone();
+  const { data: service } = useGetServiceQuery(request.serviceId);
+  const [counterpartName, setCounterpartName] = useState<string | null>(null);
+
+  const counterpartId = role === 'provider' ? request.requesterId : request.providerId;
+  useEffect(() => {
+    const fetchCounterpart = async () => {
+      try {
+        const user = await usersRepository.get(counterpartId);
+        setCounterpartName(user?.displayName || null);
+      } catch (error) {
+        console.error('Error fetching request counterpart:', error);
+      }
+    };
+
+    fetchCounterpart();
+  }, [counterpartId]);
+
+  const times = sessionTimes(request, service?.availability.slotMinutes);
+  const sessionWindow = getSessionWindow(request);
+  const roomOpen = isSessionRoomOpen(request, now);
+  const statusChip = STATUS_CHIPS[request.status];
+
+  return (
+    <Card variant="outlined" sx={{ mb: 2 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 1 }}>
+          <Box>
+            <Typography
+              variant="h6"
+              component={Link}
+              to={`/services/${request.serviceId}`}
+              color="inherit"
+              sx={{ textDecoration: 'none' }}
+            >
+              {service?.title || 'Service'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {role === 'provider' ? 'Requested by' : 'Provided by'} {counterpartName || 'Unknown user'}
+            </Typography>
+          </Box>
+          <Chip label={statusChip.label} color={statusChip.color} size="small" />
+        </Box>
+
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          {times
+            ? formatTimeRangeInTimeZone(times.start, times.end, timeZone)
+            : `As soon as possible (requested ${formatDateTimeInTimeZone(request.requestedTime, timeZone)})`}
+        </Typography>
+
+        {request.message && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            "{request.message}"
+          </Typography>
+        )}
+        {request.responseMessage && (
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            <strong>{role === 'provider' ? 'Your reply' : 'Provider'}:</strong> {request.responseMessage}
+          </Typography>
+        )}
+        {request.status === 'accepted' && !roomOpen && sessionWindow && now < sessionWindow.opensAt && (
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+            The meeting room opens at {formatDateTimeInTimeZone(sessionWindow.opensAt, timeZone)}
+          </Typography>
+        )}
+      </CardContent>
+
+      {(request.status === 'pending' ||
+        request.status === 'accepted' ||
+        (onReview && request.status === 'completed')) && (
+        <CardActions>
+          {request.status === 'accepted' && (
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={<VideoCallIcon />}
+              component={Link}
+              to={`/services/requests/${request.id}/session`}
+              disabled={!roomOpen}
+            >
+              Join Session
+            </Button>
+          )}
+          {onAction && request.status === 'pending' && (
+            <>
+              <Button size="small" variant="contained" onClick={() => onAction(request, 'accepted')}>
+                Accept
+              </Button>
+              <Button size="small" color="error" onClick={() => onAction(request, 'rejected')}>
+                Decline
+              </Button>
+            </>
+          )}
+          {onReview && request.status === 'completed' && (
+            <Button
+              size="small"
+              startIcon={<StarIcon />}
+              onClick={() => onReview(request)}
+              disabled={reviewed}
+            >
+              {reviewed ? 'Reviewed' : 'Rate Session'}
+            </Button>
+          )}
+          {onAction && request.status === 'accepted' && (
+            <>
+              <Button
+                size="small"
+                onClick={() => onAction(request, 'completed')}
+                disabled={!!times && times.start > now}
+              >
+                Mark Completed
+              </Button>
+              <Button size="small" color="error" onClick={() => onAction(request, 'rejected')}>
+                Cancel Session
+              </Button>
+            </>
+          )}
+        </CardActions>
+      )}
+    </Card>
+  );
+};
+
+export default ServiceRequestCard;
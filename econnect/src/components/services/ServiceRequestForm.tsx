@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   Typography,
@@ -14,72 +14,61 @@ import {
   Snackbar,
   SelectChangeEvent,
 } from '@mui/material';
-import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
-import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
-import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
-import { doc, getDoc, addDoc, collection, serverTimestamp } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { skipToken } from '@reduxjs/toolkit/query';
 import { useAuth } from '../../context/AuthContext';
-import { Service, ServiceRequest } from '../../types';
+import useTimeZone from '../../hooks/useTimeZone';
+import { describeAvailability } from '../../services/timeZones';
+import { useGetServiceQuery } from '../../store/servicesApi';
+import {
+  useCreateServiceRequestMutation,
+  useBookServiceSlotMutation,
+  NewServiceRequest,
+} from '../../store/serviceRequestsApi';
+import { FirestoreApiError } from '../../store/api';
+import { BookingSlot } from '../../types';
+import SlotPicker from './SlotPicker';
 
 interface ServiceRequestFormProps {
   serviceId: string;
+  initialSlot?: BookingSlot | null; // preselects a scheduled request for this slot
   onRequestSubmitted?: () => void;
 }
 
 const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
   serviceId,
+  initialSlot = null,
   onRequestSubmitted,
 }) => {
   const { currentUser, userProfile } = useAuth();
-  const [service, setService] = useState<Service | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
+  const timeZone = useTimeZone();
   const [submitting, setSubmitting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<boolean>(false);
-  const [scheduledTime, setScheduledTime] = useState<Date | null>(null);
+  const [slot, setSlot] = useState<BookingSlot | null>(initialSlot);
   const [message, setMessage] = useState<string>('');
-  const [requestType, setRequestType] = useState<'now' | 'scheduled'>('now');
-
-  useEffect(() => {
-    const fetchService = async () => {
-      if (!serviceId) {
-        setError('Invalid service ID');
-        setLoading(false);
-        return;
-      }
-
-      try {
-        const serviceDoc = doc(firestore, 'services', serviceId);
-        const serviceSnapshot = await getDoc(serviceDoc);
-
-        if (!serviceSnapshot.exists()) {
-          setError('Service not found');
-          setLoading(false);
-          return;
-        }
-
-        const serviceData = serviceSnapshot.data() as Service;
-        setService(serviceData);
-        setLoading(false);
-      } catch (error) {
-        console.error('Error fetching service:', error);
-        setError('Failed to load service details');
-        setLoading(false);
-      }
-    };
+  const [requestType, setRequestType] = useState<'now' | 'scheduled'>(
+    initialSlot ? 'scheduled' : 'now'
+  );
 
-    fetchService();
-  }, [serviceId]);
+  const {
+    data: service,
+    isLoading: loading,
+    error: loadError,
+  } = useGetServiceQuery(serviceId || skipToken);
+  const [createServiceRequest] = useCreateServiceRequestMutation();
+  const [bookServiceSlot] = useBookServiceSlotMutation();
+  const serviceError = !serviceId
+    ? 'Invalid service ID'
+    : loadError
+      ? 'Failed to load service details'
+      : service === null
+        ? 'Service not found'
+        : null;
 
   const handleRequestTypeChange = (event: SelectChangeEvent) => {
     setRequestType(event.target.value as 'now' | 'scheduled');
   };
 
-  const handleDateTimeChange = (newValue: Date | null) => {
-    setScheduledTime(newValue);
-  };
-
   const handleMessageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setMessage(event.target.value);
   };
@@ -92,8 +81,8 @@ const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
       return;
     }
 
-    if (requestType === 'scheduled' && !scheduledTime) {
-      setError('Please select a scheduled time');
+    if (requestType === 'scheduled' && !slot) {
+      setError('Please pick a time slot');
       return;
     }
 
@@ -101,27 +90,32 @@ const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
       setSubmitting(true);
       setError(null);
 
-      // Create service request
-      const serviceRequest: Partial<ServiceRequest> = {
-        serviceId,
-        requesterId: currentUser.uid,
-        providerId: service.providerId,
-        status: 'pending',
-        requestedTime: new Date(),
-        scheduledTime: requestType === 'scheduled' ? scheduledTime || undefined : undefined,
-        message: message || undefined,
-        createdAt: serverTimestamp() as any,
-        updatedAt: serverTimestamp() as any,
-      };
-
-      await addDoc(collection(firestore, 'serviceRequests'), serviceRequest);
+      if (requestType === 'scheduled' && slot) {
+        // Claims the slot along with the request
+        await bookServiceSlot({
+          service,
+          slot,
+          ...(message ? { message } : {}),
+        }).unwrap();
+      } else {
+        // Create service request
+        const serviceRequest: NewServiceRequest = {
+          serviceId,
+          requesterId: currentUser.uid,
+          providerId: service.providerId,
+          requestedTime: new Date(),
+          ...(message ? { message } : {}),
+        };
+
+        await createServiceRequest(serviceRequest).unwrap();
+      }
 
       setSubmitting(false);
       setSuccess(true);
       
       // Reset form
       setMessage('');
-      setScheduledTime(null);
+      setSlot(null);
       setRequestType('now');
       
       if (onRequestSubmitted) {
@@ -129,7 +123,12 @@ const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
       }
     } catch (error) {
       console.error('Error submitting service request:', error);
-      setError('Failed to submit service request');
+      setError(
+        (error as FirestoreApiError)?.code === 'SlotUnavailableError'
+          ? 'That slot was just taken. Please pick another one.'
+          : 'Failed to submit service request'
+      );
+      setSlot(null);
       setSubmitting(false);
     }
   };
@@ -146,10 +145,10 @@ const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
     );
   }
 
-  if (error && !service) {
+  if (serviceError) {
     return (
       <Alert severity="error" sx={{ mb: 2 }}>
-        {error}
+        {serviceError}
       </Alert>
     );
   }
@@ -169,6 +168,10 @@ const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
           <Typography variant="body2" sx={{ mt: 1 }}>
             Price: {service.price} {service.currency}
           </Typography>
+          <Typography variant="body2">
+            Available: {service.availability.days.join(', ')},{' '}
+            {describeAvailability(service.availability, timeZone)}
+          </Typography>
         </Box>
       )}
 
@@ -187,16 +190,8 @@ const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
           </Select>
         </FormControl>
 
-        {requestType === 'scheduled' && (
-          <LocalizationProvider dateAdapter={AdapterDateFns}>
-            <DateTimePicker
-              label="Scheduled Time"
-              value={scheduledTime}
-              onChange={handleDateTimeChange}
-              sx={{ mb: 2, width: '100%' }}
-              disablePast
-            />
-          </LocalizationProvider>
+        {requestType === 'scheduled' && service && (
+          <SlotPicker service={service} value={slot} onChange={setSlot} disabled={submitting} />
         )}
 
         <TextField
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Tabs,
+  Tab,
+  Button,
+  CircularProgress,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { skipToken } from '@reduxjs/toolkit/query';
+import { useAuth } from '../../context/AuthContext';
+import usePermissions from '../../hooks/usePermissions';
+import { groupServiceRequests } from '../../services/serviceRequests';
+import {
+  useGetServiceRequestsQuery,
+  useUpdateServiceRequestStatusMutation,
+  serviceRequestsSelectors,
+} from '../../store/serviceRequestsApi';
+import { useGetServiceReviewsQuery, useSubmitServiceReviewMutation } from '../../store/servicesApi';
+import { ServiceRequest, ServiceRequestStatus } from '../../types';
+import ServiceRequestCard from './ServiceRequestCard';
+import ServiceRequestStatusDialog from './ServiceRequestStatusDialog';
+import ServiceReviewDialog from './ServiceReviewDialog';
+
+type Role = 'provider' | 'requester';
+type Section = 'pending' | 'upcoming' | 'history';
+
+const SECTIONS: { key: Section; label: string; empty: string }[] = [
+  { key: 'pending', label: 'Pending', empty: 'No requests awaiting a decision' },
+  { key: 'upcoming', label: 'Upcoming', empty: 'No accepted sessions' },
+  { key: 'history', label: 'History', empty: 'No past requests' },
+];
+
+// Re-check every half minute whether session rooms have opened
+const CLOCK_INTERVAL_MS = 30 * 1000;
+
+// Requests a provider has received or a user has sent, split into pending,
+// upcoming and past ones. Providers accept, decline and complete from here;
+// requesters rate completed sessions.
+const ServiceRequestInbox: React.FC = () => {
+  const { userProfile } = useAuth();
+  const { can } = usePermissions();
+  const isProvider = can('services:create');
+  const [role, setRole] = useState<Role>(isProvider ? 'provider' : 'requester');
+  const [section, setSection] = useState<Section>('pending');
+  const [action, setAction] = useState<{
+    request: ServiceRequest;
+    status: Exclude<ServiceRequestStatus, 'pending'>;
+  } | null>(null);
+  const [reviewing, setReviewing] = useState<ServiceRequest | null>(null);
+  const [now, setNow] = useState<Date>(new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data, isLoading, error } = useGetServiceRequestsQuery(
+    userProfile ? { role, userId: userProfile.id } : skipToken
+  );
+  const { data: myReviews } = useGetServiceReviewsQuery(
+    userProfile && role === 'requester' ? { field: 'reviewerId', id: userProfile.id } : skipToken
+  );
+  const [updateStatus] = useUpdateServiceRequestStatusMutation();
+  const [submitReview] = useSubmitServiceReviewMutation();
+  const grouped = useMemo(
+    () => groupServiceRequests(data ? serviceRequestsSelectors.selectAll(data) : []),
+    [data]
+  );
+
+  const handleConfirm = async (status: Exclude<ServiceRequestStatus, 'pending'>, message: string) => {
+    if (!action) return;
+    await updateStatus({ requestId: action.request.id, status, responseMessage: message }).unwrap();
+  };
+
+  const handleReview = async (rating: number, comment: string) => {
+    if (!reviewing) return;
+    await submitReview({ request: reviewing, rating, comment }).unwrap();
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Service Requests</Typography>
+        <Button variant="outlined" component={Link} to="/services">
+          Browse Services
+        </Button>
+      </Box>
+
+      {isProvider && (
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={role}
+          onChange={(_, value: Role | null) => value && setRole(value)}
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="provider">Received</ToggleButton>
+          <ToggleButton value="requester">Sent</ToggleButton>
+        </ToggleButtonGroup>
+      )}
+
+      <Paper sx={{ width: '100%' }}>
+        <Tabs
+          value={section}
+          onChange={(_, value: Section) => setSection(value)}
+          indicatorColor="primary"
+          textColor="primary"
+          variant="fullWidth"
+        >
+          {SECTIONS.map(({ key, label }) => (
+            <Tab key={key} value={key} label={`${label} (${grouped[key].length})`} />
+          ))}
+        </Tabs>
+
+        <Box sx={{ p: 3 }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+              <CircularProgress />
+            </Box>
+          ) : error ? (
+            <Alert severity="error">Failed to load service requests</Alert>
+          ) : grouped[section].length === 0 ? (
+            <Typography variant="body1" color="text.secondary" align="center">
+              {SECTIONS.find(({ key }) => key === section)?.empty}
+            </Typography>
+          ) : (
+            grouped[section].map((request) => (
+              <ServiceRequestCard
+                key={request.id}
+                request={request}
+                role={role}
+                now={now}
+                onAction={
+                  role === 'provider' ? (request, status) => setAction({ request, status }) : undefined
+                }
+                reviewed={!!myReviews?.entities[request.id]}
+                onReview={role === 'requester' ? setReviewing : undefined}
+              />
+            ))
+          )}
+        </Box>
+      </Paper>
+
+      <ServiceRequestStatusDialog
+        status={action?.status || null}
+        isAccepted={action?.request.status === 'accepted'}
+        onClose={() => setAction(null)}
+        onConfirm={handleConfirm}
+      />
+      <ServiceReviewDialog
+        open={!!reviewing}
+        onClose={() => setReviewing(null)}
+        onSubmit={handleReview}
+      />
+    </Container>
+  );
+};
+
+export default ServiceRequestInbox;
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { ServiceRequestStatus } from '../../types';
+
+type ActionStatus = Exclude<ServiceRequestStatus, 'pending'>;
+
+interface ServiceRequestStatusDialogProps {
+  status: ActionStatus | null; // the dialog is open while set
+  isAccepted: boolean; // rejecting an accepted request cancels the session
+  onClose: () => void;
+  onConfirm: (status: ActionStatus, message: string) => Promise<void>;
+}
+
+const ACTIONS: Record<ActionStatus, { title: string; text: string; confirm: string }> = {
+  accepted: {
+    title: 'Accept request?',
+    text: 'The requester is notified and a meeting room is set up for the session.',
+    confirm: 'Accept',
+  },
+  rejected: {
+    title: 'Decline request?',
+    text: 'The requester is notified and the time slot becomes free again.',
+    confirm: 'Decline',
+  },
+  completed: {
+    title: 'Mark as completed?',
+    text: 'The session moves to your history and its room closes.',
+    confirm: 'Complete',
+  },
+};
+
+// Confirm a provider's decision on a request, with an optional message for
+// the requester
+const ServiceRequestStatusDialog: React.FC<ServiceRequestStatusDialogProps> = ({
+  status,
+  isAccepted,
+  onClose,
+  onConfirm,
+}) => {
+  const [message, setMessage] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!status) return;
+    setMessage('');
+    setError(null);
+  }, [status]);
+
+  if (!status) return null;
+
+  const action =
+    status === 'rejected' && isAccepted
+      ? {
+          title: 'Cancel session?',
+          text: 'The requester is notified and the time slot becomes free again.',
+          confirm: 'Cancel Session',
+        }
+      : ACTIONS[status];
+
+  const handleConfirm = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onConfirm(status, message);
+      onClose();
+    } catch (error: any) {
+      setError(error?.message || 'Failed to update the request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{action.title}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <DialogContentText>{action.text}</DialogContentText>
+        <TextField
+          margin="normal"
+          fullWidth
+          label="Message (Optional)"
+          multiline
+          rows={2}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          disabled={saving}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Back
+        </Button>
+        <Button
+          variant="contained"
+          color={status === 'rejected' ? 'error' : 'primary'}
+          onClick={handleConfirm}
+          disabled={saving}
+        >
+          {saving ? <CircularProgress size={24} /> : action.confirm}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ServiceRequestStatusDialog;
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  Rating,
+  Box,
+} from '@mui/material';
+import { MAX_COMMENT_LENGTH } from '../../services/reviews';
+
+interface ServiceReviewDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (rating: number, comment: string) => Promise<void>;
+}
+
+// Rate a completed session; reviews are public and can't be edited
+const ServiceReviewDialog: React.FC<ServiceReviewDialogProps> = ({ open, onClose, onSubmit }) => {
+  const [rating, setRating] = useState<number | null>(null);
+  const [comment, setComment] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setRating(null);
+    setComment('');
+    setError(null);
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!rating) {
+      setError('Please choose a rating');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit(rating, comment);
+      onClose();
+    } catch (error: any) {
+      setError(error?.message || 'Failed to submit your review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Rate this session</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <DialogContentText>
+          Your review is shown on the service and the provider's profile. It can't be changed later.
+        </DialogContentText>
+        <Box sx={{ my: 2 }}>
+          <Rating
+            size="large"
+            value={rating}
+            onChange={(_, value) => setRating(value)}
+            disabled={saving}
+          />
+        </Box>
+        <TextField
+          fullWidth
+          label="Comment (Optional)"
+          multiline
+          rows={3}
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          inputProps={{ maxLength: MAX_COMMENT_LENGTH }}
+          disabled={saving}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={saving}>
+          {saving ? <CircularProgress size={24} /> : 'Submit Review'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ServiceReviewDialog;
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Divider, List, ListItem, ListItemText, Rating, Typography } from '@mui/material';
+import useTimeZone from '../../hooks/useTimeZone';
+import { usersRepository } from '../../services/repository';
+import { formatDateInTimeZone } from '../../services/timeZones';
+import { RatingSummary, ServiceReview, User } from '../../types';
+
+interface ServiceReviewListProps {
+  reviews: ServiceReview[];
+  summary: RatingSummary;
+  serviceTitles?: Record<string, string>; // shown per review when set, e.g. on a provider's profile
+}
+
+// Average rating and the reviews behind it, newest first
+const ServiceReviewList: React.FC<ServiceReviewListProps> = ({ reviews, summary, serviceTitles }) => {
+  const timeZone = useTimeZone();
+  const [reviewers, setReviewers] = useState<Record<string, User>>({});
+
+  const reviewerIds = Array.from(new Set(reviews.map((review) => review.reviewerId))).join(',');
+  useEffect(() => {
+    const fetchReviewers = async () => {
+      try {
+        const users = await Promise.all(
+          reviewerIds
+            .split(',')
+            .filter(Boolean)
+            .map((userId) => usersRepository.get(userId))
+        );
+        setReviewers(
+          users.reduce<Record<string, User>>((result, user) => {
+            if (user) result[user.id] = user;
+            return result;
+          }, {})
+        );
+      } catch (error) {
+        console.error('Error fetching reviewers:', error);
+      }
+    };
+
+    fetchReviewers();
+  }, [reviewerIds]);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Rating value={summary.average} precision={0.1} readOnly />
+        <Typography variant="body2" color="text.secondary">
+          {summary.average !== null
+            ? `${summary.average.toFixed(1)} (${summary.count} ${summary.count === 1 ? 'review' : 'reviews'})`
+            : 'No reviews yet'}
+        </Typography>
+      </Box>
+
+      {reviews.length > 0 && (
+        <List>
+          {reviews.map((review) => (
+            <React.Fragment key={review.id}>
+              <ListItem alignItems="flex-start" disableGutters>
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      <Rating value={review.rating} size="small" readOnly />
+                      <Typography variant="body2">
+                        {reviewers[review.reviewerId]?.displayName || 'Anonymous'}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {formatDateInTimeZone(review.createdAt, timeZone)}
+                        {serviceTitles?.[review.serviceId] && ` · ${serviceTitles[review.serviceId]}`}
+                      </Typography>
+                    </Box>
+                  }
+                  secondary={review.comment}
+                />
+              </ListItem>
+              <Divider component="li" />
+            </React.Fragment>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default ServiceReviewList;
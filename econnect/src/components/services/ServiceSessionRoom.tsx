@@ -0,0 +1,91 @@
+import React from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Box, Container, Paper, CircularProgress, Alert, Button } from '@mui/material';
+import { skipToken } from '@reduxjs/toolkit/query';
+import { useAuth } from '../../context/AuthContext';
+import useTimeZone from '../../hooks/useTimeZone';
+import { getSessionWindow, isSessionRoomOpen } from '../../services/serviceRequests';
+import { formatDateTimeInTimeZone } from '../../services/timeZones';
+import { useGetServiceRequestQuery } from '../../store/serviceRequestsApi';
+import JitsiContainer from '../meetings/JitsiContainer';
+
+// The Jitsi room of an accepted service request, for its provider (who
+// moderates) and requester
+const ServiceSessionRoom: React.FC = () => {
+  const { requestId } = useParams<{ requestId: string }>();
+  const navigate = useNavigate();
+  const { currentUser } = useAuth();
+  const timeZone = useTimeZone();
+  const { data: request, isLoading, error } = useGetServiceRequestQuery(requestId ?? skipToken);
+
+  const backToInbox = (
+    <Button variant="contained" onClick={() => navigate('/services/requests')}>
+      Back to Requests
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (error || !request || !currentUser) {
+    return (
+      <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Failed to load this session
+        </Alert>
+        {backToInbox}
+      </Container>
+    );
+  }
+
+  const sessionWindow = getSessionWindow(request);
+  if (!isSessionRoomOpen(request)) {
+    const reason =
+      request.status !== 'accepted'
+        ? 'This session is no longer open.'
+        : !request.jitsiRoomName
+          ? 'The meeting room is still being set up. Try again in a moment.'
+          : sessionWindow && new Date() < sessionWindow.opensAt
+            ? `The meeting room opens at ${formatDateTimeInTimeZone(sessionWindow.opensAt, timeZone)}.`
+            : 'This session has ended.';
+    return (
+      <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {reason}
+        </Alert>
+        {backToInbox}
+      </Container>
+    );
+  }
+
+  const isProvider = request.providerId === currentUser.uid;
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Paper
+        sx={{
+          p: 0,
+          display: 'flex',
+          flexDirection: 'column',
+          height: 'calc(100vh - 120px)',
+          overflow: 'hidden',
+        }}
+      >
+        <JitsiContainer
+          roomName={request.jitsiRoomName!}
+          isHost={isProvider}
+          onMeetingEnd={() => navigate('/services/requests')}
+        />
+      </Paper>
+    </Container>
+  );
+};
+
+export default ServiceSessionRoom;
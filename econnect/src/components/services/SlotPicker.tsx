@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Box, Chip, CircularProgress, IconButton, Typography } from '@mui/material';
+import { ChevronLeft as ChevronLeftIcon, ChevronRight as ChevronRightIcon } from '@mui/icons-material';
+import { addDays } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import useTimeZone from '../../hooks/useTimeZone';
+import { generateSlots, overlapsBooking } from '../../services/bookings';
+import { formatInTimeZone, fromZonedTime } from '../../services/timeZones';
+import { bookingsSelectors, useGetProviderBookingsQuery } from '../../store/servicesApi';
+import { BookingSlot, Service } from '../../types';
+
+// How far ahead requesters can book
+const MAX_WEEKS_AHEAD = 8;
+
+interface SlotPickerProps {
+  service: Service;
+  value: BookingSlot | null;
+  onChange: (slot: BookingSlot | null) => void;
+  disabled?: boolean;
+}
+
+// A week of the service's free slots at a time, grouped by day in the
+// requester's zone. A selected slot that someone else books is cleared.
+const SlotPicker: React.FC<SlotPickerProps> = ({ service, value, onChange, disabled }) => {
+  const timeZone = useTimeZone();
+  const [week, setWeek] = useState<number>(0);
+
+  // Midnight today in the requester's zone; changes once a day
+  const todayKey = formatInTimeZone(new Date(), timeZone, 'yyyy-MM-dd');
+  const today = useMemo(() => {
+    const [year, month, day] = todayKey.split('-').map(Number);
+    return new TZDate(year, month - 1, day, timeZone);
+  }, [todayKey, timeZone]);
+  const from = fromZonedTime(today, timeZone).getTime();
+
+  // The provider's bookings on any of their services block a slot
+  const { data, isLoading } = useGetProviderBookingsQuery({ providerId: service.providerId, from });
+  const bookings = useMemo(() => (data ? bookingsSelectors.selectAll(data) : []), [data]);
+
+  const days = useMemo(() => {
+    const weekStart = fromZonedTime(addDays(today, week * 7), timeZone);
+    const weekEnd = fromZonedTime(addDays(today, week * 7 + 7), timeZone);
+    const now = new Date();
+    const slots = generateSlots(service, now > weekStart ? now : weekStart, weekEnd, bookings);
+
+    const byDay = new Map<string, BookingSlot[]>();
+    slots.forEach((slot) => {
+      const day = formatInTimeZone(slot.startTime, timeZone, 'EEE, MMM d');
+      byDay.set(day, [...(byDay.get(day) || []), slot]);
+    });
+    return Array.from(byDay.entries());
+  }, [service, bookings, today, week, timeZone]);
+
+  // Drop the selection once its slot is booked by someone else
+  useEffect(() => {
+    if (value && bookings.some((booking) => overlapsBooking(value, booking, 0))) {
+      onChange(null);
+    }
+  }, [value, bookings, onChange]);
+
+  const rangeLabel = `${formatInTimeZone(
+    fromZonedTime(addDays(today, week * 7), timeZone),
+    timeZone,
+    'MMM d'
+  )} - ${formatInTimeZone(fromZonedTime(addDays(today, week * 7 + 6), timeZone), timeZone, 'MMM d')}`;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <IconButton
+          aria-label="Previous week"
+          onClick={() => setWeek(week - 1)}
+          disabled={disabled || week === 0}
+        >
+          <ChevronLeftIcon />
+        </IconButton>
+        <Typography variant="subtitle2">{rangeLabel}</Typography>
+        <IconButton
+          aria-label="Next week"
+          onClick={() => setWeek(week + 1)}
+          disabled={disabled || week >= MAX_WEEKS_AHEAD - 1}
+        >
+          <ChevronRightIcon />
+        </IconButton>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : days.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+          No free slots this week
+        </Typography>
+      ) : (
+        days.map(([day, slots]) => (
+          <Box key={day} sx={{ mb: 1.5 }}>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {day}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              {slots.map((slot) => {
+                const selected = value?.id === slot.id;
+                return (
+                  <Chip
+                    key={slot.id}
+                    label={formatInTimeZone(slot.startTime, timeZone, 'h:mm a')}
+                    color={selected ? 'primary' : 'default'}
+                    variant={selected ? 'filled' : 'outlined'}
+                    onClick={() => onChange(selected ? null : slot)}
+                    disabled={disabled}
+                  />
+                );
+              })}
+            </Box>
+          </Box>
+        ))
+      )}
+
+      <Typography variant="caption" color="text.secondary">
+        Times are in {timeZone}
+      </Typography>
+    </Box>
+  );
+};
+
+export default SlotPicker;
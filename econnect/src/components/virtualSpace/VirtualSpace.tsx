@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Timestamp } from 'firebase/firestore';
 import {
   Container,
   Box,
@@ -11,84 +10,35 @@ import {
   Alert,
 } from '@mui/material';
 import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
-import { doc, getDoc } from 'firebase/firestore';
-import { firestore } from '../../services/firebase';
+import { skipToken } from '@reduxjs/toolkit/query';
 import { useAuth } from '../../context/AuthContext';
+import { useGetEventQuery } from '../../store/eventsApi';
+import { canManageEvent } from '../../services/permissions';
 import VirtualTables from './VirtualTables';
 import JitsiContainer from '../meetings/JitsiContainer';
-import { Event } from '../../types';
-
-// Helper function to convert Firestore timestamp to JavaScript Date
-const convertTimestamp = (timestamp: any): Date | undefined => {
-  if (!timestamp) return undefined;
-  if (timestamp?.toDate && typeof timestamp.toDate === 'function') {
-    return timestamp.toDate();
-  }
-  if (timestamp instanceof Date) return timestamp;
-  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-    const date = new Date(timestamp);
-    return isNaN(date.getTime()) ? undefined : date;
-  }
-  return undefined;
-};
 
 const VirtualSpace: React.FC = () => {
   const { eventId } = useParams<{ eventId: string }>();
   const navigate = useNavigate();
   const { userProfile } = useAuth();
-  const [event, setEvent] = useState<Event | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
   const [isBroadcasting, setIsBroadcasting] = useState<boolean>(false);
-  const [isHost, setIsHost] = useState<boolean>(false);
   
   console.log("We get to this compoennt")
 
-  useEffect(() => {
-    const fetchEventDetails = async () => {
-      if (!eventId || !userProfile) {
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Fetch event details
-        const eventDoc = doc(firestore, 'events', eventId);
-        const eventSnapshot = await getDoc(eventDoc);
-
-        if (!eventSnapshot.exists()) {
-          setError('Event not found');
-          setLoading(false);
-          return;
-        }
-
-        const data = eventSnapshot.data();
-        // Convert Firestore timestamps to JavaScript Date objects
-        const eventData = {
-          ...data,
-          startTime: convertTimestamp(data.startTime) || new Date(),
-          endTime: convertTimestamp(data.endTime) || new Date(),
-          createdAt: convertTimestamp(data.createdAt) || new Date(),
-          updatedAt: convertTimestamp(data.updatedAt) || new Date()
-        } as Event;
-        setEvent(eventData);
-        
-        // Check if user is the host
-        setIsHost(eventData.createdBy === userProfile.id);
-
-        setLoading(false);
-      } catch (error) {
-        console.error('Error fetching event details:', error);
-        setError('Failed to load event details');
-        setLoading(false);
-      }
-    };
-
-    fetchEventDetails();
-  }, [eventId, userProfile]);
+  const {
+    data: event,
+    isLoading: loading,
+    error: loadError,
+  } = useGetEventQuery(eventId && userProfile ? eventId : skipToken);
+
+  // Hosts and admins run the space
+  const isHost = !!event && !!userProfile && canManageEvent(userProfile, event);
+  const isModerator = isHost || (!!event && !!userProfile && event.coHosts.includes(userProfile.id));
+  const error = loadError
+    ? 'Failed to load event details'
+    : event === null
+      ? 'Event not found'
+      : null;
 
   const handleBroadcastStart = () => {
     setIsBroadcasting(true);
@@ -189,6 +139,7 @@ const VirtualSpace: React.FC = () => {
               <JitsiContainer
                 roomName={`${eventId}-broadcast`}
                 isHost={isHost}
+                isModerator={isModerator}
               />
             </Box>
           </Box>
@@ -1,5 +1,4 @@
-import React, { useState, useEffect } from "react";
-import { Timestamp } from "firebase/firestore";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   Box,
   Paper,
@@ -17,35 +16,21 @@ import {
 } from "@mui/material";
 import {
   collection,
-  query,
   where,
-  getDocs,
   doc,
-  getDoc,
+  addDoc,
   updateDoc,
-  arrayUnion,
   arrayRemove,
   serverTimestamp,
 } from "firebase/firestore";
 import { firestore } from "../../services/firebase";
 import { useAuth } from "../../context/AuthContext";
+import { useCollection } from "../../hooks/useFirestore";
+import { usersRepository, virtualTablesRepository } from "../../services/repository";
+import { joinTable, TableFullError } from "../../services/virtualTables";
 import { VirtualTable, User } from "../../types";
 import JitsiContainer from "../meetings/JitsiContainer";
 
-// Helper function to convert Firestore timestamp to JavaScript Date
-const convertTimestamp = (timestamp: any): Date | undefined => {
-  if (!timestamp) return undefined;
-  if (timestamp?.toDate && typeof timestamp.toDate === 'function') {
-    return timestamp.toDate();
-  }
-  if (timestamp instanceof Date) return timestamp;
-  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-    const date = new Date(timestamp);
-    return isNaN(date.getTime()) ? undefined : date;
-  }
-  return undefined;
-};
-
 interface VirtualTablesProps {
   eventId: string;
   isHost?: boolean;
@@ -57,13 +42,11 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
   isHost = false,
   onBroadcastStart,
 }) => {
-  const { currentUser, userProfile } = useAuth();
-  const [tables, setTables] = useState<VirtualTable[]>([]);
+  const { currentUser } = useAuth();
   const [users, setUsers] = useState<Record<string, User>>({});
-  const [loading, setLoading] = useState<boolean>(true);
+  const fetchedUserIdsRef = useRef<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
   const [selectedTable, setSelectedTable] = useState<VirtualTable | null>(null);
-  const [joinedTable, setJoinedTable] = useState<VirtualTable | null>(null);
   const [showJitsi, setShowJitsi] = useState<boolean>(false);
 
   // State for create table dialog
@@ -72,76 +55,49 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
   const [newTableCapacity, setNewTableCapacity] = useState<number>(6);
   const [creatingTable, setCreatingTable] = useState<boolean>(false);
 
-  // Fetch tables for the event
-  useEffect(() => {
-    const fetchTables = async () => {
-      if (!eventId) {
-        setError("Invalid event ID");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        const tablesQuery = query(
-          collection(firestore, "virtualTables"),
-          where("eventId", "==", eventId)
-        );
-        const tablesSnapshot = await getDocs(tablesQuery);
-        const tablesData = tablesSnapshot.docs.map((doc) => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            ...data,
-            createdAt: convertTimestamp(data.createdAt) || new Date(),
-            updatedAt: convertTimestamp(data.updatedAt) || new Date()
-          } as VirtualTable;
-        });
-        setTables(tablesData);
+  // Subscribe to the event's tables so joins and new tables show up live
+  const tablesQuery = useMemo(
+    () =>
+      eventId ? virtualTablesRepository.query(where("eventId", "==", eventId)) : null,
+    [eventId]
+  );
+  const { data: tables, loading, error: tablesError } = useCollection(tablesQuery);
 
-        // Fetch user data for all participants
-        const userIdsSet = new Set<string>();
-        tablesData.forEach((table) => {
-          table.participants.forEach((userId) => userIdsSet.add(userId));
-        });
+  // The table the current user is sitting at, if any
+  const joinedTable = currentUser
+    ? tables.find((table) => table.participants.includes(currentUser.uid)) || null
+    : null;
 
-        // Convert Set to Array for iteration
-        const userIds = Array.from(userIdsSet);
+  // Fetch profiles for participants we haven't seen yet
+  const participantIds = Array.from(
+    new Set(tables.flatMap((table) => table.participants))
+  ).sort().join(",");
+  useEffect(() => {
+    const fetchUsers = async () => {
+      const missingIds = participantIds
+        .split(",")
+        .filter((userId) => userId && !fetchedUserIdsRef.current.has(userId));
+      if (missingIds.length === 0) return;
+      missingIds.forEach((userId) => fetchedUserIdsRef.current.add(userId));
 
+      try {
         const usersData: Record<string, User> = {};
-        for (let i = 0; i < userIds.length; i++) {
-          const userId = userIds[i];
-          const userDoc = await getDoc(doc(firestore, "users", userId));
-          if (userDoc.exists()) {
-            const userData = userDoc.data();
-            usersData[userId] = {
-              ...userData,
-              createdAt: convertTimestamp(userData.createdAt) || new Date(),
-              updatedAt: convertTimestamp(userData.updatedAt) || new Date()
-            } as User;
-          }
-        }
-        setUsers(usersData);
-
-        // Check if user is already at a table
-        if (currentUser) {
-          const joinedTableData = tablesData.find((table) =>
-            table.participants.includes(currentUser.uid)
-          );
-          if (joinedTableData) {
-            setJoinedTable(joinedTableData);
-          }
-        }
-
-        setLoading(false);
+        await Promise.all(
+          missingIds.map(async (userId) => {
+            const user = await usersRepository.get(userId);
+            if (user) {
+              usersData[userId] = user;
+            }
+          })
+        );
+        setUsers((prev) => ({ ...prev, ...usersData }));
       } catch (error) {
-        console.error("Error fetching tables:", error);
-        setError("Failed to load virtual tables");
-        setLoading(false);
+        console.error("Error fetching table participants:", error);
       }
     };
 
-    fetchTables();
-  }, [eventId, currentUser]);
+    fetchUsers();
+  }, [participantIds]);
 
   // Handle table selection
   const handleTableSelect = (table: VirtualTable) => {
@@ -153,35 +109,14 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
     if (!selectedTable || !currentUser) return;
 
     try {
-      // Check if the table is full
-      if (
-        selectedTable.capacity &&
-        selectedTable.participants.length >= selectedTable.capacity
-      ) {
-        setError("This table is full");
-        return;
-      }
-
-      // Leave current table if already at one
-      if (joinedTable) {
-        await updateDoc(doc(firestore, "virtualTables", joinedTable.id), {
-          participants: arrayRemove(currentUser.uid),
-          updatedAt: serverTimestamp(),
-        });
-      }
-
-      // Join new table
-      await updateDoc(doc(firestore, "virtualTables", selectedTable.id), {
-        participants: arrayUnion(currentUser.uid),
-        updatedAt: serverTimestamp(),
-      });
+      // Moves the user from their current table, if any, in one transaction
+      await joinTable(selectedTable.id, currentUser.uid, joinedTable ? joinedTable.id : null);
 
-      setJoinedTable(selectedTable);
       setSelectedTable(null);
       setShowJitsi(true);
     } catch (error) {
       console.error("Error joining table:", error);
-      setError("Failed to join table");
+      setError(error instanceof TableFullError ? "This table is full" : "Failed to join table");
     }
   };
 
@@ -195,7 +130,6 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
         updatedAt: serverTimestamp(),
       });
 
-      setJoinedTable(null);
       setShowJitsi(false);
     } catch (error) {
       console.error("Error leaving table:", error);
@@ -225,10 +159,10 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
     );
   }
 
-  if (error) {
+  if (!eventId || error || tablesError) {
     return (
       <Alert severity="error" sx={{ mb: 2 }}>
-        {error}
+        {!eventId ? "Invalid event ID" : error || "Failed to load virtual tables"}
       </Alert>
     );
   }
@@ -250,7 +184,7 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
         >
           <Typography variant="h6">Table: {joinedTable.name}</Typography>
           <Box>
-            {userProfile?.role === "admin" && (
+            {isHost && onBroadcastStart && (
               <Button
                 variant="contained"
                 color="primary"
@@ -296,7 +230,7 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
               Create Table
             </Button>
           )}
-          {userProfile?.role === "admin" && (
+          {isHost && onBroadcastStart && (
             <Button
               variant="contained"
               color="primary"
@@ -448,31 +382,11 @@ const VirtualTables: React.FC<VirtualTablesProps> = ({
                   createdAt: new Date(),
                   updatedAt: new Date(),
                 };
-                await import("firebase/firestore").then(async ({ addDoc, collection }) => {
-                  await addDoc(collection(firestore, "virtualTables"), newTable);
-                });
+                await addDoc(collection(firestore, "virtualTables"), newTable);
                 setNewTableName('');
                 setNewTableCapacity(6);
                 setCreateDialogOpen(false);
                 setCreatingTable(false);
-                setLoading(true); // trigger reload
-                // Refetch tables
-                const tablesQuery = query(
-                  collection(firestore, "virtualTables"),
-                  where("eventId", "==", eventId)
-                );
-                const tablesSnapshot = await getDocs(tablesQuery);
-                const tablesData = tablesSnapshot.docs.map((doc) => {
-                  const data = doc.data();
-                  return {
-                    id: doc.id,
-                    ...data,
-                    createdAt: convertTimestamp(data.createdAt) || new Date(),
-                    updatedAt: convertTimestamp(data.updatedAt) || new Date()
-                  } as VirtualTable;
-                });
-                setTables(tablesData);
-                setLoading(false);
               } catch (err) {
                 setCreatingTable(false);
                 setError("Failed to create table");
@@ -1,5 +1,4 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Timestamp } from 'firebase/firestore';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import {
   User as FirebaseUser,
   signInWithEmailAndPassword,
@@ -9,8 +8,10 @@ import {
   sendPasswordResetEmail,
   updateProfile,
 } from 'firebase/auth';
-import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { auth, firestore } from '../services/firebase';
+import { usersRepository } from '../services/repository';
+import { getLocalTimeZone } from '../services/timeZones';
 import { User } from '../types';
 
 interface AuthContextType {
@@ -21,7 +22,7 @@ interface AuthContextType {
   register: (email: string, password: string, displayName: string) => Promise<FirebaseUser>;
   logout: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
-  updateUserProfile: (displayName: string, photoURL?: string) => Promise<void>;
+  updateUserProfile: (displayName: string, photoURL?: string, timeZone?: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -34,20 +35,6 @@ export const useAuth = (): AuthContextType => {
   return context;
 };
 
-// Helper function to convert Firestore timestamp to JavaScript Date
-const convertTimestamp = (timestamp: any): Date | undefined => {
-  if (!timestamp) return undefined;
-  if (timestamp?.toDate && typeof timestamp.toDate === 'function') {
-    return timestamp.toDate();
-  }
-  if (timestamp instanceof Date) return timestamp;
-  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-    const date = new Date(timestamp);
-    return isNaN(date.getTime()) ? undefined : date;
-  }
-  return undefined;
-};
-
 interface AuthProviderProps {
   children: React.ReactNode;
 }
@@ -56,6 +43,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [currentUser, setCurrentUser] = useState<FirebaseUser | null>(null);
   const [userProfile, setUserProfile] = useState<User | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  // Set while register() creates the account, whose profile it seeds itself
+  const registering = useRef(false);
 
   // Login with email and password
   const login = async (email: string, password: string): Promise<FirebaseUser> => {
@@ -69,24 +58,46 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     password: string,
     displayName: string
   ): Promise<FirebaseUser> => {
-    const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-    const user = userCredential.user;
-
-    // Update the user's profile with the display name
-    await updateProfile(user, { displayName });
-
-    // Create a user document in Firestore
-    const userDoc = doc(firestore, 'users', user.uid);
-    await setDoc(userDoc, {
-      id: user.uid,
-      email: user.email,
-      displayName,
-      role: 'user',
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-    });
+    registering.current = true;
+    try {
+      const userCredential = await createUserWithEmailAndPassword(auth, email, password);
+      const user = userCredential.user;
+
+      // Update the user's profile with the display name
+      await updateProfile(user, { displayName });
+
+      // Create a user document in Firestore
+      // New accounts start in the browser's time zone
+      const userDoc = doc(firestore, 'users', user.uid);
+      const timeZone = getLocalTimeZone();
+      await setDoc(userDoc, {
+        id: user.uid,
+        email: user.email,
+        displayName,
+        role: 'user',
+        timeZone,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      // The auth state listener fires before the user document exists and
+      // leaves the profile to us, so seed it here
+      const now = new Date();
+      setUserProfile({
+        id: user.uid,
+        email: user.email || email,
+        displayName,
+        role: 'user',
+        timeZone,
+        createdAt: now,
+        updatedAt: now,
+      });
 
-    return user;
+      return user;
+    } finally {
+      registering.current = false;
+      setLoading(false);
+    }
   };
 
   // Logout the current user
@@ -102,7 +113,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Update user profile
   const updateUserProfile = async (
     displayName: string,
-    photoURL?: string
+    photoURL?: string,
+    timeZone?: string
   ): Promise<void> => {
     if (!currentUser) {
       throw new Error('No user is currently logged in');
@@ -118,6 +130,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       {
         displayName,
         photoURL,
+        ...(timeZone ? { timeZone } : {}),
         updatedAt: serverTimestamp(),
       },
       { merge: true }
@@ -129,6 +142,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         ...userProfile,
         displayName,
         photoURL: photoURL || userProfile.photoURL,
+        timeZone: timeZone || userProfile.timeZone,
       });
     }
   };
@@ -136,19 +150,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Fetch user profile from Firestore
   const fetchUserProfile = async (userId: string): Promise<User | null> => {
     try {
-      const userDoc = doc(firestore, 'users', userId);
-      const userSnapshot = await getDoc(userDoc);
-
-      if (userSnapshot.exists()) {
-        const data = userSnapshot.data();
-        // Convert Firestore timestamps to JavaScript Date objects
-        return {
-          ...data,
-          createdAt: convertTimestamp(data.createdAt) || new Date(),
-          updatedAt: convertTimestamp(data.updatedAt) || new Date()
-        } as User;
-      }
-      return null;
+      return await usersRepository.get(userId);
     } catch (error) {
       console.error('Error fetching user profile:', error);
       return null;
@@ -159,14 +161,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setCurrentUser(user);
-      
-      if (user) {
-        const profile = await fetchUserProfile(user.uid);
-        setUserProfile(profile);
-      } else {
+
+      if (!user) {
         setUserProfile(null);
+        setLoading(false);
+        return;
       }
-      
+
+      // Stay loading until the profile arrives so route guards don't judge
+      // permissions on a signed-in user without one
+      setLoading(true);
+      if (registering.current) return;
+
+      const profile = await fetchUserProfile(user.uid);
+      // Drop the result if the user signed out or switched during the fetch
+      if (auth.currentUser?.uid !== user.uid) return;
+      setUserProfile(profile);
       setLoading(false);
     });
 
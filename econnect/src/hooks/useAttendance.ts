@@ -0,0 +1,126 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { JitsiEventMap } from '../types';
+import { JitsiEventBus } from '../services/jitsiEvents';
+import {
+  ATTENDANCE_HEARTBEAT_MS,
+  openAttendanceInterval,
+  closeAttendanceInterval,
+  touchAttendanceInterval,
+  closeParticipantIntervals,
+} from '../services/attendance';
+
+interface UseAttendanceOptions {
+  meetingId?: string;
+  isHost?: boolean;
+  isModerator?: boolean; // hosts and co-hosts; recorded as the interval's role
+}
+
+// Record the current user's attendance in a meeting as join/leave intervals.
+// Each client records its own stays from videoConferenceJoined/Left, keeps a
+// heartbeat while present and closes its interval when the page is hidden
+// for good. The host additionally closes the intervals of remote participants
+// who drop out (participantLeft / participantKickedOut) without their client
+// getting the chance to.
+const useAttendance = (
+  eventBus: JitsiEventBus | null,
+  { meetingId, isHost = false, isModerator = isHost }: UseAttendanceOptions
+): void => {
+  const { userProfile } = useAuth();
+  const intervalIdRef = useRef<string | null>(null);
+  const localParticipantIdRef = useRef<string | null>(null);
+  const userProfileRef = useRef(userProfile);
+  userProfileRef.current = userProfile;
+  const userId = userProfile?.id;
+
+  useEffect(() => {
+    if (!eventBus || !meetingId || !userId) {
+      return;
+    }
+
+    let disposed = false;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    const stopHeartbeat = () => {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+    };
+
+    const closeInterval = () => {
+      const intervalId = intervalIdRef.current;
+      stopHeartbeat();
+      if (!intervalId) return;
+
+      intervalIdRef.current = null;
+      closeAttendanceInterval(meetingId, intervalId).catch(() => undefined);
+    };
+
+    const handleJoined = async ({ id, displayName }: JitsiEventMap['videoConferenceJoined']) => {
+      // Jitsi fires this again after a reconnect; start a fresh interval each time
+      closeInterval();
+      localParticipantIdRef.current = id;
+
+      try {
+        const intervalId = await openAttendanceInterval(meetingId, {
+          userId,
+          displayName: userProfileRef.current?.displayName || displayName,
+          role: isModerator ? 'moderator' : 'viewer',
+          jitsiParticipantId: id,
+        });
+
+        // The meeting was left while the interval was being written
+        if (disposed) {
+          closeAttendanceInterval(meetingId, intervalId).catch(() => undefined);
+          return;
+        }
+
+        intervalIdRef.current = intervalId;
+
+        heartbeat = setInterval(() => {
+          if (intervalIdRef.current) {
+            touchAttendanceInterval(meetingId, intervalIdRef.current).catch(() => undefined);
+          }
+        }, ATTENDANCE_HEARTBEAT_MS);
+      } catch (error) {
+        console.error('Error recording attendance:', error);
+      }
+    };
+
+    const handleRemoteLeft = (participantId: string) => {
+      if (!isHost || participantId === localParticipantIdRef.current) return;
+      closeParticipantIntervals(meetingId, participantId).catch(() => undefined);
+    };
+
+    const unsubscribers = [
+      eventBus.on('videoConferenceJoined', handleJoined),
+      eventBus.on('videoConferenceLeft', closeInterval),
+      eventBus.on('participantLeft', ({ id }) => handleRemoteLeft(id)),
+      eventBus.on('participantKickedOut', ({ kicked }) => {
+        if (kicked.local) {
+          closeInterval();
+        } else {
+          handleRemoteLeft(kicked.id);
+        }
+      }),
+    ];
+
+    // pagehide also covers tab closes and mobile browsers suspending the page
+    const handlePageHide = (event: PageTransitionEvent) => {
+      if (!event.persisted) {
+        closeInterval();
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      disposed = true;
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      window.removeEventListener('pagehide', handlePageHide);
+      closeInterval();
+    };
+  }, [eventBus, meetingId, isHost, isModerator, userId]);
+};
+
+export default useAttendance;
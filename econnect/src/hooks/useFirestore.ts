@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { onSnapshot, queryEqual, refEqual, Query, DocumentReference } from 'firebase/firestore';
+import { readDocuments, DocumentValidationError } from '../services/repository';
+
+export interface UseCollectionResult<T> {
+  data: T[];
+  loading: boolean;
+  error: Error | null;
+  invalid: DocumentValidationError[]; // documents skipped because they failed validation
+}
+
+export interface UseDocumentResult<T> {
+  data: T | null;
+  loading: boolean;
+  error: Error | null; // a DocumentValidationError when the document is malformed
+  exists: boolean;
+}
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+// Queries and references are rebuilt on every render; keep the previous
+// instance while it still points at the same data so we don't resubscribe.
+const useStableValue = <V>(value: V, isEqual: (a: NonNullable<V>, b: NonNullable<V>) => boolean): V => {
+  const ref = useRef(value);
+  const current = ref.current;
+  if (
+    current !== value &&
+    !(current != null && value != null && isEqual(current as NonNullable<V>, value as NonNullable<V>))
+  ) {
+    ref.current = value;
+  }
+  return ref.current;
+};
+
+// Subscribe to a query and keep its documents up to date. Pass a query built
+// from a repository so documents arrive converted and validated, or null to
+// wait for the query's inputs (e.g. the signed-in user) to be available.
+const useCollection = <T>(firestoreQuery: Query<T> | null): UseCollectionResult<T> => {
+  const stableQuery = useStableValue(firestoreQuery, queryEqual);
+  const [state, setState] = useState<UseCollectionResult<T>>({
+    data: [],
+    loading: !!firestoreQuery,
+    error: null,
+    invalid: [],
+  });
+
+  useEffect(() => {
+    if (!stableQuery) {
+      setState({ data: [], loading: false, error: null, invalid: [] });
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    const unsubscribe = onSnapshot(
+      stableQuery,
+      (snapshot) => {
+        // Errors thrown here would escape the listener uncaught
+        try {
+          const { items, invalid } = readDocuments(snapshot);
+          setState({ data: items, loading: false, error: null, invalid });
+        } catch (error) {
+          console.error('Error reading collection:', error);
+          setState({ data: [], loading: false, error: toError(error), invalid: [] });
+        }
+      },
+      (error) => {
+        console.error('Error subscribing to collection:', error);
+        setState({ data: [], loading: false, error, invalid: [] });
+      }
+    );
+
+    return unsubscribe;
+  }, [stableQuery]);
+
+  return state;
+};
+
+// Subscribe to a single document. `data` is null while loading, when the
+// document doesn't exist and when it fails validation.
+const useDocument = <T>(reference: DocumentReference<T> | null): UseDocumentResult<T> => {
+  const stableReference = useStableValue(reference, refEqual);
+  const [state, setState] = useState<UseDocumentResult<T>>({
+    data: null,
+    loading: !!reference,
+    error: null,
+    exists: false,
+  });
+
+  useEffect(() => {
+    if (!stableReference) {
+      setState({ data: null, loading: false, error: null, exists: false });
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    const unsubscribe = onSnapshot(
+      stableReference,
+      (snapshot) => {
+        const exists = snapshot.exists();
+        // Errors thrown here would escape the listener uncaught
+        try {
+          setState({ data: exists ? snapshot.data() : null, loading: false, error: null, exists });
+        } catch (error) {
+          console.error('Error reading document:', error);
+          setState({ data: null, loading: false, error: toError(error), exists });
+        }
+      },
+      (error) => {
+        console.error('Error subscribing to document:', error);
+        setState({ data: null, loading: false, error, exists: false });
+      }
+    );
+
+    return unsubscribe;
+  }, [stableReference]);
+
+  return state;
+};
+
+export { useCollection, useDocument };
@@ -1,19 +1,28 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { JitsiMeetExternalAPI } from '../types';
+import {
+  JitsiMeetExternalAPI,
+  JitsiEventName,
+  JitsiEventHandler,
+  JitsiEventHandlers,
+} from '../types';
 import { initJitsiMeetAPI, generateJitsiToken } from '../services/jitsi';
+import { createJitsiEventBus, JitsiEventBus } from '../services/jitsiEvents';
 
 interface UseJitsiProps {
   roomName: string;
   isHost?: boolean;
-  onParticipantJoined?: (participant: any) => void;
-  onParticipantLeft?: (participant: any) => void;
-  onVideoConferenceJoined?: (participant: any) => void;
-  onVideoConferenceLeft?: (participant: any) => void;
+  isModerator?: boolean; // co-hosts moderate without hosting; defaults to isHost
+  eventHandlers?: JitsiEventHandlers;
+  onParticipantJoined?: JitsiEventHandler<'participantJoined'>;
+  onParticipantLeft?: JitsiEventHandler<'participantLeft'>;
+  onVideoConferenceJoined?: JitsiEventHandler<'videoConferenceJoined'>;
+  onVideoConferenceLeft?: JitsiEventHandler<'videoConferenceLeft'>;
 }
 
 interface UseJitsiReturn {
   jitsiAPI: JitsiMeetExternalAPI | null;
+  eventBus: JitsiEventBus | null;
   isLoading: boolean;
   error: Error | null;
   containerRef: React.RefObject<HTMLDivElement | null>;
@@ -22,23 +31,61 @@ interface UseJitsiReturn {
 const useJitsi = ({
   roomName,
   isHost = false,
+  isModerator = isHost,
   onParticipantJoined,
   onParticipantLeft,
   onVideoConferenceJoined,
   onVideoConferenceLeft,
+  eventHandlers,
 }: UseJitsiProps): UseJitsiReturn => {
   const [jitsiAPI, setJitsiAPI] = useState<JitsiMeetExternalAPI | null>(null);
+  const [eventBus, setEventBus] = useState<JitsiEventBus | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const { userProfile } = useAuth();
 
+  // Keep the latest handlers in a ref so new callback identities don't re-create the conference
+  const handlersRef = useRef<JitsiEventHandlers>({});
+  handlersRef.current = {
+    ...eventHandlers,
+    ...(onParticipantJoined ? { participantJoined: onParticipantJoined } : {}),
+    ...(onParticipantLeft ? { participantLeft: onParticipantLeft } : {}),
+    ...(onVideoConferenceJoined ? { videoConferenceJoined: onVideoConferenceJoined } : {}),
+    ...(onVideoConferenceLeft ? { videoConferenceLeft: onVideoConferenceLeft } : {}),
+  };
+
+  // Listen only to the events there are handlers for, forwarding each to
+  // whichever handler is current at the time it fires
+  const handledEvents = Object.entries(handlersRef.current)
+    .filter(([, handler]) => typeof handler === 'function')
+    .map(([event]) => event)
+    .sort()
+    .join(',');
+  useEffect(() => {
+    if (!eventBus || !handledEvents) return;
+
+    const unsubscribers = (handledEvents.split(',') as JitsiEventName[]).map((event) =>
+      eventBus.on(event, (payload) => {
+        const handler = handlersRef.current[event] as
+          | ((value: typeof payload) => void)
+          | undefined;
+        if (handler) handler(payload);
+      })
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [eventBus, handledEvents]);
+
   useEffect(() => {
     // Don't initialize if the container ref is not available or no user is logged in
     if (!containerRef.current || !userProfile) {
       return;
     }
 
+    let api: JitsiMeetExternalAPI | null = null;
+    let bus: JitsiEventBus | null = null;
+    let cancelled = false;
+
     const initJitsi = async () => {
       try {
         setIsLoading(true);
@@ -47,15 +94,14 @@ const useJitsi = ({
         // Generate JWT token for authentication
         const token = await generateJitsiToken({
           roomName,
-          user: userProfile,
-          isModerator: isHost,
+          isModerator,
         });
 
         // Get the container element (we've already checked it's not null above)
         const container = containerRef.current as HTMLElement;
 
         // Initialize Jitsi Meet
-        const api = await initJitsiMeetAPI({
+        api = await initJitsiMeetAPI({
           roomName,
           width: '100%',
           height: '100%',
@@ -92,36 +138,19 @@ const useJitsi = ({
               'videobackgroundblur',
               'download',
               'help',
-              ...(isHost ? ['mute-everyone', 'security'] : []),
+              ...(isModerator ? ['mute-everyone', 'security'] : []),
             ],
             SHOW_JITSI_WATERMARK: false,
           },
         });
 
-        // Set up event listeners
-        const eventHandlers: Record<string, (...args: any[]) => void> = {};
-        
-        if (onParticipantJoined) {
-          eventHandlers['participantJoined'] = onParticipantJoined;
+        if (cancelled) {
+          api.dispose();
+          return;
         }
 
-        if (onParticipantLeft) {
-          eventHandlers['participantLeft'] = onParticipantLeft;
-        }
-
-        if (onVideoConferenceJoined) {
-          eventHandlers['videoConferenceJoined'] = onVideoConferenceJoined;
-        }
-
-        if (onVideoConferenceLeft) {
-          eventHandlers['videoConferenceLeft'] = onVideoConferenceLeft;
-        }
-
-        // Add event listeners
-        Object.entries(eventHandlers).forEach(([event, handler]) => {
-          api.addListener(event, handler);
-        });
-
+        bus = createJitsiEventBus(api);
+        setEventBus(bus);
         setJitsiAPI(api);
         setIsLoading(false);
       } catch (err) {
@@ -135,40 +164,23 @@ const useJitsi = ({
 
     // Cleanup function
     return () => {
-      if (jitsiAPI) {
-        // Remove event listeners
-        if (onParticipantJoined) {
-          jitsiAPI.removeListener('participantJoined', onParticipantJoined);
-        }
-
-        if (onParticipantLeft) {
-          jitsiAPI.removeListener('participantLeft', onParticipantLeft);
-        }
-
-        if (onVideoConferenceJoined) {
-          jitsiAPI.removeListener('videoConferenceJoined', onVideoConferenceJoined);
-        }
+      cancelled = true;
 
-        if (onVideoConferenceLeft) {
-          jitsiAPI.removeListener('videoConferenceLeft', onVideoConferenceLeft);
-        }
+      if (bus) {
+        // Remove event listeners
+        bus.dispose();
+        setEventBus(null);
+      }
 
+      if (api) {
         // Dispose of the Jitsi API
-        jitsiAPI.dispose();
+        api.dispose();
         setJitsiAPI(null);
       }
     };
-  }, [
-    roomName,
-    isHost,
-    userProfile,
-    onParticipantJoined,
-    onParticipantLeft,
-    onVideoConferenceJoined,
-    onVideoConferenceLeft,
-  ]);
-
-  return { jitsiAPI, isLoading, error, containerRef };
+  }, [roomName, isHost, isModerator, userProfile]);
+
+  return { jitsiAPI, eventBus, isLoading, error, containerRef };
 };
 
 export default useJitsi;
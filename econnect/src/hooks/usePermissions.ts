@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { UserRole, Event, Service, ServiceRequest } from '../types';
+import {
+  Permission,
+  hasPermission,
+  hasRole,
+  canManageEvent,
+  canManageService,
+  canManageServiceRequest,
+} from '../services/permissions';
+
+interface UsePermissionsReturn {
+  role: UserRole | null;
+  can: (permission: Permission) => boolean;
+  hasRole: (roles: UserRole | UserRole[]) => boolean;
+  canManageEvent: (event: Pick<Event, 'createdBy'>) => boolean;
+  canManageService: (service: Pick<Service, 'providerId'>) => boolean;
+  canManageServiceRequest: (request: Pick<ServiceRequest, 'providerId'>) => boolean;
+}
+
+const usePermissions = (): UsePermissionsReturn => {
+  const { userProfile } = useAuth();
+
+  return useMemo(
+    () => ({
+      role: userProfile?.role || null,
+      can: (permission: Permission) => hasPermission(userProfile, permission),
+      hasRole: (roles: UserRole | UserRole[]) => hasRole(userProfile, roles),
+      canManageEvent: (event: Pick<Event, 'createdBy'>) => canManageEvent(userProfile, event),
+      canManageService: (service: Pick<Service, 'providerId'>) =>
+        canManageService(userProfile, service),
+      canManageServiceRequest: (request: Pick<ServiceRequest, 'providerId'>) =>
+        canManageServiceRequest(userProfile, request),
+    }),
+    [userProfile]
+  );
+};
+
+export default usePermissions;
@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { JitsiMeetExternalAPI, JitsiRecordingMode, RecordingState } from '../types';
+import {
+  createRecordingController,
+  RecordingController,
+  LivestreamOptions,
+} from '../services/recordingController';
+import { markRecordingStarted, markRecordingEnded } from '../services/meetings';
+
+interface UseRecordingReturn {
+  recordingState: RecordingState;
+  saveError: string | null; // set when the recording times couldn't be saved on the meeting
+  startRecording: (mode?: JitsiRecordingMode, livestream?: LivestreamOptions) => Promise<void>;
+  stopRecording: () => Promise<void>;
+}
+
+const useRecording = (
+  jitsiAPI: JitsiMeetExternalAPI | null,
+  meetingId?: string
+): UseRecordingReturn => {
+  const [recordingState, setRecordingState] = useState<RecordingState>({
+    status: 'idle',
+    mode: null,
+  });
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const controllerRef = useRef<RecordingController | null>(null);
+
+  useEffect(() => {
+    if (!jitsiAPI) {
+      return;
+    }
+
+    const controller = createRecordingController(jitsiAPI, {
+      onTransition: (previous, next) => {
+        if (!meetingId) return;
+
+        // Persist recording boundaries on the Meeting document. A stop that
+        // didn't go through returns to on without a new recording starting,
+        // and a recording that fails part way ends like a stopped one.
+        if (next.status === 'on' && next.mode && previous.status !== 'stopping') {
+          setSaveError(null);
+          markRecordingStarted(meetingId, next.mode).catch(() =>
+            setSaveError('The recording start could not be saved on the meeting')
+          );
+        } else if (
+          (next.status === 'idle' || next.status === 'failed') &&
+          (previous.status === 'on' || previous.status === 'stopping')
+        ) {
+          markRecordingEnded(meetingId).catch(() =>
+            setSaveError('The recording end could not be saved on the meeting')
+          );
+        }
+      },
+    });
+
+    controllerRef.current = controller;
+    setRecordingState(controller.getState());
+    const unsubscribe = controller.subscribe(setRecordingState);
+
+    return () => {
+      unsubscribe();
+      controller.dispose();
+      controllerRef.current = null;
+    };
+  }, [jitsiAPI, meetingId]);
+
+  const startRecording = useCallback(
+    (mode?: JitsiRecordingMode, livestream?: LivestreamOptions) => {
+      if (!controllerRef.current) {
+        return Promise.reject(new Error('Meeting is not ready yet'));
+      }
+      return controllerRef.current.start(mode, livestream);
+    },
+    []
+  );
+
+  const stopRecording = useCallback(() => {
+    if (!controllerRef.current) {
+      return Promise.reject(new Error('Meeting is not ready yet'));
+    }
+    return controllerRef.current.stop();
+  }, []);
+
+  return { recordingState, saveError, startRecording, stopRecording };
+};
+
+export default useRecording;
@@ -0,0 +1,11 @@
+import { useAuth } from '../context/AuthContext';
+import { resolveTimeZone } from '../services/timeZones';
+
+// The zone to show times in: the signed-in user's chosen zone, or the
+// browser's when they haven't picked one
+const useTimeZone = (): string => {
+  const { userProfile } = useAuth();
+  return resolveTimeZone(userProfile?.timeZone);
+};
+
+export default useTimeZone;
@@ -0,0 +1,38 @@
+import type { Config } from '@jest/types';
+import NodeEnvironment from 'jest-environment-node';
+
+// Test environment that runs a file as a browser in another time zone, named
+// by a @local-time-zone pragma next to the @jest-environment one. Jest gives
+// each file a copy of process.env, so setting TZ from inside a test file
+// never reaches Node's clock; it has to be set here, before the file runs,
+// and put back afterwards for the files that share this worker.
+class LocalTimeZoneEnvironment extends NodeEnvironment {
+  private readonly timeZone: string;
+  private previousTimeZone: string | undefined;
+
+  constructor(
+    config: Config.ProjectConfig,
+    context: { docblockPragmas: Record<string, string | string[]> }
+  ) {
+    super(config);
+    const pragma = context.docblockPragmas['local-time-zone'];
+    this.timeZone = (Array.isArray(pragma) ? pragma[0] : pragma) || 'UTC';
+  }
+
+  async setup(): Promise<void> {
+    this.previousTimeZone = process.env.TZ;
+    process.env.TZ = this.timeZone;
+    await super.setup();
+  }
+
+  async teardown(): Promise<void> {
+    if (this.previousTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = this.previousTimeZone;
+    }
+    await super.teardown();
+  }
+}
+
+export default LocalTimeZoneEnvironment;
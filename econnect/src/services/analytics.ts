@@ -0,0 +1,187 @@
+import { where } from 'firebase/firestore';
+import { startOfWeek, startOfMonth, format } from 'date-fns';
+import { meetingAnalyticsRepository } from './repository';
+import { AttendanceInterval, MeetingAnalytics, ParticipantAnalytics } from '../types';
+
+export type AnalyticsPeriod = 'week' | 'month';
+
+export interface AnalyticsTrendPoint {
+  periodStart: Date;
+  label: string;
+  meetings: number;
+  participants: number;
+  averageDuration: number; // in seconds, weighted by participant
+  peakParticipants: number;
+}
+
+export interface ParticipantCountPoint {
+  time: Date;
+  count: number;
+}
+
+export interface AttendanceSpan {
+  start: Date;
+  end: Date;
+}
+
+// Must match the grace period used by the aggregation function
+const STALE_INTERVAL_GRACE_MS = 60 * 1000;
+
+// Fetch analytics for every meeting a user hosted, newest first
+const getHostAnalytics = async (hostId: string): Promise<MeetingAnalytics[]> => {
+  try {
+    const analytics = await meetingAnalyticsRepository.list(where('hostId', '==', hostId));
+    return analytics.sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  } catch (error) {
+    console.error('Error fetching host analytics:', error);
+    throw error;
+  }
+};
+
+// Fetch analytics for a single meeting
+const getMeetingAnalytics = async (meetingId: string): Promise<MeetingAnalytics | null> => {
+  try {
+    return await meetingAnalyticsRepository.get(meetingId);
+  } catch (error) {
+    console.error('Error fetching meeting analytics:', error);
+    throw error;
+  }
+};
+
+// Resolve attendance intervals into closed spans within the meeting window.
+// Open intervals end shortly after their last heartbeat, as in the aggregation.
+const getAttendanceSpans = (
+  intervals: AttendanceInterval[],
+  meetingStart: Date,
+  meetingEnd: Date
+): Map<string, AttendanceSpan[]> => {
+  const spans = new Map<string, AttendanceSpan[]>();
+
+  intervals.forEach((interval) => {
+    const start = Math.max(interval.joinTime.getTime(), meetingStart.getTime());
+    const end = Math.min(
+      interval.leaveTime
+        ? interval.leaveTime.getTime()
+        : interval.lastSeen.getTime() + STALE_INTERVAL_GRACE_MS,
+      meetingEnd.getTime()
+    );
+    if (end <= start) return;
+
+    spans.set(interval.userId, [
+      ...(spans.get(interval.userId) || []),
+      { start: new Date(start), end: new Date(end) },
+    ]);
+  });
+
+  return spans;
+};
+
+// Spans for meetings aggregated before attendance intervals were recorded
+const getParticipantSpans = (participants: ParticipantAnalytics[]): Map<string, AttendanceSpan[]> => {
+  const spans = new Map<string, AttendanceSpan[]>();
+  participants.forEach((participant) => {
+    if (participant.leaveTime) {
+      spans.set(participant.userId, [{ start: participant.joinTime, end: participant.leaveTime }]);
+    }
+  });
+  return spans;
+};
+
+// Step series of how many distinct users were in the meeting over time
+const buildParticipantCountSeries = (
+  spans: Map<string, AttendanceSpan[]>,
+  meetingStart: Date,
+  meetingEnd: Date
+): ParticipantCountPoint[] => {
+  const changes = new Map<number, number>();
+
+  spans.forEach((userSpans) => {
+    // A user in two tabs only counts once
+    const sorted = [...userSpans].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const merged: AttendanceSpan[] = [];
+    sorted.forEach((span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = span.end > last.end ? span.end : last.end;
+      } else {
+        merged.push({ ...span });
+      }
+    });
+
+    merged.forEach(({ start, end }) => {
+      changes.set(start.getTime(), (changes.get(start.getTime()) || 0) + 1);
+      changes.set(end.getTime(), (changes.get(end.getTime()) || 0) - 1);
+    });
+  });
+
+  let count = 0;
+  const series: ParticipantCountPoint[] = [{ time: meetingStart, count: 0 }];
+  Array.from(changes.keys())
+    .sort((a, b) => a - b)
+    .forEach((time) => {
+      count += changes.get(time) || 0;
+      series.push({ time: new Date(time), count });
+    });
+
+  if (series[series.length - 1].time < meetingEnd) {
+    series.push({ time: meetingEnd, count });
+  }
+  return series;
+};
+
+// Roll meetings up into weekly or monthly totals, oldest period first
+const groupAnalyticsByPeriod = (
+  analytics: MeetingAnalytics[],
+  period: AnalyticsPeriod
+): AnalyticsTrendPoint[] => {
+  const groups = new Map<number, AnalyticsTrendPoint & { totalDuration: number }>();
+
+  analytics.forEach((meeting) => {
+    const periodStart =
+      period === 'week' ? startOfWeek(meeting.startTime) : startOfMonth(meeting.startTime);
+    const key = periodStart.getTime();
+    const group = groups.get(key) || {
+      periodStart,
+      label: format(periodStart, period === 'week' ? "'Week of' MMM d" : 'MMM yyyy'),
+      meetings: 0,
+      participants: 0,
+      averageDuration: 0,
+      peakParticipants: 0,
+      totalDuration: 0,
+    };
+
+    group.meetings += 1;
+    group.participants += meeting.participantCount;
+    group.totalDuration += meeting.averageDuration * meeting.participantCount;
+    group.peakParticipants = Math.max(group.peakParticipants, meeting.peakParticipants);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime())
+    .map(({ totalDuration, ...group }) => ({
+      ...group,
+      averageDuration: group.participants > 0 ? Math.round(totalDuration / group.participants) : 0,
+    }));
+};
+
+// Format a duration in seconds as "1h 5m", "12m 30s" or "45s"
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = Math.round(seconds % 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${remainingSeconds}s`;
+  return `${remainingSeconds}s`;
+};
+
+export {
+  getHostAnalytics,
+  getMeetingAnalytics,
+  getAttendanceSpans,
+  getParticipantSpans,
+  buildParticipantCountSeries,
+  groupAnalyticsByPeriod,
+  formatDuration,
+};
@@ -0,0 +1,99 @@
+import { buildAttendanceRows, toCsv, toJson } from './analyticsExport';
+import { MeetingAnalytics } from '../types';
+
+// The PDF writer needs browser APIs jsdom lacks and isn't exercised here
+jest.mock('jspdf', () => ({ jsPDF: jest.fn() }));
+jest.mock('jspdf-autotable', () => jest.fn());
+
+const meeting = (participants: MeetingAnalytics['participants']): MeetingAnalytics => ({
+  id: 'm1',
+  meetingId: 'm1',
+  eventId: 'e1',
+  title: 'Standup',
+  hostId: 'host',
+  participantCount: participants.length,
+  averageDuration: 1800,
+  peakParticipants: participants.length,
+  startTime: new Date('2030-01-07T08:00:00Z'),
+  endTime: new Date('2030-01-07T09:00:00Z'),
+  participants,
+  createdAt: new Date('2030-01-07T09:00:00Z'),
+  updatedAt: new Date('2030-01-07T09:00:00Z'),
+});
+
+const participant = (displayName: string) => ({
+  userId: 'alice',
+  displayName,
+  joinTime: new Date('2030-01-07T08:00:00Z'),
+  leaveTime: new Date('2030-01-07T08:30:00Z'),
+  duration: 1800,
+  intervalCount: 2,
+  role: 'viewer' as const,
+});
+
+const options = { hostName: 'Host' };
+
+const csvLines = (analytics: MeetingAnalytics[]) =>
+  toCsv(buildAttendanceRows(analytics, options)).split('\r\n');
+
+describe('toCsv', () => {
+  it('writes a header and one row per participant', () => {
+    const lines = csvLines([meeting([participant('Alice')])]);
+    expect(lines[0]).toBe(
+      'Meeting,Date,Host,Participant,User ID,Role,Joined,Left,Duration (seconds),Duration,Stays'
+    );
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toMatch(/^Standup,2030-01-07,Host,Alice,alice,viewer,.*,1800,.*,2$/);
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const [, row] = csvLines([meeting([participant('Smith, "Al"\nJr')])]);
+    expect(row).toContain(',"Smith, ""Al""\nJr",');
+  });
+
+  it('keeps names that look like formulas as text', () => {
+    const names = ['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)', '\tTab'];
+    const rows = csvLines([meeting(names.map(participant))]).slice(1);
+    expect(rows.map((row) => row.split(',')[3])).toEqual([
+      `"'=HYPERLINK(""http://x"")"`,
+      "'+1",
+      "'-2+3",
+      "'@SUM(A1)",
+      "'\tTab",
+    ]);
+  });
+});
+
+describe('toJson', () => {
+  it('exports meetings with their participants and the date range', () => {
+    const json = JSON.parse(
+      toJson([meeting([participant('=Alice')])], {
+        ...options,
+        from: new Date('2030-01-01T00:00:00Z'),
+        to: null,
+      })
+    );
+    expect(json).toMatchObject({
+      host: 'Host',
+      from: '2030-01-01T00:00:00.000Z',
+      to: null,
+      meetings: [
+        {
+          meetingId: 'm1',
+          title: 'Standup',
+          startTime: '2030-01-07T08:00:00.000Z',
+          participants: [
+            {
+              userId: 'alice',
+              displayName: '=Alice',
+              joinTime: '2030-01-07T08:00:00.000Z',
+              leaveTime: '2030-01-07T08:30:00.000Z',
+              duration: 1800,
+              stays: 2,
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { MeetingAnalytics } from '../types';
+import { formatDuration } from './analytics';
+
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+export interface AnalyticsExportOptions {
+  hostName: string;
+  from?: Date | null; // date range the export covers, shown in the report
+  to?: Date | null;
+}
+
+export interface AttendanceRow {
+  meetingId: string;
+  meeting: string;
+  date: string;
+  host: string;
+  participant: string;
+  userId: string;
+  role: string;
+  joinTime: string;
+  leaveTime: string;
+  durationSeconds: number;
+  duration: string;
+  stays: number;
+}
+
+const CSV_COLUMNS: { key: keyof AttendanceRow; label: string }[] = [
+  { key: 'meeting', label: 'Meeting' },
+  { key: 'date', label: 'Date' },
+  { key: 'host', label: 'Host' },
+  { key: 'participant', label: 'Participant' },
+  { key: 'userId', label: 'User ID' },
+  { key: 'role', label: 'Role' },
+  { key: 'joinTime', label: 'Joined' },
+  { key: 'leaveTime', label: 'Left' },
+  { key: 'durationSeconds', label: 'Duration (seconds)' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'stays', label: 'Stays' },
+];
+
+const formatDateTime = (date?: Date) => (date ? format(date, 'yyyy-MM-dd HH:mm:ss') : '');
+
+// One row per participant per meeting
+const buildAttendanceRows = (
+  analytics: MeetingAnalytics[],
+  { hostName }: AnalyticsExportOptions
+): AttendanceRow[] => {
+  return analytics.flatMap((meeting) =>
+    meeting.participants.map((participant) => ({
+      meetingId: meeting.meetingId,
+      meeting: meeting.title || 'Meeting',
+      date: format(meeting.startTime, 'yyyy-MM-dd'),
+      host: hostName,
+      participant: participant.displayName,
+      userId: participant.userId,
+      role: participant.role,
+      joinTime: formatDateTime(participant.joinTime),
+      leaveTime: formatDateTime(participant.leaveTime),
+      durationSeconds: participant.duration || 0,
+      duration: formatDuration(participant.duration || 0),
+      stays: participant.intervalCount || 1,
+    }))
+  );
+};
+
+// Quote a CSV field when needed (RFC 4180). Text that a spreadsheet would
+// run as a formula, like a display name starting with "=", gets a leading
+// apostrophe so it opens as plain text.
+const escapeCsvField = (value: string | number): string => {
+  const text =
+    typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: AttendanceRow[]): string => {
+  const lines = [
+    CSV_COLUMNS.map((column) => escapeCsvField(column.label)).join(','),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => escapeCsvField(row[column.key])).join(',')),
+  ];
+  return lines.join('\r\n');
+};
+
+const toJson = (analytics: MeetingAnalytics[], options: AnalyticsExportOptions): string => {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      host: options.hostName,
+      from: options.from ? options.from.toISOString() : null,
+      to: options.to ? options.to.toISOString() : null,
+      meetings: analytics.map((meeting) => ({
+        meetingId: meeting.meetingId,
+        eventId: meeting.eventId,
+        title: meeting.title || '',
+        startTime: meeting.startTime.toISOString(),
+        endTime: meeting.endTime.toISOString(),
+        participantCount: meeting.participantCount,
+        peakParticipants: meeting.peakParticipants,
+        averageDuration: meeting.averageDuration,
+        participants: meeting.participants.map((participant) => ({
+          userId: participant.userId,
+          displayName: participant.displayName,
+          role: participant.role,
+          joinTime: participant.joinTime.toISOString(),
+          leaveTime: participant.leaveTime ? participant.leaveTime.toISOString() : null,
+          duration: participant.duration || 0,
+          stays: participant.intervalCount || 1,
+        })),
+      })),
+    },
+    null,
+    2
+  );
+};
+
+// Printable attendance report: one section per meeting
+const toPdf = (analytics: MeetingAnalytics[], options: AnalyticsExportOptions): Blob => {
+  const pdf = new jsPDF({ orientation: 'landscape' });
+  const margin = 14;
+  let y = 20;
+
+  pdf.setFontSize(18);
+  pdf.text('Attendance Report', margin, y);
+  pdf.setFontSize(10);
+  y += 7;
+  pdf.text(`Host: ${options.hostName}`, margin, y);
+  y += 5;
+  if (options.from || options.to) {
+    const range = `${options.from ? format(options.from, 'PP') : '...'} - ${options.to ? format(options.to, 'PP') : '...'}`;
+    pdf.text(`Period: ${range}`, margin, y);
+    y += 5;
+  }
+  pdf.text(`Generated: ${format(new Date(), 'PPpp')}`, margin, y);
+  y += 10;
+
+  analytics.forEach((meeting) => {
+    if (y > pdf.internal.pageSize.getHeight() - 40) {
+      pdf.addPage();
+      y = 20;
+    }
+
+    pdf.setFontSize(13);
+    pdf.text(meeting.title || 'Meeting', margin, y);
+    pdf.setFontSize(10);
+    y += 6;
+    pdf.text(
+      `${format(meeting.startTime, 'PPp')} - ${format(meeting.endTime, 'p')}  |  ` +
+        `${meeting.participantCount} participants, peak ${meeting.peakParticipants}, ` +
+        `average stay ${formatDuration(meeting.averageDuration)}`,
+      margin,
+      y
+    );
+    y += 3;
+
+    autoTable(pdf, {
+      startY: y,
+      margin: { left: margin, right: margin },
+      head: [['Participant', 'Role', 'Joined', 'Left', 'Stays', 'Duration']],
+      body: meeting.participants.map((participant) => [
+        participant.displayName,
+        participant.role,
+        formatDateTime(participant.joinTime),
+        formatDateTime(participant.leaveTime),
+        String(participant.intervalCount || 1),
+        formatDuration(participant.duration || 0),
+      ]),
+      styles: { fontSize: 9 },
+      didDrawPage: (data) => {
+        y = data.cursor ? data.cursor.y : y;
+      },
+    });
+
+    y += 12;
+  });
+
+  return pdf.output('blob');
+};
+
+// Save a generated file through a temporary link
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// File name like attendance-2025-01-06-to-2025-02-03.csv or attendance-standup-2025-01-06.pdf
+const getExportFileName = (
+  analytics: MeetingAnalytics[],
+  exportFormat: ExportFormat,
+  { from, to }: AnalyticsExportOptions
+): string => {
+  let name = 'attendance';
+  if (analytics.length === 1) {
+    const slug = (analytics[0].title || 'meeting')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    name += `-${slug}-${format(analytics[0].startTime, 'yyyy-MM-dd')}`;
+  } else if (from || to) {
+    name += `-${from ? format(from, 'yyyy-MM-dd') : 'start'}-to-${to ? format(to, 'yyyy-MM-dd') : 'now'}`;
+  }
+  return `${name}.${exportFormat}`;
+};
+
+// Generate and download an export of the given meetings. Runs entirely in the
+// browser from data already loaded, so it works offline.
+const exportAnalytics = (
+  analytics: MeetingAnalytics[],
+  exportFormat: ExportFormat,
+  options: AnalyticsExportOptions
+): void => {
+  try {
+    const fileName = getExportFileName(analytics, exportFormat, options);
+
+    if (exportFormat === 'csv') {
+      // Byte order mark so Excel opens UTF-8 names correctly
+      const csv = toCsv(buildAttendanceRows(analytics, options));
+      downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), fileName);
+    } else if (exportFormat === 'json') {
+      downloadBlob(
+        new Blob([toJson(analytics, options)], { type: 'application/json' }),
+        fileName
+      );
+    } else {
+      downloadBlob(toPdf(analytics, options), fileName);
+    }
+  } catch (error) {
+    console.error('Error exporting analytics:', error);
+    throw error;
+  }
+};
+
+export { buildAttendanceRows, toCsv, toJson, downloadBlob, exportAnalytics };
@@ -0,0 +1,131 @@
+import {
+  doc,
+  collection,
+  query,
+  where,
+  getDocs,
+  updateDoc,
+  writeBatch,
+  arrayUnion,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { firestore } from './firebase';
+import { attendanceRepository } from './repository';
+import { AttendanceInterval } from '../types';
+
+interface OpenAttendanceOptions {
+  userId: string;
+  displayName: string;
+  role: 'moderator' | 'viewer';
+  jitsiParticipantId?: string;
+}
+
+// How often a present user refreshes lastSeen on their open interval
+const ATTENDANCE_HEARTBEAT_MS = 30000;
+
+const attendanceCollection = (meetingId: string) =>
+  collection(firestore, 'meetings', meetingId, 'attendance');
+
+// Start a new attendance interval and add the user to the meeting's attendee
+// list in one batch, so the two can't drift apart.
+const openAttendanceInterval = async (
+  meetingId: string,
+  { userId, displayName, role, jitsiParticipantId }: OpenAttendanceOptions
+): Promise<string> => {
+  try {
+    const intervalRef = doc(attendanceCollection(meetingId));
+    const batch = writeBatch(firestore);
+
+    batch.set(intervalRef, {
+      userId,
+      displayName,
+      role,
+      jitsiParticipantId: jitsiParticipantId || null,
+      joinTime: serverTimestamp(),
+      leaveTime: null,
+      lastSeen: serverTimestamp(),
+    });
+    batch.update(doc(firestore, 'meetings', meetingId), {
+      participants: arrayUnion(userId),
+      updatedAt: serverTimestamp(),
+    });
+
+    await batch.commit();
+    return intervalRef.id;
+  } catch (error) {
+    console.error('Error opening attendance interval:', error);
+    throw error;
+  }
+};
+
+// Close an attendance interval
+const closeAttendanceInterval = async (meetingId: string, intervalId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(attendanceCollection(meetingId), intervalId), {
+      leaveTime: serverTimestamp(),
+      lastSeen: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error closing attendance interval:', error);
+    throw error;
+  }
+};
+
+// Record that the user is still present
+const touchAttendanceInterval = async (meetingId: string, intervalId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(attendanceCollection(meetingId), intervalId), {
+      lastSeen: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error updating attendance heartbeat:', error);
+    throw error;
+  }
+};
+
+// Close every open interval for a Jitsi participant. Used by the host when a
+// remote participant drops out without their own client recording it.
+const closeParticipantIntervals = async (
+  meetingId: string,
+  jitsiParticipantId: string
+): Promise<void> => {
+  try {
+    const openSnapshot = await getDocs(
+      query(
+        attendanceCollection(meetingId),
+        where('jitsiParticipantId', '==', jitsiParticipantId),
+        where('leaveTime', '==', null)
+      )
+    );
+    if (openSnapshot.empty) return;
+
+    const batch = writeBatch(firestore);
+    openSnapshot.docs.forEach((intervalDoc) => {
+      batch.update(intervalDoc.ref, { leaveTime: serverTimestamp() });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error closing participant attendance:', error);
+    throw error;
+  }
+};
+
+// Fetch every attendance interval of a meeting, in join order
+const getMeetingAttendance = async (meetingId: string): Promise<AttendanceInterval[]> => {
+  try {
+    const attendance = await attendanceRepository(meetingId).list();
+    return attendance.sort((a, b) => a.joinTime.getTime() - b.joinTime.getTime());
+  } catch (error) {
+    console.error('Error fetching meeting attendance:', error);
+    throw error;
+  }
+};
+
+export {
+  ATTENDANCE_HEARTBEAT_MS,
+  openAttendanceInterval,
+  closeAttendanceInterval,
+  touchAttendanceInterval,
+  closeParticipantIntervals,
+  getMeetingAttendance,
+};
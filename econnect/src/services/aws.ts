@@ -1,67 +1,78 @@
-import AWS from 'aws-sdk';
-import { v4 as uuidv4 } from 'uuid' ;
-import { firestore } from './firebase';
-import { doc, addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import {
+  firestore,
+  createRecordingUploadUrl,
+  createRecordingDownloadUrl,
+  createRecordingDeleteUrl,
+} from './firebase';
+import { deleteDoc, doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { Recording } from '../types';
 
-// AWS Configuration
-AWS.config.update({
-  accessKeyId: process.env.REACT_APP_AWS_ACCESS_KEY_ID,
-  secretAccessKey: process.env.REACT_APP_AWS_SECRET_ACCESS_KEY,
-  region: process.env.REACT_APP_AWS_REGION || 'us-east-1',
-});
+// S3 credentials live only in the recording storage Cloud Functions. The browser
+// asks them for short-lived pre-signed URLs and talks to the bucket with those.
 
-const s3 = new AWS.S3();
-const bucketName = process.env.REACT_APP_AWS_S3_BUCKET_NAME || 'econnect-recordings';
+export interface UploadedRecording {
+  recordingId: string;
+  key: string;
+  url: string;
+}
 
-// Upload recording to S3
+// Details the uploader probes from the file; the file key itself is set by the backend
+export type RecordingDetails = Partial<
+  Pick<Recording, 'title' | 'startTime' | 'endTime' | 'duration' | 'fileSize' | 'fileType'>
+>;
+
+// Upload recording to S3 under recordings/{user}/{event}/{meeting}/. The backend
+// creates the recording document along with the upload URL; it's removed again
+// if the upload fails.
 const uploadRecording = async (
   file: File,
-  userId: string,
   eventId: string,
   meetingId: string
-): Promise<string> => {
+): Promise<UploadedRecording> => {
   try {
-    const fileExtension = file.name.split('.').pop();
-    const fileName = `recordings/${userId}/${eventId}/${meetingId}/${uuidv4()}.${fileExtension}`;
+    const contentType = file.type || 'video/mp4';
+    const { data } = await createRecordingUploadUrl({
+      eventId,
+      meetingId,
+      fileName: file.name,
+      contentType,
+    });
+
+    const response = await fetch(data.uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      body: file,
+    });
 
-    const params = {
-      Bucket: bucketName,
-      Key: fileName,
-      Body: file,
-      ContentType: file.type,
-      ACL: 'private',
-    };
+    if (!response.ok) {
+      await deleteDoc(doc(firestore, 'recordings', data.recordingId)).catch((cleanupError) =>
+        console.error('Error removing unfinished recording:', cleanupError)
+      );
+      throw new Error(`Upload failed with status ${response.status}`);
+    }
 
-    const uploadResult = await s3.upload(params).promise();
-    return uploadResult.Location;
+    return { recordingId: data.recordingId, key: data.key, url: data.url };
   } catch (error) {
     console.error('Error uploading recording to S3:', error);
     throw error;
   }
 };
 
-// Save recording metadata to Firestore
+// Save the probed details of an uploaded recording
 const saveRecordingMetadata = async (
-  userId: string,
-  eventId: string,
-  meetingId: string,
-  url: string,
-  duration: number,
-  title: string
-) => {
+  recordingId: string,
+  details: RecordingDetails
+): Promise<void> => {
   try {
-    const recordingData = {
-      userId,
-      eventId,
-      meetingId,
-      url,
-      duration,
-      title,
-      startTime: new Date(),
-      createdAt: serverTimestamp(),
-    };
+    // Firestore rejects undefined values, so drop optional fields that weren't probed
+    const recordingData = Object.fromEntries(
+      Object.entries(details).filter(([, value]) => value !== undefined)
+    );
 
-    await addDoc(collection(firestore, 'recordings'), recordingData);
+    await updateDoc(doc(firestore, 'recordings', recordingId), {
+      ...recordingData,
+      updatedAt: serverTimestamp(),
+    });
   } catch (error) {
     console.error('Error saving recording metadata:', error);
     throw error;
@@ -69,15 +80,10 @@ const saveRecordingMetadata = async (
 };
 
 // Get pre-signed URL for downloading a recording
-const getRecordingDownloadUrl = async (key: string): Promise<string> => {
+const getRecordingDownloadUrl = async (recordingId: string): Promise<string> => {
   try {
-    const params = {
-      Bucket: bucketName,
-      Key: key,
-      Expires: 3600, // URL expires in 1 hour
-    };
-
-    return s3.getSignedUrlPromise('getObject', params);
+    const { data } = await createRecordingDownloadUrl({ recordingId });
+    return data.downloadUrl;
   } catch (error) {
     console.error('Error generating pre-signed URL:', error);
     throw error;
@@ -85,40 +91,23 @@ const getRecordingDownloadUrl = async (key: string): Promise<string> => {
 };
 
 // Delete recording from S3
-const deleteRecording = async (key: string): Promise<void> => {
+const deleteRecording = async (recordingId: string): Promise<void> => {
   try {
-    const params = {
-      Bucket: bucketName,
-      Key: key,
-    };
+    const { data } = await createRecordingDeleteUrl({ recordingId });
+    const response = await fetch(data.deleteUrl, { method: 'DELETE' });
 
-    await s3.deleteObject(params).promise();
+    if (!response.ok) {
+      throw new Error(`Delete failed with status ${response.status}`);
+    }
   } catch (error) {
     console.error('Error deleting recording from S3:', error);
     throw error;
   }
 };
 
-// List recordings for a user
-const listUserRecordings = async (userId: string, prefix: string = ''): Promise<AWS.S3.ObjectList> => {
-  try {
-    const params = {
-      Bucket: bucketName,
-      Prefix: `recordings/${userId}/${prefix}`,
-    };
-
-    const listResult = await s3.listObjectsV2(params).promise();
-    return listResult.Contents || [];
-  } catch (error) {
-    console.error('Error listing user recordings:', error);
-    throw error;
-  }
-};
-
 export {
   uploadRecording,
   saveRecordingMetadata,
   getRecordingDownloadUrl,
   deleteRecording,
-  listUserRecordings,
 };
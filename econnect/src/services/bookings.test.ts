@@ -0,0 +1,127 @@
+import { generateSlots } from './bookings';
+import { Service } from '../types';
+
+jest.mock('./firebase', () => ({ bookServiceSlot: jest.fn() }));
+
+const service = (availability: Partial<Service['availability']> = {}) => ({
+  id: 's1',
+  providerId: 'provider',
+  availability: {
+    days: ['Monday'],
+    startTime: '09:00',
+    endTime: '12:00',
+    timeZone: 'Europe/Berlin',
+    slotMinutes: 45,
+    bufferMinutes: 15,
+    ...availability,
+  },
+});
+
+const starts = (slots: { startTime: Date }[]) => slots.map((slot) => slot.startTime.toISOString());
+
+describe('generateSlots', () => {
+  // 2030-01-07 is a Monday; Berlin is UTC+1 in winter
+  const from = new Date('2030-01-07T00:00:00Z');
+  const to = new Date('2030-01-08T00:00:00Z');
+
+  it('splits the hours into slots with a buffer between them, in the provider zone', () => {
+    const slots = generateSlots(service(), from, to);
+    expect(starts(slots)).toEqual([
+      '2030-01-07T08:00:00.000Z',
+      '2030-01-07T09:00:00.000Z',
+      '2030-01-07T10:00:00.000Z',
+    ]);
+    expect(slots[0]).toEqual({
+      id: `provider_${Date.parse('2030-01-07T08:00:00Z')}`,
+      startTime: new Date('2030-01-07T08:00:00Z'),
+      endTime: new Date('2030-01-07T08:45:00Z'),
+    });
+  });
+
+  it('leaves out slots that clash with a booking, buffer included', () => {
+    const booked = [
+      { startTime: new Date('2030-01-07T08:30:00Z'), endTime: new Date('2030-01-07T09:30:00Z') },
+    ];
+    const slots = generateSlots(service(), from, to, booked);
+    expect(starts(slots)).toEqual(['2030-01-07T10:00:00.000Z']);
+  });
+
+  it('runs overnight hours past midnight, including those that began the day before', () => {
+    const overnight = service({
+      startTime: '22:00',
+      endTime: '02:00',
+      timeZone: 'UTC',
+      slotMinutes: 60,
+      bufferMinutes: 0,
+    });
+    expect(starts(generateSlots(overnight, from, new Date('2030-01-08T12:00:00Z')))).toEqual([
+      '2030-01-07T22:00:00.000Z',
+      '2030-01-07T23:00:00.000Z',
+      '2030-01-08T00:00:00.000Z',
+      '2030-01-08T01:00:00.000Z',
+    ]);
+    const tuesday = new Date('2030-01-08T00:00:00Z');
+    expect(starts(generateSlots(overnight, tuesday, new Date('2030-01-08T12:00:00Z')))).toEqual([
+      '2030-01-08T00:00:00.000Z',
+      '2030-01-08T01:00:00.000Z',
+    ]);
+  });
+
+  it('keeps local times across daylight saving and skips starts the clock jumps over', () => {
+    // New York springs forward from 02:00 to 03:00 on Sunday 2030-03-10
+    const springDay = service({
+      days: ['Sunday'],
+      startTime: '01:00',
+      endTime: '04:00',
+      timeZone: 'America/New_York',
+      slotMinutes: 60,
+      bufferMinutes: 0,
+    });
+    const slots = generateSlots(
+      springDay,
+      new Date('2030-03-10T00:00:00Z'),
+      new Date('2030-03-11T00:00:00Z')
+    );
+    expect(starts(slots)).toEqual(['2030-03-10T06:00:00.000Z', '2030-03-10T07:00:00.000Z']);
+    expect(slots.map((slot) => slot.endTime.getTime() - slot.startTime.getTime())).toEqual([
+      3600000, 3600000,
+    ]);
+
+    // Mondays at 09:00 Berlin are 08:00 UTC in winter and 07:00 UTC in summer
+    const summer = generateSlots(
+      service(),
+      new Date('2030-07-01T00:00:00Z'),
+      new Date('2030-07-02T00:00:00Z')
+    );
+    expect(starts(summer)[0]).toBe('2030-07-01T07:00:00.000Z');
+  });
+
+  it('gives every slot its full length when the clocks fall back during it', () => {
+    // New York falls back from 02:00 to 01:00 on Sunday 2030-11-03
+    const fallDay = service({
+      days: ['Sunday'],
+      startTime: '00:00',
+      endTime: '03:00',
+      timeZone: 'America/New_York',
+      slotMinutes: 90,
+      bufferMinutes: 0,
+    });
+    const slots = generateSlots(
+      fallDay,
+      new Date('2030-11-03T00:00:00Z'),
+      new Date('2030-11-04T00:00:00Z')
+    );
+    expect(starts(slots)[0]).toBe('2030-11-03T04:00:00.000Z');
+    slots.forEach((slot) => {
+      expect(slot.endTime.getTime() - slot.startTime.getTime()).toBe(90 * 60000);
+    });
+    slots.slice(1).forEach((slot, index) => {
+      expect(slot.startTime.getTime()).toBeGreaterThanOrEqual(slots[index].endTime.getTime());
+    });
+  });
+
+  it('offers nothing when the hours or days are unreadable', () => {
+    expect(generateSlots(service({ startTime: 'soon' }), from, to)).toEqual([]);
+    expect(generateSlots(service({ days: [] }), from, to)).toEqual([]);
+  });
+});
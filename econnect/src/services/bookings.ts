@@ -0,0 +1,163 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import { FirebaseError } from 'firebase/app';
+import { bookServiceSlot as bookServiceSlotFunction } from './firebase';
+import {
+  fromZonedTime,
+  getLocalTimeZone,
+  parseTimeOfDay,
+  resolveTimeZone,
+  toZonedTime,
+} from './timeZones';
+import { BookingSlot, Service, ServiceBooking } from '../types';
+import { AppError } from './errors';
+
+const DEFAULT_SLOT_MINUTES = 60;
+const DEFAULT_BUFFER_MINUTES = 0;
+// Choices offered to providers when they set up a service
+const SLOT_MINUTE_OPTIONS = [15, 30, 45, 60, 90, 120];
+const BUFFER_MINUTE_OPTIONS = [0, 5, 10, 15, 30, 60];
+
+const DAY_MINUTES = 24 * 60;
+
+// Thrown when a slot was claimed by someone else, or is no longer offered,
+// before the booking went through
+export class SlotUnavailableError extends AppError {
+  readonly slotId: string;
+
+  constructor(slotId: string) {
+    super('SlotUnavailableError', `Slot ${slotId} is no longer available`);
+    this.slotId = slotId;
+  }
+}
+
+type BookedTime = Pick<ServiceBooking, 'startTime' | 'endTime'>;
+type BookableService = Pick<Service, 'id' | 'providerId' | 'availability'>;
+
+// serviceBookings document ID for a session of the provider starting at start
+const bookingIdFor = (providerId: string, start: Date): string =>
+  `${providerId}_${start.getTime()}`;
+
+const slotSettings = (availability: Service['availability']) => ({
+  slotMinutes: availability.slotMinutes || DEFAULT_SLOT_MINUTES,
+  bufferMinutes: availability.bufferMinutes ?? DEFAULT_BUFFER_MINUTES,
+});
+
+const minutesOfDay = (time: string): number | null => {
+  const parsed = parseTimeOfDay(time);
+  if (!parsed) return null;
+  const [hours, minutes] = parsed.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether a slot clashes with a booked time, keeping the buffer free after
+// whichever of the two comes first
+const overlapsBooking = (slot: BookedTime, booked: BookedTime, bufferMinutes: number): boolean => {
+  const buffer = bufferMinutes * 60000;
+  return (
+    slot.startTime.getTime() < booked.endTime.getTime() + buffer &&
+    booked.startTime.getTime() < slot.endTime.getTime() + buffer
+  );
+};
+
+// Expand a service's availability into the bookable slots that fit between
+// from and to, leaving out any that clash with booked times. Days and hours
+// are read in the provider's zone, so slots keep their local time across
+// daylight saving changes, and starts that the zone's clock skips that day
+// are left out; hours that end before they start run past midnight. Every
+// slot lasts slotMinutes, even when the clocks change during it. The
+// bookServiceSlot function lays slots out the same way.
+const generateSlots = (
+  service: BookableService,
+  from: Date,
+  to: Date,
+  booked: BookedTime[] = []
+): BookingSlot[] => {
+  const { days, startTime, endTime } = service.availability;
+  const { slotMinutes, bufferMinutes } = slotSettings(service.availability);
+  const timeZone = resolveTimeZone(service.availability.timeZone);
+  const open = minutesOfDay(startTime);
+  const close = minutesOfDay(endTime);
+  if (open === null || close === null || days.length === 0) return [];
+  const closeAfterOpen = close > open ? close : close + DAY_MINUTES;
+
+  const slots: BookingSlot[] = [];
+  const lastDay = toZonedTime(to, timeZone);
+  // Start a day early to catch overnight hours that began the day before
+  for (
+    let day = addDays(startOfDay(toZonedTime(from, timeZone)), -1);
+    day <= lastDay;
+    day = addDays(day, 1)
+  ) {
+    if (!days.includes(format(day, 'EEEE'))) continue;
+
+    const wallTime = (minute: number) =>
+      fromZonedTime(
+        new TZDate(day.getFullYear(), day.getMonth(), day.getDate(), 0, minute, timeZone),
+        timeZone
+      );
+    for (
+      let minute = open;
+      minute + slotMinutes <= closeAfterOpen;
+      minute += slotMinutes + bufferMinutes
+    ) {
+      const slotStart = wallTime(minute);
+      const shown = toZonedTime(slotStart, timeZone);
+      if (shown.getHours() * 60 + shown.getMinutes() !== minute % DAY_MINUTES) continue;
+
+      const slotEnd = new Date(slotStart.getTime() + slotMinutes * 60000);
+      if (slotStart < from || slotEnd > to) continue;
+
+      const slot = {
+        id: bookingIdFor(service.providerId, slotStart),
+        startTime: slotStart,
+        endTime: slotEnd,
+      };
+      if (!booked.some((time) => overlapsBooking(slot, time, bufferMinutes))) {
+        slots.push(slot);
+      }
+    }
+  }
+  return slots;
+};
+
+// Errors from the bookServiceSlot function that mean the slot is gone
+const SLOT_UNAVAILABLE_CODES = ['functions/already-exists', 'functions/failed-precondition'];
+
+// Request a service for one of its slots. The bookServiceSlot function
+// checks the slot is still offered and doesn't clash with any of the
+// provider's bookings, then writes the request and its booking together;
+// if it's been taken or withdrawn, this fails with a SlotUnavailableError.
+// Returns the new request's ID.
+const bookServiceSlot = async (
+  service: Pick<Service, 'id' | 'providerId'>,
+  slot: BookedTime,
+  message?: string
+): Promise<string> => {
+  try {
+    const { data } = await bookServiceSlotFunction({
+      serviceId: service.id,
+      startTime: slot.startTime.getTime(),
+      timeZone: getLocalTimeZone(),
+      ...(message ? { message } : {}),
+    });
+    return data.requestId;
+  } catch (error) {
+    console.error('Error booking service slot:', error);
+    if (error instanceof FirebaseError && SLOT_UNAVAILABLE_CODES.includes(error.code)) {
+      throw new SlotUnavailableError(bookingIdFor(service.providerId, slot.startTime));
+    }
+    throw error;
+  }
+};
+
+export {
+  DEFAULT_SLOT_MINUTES,
+  DEFAULT_BUFFER_MINUTES,
+  SLOT_MINUTE_OPTIONS,
+  BUFFER_MINUTE_OPTIONS,
+  bookingIdFor,
+  overlapsBooking,
+  generateSlots,
+  bookServiceSlot,
+};
@@ -0,0 +1,43 @@
+import { exportEventCalendar, getCalendarFeedUrl } from './firebase';
+import { downloadBlob } from './analyticsExport';
+import { getLocalTimeZone } from './timeZones';
+
+// Calendar files are generated by the calendar Cloud Functions, which know
+// every attendee's email address; the browser only saves or links to them.
+
+// Download an event as an .ics file for importing into a calendar app, with
+// times written in the given zone (the browser's by default)
+const downloadEventCalendar = async (
+  eventId: string,
+  timeZone: string = getLocalTimeZone()
+): Promise<void> => {
+  try {
+    const { data } = await exportEventCalendar({ eventId, timeZone });
+    downloadBlob(new Blob([data.ics], { type: 'text/calendar;charset=utf-8' }), data.fileName);
+  } catch (error) {
+    console.error('Error exporting event calendar:', error);
+    throw error;
+  }
+};
+
+// The user's private calendar feed URL. Resetting issues a new URL and stops
+// the old one from working.
+const getCalendarFeed = async (
+  reset = false,
+  timeZone: string = getLocalTimeZone()
+): Promise<string> => {
+  try {
+    const { data } = await getCalendarFeedUrl({ reset });
+    const url = new URL(data.url);
+    url.searchParams.set('tz', timeZone);
+    return url.toString();
+  } catch (error) {
+    console.error('Error getting calendar feed:', error);
+    throw error;
+  }
+};
+
+// webcal:// links open straight in the system calendar app as a subscription
+const toWebcalUrl = (url: string): string => url.replace(/^https?:\/\//, 'webcal://');
+
+export { downloadEventCalendar, getCalendarFeed, toWebcalUrl };
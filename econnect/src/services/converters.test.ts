@@ -0,0 +1,122 @@
+import { QueryDocumentSnapshot, Timestamp } from 'firebase/firestore';
+import { createConverter, createFieldReader, DocumentValidationError } from './converters';
+
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+const read = (data: Record<string, unknown>) => createFieldReader(data, 'events/e1');
+
+// The error a read throws, so its details can be checked
+const errorOf = (readField: () => unknown): DocumentValidationError => {
+  try {
+    readField();
+  } catch (error) {
+    if (error instanceof DocumentValidationError) return error;
+    throw error;
+  }
+  throw new Error('Expected the read to fail');
+};
+
+describe('createFieldReader', () => {
+  it('reads fields of the expected type', () => {
+    const reader = read({
+      title: 'Standup',
+      capacity: 10,
+      isPublic: true,
+      startTime: timestamp('2030-01-07T09:00:00Z'),
+      endTime: '2030-01-07T10:00:00Z',
+      status: 'cancelled',
+      tags: ['a', 'b'],
+    });
+    expect(reader.string('title')).toBe('Standup');
+    expect(reader.number('capacity')).toBe(10);
+    expect(reader.boolean('isPublic')).toBe(true);
+    expect(reader.date('startTime')).toEqual(new Date('2030-01-07T09:00:00Z'));
+    expect(reader.date('endTime')).toEqual(new Date('2030-01-07T10:00:00Z'));
+    expect(reader.oneOf('status', ['scheduled', 'cancelled'] as const)).toBe('cancelled');
+    expect(reader.stringArray('tags')).toEqual(['a', 'b']);
+  });
+
+  it('falls back only for missing fields', () => {
+    const reader = read({ description: null, title: 5 });
+    expect(reader.string('description', '')).toBe('');
+    expect(reader.optionalString('missing')).toBeUndefined();
+    expect(reader.optionalDate('description')).toBeUndefined();
+    expect(reader.stringArray('missing')).toEqual([]);
+    expect(() => reader.string('title', 'Untitled')).toThrow(DocumentValidationError);
+  });
+
+  it('names the document, field and expectation when a field is wrong', () => {
+    const error = errorOf(() => read({ capacity: '10' }).number('capacity'));
+    expect(error).toMatchObject({
+      name: 'DocumentValidationError',
+      path: 'events/e1',
+      field: 'capacity',
+      expected: 'a number',
+      received: '10',
+    });
+    expect(error.message).toBe('Invalid document events/e1: "capacity" should be a number');
+  });
+
+  it('reads SDK timestamps and rejects look-alikes that give no date', () => {
+    const reader = read({
+      startTime: Timestamp.fromDate(new Date('2030-01-07T09:00:00Z')),
+      endTime: { toDate: () => 'soon' },
+    });
+    expect(reader.date('startTime')).toEqual(new Date('2030-01-07T09:00:00Z'));
+    expect(() => reader.date('endTime')).toThrow('a timestamp');
+  });
+
+  it('rejects values outside the allowed set and malformed dates and lists', () => {
+    const reader = read({ status: 'paused', startTime: 'soon', tags: ['a', 1] });
+    expect(() => reader.oneOf('status', ['scheduled', 'cancelled'] as const)).toThrow(
+      'one of scheduled, cancelled'
+    );
+    expect(() => reader.date('startTime')).toThrow('a timestamp');
+    expect(() => reader.stringArray('tags')).toThrow('a list of strings');
+    expect(() => reader.number('missing')).toThrow(DocumentValidationError);
+  });
+
+  it('reads user IDs from older participant objects', () => {
+    const reader = read({ participants: ['alice', { userId: 'bob' }], broken: [{ name: 'x' }] });
+    expect(reader.userIdArray('participants')).toEqual(['alice', 'bob']);
+    expect(() => reader.userIdArray('broken')).toThrow('a list of user IDs');
+  });
+
+  it('prefixes nested fields in errors', () => {
+    const reader = read({
+      availability: { days: 'Monday' },
+      slots: [{ start: 1 }],
+      breaks: [{ start: '12:00' }, 'x'],
+    });
+    expect(errorOf(() => reader.object('availability').stringArray('days')).field).toBe(
+      'availability.days'
+    );
+    expect(errorOf(() => reader.objectArray('slots')[0].string('start')).field).toBe(
+      'slots[0].start'
+    );
+    expect(errorOf(() => reader.objectArray('breaks')).field).toBe('breaks[1]');
+  });
+});
+
+describe('createConverter', () => {
+  const converter = createConverter<{ id: string; title: string; note?: string }>(
+    (id, reader) => ({ id, title: reader.string('title'), note: reader.optionalString('note') })
+  );
+
+  it('writes the model without its id or undefined fields', () => {
+    expect(converter.toFirestore({ id: 'e1', title: 'Standup', note: undefined })).toEqual({
+      title: 'Standup',
+    });
+  });
+
+  it('parses snapshots with estimated server timestamps', () => {
+    const data = jest.fn(() => ({ title: 'Standup' }));
+    const snapshot = { id: 'e1', ref: { path: 'events/e1' }, data };
+    expect(converter.fromFirestore(snapshot as unknown as QueryDocumentSnapshot)).toEqual({
+      id: 'e1',
+      title: 'Standup',
+      note: undefined,
+    });
+    expect(data).toHaveBeenCalledWith({ serverTimestamps: 'estimate' });
+  });
+});
@@ -0,0 +1,503 @@
+import {
+  DocumentData,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  Timestamp,
+  WithFieldValue,
+} from 'firebase/firestore';
+import {
+  User,
+  UserRole,
+  Event,
+  EventStatus,
+  EventAuditAction,
+  EventAuditEntry,
+  EventMemberRole,
+  EventMembership,
+  Meeting,
+  MeetingMembership,
+  MeetingStatus,
+  OccurrenceRoomMode,
+  JitsiRecordingMode,
+  AttendanceInterval,
+  Recording,
+  MeetingAnalytics,
+  ParticipantAnalytics,
+  VirtualTable,
+  Service,
+  ServiceRequest,
+  ServiceBooking,
+  ServiceReview,
+} from '../types';
+import { isValidTimeZone, parseTimeOfDay } from './timeZones';
+import { AppError } from './errors';
+
+// Thrown when a Firestore document doesn't match the shape its type expects.
+// Carries the document path and field so the bad data can be tracked down.
+export class DocumentValidationError extends AppError {
+  readonly path: string;
+  readonly field: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(path: string, field: string, expected: string, received: unknown) {
+    super('DocumentValidationError', `Invalid document ${path}: "${field}" should be ${expected}`);
+    this.path = path;
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// Something with a toDate method, like a Timestamp from another copy of the SDK
+const hasToDate = (value: unknown): value is { toDate: () => unknown } =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as { toDate?: unknown }).toDate === 'function';
+
+// Convert a Firestore Timestamp, Date, ISO string or epoch millis to a Date
+const convertTimestamp = (timestamp: unknown): Date | undefined => {
+  if (!timestamp) return undefined;
+  if (timestamp instanceof Timestamp) return timestamp.toDate();
+  if (timestamp instanceof Date) return timestamp;
+  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (hasToDate(timestamp)) {
+    const date = timestamp.toDate();
+    return date instanceof Date ? date : undefined;
+  }
+  return undefined;
+};
+
+const isPlainObject = (value: unknown): value is DocumentData =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !convertTimestamp(value);
+
+// Missing and null fields are treated alike; a fallback only applies to them,
+// never to a field that is present with the wrong type.
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+export interface FieldReader {
+  string: (field: string, fallback?: string) => string;
+  optionalString: (field: string) => string | undefined;
+  number: (field: string, fallback?: number) => number;
+  optionalNumber: (field: string) => number | undefined;
+  boolean: (field: string, fallback?: boolean) => boolean;
+  date: (field: string, fallback?: Date) => Date;
+  optionalDate: (field: string) => Date | undefined;
+  oneOf: <V extends string>(field: string, values: readonly V[], fallback?: V) => V;
+  optionalOneOf: <V extends string>(field: string, values: readonly V[]) => V | undefined;
+  stringArray: (field: string) => string[];
+  userIdArray: (field: string) => string[];
+  object: (field: string) => FieldReader;
+  objectArray: (field: string) => FieldReader[];
+}
+
+// Typed accessors over a document's data that throw DocumentValidationError
+// on the first field that doesn't match
+const createFieldReader = (data: DocumentData, path: string, prefix = ''): FieldReader => {
+  const fail = (field: string, expected: string): never => {
+    throw new DocumentValidationError(path, `${prefix}${field}`, expected, data[field]);
+  };
+
+  const reader: FieldReader = {
+    string: (field, fallback) => {
+      const value = data[field];
+      if (typeof value === 'string') return value;
+      return isMissing(value) && fallback !== undefined ? fallback : fail(field, 'a string');
+    },
+    optionalString: (field) => {
+      const value = data[field];
+      if (isMissing(value)) return undefined;
+      return typeof value === 'string' ? value : fail(field, 'a string');
+    },
+    number: (field, fallback) => {
+      const value = data[field];
+      if (typeof value === 'number' && !isNaN(value)) return value;
+      return isMissing(value) && fallback !== undefined ? fallback : fail(field, 'a number');
+    },
+    optionalNumber: (field) => {
+      const value = data[field];
+      if (isMissing(value)) return undefined;
+      return typeof value === 'number' && !isNaN(value) ? value : fail(field, 'a number');
+    },
+    boolean: (field, fallback) => {
+      const value = data[field];
+      if (typeof value === 'boolean') return value;
+      return isMissing(value) && fallback !== undefined ? fallback : fail(field, 'a boolean');
+    },
+    date: (field, fallback) => {
+      const value = data[field];
+      const date = convertTimestamp(value);
+      if (date) return date;
+      return isMissing(value) && fallback !== undefined ? fallback : fail(field, 'a timestamp');
+    },
+    optionalDate: (field) => {
+      const value = data[field];
+      if (isMissing(value)) return undefined;
+      return convertTimestamp(value) || fail(field, 'a timestamp');
+    },
+    oneOf: (field, values, fallback) => {
+      const value = data[field];
+      if (values.includes(value)) return value;
+      return isMissing(value) && fallback !== undefined
+        ? fallback
+        : fail(field, `one of ${values.join(', ')}`);
+    },
+    optionalOneOf: (field, values) => {
+      const value = data[field];
+      if (isMissing(value)) return undefined;
+      return values.includes(value) ? value : fail(field, `one of ${values.join(', ')}`);
+    },
+    stringArray: (field) => {
+      const value = data[field];
+      if (isMissing(value)) return [];
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? value
+        : fail(field, 'a list of strings');
+    },
+    // Older documents stored participant objects rather than user IDs
+    userIdArray: (field) => {
+      const value = data[field];
+      if (isMissing(value)) return [];
+      if (!Array.isArray(value)) return fail(field, 'a list of user IDs');
+      return value.map((item) => {
+        if (typeof item === 'string') return item;
+        if (isPlainObject(item) && typeof item.userId === 'string') return item.userId;
+        return fail(field, 'a list of user IDs');
+      });
+    },
+    object: (field) => {
+      const value = data[field];
+      return isPlainObject(value)
+        ? createFieldReader(value, path, `${prefix}${field}.`)
+        : fail(field, 'an object');
+    },
+    objectArray: (field) => {
+      const value = data[field];
+      if (isMissing(value)) return [];
+      if (!Array.isArray(value)) return fail(field, 'a list');
+      return value.map((item, index) =>
+        isPlainObject(item)
+          ? createFieldReader(item, path, `${prefix}${field}[${index}].`)
+          : fail(`${field}[${index}]`, 'an object')
+      );
+    },
+  };
+
+  return reader;
+};
+
+// An IANA time zone field. Unknown zones are dropped so callers fall back
+// to the viewer's zone instead of failing to format.
+const readTimeZone = (read: FieldReader, field: string): string | undefined => {
+  const timeZone = read.optionalString(field);
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+};
+
+// Build a converter from a parse function. Reads estimate pending server
+// timestamps so freshly written documents parse before the server confirms
+// them. Writes pass the model through without its id or any undefined
+// fields, which Firestore rejects.
+const createConverter = <T extends { id: string }>(
+  parse: (id: string, read: FieldReader, snapshot: QueryDocumentSnapshot) => T
+): FirestoreDataConverter<T> => ({
+  toFirestore: (model: WithFieldValue<T> | PartialWithFieldValue<T>): DocumentData => {
+    const { id, ...data } = model as DocumentData;
+    return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): T => {
+    const data = snapshot.data({ serverTimestamps: 'estimate', ...options });
+    return parse(snapshot.id, createFieldReader(data, snapshot.ref.path), snapshot);
+  },
+});
+
+const USER_ROLES: readonly UserRole[] = ['admin', 'user', 'service-provider'];
+const EVENT_STATUSES: readonly EventStatus[] = ['scheduled', 'cancelled'];
+const EVENT_AUDIT_ACTIONS: readonly EventAuditAction[] = [
+  'updated',
+  'cancelled',
+  'host-transferred',
+  'co-host-added',
+  'co-host-removed',
+  'participant-removed',
+];
+const EVENT_MEMBER_ROLES: readonly EventMemberRole[] = ['host', 'participant'];
+const MEETING_STATUSES: readonly MeetingStatus[] = ['scheduled', 'live', 'ended', 'cancelled'];
+const ROOM_MODES: readonly OccurrenceRoomMode[] = ['shared', 'per-occurrence'];
+const PARTICIPANT_ROLES = ['moderator', 'viewer'] as const;
+const RECORDING_MODES: readonly JitsiRecordingMode[] = ['file', 'stream'];
+const REQUEST_STATUSES: readonly ServiceRequest['status'][] = [
+  'pending',
+  'accepted',
+  'rejected',
+  'completed',
+];
+
+const userConverter = createConverter<User>((id, read) => ({
+  id,
+  email: read.string('email', ''),
+  displayName: read.string('displayName'),
+  photoURL: read.optionalString('photoURL'),
+  role: read.oneOf('role', USER_ROLES, 'user'),
+  timeZone: readTimeZone(read, 'timeZone'),
+  createdAt: read.date('createdAt', new Date()),
+  updatedAt: read.date('updatedAt', new Date()),
+}));
+
+const eventConverter = createConverter<Event>((id, read) => ({
+  id,
+  title: read.string('title'),
+  description: read.string('description', ''),
+  startTime: read.date('startTime'),
+  endTime: read.date('endTime'),
+  timeZone: readTimeZone(read, 'timeZone'),
+  createdBy: read.string('createdBy'),
+  coHosts: read.stringArray('coHosts'),
+  status: read.oneOf('status', EVENT_STATUSES, 'scheduled'),
+  cancelledAt: read.optionalDate('cancelledAt') || null,
+  cancellationReason: read.optionalString('cancellationReason') || null,
+  isPublic: read.boolean('isPublic', false),
+  maxParticipants: read.optionalNumber('maxParticipants'),
+  participants: read.userIdArray('participants'),
+  waitlist: read.stringArray('waitlist'),
+  jitsiRoomName: read.string('jitsiRoomName', ''),
+  activeMeetingId: read.optionalString('activeMeetingId') || null,
+  isLive: read.boolean('isLive', false),
+  sessionCount: read.optionalNumber('sessionCount'),
+  recurrence: read.optionalString('recurrence') || null,
+  recurrenceEndTime: read.optionalDate('recurrenceEndTime') || null,
+  endsAt: read.optionalDate('endsAt') || null,
+  roomMode: read.optionalOneOf('roomMode', ROOM_MODES),
+  createdAt: read.date('createdAt', new Date()),
+  updatedAt: read.date('updatedAt', new Date()),
+}));
+
+const meetingConverter = createConverter<Meeting>((id, read) => {
+  const endTime = read.optionalDate('endTime');
+  return {
+    id,
+    eventId: read.string('eventId'),
+    sessionNumber: read.number('sessionNumber', 1),
+    status: read.oneOf('status', MEETING_STATUSES, endTime ? 'ended' : 'scheduled'),
+    title: read.string('title', ''),
+    description: read.optionalString('description'),
+    startTime: read.date('startTime', new Date()),
+    endTime,
+    scheduledEndTime: read.optionalDate('scheduledEndTime'),
+    occurrenceStart: read.optionalDate('occurrenceStart'),
+    startedAt: read.optionalDate('startedAt'),
+    hostId: read.string('hostId'),
+    participants: read.userIdArray('participants'),
+    jitsiRoomName: read.string('jitsiRoomName', ''),
+    recordingEnabled: read.boolean('recordingEnabled', false),
+    recordingMode: read.optionalOneOf('recordingMode', RECORDING_MODES),
+    recordingStarted: read.optionalDate('recordingStarted'),
+    recordingEnded: read.optionalDate('recordingEnded'),
+    recordingUrl: read.optionalString('recordingUrl'),
+    createdAt: read.date('createdAt', new Date()),
+    updatedAt: read.date('updatedAt', new Date()),
+  };
+});
+
+const eventMembershipConverter = createConverter<EventMembership>((id, read) => {
+  const endTime = read.date('endTime');
+  return {
+    id,
+    eventId: read.string('eventId'),
+    userId: read.string('userId'),
+    role: read.oneOf('role', EVENT_MEMBER_ROLES, 'participant'),
+    title: read.string('title', ''),
+    description: read.string('description', ''),
+    startTime: read.date('startTime'),
+    endTime,
+    endsAt: read.optionalDate('endsAt') || endTime,
+    isPublic: read.boolean('isPublic', false),
+    status: read.oneOf('status', EVENT_STATUSES, 'scheduled'),
+    createdBy: read.string('createdBy', ''),
+    updatedAt: read.date('updatedAt', new Date()),
+  };
+});
+
+// Audit entries live under events/{eventId}/auditLog
+const eventAuditConverter = createConverter<EventAuditEntry>((id, read, snapshot) => ({
+  id,
+  eventId: snapshot.ref.parent.parent ? snapshot.ref.parent.parent.id : '',
+  action: read.oneOf('action', EVENT_AUDIT_ACTIONS),
+  actorId: read.string('actorId'),
+  targetUserId: read.optionalString('targetUserId') || null,
+  fields: read.stringArray('fields'),
+  reason: read.optionalString('reason') || null,
+  createdAt: read.date('createdAt', new Date()),
+}));
+
+const meetingMembershipConverter = createConverter<MeetingMembership>((id, read) => ({
+  id,
+  meetingId: read.string('meetingId'),
+  eventId: read.string('eventId', ''),
+  userId: read.string('userId'),
+  title: read.string('title', ''),
+  startTime: read.date('startTime', new Date()),
+  status: read.oneOf('status', MEETING_STATUSES, 'scheduled'),
+  sessionNumber: read.number('sessionNumber', 1),
+  updatedAt: read.date('updatedAt', new Date()),
+}));
+
+// Attendance intervals live under meetings/{meetingId}/attendance
+const attendanceConverter = createConverter<AttendanceInterval>((id, read, snapshot) => {
+  const joinTime = read.date('joinTime', new Date());
+  return {
+    id,
+    meetingId: snapshot.ref.parent.parent ? snapshot.ref.parent.parent.id : '',
+    userId: read.string('userId'),
+    displayName: read.string('displayName', ''),
+    role: read.oneOf('role', PARTICIPANT_ROLES, 'viewer'),
+    jitsiParticipantId: read.optionalString('jitsiParticipantId'),
+    joinTime,
+    leaveTime: read.optionalDate('leaveTime'),
+    lastSeen: read.date('lastSeen', joinTime),
+  };
+});
+
+const recordingConverter = createConverter<Recording>((id, read) => ({
+  id,
+  meetingId: read.string('meetingId'),
+  eventId: read.string('eventId'),
+  ownerId: read.string('ownerId'),
+  title: read.optionalString('title'),
+  startTime: read.date('startTime'),
+  endTime: read.optionalDate('endTime'),
+  duration: read.optionalNumber('duration'),
+  fileSize: read.optionalNumber('fileSize'),
+  fileType: read.string('fileType', ''),
+  url: read.string('url', ''),
+  s3Key: read.string('s3Key'),
+  createdAt: read.date('createdAt', new Date()),
+  updatedAt: read.date('updatedAt', new Date()),
+}));
+
+const toParticipantAnalytics = (read: FieldReader): ParticipantAnalytics => ({
+  userId: read.string('userId'),
+  displayName: read.string('displayName', ''),
+  joinTime: read.date('joinTime'),
+  leaveTime: read.optionalDate('leaveTime'),
+  duration: read.optionalNumber('duration'),
+  intervalCount: read.optionalNumber('intervalCount'),
+  role: read.oneOf('role', PARTICIPANT_ROLES, 'viewer'),
+});
+
+const meetingAnalyticsConverter = createConverter<MeetingAnalytics>((id, read) => ({
+  id,
+  meetingId: read.string('meetingId', id),
+  eventId: read.string('eventId'),
+  title: read.optionalString('title'),
+  hostId: read.string('hostId'),
+  participantCount: read.number('participantCount', 0),
+  averageDuration: read.number('averageDuration', 0),
+  peakParticipants: read.number('peakParticipants', 0),
+  startTime: read.date('startTime'),
+  endTime: read.date('endTime'),
+  participants: read.objectArray('participants').map(toParticipantAnalytics),
+  createdAt: read.date('createdAt', new Date()),
+  updatedAt: read.date('updatedAt', new Date()),
+}));
+
+const virtualTableConverter = createConverter<VirtualTable>((id, read) => ({
+  id,
+  eventId: read.string('eventId'),
+  name: read.string('name'),
+  capacity: read.number('capacity'),
+  participants: read.stringArray('participants'),
+  createdAt: read.date('createdAt', new Date()),
+  updatedAt: read.date('updatedAt', new Date()),
+}));
+
+const serviceConverter = createConverter<Service>((id, read) => {
+  const availability = read.object('availability');
+  // Older services stored locale times like "09:00 AM"
+  const startTime = availability.string('startTime');
+  const endTime = availability.string('endTime');
+  return {
+    id,
+    providerId: read.string('providerId'),
+    title: read.string('title'),
+    description: read.string('description', ''),
+    category: read.string('category'),
+    price: read.number('price'),
+    currency: read.string('currency'),
+    availability: {
+      days: availability.stringArray('days'),
+      startTime: parseTimeOfDay(startTime) || startTime,
+      endTime: parseTimeOfDay(endTime) || endTime,
+      timeZone: readTimeZone(availability, 'timeZone'),
+      slotMinutes: availability.optionalNumber('slotMinutes'),
+      bufferMinutes: availability.optionalNumber('bufferMinutes'),
+    },
+    isActive: read.boolean('isActive', true),
+    createdAt: read.date('createdAt', new Date()),
+    updatedAt: read.date('updatedAt', new Date()),
+  };
+});
+
+const serviceRequestConverter = createConverter<ServiceRequest>((id, read) => ({
+  id,
+  serviceId: read.string('serviceId'),
+  requesterId: read.string('requesterId'),
+  providerId: read.string('providerId'),
+  status: read.oneOf('status', REQUEST_STATUSES),
+  requestedTime: read.date('requestedTime'),
+  scheduledTime: read.optionalDate('scheduledTime'),
+  scheduledEndTime: read.optionalDate('scheduledEndTime'),
+  bookingId: read.optionalString('bookingId') || null,
+  message: read.optionalString('message'),
+  responseMessage: read.optionalString('responseMessage'),
+  respondedAt: read.optionalDate('respondedAt'),
+  completedAt: read.optionalDate('completedAt'),
+  jitsiRoomName: read.optionalString('jitsiRoomName'),
+  createdAt: read.date('createdAt', new Date()),
+  updatedAt: read.date('updatedAt', new Date()),
+}));
+
+const serviceReviewConverter = createConverter<ServiceReview>((id, read) => ({
+  id,
+  serviceId: read.string('serviceId'),
+  providerId: read.string('providerId'),
+  reviewerId: read.string('reviewerId'),
+  rating: read.number('rating'),
+  comment: read.optionalString('comment'),
+  createdAt: read.date('createdAt', new Date()),
+}));
+
+const serviceBookingConverter = createConverter<ServiceBooking>((id, read) => ({
+  id,
+  serviceId: read.string('serviceId'),
+  providerId: read.string('providerId'),
+  requesterId: read.string('requesterId'),
+  requestId: read.string('requestId'),
+  startTime: read.date('startTime'),
+  endTime: read.date('endTime'),
+  createdAt: read.date('createdAt', new Date()),
+}));
+
+export {
+  convertTimestamp,
+  createFieldReader,
+  createConverter,
+  userConverter,
+  eventConverter,
+  eventMembershipConverter,
+  eventAuditConverter,
+  meetingConverter,
+  meetingMembershipConverter,
+  attendanceConverter,
+  recordingConverter,
+  meetingAnalyticsConverter,
+  virtualTableConverter,
+  serviceConverter,
+  serviceRequestConverter,
+  serviceBookingConverter,
+  serviceReviewConverter,
+};
@@ -0,0 +1,11 @@
+// Base for the errors services throw so callers can tell them apart with
+// instanceof. The name is passed explicitly because minification renames
+// classes, and the prototype is reset because instanceof on Error
+// subclasses breaks when compiled to ES5.
+export class AppError extends Error {
+  constructor(name: string, message: string) {
+    super(message);
+    this.name = name;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
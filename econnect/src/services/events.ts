@@ -0,0 +1,557 @@
+import {
+  collection,
+  doc,
+  arrayRemove,
+  arrayUnion,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+  Transaction,
+  WriteBatch,
+} from 'firebase/firestore';
+import { firestore } from './firebase';
+import { eventsRepository } from './repository';
+import {
+  buildOccurrenceSessions,
+  getEventMeetings,
+  OccurrenceChanges,
+} from './meetings';
+import {
+  RecurrenceError,
+  expandOccurrences,
+  formatRRule,
+  parseRRule,
+  endRuleBefore,
+} from './recurrence';
+import { Event, OccurrenceRoomMode, RecurrenceRule } from '../types';
+
+export type JoinOutcome = 'joined' | 'waitlisted';
+
+export interface NewEvent {
+  title: string;
+  description: string;
+  startTime: Date;
+  endTime: Date;
+  timeZone: string; // IANA zone the times were entered in
+  isPublic: boolean;
+  maxParticipants: number | null;
+}
+
+export type EventChanges = Partial<NewEvent>;
+
+export interface NewSeries {
+  rule: RecurrenceRule;
+  roomMode: OccurrenceRoomMode;
+}
+
+// Generate a unique room name for Jitsi
+const createRoomName = (): string =>
+  `event-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+// Expand a series and queue its event fields and one meeting per occurrence.
+// The first occurrence becomes the event's own start and end. Occurrences
+// repeat in the event's time zone.
+const writeSeries = (
+  batch: WriteBatch,
+  eventId: string,
+  event: Pick<Event, 'title' | 'description' | 'createdBy' | 'jitsiRoomName' | 'timeZone'> &
+    Record<string, unknown>,
+  changes: Pick<OccurrenceChanges, 'startTime' | 'endTime'>,
+  { rule, roomMode }: NewSeries
+) => {
+  const starts = expandOccurrences(rule, changes.startTime, event.timeZone);
+  if (starts.length === 0) {
+    throw new RecurrenceError('The recurrence has no occurrences');
+  }
+
+  const duration = changes.endTime.getTime() - changes.startTime.getTime();
+  const lastEnd = new Date(starts[starts.length - 1].getTime() + duration);
+  batch.set(
+    doc(firestore, 'events', eventId),
+    {
+      ...event,
+      startTime: starts[0],
+      endTime: new Date(starts[0].getTime() + duration),
+      recurrence: formatRRule(rule),
+      recurrenceEndTime: lastEnd,
+      endsAt: lastEnd,
+      roomMode,
+      sessionCount: starts.length,
+      activeMeetingId: null,
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  buildOccurrenceSessions(eventId, { ...event, roomMode }, starts, duration).forEach(
+    ({ id, data }) => batch.set(doc(firestore, 'meetings', id), data)
+  );
+};
+
+// Create an event, with a meeting per occurrence when it recurs. Written in
+// one batch so a series never exists without its occurrences.
+const createEvent = async (
+  input: NewEvent,
+  hostId: string,
+  series: NewSeries | null
+): Promise<string> => {
+  try {
+    const eventRef = doc(collection(firestore, 'events'));
+    const eventData = {
+      ...input,
+      endsAt: input.endTime,
+      createdBy: hostId,
+      coHosts: [],
+      status: 'scheduled',
+      participants: [hostId], // Creator is automatically a participant
+      waitlist: [],
+      jitsiRoomName: createRoomName(),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    const batch = writeBatch(firestore);
+    if (series) {
+      writeSeries(batch, eventRef.id, eventData, input, series);
+    } else {
+      batch.set(eventRef, eventData);
+    }
+    await batch.commit();
+
+    return eventRef.id;
+  } catch (error) {
+    console.error('Error creating event:', error);
+    throw error;
+  }
+};
+
+// Host: change an occurrence and every one after it. Editing from the first
+// occurrence rewrites the series in place; otherwise the series is split, the
+// original ending before this occurrence and a new event (same members, same
+// shared room) carrying the rest. Returns the ID of the event now holding the
+// edited occurrences.
+const updateFollowingOccurrences = async (
+  eventId: string,
+  meetingId: string,
+  changes: OccurrenceChanges,
+  rule: RecurrenceRule
+): Promise<string> => {
+  try {
+    const event = await eventsRepository.get(eventId);
+    if (!event || !event.recurrence) {
+      throw new Error('Recurring event not found');
+    }
+
+    const meetings = await getEventMeetings(eventId);
+    const target = meetings.find((meeting) => meeting.id === meetingId);
+    if (!target || target.status !== 'scheduled') {
+      throw new Error('Only upcoming occurrences can be edited');
+    }
+
+    const following = meetings.filter((meeting) => meeting.sessionNumber >= target.sessionNumber);
+    if (following.some((meeting) => meeting.status === 'live' || meeting.status === 'ended')) {
+      throw new Error('A later occurrence has already started');
+    }
+
+    const batch = writeBatch(firestore);
+    following.forEach((meeting) => batch.delete(doc(firestore, 'meetings', meeting.id)));
+
+    const roomMode = event.roomMode || 'shared';
+    const details = {
+      title: changes.title,
+      description: changes.description,
+      createdBy: event.createdBy,
+      ...(event.timeZone ? { timeZone: event.timeZone } : {}),
+    };
+
+    if (target.sessionNumber === 1) {
+      writeSeries(batch, eventId, { ...details, jitsiRoomName: event.jitsiRoomName }, changes, {
+        rule,
+        roomMode,
+      });
+      await batch.commit();
+      return eventId;
+    }
+
+    const previous = meetings.filter((meeting) => meeting.sessionNumber < target.sessionNumber);
+    const lastKept = previous[previous.length - 1];
+    const keptEnd = lastKept.scheduledEndTime || lastKept.endTime || lastKept.startTime;
+    batch.update(doc(firestore, 'events', eventId), {
+      recurrence: formatRRule(
+        endRuleBefore(parseRRule(event.recurrence), target.occurrenceStart || target.startTime)
+      ),
+      recurrenceEndTime: keptEnd,
+      endsAt: keptEnd,
+      sessionCount: previous.length,
+      ...(following.some((meeting) => meeting.id === event.activeMeetingId)
+        ? { activeMeetingId: null }
+        : {}),
+      updatedAt: serverTimestamp(),
+    });
+
+    const seriesRef = doc(collection(firestore, 'events'));
+    writeSeries(
+      batch,
+      seriesRef.id,
+      {
+        ...details,
+        coHosts: event.coHosts,
+        status: 'scheduled',
+        isPublic: event.isPublic,
+        maxParticipants: event.maxParticipants ?? null,
+        participants: event.participants,
+        waitlist: event.waitlist,
+        jitsiRoomName: roomMode === 'shared' ? event.jitsiRoomName : createRoomName(),
+        createdAt: serverTimestamp(),
+      },
+      changes,
+      { rule, roomMode }
+    );
+    await batch.commit();
+
+    return seriesRef.id;
+  } catch (error) {
+    console.error('Error updating following occurrences:', error);
+    throw error;
+  }
+};
+
+// Whether the event can take one more participant
+const hasOpenSpot = (event: Pick<Event, 'maxParticipants' | 'participants'>): boolean =>
+  !event.maxParticipants || event.participants.length < event.maxParticipants;
+
+// A freed spot goes to the waitlist first, so newcomers only get straight in
+// when nobody is waiting
+const canJoinDirectly = (event: Event): boolean => hasOpenSpot(event) && event.waitlist.length === 0;
+
+// What joining the event would do for this user right now
+const getJoinOutcome = (event: Event, userId: string): JoinOutcome =>
+  event.participants.includes(userId) || (!event.waitlist.includes(userId) && canJoinDirectly(event))
+    ? 'joined'
+    : 'waitlisted';
+
+const readEvent = async (transaction: Transaction, eventId: string): Promise<Event> => {
+  const snapshot = await transaction.get(eventsRepository.doc(eventId));
+  if (!snapshot.exists()) {
+    throw new Error('Event not found');
+  }
+  return snapshot.data();
+};
+
+// Join an event, or its waitlist when it's full. Runs in a transaction so two
+// people can't take the last spot; the security rules enforce the same limit.
+const joinEvent = async (eventId: string, userId: string): Promise<JoinOutcome> => {
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const event = await readEvent(transaction, eventId);
+
+      if (event.participants.includes(userId)) return 'joined';
+      if (event.waitlist.includes(userId)) return 'waitlisted';
+      if (event.status === 'cancelled') {
+        throw new Error('This event has been cancelled');
+      }
+
+      if (canJoinDirectly(event)) {
+        transaction.update(doc(firestore, 'events', eventId), {
+          participants: arrayUnion(userId),
+          updatedAt: serverTimestamp(),
+        });
+        return 'joined';
+      }
+
+      transaction.update(doc(firestore, 'events', eventId), {
+        waitlist: arrayUnion(userId),
+        updatedAt: serverTimestamp(),
+      });
+      return 'waitlisted';
+    });
+  } catch (error) {
+    console.error('Error joining event:', error);
+    throw error;
+  }
+};
+
+// Leave an event or its waitlist. The backend promotes the next person on the
+// waitlist into a freed spot.
+const leaveEvent = async (eventId: string, userId: string): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const event = await readEvent(transaction, eventId);
+      const field = event.participants.includes(userId)
+        ? 'participants'
+        : event.waitlist.includes(userId)
+          ? 'waitlist'
+          : null;
+      if (!field) return;
+
+      transaction.update(doc(firestore, 'events', eventId), {
+        [field]: arrayRemove(userId),
+        ...(event.coHosts.includes(userId) ? { coHosts: arrayRemove(userId) } : {}),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error leaving event:', error);
+    throw error;
+  }
+};
+
+// Host: let someone in from the waitlist, even if that takes the event over capacity
+const promoteFromWaitlist = async (eventId: string, userId: string): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const event = await readEvent(transaction, eventId);
+      if (!event.waitlist.includes(userId)) return;
+
+      transaction.update(doc(firestore, 'events', eventId), {
+        participants: arrayUnion(userId),
+        waitlist: arrayRemove(userId),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error promoting from waitlist:', error);
+    throw error;
+  }
+};
+
+// Host: move someone up (-1) or down (+1) the waitlist
+const moveInWaitlist = async (eventId: string, userId: string, offset: -1 | 1): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const event = await readEvent(transaction, eventId);
+      const index = event.waitlist.indexOf(userId);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= event.waitlist.length) return;
+
+      const waitlist = [...event.waitlist];
+      [waitlist[index], waitlist[target]] = [waitlist[target], waitlist[index]];
+      transaction.update(doc(firestore, 'events', eventId), {
+        waitlist,
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error reordering waitlist:', error);
+    throw error;
+  }
+};
+
+// Fields hosts can change after creating an event
+const EDITABLE_FIELDS: (keyof NewEvent)[] = [
+  'title',
+  'description',
+  'startTime',
+  'endTime',
+  'timeZone',
+  'isPublic',
+  'maxParticipants',
+];
+
+const sameEventValue = (a: unknown, b: unknown): boolean =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : (a ?? null) === (b ?? null);
+
+// Reject edits that would leave the event unusable
+const assertEditable = (event: Event, changes: EventChanges) => {
+  if (event.status === 'cancelled') {
+    throw new Error('A cancelled event can no longer be edited');
+  }
+  if (event.recurrence && (changes.startTime || changes.endTime || changes.timeZone)) {
+    throw new Error('Change the schedule of a recurring event from its occurrences');
+  }
+
+  const startTime = changes.startTime || event.startTime;
+  const endTime = changes.endTime || event.endTime;
+  if (endTime <= startTime) {
+    throw new Error('End time must be after start time');
+  }
+  if (changes.maxParticipants && changes.maxParticipants < 1) {
+    throw new Error('Maximum participants must be at least 1');
+  }
+};
+
+// Host: edit an event's details. Occurrences of a recurring event that still
+// carry the series' title and description follow the rename.
+const updateEvent = async (eventId: string, changes: EventChanges): Promise<void> => {
+  try {
+    const event = await eventsRepository.get(eventId);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    assertEditable(event, changes);
+
+    const fields = EDITABLE_FIELDS.filter(
+      (field) => changes[field] !== undefined && !sameEventValue(changes[field], event[field])
+    );
+    if (fields.length === 0) return;
+
+    const update = Object.fromEntries(fields.map((field) => [field, changes[field] ?? null]));
+    // Only one-off events change their end here, and it is also their endsAt.
+    // Events saved before endsAt existed pick it up on their next edit.
+    if (changes.endTime && fields.includes('endTime')) {
+      update.endsAt = changes.endTime;
+    } else if (!event.endsAt) {
+      update.endsAt = event.recurrenceEndTime || event.endTime;
+    }
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'events', eventId), { ...update, updatedAt: serverTimestamp() });
+
+    if (event.recurrence && (fields.includes('title') || fields.includes('description'))) {
+      const meetings = await getEventMeetings(eventId);
+      meetings
+        .filter((meeting) => meeting.status === 'scheduled')
+        .forEach((meeting) => {
+          const renamed = {
+            ...(fields.includes('title') && meeting.title === event.title ? { title: changes.title } : {}),
+            ...(fields.includes('description') && meeting.description === event.description
+              ? { description: changes.description }
+              : {}),
+          };
+          if (Object.keys(renamed).length > 0) {
+            batch.update(doc(firestore, 'meetings', meeting.id), {
+              ...renamed,
+              updatedAt: serverTimestamp(),
+            });
+          }
+        });
+    }
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error updating event:', error);
+    throw error;
+  }
+};
+
+// Host: cancel an event and its upcoming occurrences. The backend emails the
+// cancellation to everyone who had joined.
+const cancelEvent = async (eventId: string, reason: string): Promise<void> => {
+  try {
+    const event = await eventsRepository.get(eventId);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    if (event.status === 'cancelled') return;
+
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'events', eventId), {
+      status: 'cancelled',
+      cancelledAt: serverTimestamp(),
+      cancellationReason: reason.trim() || null,
+      activeMeetingId: null,
+      updatedAt: serverTimestamp(),
+    });
+
+    const meetings = await getEventMeetings(eventId);
+    meetings
+      .filter((meeting) => meeting.status === 'scheduled')
+      .forEach((meeting) =>
+        batch.update(doc(firestore, 'meetings', meeting.id), {
+          status: 'cancelled',
+          updatedAt: serverTimestamp(),
+        })
+      );
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error cancelling event:', error);
+    throw error;
+  }
+};
+
+// Host: hand the event to another participant. Meetings that haven't ended
+// move with it so the new host can run them.
+const transferHost = async (eventId: string, newHostId: string): Promise<void> => {
+  try {
+    const event = await eventsRepository.get(eventId);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    if (event.createdBy === newHostId) return;
+    if (!event.participants.includes(newHostId)) {
+      throw new Error('The new host must be a participant of the event');
+    }
+
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'events', eventId), {
+      createdBy: newHostId,
+      coHosts: arrayRemove(newHostId),
+      updatedAt: serverTimestamp(),
+    });
+
+    const meetings = await getEventMeetings(eventId);
+    meetings
+      .filter((meeting) => meeting.status === 'scheduled' || meeting.status === 'live')
+      .forEach((meeting) =>
+        batch.update(doc(firestore, 'meetings', meeting.id), {
+          hostId: newHostId,
+          updatedAt: serverTimestamp(),
+        })
+      );
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error transferring host:', error);
+    throw error;
+  }
+};
+
+// Host: make a participant a co-host, who moderates meetings alongside the
+// host, or take the role away again
+const setCoHost = async (eventId: string, userId: string, coHost: boolean): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const event = await readEvent(transaction, eventId);
+      if (event.coHosts.includes(userId) === coHost) return;
+      if (coHost && (!event.participants.includes(userId) || event.createdBy === userId)) {
+        throw new Error('Only participants other than the host can be co-hosts');
+      }
+
+      transaction.update(doc(firestore, 'events', eventId), {
+        coHosts: coHost ? arrayUnion(userId) : arrayRemove(userId),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error updating co-hosts:', error);
+    throw error;
+  }
+};
+
+// Host: take someone out of the event. Their spot goes to the waitlist.
+const removeParticipant = async (eventId: string, userId: string): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const event = await readEvent(transaction, eventId);
+      if (!event.participants.includes(userId)) return;
+      if (event.createdBy === userId) {
+        throw new Error('Transfer the event before removing its host');
+      }
+
+      transaction.update(doc(firestore, 'events', eventId), {
+        participants: arrayRemove(userId),
+        coHosts: arrayRemove(userId),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error removing participant:', error);
+    throw error;
+  }
+};
+
+export {
+  createEvent,
+  updateFollowingOccurrences,
+  hasOpenSpot,
+  getJoinOutcome,
+  joinEvent,
+  leaveEvent,
+  promoteFromWaitlist,
+  moveInWaitlist,
+  updateEvent,
+  cancelEvent,
+  transferHost,
+  setCoHost,
+  removeParticipant,
+};
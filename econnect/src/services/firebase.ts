@@ -6,6 +6,7 @@ import {
   signOut, 
   sendPasswordResetEmail,
   updateProfile,
+  connectAuthEmulator,
   User as FirebaseUser
 } from 'firebase/auth';
 import { 
@@ -15,10 +16,11 @@ import {
   setDoc, 
   getDoc, 
   updateDoc, 
-  serverTimestamp 
+  serverTimestamp,
+  connectFirestoreEmulator
 } from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
-import { getFunctions, httpsCallable } from 'firebase/functions';
+import { getFunctions, httpsCallable, connectFunctionsEmulator } from 'firebase/functions';
 
 // Firebase configuration
 const firebaseConfig = {
@@ -37,6 +39,14 @@ const firestore = getFirestore(app);
 const storage = getStorage(app);
 const functions = getFunctions(app);
 
+// Point the SDKs at the local Firebase emulator suite (see firebase.json for ports)
+if (process.env.REACT_APP_USE_FIREBASE_EMULATORS === 'true') {
+  const emulatorHost = process.env.REACT_APP_FIREBASE_EMULATOR_HOST || 'localhost';
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(firestore, emulatorHost, 8080);
+  connectFunctionsEmulator(functions, emulatorHost, 5001);
+}
+
 // Auth functions
 const registerUser = async (email: string, password: string, displayName: string) => {
   try {
@@ -124,8 +134,35 @@ const getUserProfile = async (userId: string) => {
   }
 };
 
-// Cloud Functions
-const generateJitsiToken = httpsCallable(functions, 'generateJitsiToken');
+// Cloud Functions (source in ../functions)
+const generateJitsiToken = httpsCallable<
+  { roomName: string; isModerator: boolean },
+  { token: string; expiresAt: number }
+>(functions, 'generateJitsiToken');
+const createRecordingUploadUrl = httpsCallable<
+  { eventId: string; meetingId: string; fileName: string; contentType: string },
+  { recordingId: string; uploadUrl: string; key: string; url: string }
+>(functions, 'createRecordingUploadUrl');
+const createRecordingDownloadUrl = httpsCallable<
+  { recordingId: string },
+  { downloadUrl: string }
+>(functions, 'createRecordingDownloadUrl');
+const createRecordingDeleteUrl = httpsCallable<
+  { recordingId: string },
+  { deleteUrl: string }
+>(functions, 'createRecordingDeleteUrl');
+const bookServiceSlot = httpsCallable<
+  { serviceId: string; startTime: number; message?: string; timeZone?: string },
+  { requestId: string }
+>(functions, 'bookServiceSlot');
+const exportEventCalendar = httpsCallable<
+  { eventId: string; timeZone?: string },
+  { ics: string; fileName: string }
+>(functions, 'exportEventCalendar');
+const getCalendarFeedUrl = httpsCallable<{ reset?: boolean }, { url: string }>(
+  functions,
+  'getCalendarFeedUrl'
+);
 
 export {
   app,
@@ -140,4 +177,10 @@ export {
   updateUserProfile,
   getUserProfile,
   generateJitsiToken,
+  createRecordingUploadUrl,
+  createRecordingDownloadUrl,
+  createRecordingDeleteUrl,
+  bookServiceSlot,
+  exportEventCalendar,
+  getCalendarFeedUrl,
 };
@@ -1,16 +1,19 @@
 import { generateJitsiToken as generateToken } from './firebase';
-import { User } from '../types';
+import {
+  JitsiMeetExternalAPI,
+  JitsiParticipantInfo,
+  JitsiEventHandlers,
+  JitsiUnsubscribe,
+} from '../types';
+import { subscribeToJitsiEvents } from './jitsiEvents';
 
-// Jitsi configuration
+// Jitsi configuration. Tokens are signed by the generateJitsiToken function,
+// so the app secret never reaches the browser.
 const jitsiDomain = process.env.REACT_APP_JITSI_DOMAIN || 'meet.jitsi';
-const jitsiAppId = process.env.REACT_APP_JITSI_APP_ID || '';
-const jitsiAppSecret = process.env.REACT_APP_JITSI_APP_SECRET || '';
 
 interface JitsiTokenOptions {
   roomName: string;
-  user: User;
   isModerator?: boolean;
-  expiresIn?: number; // in seconds
 }
 
 interface JitsiMeetOptions {
@@ -24,26 +27,17 @@ interface JitsiMeetOptions {
   onload?: () => void;
 }
 
-// Generate a JWT token for Jitsi authentication
+// Generate a JWT token for Jitsi authentication. The server resolves the room,
+// checks that the user participates in it and fills in their profile itself;
+// isModerator is only honoured for hosts, co-hosts and admins.
 const generateJitsiToken = async ({
   roomName,
-  user,
   isModerator = false,
-  expiresIn = 3600, // Default to 1 hour
 }: JitsiTokenOptions): Promise<string> => {
   try {
     // Call Firebase Cloud Function to generate token
-    const result = await generateToken({
-      roomName,
-      userId: user.id,
-      displayName: user.displayName,
-      email: user.email,
-      avatarUrl: user.photoURL || '',
-      isModerator,
-      expiresIn,
-    });
-
-    return (result.data as { token: string }).token;
+    const result = await generateToken({ roomName, isModerator });
+    return result.data.token;
   } catch (error) {
     console.error('Error generating Jitsi token:', error);
     throw error;
@@ -52,7 +46,7 @@ const generateJitsiToken = async ({
 
 // Initialize Jitsi Meet API
 const initJitsiMeetAPI = (options: JitsiMeetOptions) => {
-  return new Promise<any>((resolve, reject) => {
+  return new Promise<JitsiMeetExternalAPI>((resolve, reject) => {
     try {
       // @ts-ignore - JitsiMeetExternalAPI is loaded from external script
       const api = new JitsiMeetExternalAPI(jitsiDomain, {
@@ -108,56 +102,8 @@ const initJitsiMeetAPI = (options: JitsiMeetOptions) => {
   });
 };
 
-// Start recording a Jitsi meeting
-const startRecording = (api: any): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    try {
-      api.executeCommand('startRecording', {
-        mode: 'file', // Options: file, stream
-      });
-      
-      api.addListener('recordingStatusChanged', (status: { on: boolean }) => {
-        if (status.on) {
-          resolve();
-        }
-      });
-      
-      // Timeout in case the recording doesn't start
-      setTimeout(() => {
-        reject(new Error('Recording start timeout'));
-      }, 10000);
-    } catch (error) {
-      console.error('Error starting recording:', error);
-      reject(error);
-    }
-  });
-};
-
-// Stop recording a Jitsi meeting
-const stopRecording = (api: any): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    try {
-      api.executeCommand('stopRecording', 'file');
-      
-      api.addListener('recordingStatusChanged', (status: { on: boolean }) => {
-        if (!status.on) {
-          resolve();
-        }
-      });
-      
-      // Timeout in case the recording doesn't stop
-      setTimeout(() => {
-        reject(new Error('Recording stop timeout'));
-      }, 10000);
-    } catch (error) {
-      console.error('Error stopping recording:', error);
-      reject(error);
-    }
-  });
-};
-
 // Get participant information from Jitsi meeting
-const getParticipants = (api: any): any[] => {
+const getParticipants = (api: JitsiMeetExternalAPI): JitsiParticipantInfo[] => {
   try {
     return api.getParticipantsInfo();
   } catch (error) {
@@ -166,31 +112,61 @@ const getParticipants = (api: any): any[] => {
   }
 };
 
-// Add event listeners to Jitsi API
+// Listeners added by addJitsiEventListeners, by API, event and handler, so
+// removeJitsiEventListeners can still take them off by handler
+type AddedListeners = Map<string, Map<unknown, JitsiUnsubscribe>>;
+const addedListeners = new WeakMap<JitsiMeetExternalAPI, AddedListeners>();
+
+// Add typed event listeners to Jitsi API; the returned handle removes them again
 const addJitsiEventListeners = (
-  api: any,
-  eventHandlers: Record<string, (...args: any[]) => void>
-): void => {
-  Object.entries(eventHandlers).forEach(([event, handler]) => {
-    api.addListener(event, handler);
-  });
+  api: JitsiMeetExternalAPI,
+  eventHandlers: JitsiEventHandlers
+): JitsiUnsubscribe => {
+  const added: AddedListeners = addedListeners.get(api) || new Map();
+  addedListeners.set(api, added);
+
+  const unsubscribers = Object.entries(eventHandlers)
+    .filter(([, handler]) => typeof handler === 'function')
+    .map(([event, handler]) => {
+      const byHandler = added.get(event) || new Map<unknown, JitsiUnsubscribe>();
+      added.set(event, byHandler);
+      const unsubscribe = subscribeToJitsiEvents(api, { [event]: handler });
+      const remove = () => {
+        unsubscribe();
+        if (byHandler.get(handler) === remove) byHandler.delete(handler);
+      };
+      byHandler.set(handler, remove);
+      return remove;
+    });
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
 };
 
-// Remove event listeners from Jitsi API
+/**
+ * @deprecated Call the handle returned by addJitsiEventListeners, or use the
+ * event bus from useJitsi, instead.
+ */
 const removeJitsiEventListeners = (
-  api: any,
-  eventHandlers: Record<string, (...args: any[]) => void>
+  api: JitsiMeetExternalAPI,
+  eventHandlers: JitsiEventHandlers
 ): void => {
+  const added = addedListeners.get(api);
   Object.entries(eventHandlers).forEach(([event, handler]) => {
-    api.removeListener(event, handler);
+    const remove = added?.get(event)?.get(handler);
+    if (remove) {
+      remove();
+    } else {
+      // Listeners added straight through the API
+      api.removeListener(event, handler);
+    }
   });
 };
 
 export {
   generateJitsiToken,
   initJitsiMeetAPI,
-  startRecording,
-  stopRecording,
   getParticipants,
   addJitsiEventListeners,
   removeJitsiEventListeners,
@@ -0,0 +1,121 @@
+import { createJitsiEventBus, JITSI_EVENT_NAMES } from './jitsiEvents';
+import { addJitsiEventListeners, removeJitsiEventListeners } from './jitsi';
+import { JitsiEvent, JitsiMeetExternalAPI } from '../types';
+
+jest.mock('./firebase', () => ({ generateJitsiToken: jest.fn() }));
+
+// Just enough of the Jitsi API to see which listeners are attached
+const fakeApi = () => {
+  const listeners = new Map<string, Set<(data: any) => void>>();
+  const api = {
+    addListener: (event: string, listener: (data: any) => void) => {
+      listeners.set(event, (listeners.get(event) || new Set()).add(listener));
+    },
+    removeListener: (event: string, listener: (data: any) => void) => {
+      listeners.get(event)?.delete(listener);
+    },
+  };
+  const emit = (event: string, payload: unknown) =>
+    Array.from(listeners.get(event) || []).forEach((listener) => listener(payload));
+  const listenedEvents = () =>
+    Array.from(listeners.keys()).filter((event) => listeners.get(event)?.size);
+  const listenerCount = (event: string) => listeners.get(event)?.size || 0;
+  return { api: api as unknown as JitsiMeetExternalAPI, emit, listenedEvents, listenerCount };
+};
+
+describe('createJitsiEventBus', () => {
+  it('listens to an event only while something handles it', () => {
+    const { api, emit, listenedEvents, listenerCount } = fakeApi();
+    const bus = createJitsiEventBus(api);
+    expect(listenedEvents()).toEqual([]);
+
+    const joined = jest.fn();
+    const alsoJoined = jest.fn();
+    const first = bus.on('participantJoined', joined);
+    const second = bus.on('participantJoined', alsoJoined);
+    expect(listenedEvents()).toEqual(['participantJoined']);
+    expect(listenerCount('participantJoined')).toBe(1);
+
+    emit('participantJoined', { id: 'p1', displayName: 'Ada' });
+    expect(joined).toHaveBeenCalledWith({ id: 'p1', displayName: 'Ada' });
+    expect(alsoJoined).toHaveBeenCalledTimes(1);
+
+    first();
+    expect(listenedEvents()).toEqual(['participantJoined']);
+    second();
+    second();
+    expect(listenedEvents()).toEqual([]);
+  });
+
+  it('handles an event once', () => {
+    const { api, emit, listenedEvents } = fakeApi();
+    const left = jest.fn();
+    createJitsiEventBus(api).once('videoConferenceLeft', left);
+    emit('videoConferenceLeft', { roomName: 'standup' });
+    emit('videoConferenceLeft', { roomName: 'standup' });
+    expect(left).toHaveBeenCalledTimes(1);
+    expect(listenedEvents()).toEqual([]);
+  });
+
+  it('listens to every event for wildcard handlers until they are removed', () => {
+    const { api, emit, listenedEvents } = fakeApi();
+    const bus = createJitsiEventBus(api);
+    const events: JitsiEvent[] = [];
+    bus.on('participantLeft', jest.fn());
+    const stop = bus.onAny((event) => events.push(event));
+    expect(listenedEvents()).toHaveLength(JITSI_EVENT_NAMES.length);
+
+    emit('participantLeft', { id: 'p1' });
+    expect(events).toEqual([{ type: 'participantLeft', payload: { id: 'p1' } }]);
+
+    stop();
+    expect(listenedEvents()).toEqual(['participantLeft']);
+  });
+
+  it('keeps other handlers running when one throws', () => {
+    const { api, emit } = fakeApi();
+    const bus = createJitsiEventBus(api);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const after = jest.fn();
+    bus.on('readyToClose', () => {
+      throw new Error('boom');
+    });
+    bus.on('readyToClose', after);
+    emit('readyToClose', {});
+    expect(after).toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      'Error in Jitsi "readyToClose" handler:',
+      expect.any(Error)
+    );
+    jest.restoreAllMocks();
+  });
+
+  it('removes every listener when disposed', () => {
+    const { api, listenedEvents } = fakeApi();
+    const bus = createJitsiEventBus(api);
+    bus.on('participantJoined', jest.fn());
+    bus.onAny(jest.fn());
+    bus.dispose();
+    expect(listenedEvents()).toEqual([]);
+  });
+});
+
+describe('removeJitsiEventListeners', () => {
+  it('removes listeners added with addJitsiEventListeners by handler', () => {
+    const { api, emit, listenedEvents } = fakeApi();
+    const joined = jest.fn();
+    addJitsiEventListeners(api, { participantJoined: joined });
+    removeJitsiEventListeners(api, { participantJoined: joined });
+    emit('participantJoined', { id: 'p1' });
+    expect(joined).not.toHaveBeenCalled();
+    expect(listenedEvents()).toEqual([]);
+  });
+
+  it('still removes listeners added straight through the API', () => {
+    const { api, listenedEvents } = fakeApi();
+    const left = jest.fn();
+    api.addListener('participantLeft', left);
+    removeJitsiEventListeners(api, { participantLeft: left });
+    expect(listenedEvents()).toEqual([]);
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  JitsiMeetExternalAPI,
+  JitsiEvent,
+  JitsiEventName,
+  JitsiEventMap,
+  JitsiEventHandler,
+  JitsiEventHandlers,
+  JitsiUnsubscribe,
+} from '../types';
+
+// Every event name in JitsiEventMap, used by wildcard subscriptions
+const JITSI_EVENT_NAMES: JitsiEventName[] = [
+  'videoConferenceJoined',
+  'videoConferenceLeft',
+  'readyToClose',
+  'passwordRequired',
+  'subjectChange',
+  'conferenceCreatedTimestamp',
+  'participantJoined',
+  'participantLeft',
+  'participantKickedOut',
+  'participantRoleChanged',
+  'displayNameChange',
+  'emailChange',
+  'avatarChanged',
+  'knockingParticipant',
+  'dominantSpeakerChanged',
+  'raiseHandUpdated',
+  'audioMuteStatusChanged',
+  'videoMuteStatusChanged',
+  'audioAvailabilityChanged',
+  'videoAvailabilityChanged',
+  'moderationStatusChanged',
+  'cameraError',
+  'micError',
+  'deviceListChanged',
+  'videoQualityChanged',
+  'incomingMessage',
+  'outgoingMessage',
+  'chatUpdated',
+  'endpointTextMessageReceived',
+  'recordingStatusChanged',
+  'recordingLinkAvailable',
+  'screenSharingStatusChanged',
+  'contentSharingParticipantsChanged',
+  'breakoutRoomsUpdated',
+  'tileViewChanged',
+  'filmstripDisplayChanged',
+  'participantsPaneToggled',
+  'errorOccurred',
+];
+
+export interface JitsiEventBus {
+  on: <K extends JitsiEventName>(event: K, handler: JitsiEventHandler<K>) => JitsiUnsubscribe;
+  once: <K extends JitsiEventName>(event: K, handler: JitsiEventHandler<K>) => JitsiUnsubscribe;
+  onAny: (handler: (event: JitsiEvent) => void) => JitsiUnsubscribe;
+  dispose: () => void;
+}
+
+// Run a handler, logging rather than propagating its errors so one failing
+// handler doesn't keep the others from seeing the event
+const callHandler = <P>(event: JitsiEventName, handler: (payload: P) => void, payload: P) => {
+  try {
+    handler(payload);
+  } catch (error) {
+    console.error(`Error in Jitsi "${event}" handler:`, error);
+  }
+};
+
+// Subscribe to a single Jitsi event and get back a handle that removes the listener
+const subscribeToJitsiEvent = <K extends JitsiEventName>(
+  api: JitsiMeetExternalAPI,
+  event: K,
+  handler: JitsiEventHandler<K>
+): JitsiUnsubscribe => {
+  const listener = (payload: JitsiEventMap[K]) => callHandler(event, handler, payload);
+
+  api.addListener(event, listener);
+
+  let subscribed = true;
+  return () => {
+    if (!subscribed) return;
+    subscribed = false;
+    api.removeListener(event, listener);
+  };
+};
+
+// Subscribe to several Jitsi events at once; the returned handle removes all of them
+const subscribeToJitsiEvents = (
+  api: JitsiMeetExternalAPI,
+  handlers: JitsiEventHandlers
+): JitsiUnsubscribe => {
+  const unsubscribers = (Object.keys(handlers) as JitsiEventName[])
+    .filter((event) => typeof handlers[event] === 'function')
+    .map((event) =>
+      subscribeToJitsiEvent(api, event, handlers[event] as JitsiEventHandler<typeof event>)
+    );
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+};
+
+// Create an event bus bound to one Jitsi API instance. The bus adds one API
+// listener per event, only while something handles that event; onAny handles
+// every event, so it listens to all of them until it is removed. Disposing
+// the bus removes every listener it registered, so it can be tied to a
+// component lifecycle.
+const createJitsiEventBus = (api: JitsiMeetExternalAPI): JitsiEventBus => {
+  const handlers = new Map<JitsiEventName, Set<(payload: unknown) => void>>();
+  const wildcards = new Set<(event: JitsiEvent) => void>();
+  const apiListeners = new Map<JitsiEventName, JitsiUnsubscribe>();
+
+  const attach = (event: JitsiEventName) => {
+    if (apiListeners.has(event)) return;
+    const listener = (payload: unknown) => {
+      Array.from(handlers.get(event) || []).forEach((handler) =>
+        callHandler(event, handler, payload)
+      );
+      Array.from(wildcards).forEach((handler) =>
+        callHandler(event, handler, { type: event, payload } as JitsiEvent)
+      );
+    };
+    api.addListener(event, listener);
+    apiListeners.set(event, () => api.removeListener(event, listener));
+  };
+
+  const release = (event: JitsiEventName) => {
+    if (handlers.get(event)?.size || wildcards.size) return;
+    apiListeners.get(event)?.();
+    apiListeners.delete(event);
+  };
+
+  const on = <K extends JitsiEventName>(event: K, handler: JitsiEventHandler<K>) => {
+    // A handler of its own, so the same function can be subscribed twice.
+    // Handlers are stored by event name, so the payload has event's type.
+    const entry = (payload: unknown) => handler(payload as JitsiEventMap[K]);
+    const eventHandlers = handlers.get(event) || new Set();
+    handlers.set(event, eventHandlers.add(entry));
+    attach(event);
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      eventHandlers.delete(entry);
+      release(event);
+    };
+  };
+
+  const once = <K extends JitsiEventName>(event: K, handler: JitsiEventHandler<K>) => {
+    const handle = on(event, (payload) => {
+      handle();
+      handler(payload);
+    });
+    return handle;
+  };
+
+  const onAny = (handler: (event: JitsiEvent) => void) => {
+    const entry = (event: JitsiEvent) => handler(event);
+    wildcards.add(entry);
+    JITSI_EVENT_NAMES.forEach(attach);
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      wildcards.delete(entry);
+      JITSI_EVENT_NAMES.forEach(release);
+    };
+  };
+
+  const dispose = () => {
+    handlers.clear();
+    wildcards.clear();
+    apiListeners.forEach((removeListener) => removeListener());
+    apiListeners.clear();
+  };
+
+  return { on, once, onAny, dispose };
+};
+
+export {
+  JITSI_EVENT_NAMES,
+  subscribeToJitsiEvent,
+  subscribeToJitsiEvents,
+  createJitsiEventBus,
+};
@@ -0,0 +1,330 @@
+import { doc, where, updateDoc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { firestore } from './firebase';
+import { eventsRepository, meetingsRepository } from './repository';
+import { Event, Meeting, JitsiRecordingMode } from '../types';
+
+// What can be changed on a single occurrence of a recurring event
+export interface OccurrenceChanges {
+  title: string;
+  description: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+// Meeting documents are keyed by event and session so they're easy to find
+const getMeetingId = (eventId: string, sessionNumber: number): string =>
+  `${eventId}-session-${sessionNumber}`;
+
+// Meeting documents for the occurrences of a recurring event, numbered from 1.
+// Occurrences either share the event's room or each get their own.
+const buildOccurrenceSessions = (
+  eventId: string,
+  series: Pick<Event, 'title' | 'description' | 'createdBy' | 'jitsiRoomName' | 'roomMode'>,
+  starts: Date[],
+  duration: number
+) =>
+  starts.map((start, index) => {
+    const sessionNumber = index + 1;
+    return {
+      id: getMeetingId(eventId, sessionNumber),
+      data: {
+        eventId,
+        sessionNumber,
+        status: 'scheduled',
+        title: series.title,
+        description: series.description || '',
+        startTime: start,
+        scheduledEndTime: new Date(start.getTime() + duration),
+        occurrenceStart: start,
+        hostId: series.createdBy,
+        participants: [],
+        jitsiRoomName:
+          series.roomMode === 'per-occurrence'
+            ? `${series.jitsiRoomName}-${sessionNumber}`
+            : series.jitsiRoomName,
+        recordingEnabled: false,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      },
+    };
+  });
+
+// Fetch a single meeting
+const getMeeting = async (meetingId: string): Promise<Meeting | null> => {
+  try {
+    return await meetingsRepository.get(meetingId);
+  } catch (error) {
+    console.error('Error fetching meeting:', error);
+    throw error;
+  }
+};
+
+// Fetch every session of an event, oldest first
+const getEventMeetings = async (eventId: string): Promise<Meeting[]> => {
+  try {
+    const meetings = await meetingsRepository.list(where('eventId', '==', eventId));
+    return meetings.sort((a, b) => a.sessionNumber - b.sessionNumber);
+  } catch (error) {
+    console.error('Error fetching event meetings:', error);
+    throw error;
+  }
+};
+
+// The occurrence of a recurring event to open now: the live one, otherwise
+// the earliest one that is still scheduled and hasn't finished
+const currentOccurrence = (meetings: Meeting[], now: Date = new Date()): Meeting | undefined =>
+  meetings.find((meeting) => meeting.status === 'live') ||
+  meetings
+    .filter(
+      (meeting) =>
+        meeting.status === 'scheduled' && (meeting.scheduledEndTime || meeting.startTime) > now
+    )
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())[0];
+
+// Recurring events have a session per occurrence already, so joining opens
+// the current one instead of creating a session
+const openOccurrence = async (eventId: string): Promise<string> => {
+  const occurrence = currentOccurrence(await getEventMeetings(eventId));
+  if (!occurrence) {
+    throw new Error('This series has no upcoming occurrences');
+  }
+
+  return runTransaction(firestore, async (transaction) => {
+    const eventSnapshot = await transaction.get(eventsRepository.doc(eventId));
+    const meetingSnapshot = await transaction.get(meetingsRepository.doc(occurrence.id));
+
+    if (!eventSnapshot.exists() || !meetingSnapshot.exists()) {
+      throw new Error('Event not found');
+    }
+    const status = meetingSnapshot.data().status;
+    if (status === 'ended' || status === 'cancelled') {
+      throw new Error('This occurrence is no longer available');
+    }
+
+    if (eventSnapshot.data().activeMeetingId !== occurrence.id) {
+      transaction.update(doc(firestore, 'events', eventId), {
+        activeMeetingId: occurrence.id,
+        updatedAt: serverTimestamp(),
+      });
+    }
+    return occurrence.id;
+  });
+};
+
+// Return the open session for an event, creating the next one if the last
+// session has ended (or none exists yet). Runs in a transaction so two people
+// joining at once end up in the same session.
+const getOrCreateMeetingForEvent = async (eventId: string): Promise<string> => {
+  try {
+    const event = await eventsRepository.get(eventId);
+    if (event?.status === 'cancelled') {
+      throw new Error('This event has been cancelled');
+    }
+    if (event?.recurrence) {
+      return await openOccurrence(eventId);
+    }
+
+    return await runTransaction(firestore, async (transaction) => {
+      const eventRef = eventsRepository.doc(eventId);
+      const eventSnapshot = await transaction.get(eventRef);
+
+      if (!eventSnapshot.exists()) {
+        throw new Error('Event not found');
+      }
+
+      const event = eventSnapshot.data();
+
+      if (event.activeMeetingId) {
+        const activeSnapshot = await transaction.get(
+          meetingsRepository.doc(event.activeMeetingId)
+        );
+        const activeStatus = activeSnapshot.exists() ? activeSnapshot.data().status : 'ended';
+        if (activeStatus !== 'ended' && activeStatus !== 'cancelled') {
+          return event.activeMeetingId;
+        }
+      }
+
+      const sessionNumber = (event.sessionCount || 0) + 1;
+      const meetingId = getMeetingId(eventId, sessionNumber);
+      const now = new Date();
+      const scheduledStart = event.startTime;
+
+      transaction.set(doc(firestore, 'meetings', meetingId), {
+        eventId,
+        sessionNumber,
+        status: 'scheduled',
+        title: sessionNumber > 1 ? `${event.title} (session ${sessionNumber})` : event.title,
+        description: event.description || '',
+        // Later sessions, and sessions opened after the scheduled start, begin now
+        startTime: sessionNumber === 1 && scheduledStart > now ? scheduledStart : now,
+        hostId: event.createdBy,
+        participants: [],
+        jitsiRoomName: event.jitsiRoomName,
+        recordingEnabled: false,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      transaction.update(eventRef, {
+        activeMeetingId: meetingId,
+        sessionCount: sessionNumber,
+        updatedAt: serverTimestamp(),
+      });
+
+      return meetingId;
+    });
+  } catch (error) {
+    console.error('Error getting or creating meeting:', error);
+    throw error;
+  }
+};
+
+// Mark a session live when the first participant enters the conference
+const startMeeting = async (meetingId: string): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const meetingRef = doc(firestore, 'meetings', meetingId);
+      const meetingSnapshot = await transaction.get(meetingRef);
+
+      if (!meetingSnapshot.exists() || meetingSnapshot.data().status !== 'scheduled') {
+        return;
+      }
+
+      transaction.update(meetingRef, {
+        status: 'live',
+        startedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error starting meeting:', error);
+    throw error;
+  }
+};
+
+// End a session and release it from its event so the next join opens a new one
+const endMeeting = async (meetingId: string): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const meetingRef = doc(firestore, 'meetings', meetingId);
+      const meetingSnapshot = await transaction.get(meetingRef);
+
+      if (!meetingSnapshot.exists() || meetingSnapshot.data().status === 'ended') {
+        return;
+      }
+
+      const eventRef = doc(firestore, 'events', meetingSnapshot.data().eventId);
+      const eventSnapshot = await transaction.get(eventRef);
+
+      transaction.update(meetingRef, {
+        status: 'ended',
+        endTime: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      if (eventSnapshot.exists() && eventSnapshot.data().activeMeetingId === meetingId) {
+        transaction.update(eventRef, {
+          activeMeetingId: null,
+          updatedAt: serverTimestamp(),
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Error ending meeting:', error);
+    throw error;
+  }
+};
+
+// Host: move or retitle one occurrence of a recurring event without touching
+// the rest of the series
+const updateOccurrence = async (meetingId: string, changes: OccurrenceChanges): Promise<void> => {
+  try {
+    await updateDoc(doc(firestore, 'meetings', meetingId), {
+      title: changes.title,
+      description: changes.description,
+      startTime: changes.startTime,
+      scheduledEndTime: changes.endTime,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error updating occurrence:', error);
+    throw error;
+  }
+};
+
+// Host: cancel or reinstate a single upcoming occurrence
+const setOccurrenceCancelled = async (meetingId: string, cancelled: boolean): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const meetingSnapshot = await transaction.get(meetingsRepository.doc(meetingId));
+      if (!meetingSnapshot.exists()) return;
+
+      const meeting = meetingSnapshot.data();
+      if (meeting.status !== (cancelled ? 'scheduled' : 'cancelled')) return;
+
+      const eventSnapshot = await transaction.get(eventsRepository.doc(meeting.eventId));
+
+      transaction.update(doc(firestore, 'meetings', meetingId), {
+        status: cancelled ? 'cancelled' : 'scheduled',
+        updatedAt: serverTimestamp(),
+      });
+
+      if (cancelled && eventSnapshot.exists() && eventSnapshot.data().activeMeetingId === meetingId) {
+        transaction.update(doc(firestore, 'events', meeting.eventId), {
+          activeMeetingId: null,
+          updatedAt: serverTimestamp(),
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Error cancelling occurrence:', error);
+    throw error;
+  }
+};
+
+// Stamp the start of a recording on the Meeting document
+const markRecordingStarted = async (
+  meetingId: string,
+  mode: JitsiRecordingMode
+): Promise<void> => {
+  try {
+    await updateDoc(doc(firestore, 'meetings', meetingId), {
+      recordingEnabled: true,
+      recordingMode: mode,
+      recordingStarted: serverTimestamp(),
+      recordingEnded: null,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error marking recording started:', error);
+    throw error;
+  }
+};
+
+// Stamp the end of a recording on the Meeting document
+const markRecordingEnded = async (meetingId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(firestore, 'meetings', meetingId), {
+      recordingEnded: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error marking recording ended:', error);
+    throw error;
+  }
+};
+
+export {
+  getMeetingId,
+  buildOccurrenceSessions,
+  currentOccurrence,
+  getMeeting,
+  getEventMeetings,
+  getOrCreateMeetingForEvent,
+  startMeeting,
+  endMeeting,
+  updateOccurrence,
+  setOccurrenceCancelled,
+  markRecordingStarted,
+  markRecordingEnded,
+};
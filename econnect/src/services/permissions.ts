@@ -0,0 +1,67 @@
+import { User, UserRole, Event, Service, ServiceRequest } from '../types';
+
+// Actions that depend only on the user's role. Ownership-based rules
+// (a user's own events, a provider's own services) are checked separately.
+// Keep in sync with firestore.rules.
+export type Permission =
+  | 'events:create'
+  | 'events:manage-any'
+  | 'services:create'
+  | 'services:manage-any'
+  | 'serviceRequests:manage-any'
+  | 'recordings:manage-any'
+  | 'analytics:view'
+  | 'users:manage';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'events:create',
+    'events:manage-any',
+    'services:create',
+    'services:manage-any',
+    'serviceRequests:manage-any',
+    'recordings:manage-any',
+    'analytics:view',
+    'users:manage',
+  ],
+  'service-provider': ['events:create', 'services:create', 'analytics:view'],
+  user: ['events:create', 'analytics:view'],
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrator',
+  'service-provider': 'Service Provider',
+  user: 'User',
+};
+
+const hasPermission = (user: User | null, permission: Permission): boolean =>
+  !!user && ROLE_PERMISSIONS[user.role]?.includes(permission);
+
+const hasRole = (user: User | null, roles: UserRole | UserRole[]): boolean =>
+  !!user && (Array.isArray(roles) ? roles : [roles]).includes(user.role);
+
+// Hosts manage their own events; admins manage every event
+const canManageEvent = (user: User | null, event: Pick<Event, 'createdBy'>): boolean =>
+  !!user && (event.createdBy === user.id || hasPermission(user, 'events:manage-any'));
+
+// Providers manage their own services; admins manage every service
+const canManageService = (user: User | null, service: Pick<Service, 'providerId'>): boolean =>
+  !!user && (service.providerId === user.id || hasPermission(user, 'services:manage-any'));
+
+// Providers manage requests made for their services; admins manage every request
+const canManageServiceRequest = (
+  user: User | null,
+  request: Pick<ServiceRequest, 'providerId'>
+): boolean =>
+  !!user &&
+  (request.providerId === user.id || hasPermission(user, 'serviceRequests:manage-any'));
+
+export {
+  ROLE_PERMISSIONS,
+  ROLE_LABELS,
+  hasPermission,
+  hasRole,
+  canManageEvent,
+  canManageService,
+  canManageServiceRequest,
+};
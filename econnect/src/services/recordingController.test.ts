@@ -0,0 +1,168 @@
+import { createRecordingController } from './recordingController';
+import { JitsiEventMap, JitsiMeetExternalAPI } from '../types';
+
+// Just enough of the Jitsi API to drive the controller
+const fakeApi = () => {
+  const listeners = new Map<string, Set<(data: any) => void>>();
+  const api = {
+    executeCommand: jest.fn(),
+    addListener: (event: string, listener: (data: any) => void) => {
+      listeners.set(event, (listeners.get(event) || new Set()).add(listener));
+    },
+    removeListener: (event: string, listener: (data: any) => void) => {
+      listeners.get(event)?.delete(listener);
+    },
+  };
+  const emitStatus = (payload: JitsiEventMap['recordingStatusChanged']) =>
+    listeners.get('recordingStatusChanged')?.forEach((listener) => listener(payload));
+  const listenerCount = () => listeners.get('recordingStatusChanged')?.size || 0;
+  return {
+    api: api as unknown as JitsiMeetExternalAPI,
+    executeCommand: api.executeCommand,
+    emitStatus,
+    listenerCount,
+  };
+};
+
+describe('createRecordingController', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts and stops a recording once Jibri confirms', async () => {
+    const { api, executeCommand, emitStatus } = fakeApi();
+    const transitions: string[] = [];
+    const controller = createRecordingController(api, {
+      onTransition: (previous, next) => transitions.push(`${previous.status}->${next.status}`),
+    });
+
+    const started = controller.start('file');
+    expect(controller.getState().status).toBe('starting');
+    expect(executeCommand).toHaveBeenCalledWith('startRecording', { mode: 'file' });
+    emitStatus({ on: true, mode: 'file' });
+    await expect(started).resolves.toBeUndefined();
+    expect(controller.getState()).toMatchObject({ status: 'on', mode: 'file' });
+
+    const stopped = controller.stop();
+    expect(executeCommand).toHaveBeenLastCalledWith('stopRecording', 'file');
+    emitStatus({ on: false, mode: 'file' });
+    await expect(stopped).resolves.toBeUndefined();
+    expect(controller.getState().status).toBe('idle');
+    expect(controller.getState().endedAt).toBeInstanceOf(Date);
+    expect(transitions).toEqual([
+      'idle->starting',
+      'starting->on',
+      'on->stopping',
+      'stopping->idle',
+    ]);
+  });
+
+  it('fails a start that Jibri rejects or never confirms', async () => {
+    const { api, emitStatus } = fakeApi();
+    const controller = createRecordingController(api, { timeoutMs: 1000 });
+
+    const rejected = controller.start('file');
+    emitStatus({ on: false, mode: 'file', error: 'service-unavailable' });
+    await expect(rejected).rejects.toThrow('service-unavailable');
+    expect(controller.getState().status).toBe('failed');
+
+    const unanswered = controller.start('file');
+    jest.advanceTimersByTime(1000);
+    await expect(unanswered).rejects.toThrow('Recording start timeout');
+    expect(controller.getState().status).toBe('failed');
+  });
+
+  it('ends a recording that fails while on', () => {
+    const { api, emitStatus } = fakeApi();
+    const transitions: string[] = [];
+    const controller = createRecordingController(api, {
+      onTransition: (previous, next) => transitions.push(`${previous.status}->${next.status}`),
+    });
+
+    controller.start('file').catch(() => undefined);
+    emitStatus({ on: true, mode: 'file' });
+    emitStatus({ on: false, mode: 'file', error: 'unexpected' });
+    expect(controller.getState()).toMatchObject({ status: 'failed', error: 'unexpected' });
+    expect(controller.getState().endedAt).toBeInstanceOf(Date);
+    expect(transitions).toEqual(['idle->starting', 'starting->on', 'on->failed']);
+  });
+
+  it('ignores errors when it never started a recording', () => {
+    const { api, emitStatus } = fakeApi();
+    const onTransition = jest.fn();
+    const controller = createRecordingController(api, { onTransition });
+
+    emitStatus({ on: false, mode: 'file', error: 'service-unavailable' });
+    expect(controller.getState()).toEqual({ status: 'idle', mode: null });
+    expect(onTransition).not.toHaveBeenCalled();
+  });
+
+  it('keeps recording after a stop times out, until Jibri reports it off', async () => {
+    const { api, emitStatus } = fakeApi();
+    const controller = createRecordingController(api, { timeoutMs: 1000 });
+    const started = controller.start('file');
+    emitStatus({ on: true, mode: 'file' });
+    await started;
+    const startedAt = controller.getState().startedAt;
+
+    const stopped = controller.stop();
+    emitStatus({ on: true, mode: 'file' });
+    expect(controller.getState().status).toBe('stopping');
+    jest.advanceTimersByTime(1000);
+    await expect(stopped).rejects.toThrow('Recording stop timeout');
+    expect(controller.getState()).toMatchObject({ status: 'on', mode: 'file', startedAt });
+    await expect(controller.start('file')).rejects.toThrow('Cannot start recording while on');
+
+    emitStatus({ on: false, mode: 'file' });
+    expect(controller.getState()).toMatchObject({ status: 'idle', error: undefined });
+  });
+
+  it('keeps recording when the stop command throws', async () => {
+    const { api, executeCommand, emitStatus } = fakeApi();
+    const controller = createRecordingController(api);
+    const started = controller.start('file');
+    emitStatus({ on: true, mode: 'file' });
+    await started;
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    executeCommand.mockImplementationOnce(() => {
+      throw new Error('Meeting closed');
+    });
+    await expect(controller.stop()).rejects.toThrow('Meeting closed');
+    expect(controller.getState()).toMatchObject({ status: 'on', error: 'Meeting closed' });
+    jest.restoreAllMocks();
+  });
+
+  it('requires a stream key for livestreams and a recording to stop', async () => {
+    const { api } = fakeApi();
+    const controller = createRecordingController(api);
+    await expect(controller.start('stream')).rejects.toThrow('A stream key is required');
+    await expect(controller.stop()).rejects.toThrow('No recording in progress');
+    expect(controller.getState().status).toBe('idle');
+  });
+
+  it('ignores status changes for the other mode while busy', async () => {
+    const { api, emitStatus } = fakeApi();
+    const controller = createRecordingController(api);
+    const started = controller.start('file');
+    emitStatus({ on: true, mode: 'stream' });
+    expect(controller.getState().status).toBe('starting');
+    emitStatus({ on: true, mode: 'file' });
+    await started;
+    expect(controller.getState().mode).toBe('file');
+  });
+
+  it('removes its listener and rejects a pending command when disposed', async () => {
+    const { api, listenerCount } = fakeApi();
+    const controller = createRecordingController(api);
+    expect(listenerCount()).toBe(1);
+    const started = controller.start('file');
+    controller.dispose();
+    await expect(started).rejects.toThrow('Recording controller disposed');
+    expect(listenerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  JitsiMeetExternalAPI,
+  JitsiEventMap,
+  JitsiRecordingMode,
+  JitsiUnsubscribe,
+  RecordingState,
+} from '../types';
+import { subscribeToJitsiEvent } from './jitsiEvents';
+
+export interface LivestreamOptions {
+  rtmpStreamKey?: string;
+  youtubeStreamKey?: string;
+  youtubeBroadcastID?: string;
+}
+
+interface RecordingControllerOptions {
+  timeoutMs?: number; // how long to wait for Jibri to confirm a start or stop
+  onTransition?: (previous: RecordingState, next: RecordingState) => void;
+}
+
+export interface RecordingController {
+  getState: () => RecordingState;
+  subscribe: (listener: (state: RecordingState) => void) => JitsiUnsubscribe;
+  start: (mode?: JitsiRecordingMode, livestream?: LivestreamOptions) => Promise<void>;
+  stop: () => Promise<void>;
+  dispose: () => void;
+}
+
+interface PendingCommand {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const INITIAL_STATE: RecordingState = { status: 'idle', mode: null };
+
+// Create a recording state machine bound to one Jitsi API instance.
+// It keeps a single recordingStatusChanged listener for its whole lifetime:
+//   idle/failed --start--> starting --on--> on --stop--> stopping --off--> idle
+// Errors reported by Jibri or a start that isn't confirmed move it to failed;
+// an error while recording also ends the recording. Errors reach every
+// participant, so they are ignored unless this client started a recording.
+// A stop that isn't confirmed goes back to on, since Jibri may well still be
+// recording; the recording only counts as over once Jibri reports it off.
+const createRecordingController = (
+  api: JitsiMeetExternalAPI,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, onTransition }: RecordingControllerOptions = {}
+): RecordingController => {
+  let state: RecordingState = INITIAL_STATE;
+  let pending: PendingCommand | null = null;
+  const listeners = new Set<(state: RecordingState) => void>();
+
+  const setState = (next: RecordingState) => {
+    const previous = state;
+    state = next;
+    if (onTransition && previous.status !== next.status) {
+      onTransition(previous, next);
+    }
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const settle = (error?: Error) => {
+    if (!pending) return;
+    const { resolve, reject, timer } = pending;
+    pending = null;
+    clearTimeout(timer);
+    if (error) {
+      reject(error);
+    } else {
+      resolve();
+    }
+  };
+
+  // A recording that breaks off ends here, like a stopped one
+  const fail = (message: string) => {
+    const ended = state.status === 'on' || state.status === 'stopping';
+    setState({ ...state, status: 'failed', error: message, ...(ended && { endedAt: new Date() }) });
+    settle(new Error(message));
+  };
+
+  // The stop didn't go through, so the recording carries on
+  const keepRecording = (message: string) => {
+    setState({ ...state, status: 'on', error: message });
+    settle(new Error(message));
+  };
+
+  const waitForStatus = (onTimeout: () => void) =>
+    new Promise<void>((resolve, reject) => {
+      pending = { resolve, reject, timer: setTimeout(onTimeout, timeoutMs) };
+    });
+
+  const handleStatusChanged = ({ on, mode, error }: JitsiEventMap['recordingStatusChanged']) => {
+    // Ignore updates for a different mode than the one we are tracking
+    if (state.mode && mode && mode !== state.mode && state.status !== 'idle' && state.status !== 'failed') {
+      return;
+    }
+
+    if (error) {
+      // Errors from a recording someone else started aren't ours to report
+      if (state.status === 'idle' || state.status === 'failed') return;
+      fail(error);
+      return;
+    }
+
+    if (on) {
+      if (state.status === 'stopping') {
+        // Still going while we wait for the stop to take effect
+        return;
+      }
+      if (state.status !== 'on') {
+        setState({ status: 'on', mode: mode || state.mode, startedAt: new Date() });
+      }
+      settle();
+      return;
+    }
+
+    if (state.status === 'starting') {
+      // Jibri turned us down without an explicit error
+      fail('Recording could not be started');
+      return;
+    }
+
+    if (state.status === 'on' || state.status === 'stopping') {
+      setState({ ...state, status: 'idle', error: undefined, endedAt: new Date() });
+    }
+    settle();
+  };
+
+  const unsubscribe = subscribeToJitsiEvent(api, 'recordingStatusChanged', handleStatusChanged);
+
+  const start = (mode: JitsiRecordingMode = 'file', livestream: LivestreamOptions = {}) => {
+    if (state.status === 'starting' || state.status === 'on' || state.status === 'stopping') {
+      return Promise.reject(new Error(`Cannot start recording while ${state.status}`));
+    }
+
+    if (mode === 'stream' && !livestream.rtmpStreamKey && !livestream.youtubeStreamKey) {
+      return Promise.reject(new Error('A stream key is required to start a livestream'));
+    }
+
+    setState({ status: 'starting', mode });
+    const confirmation = waitForStatus(() => fail('Recording start timeout'));
+
+    try {
+      api.executeCommand('startRecording', { mode, ...livestream });
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      fail(error instanceof Error ? error.message : 'Failed to start recording');
+    }
+
+    return confirmation;
+  };
+
+  const stop = () => {
+    if (state.status !== 'on' || !state.mode) {
+      return Promise.reject(new Error('No recording in progress'));
+    }
+
+    setState({ ...state, status: 'stopping' });
+    const confirmation = waitForStatus(() =>
+      keepRecording('Recording stop timeout; the recording may still be running')
+    );
+
+    try {
+      api.executeCommand('stopRecording', state.mode);
+    } catch (error) {
+      console.error('Error stopping recording:', error);
+      keepRecording(error instanceof Error ? error.message : 'Failed to stop recording');
+    }
+
+    return confirmation;
+  };
+
+  const subscribe = (listener: (state: RecordingState) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dispose = () => {
+    unsubscribe();
+    settle(new Error('Recording controller disposed'));
+    listeners.clear();
+  };
+
+  return {
+    getState: () => state,
+    subscribe,
+    start,
+    stop,
+    dispose,
+  };
+};
+
+export { createRecordingController };
@@ -0,0 +1,153 @@
+import { uploadRecording, saveRecordingMetadata } from './aws';
+import { Recording } from '../types';
+
+export interface RecordingProbe {
+  duration?: number; // in seconds
+  fileSize: number; // in bytes
+  fileType: string;
+}
+
+interface IngestRecordingOptions {
+  files: File[]; // a single recording, or the contents of a Jibri output directory
+  ownerId: string;
+  eventId: string;
+  meetingId: string;
+  title?: string;
+  startTime?: Date;
+  endTime?: Date;
+}
+
+// The part of Jibri's metadata.json we use
+interface JibriMetadata {
+  meeting_url?: string; // e.g. https://meet.example.com/<room>
+}
+
+const VIDEO_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  mov: 'video/quicktime',
+  flv: 'video/x-flv',
+};
+
+const PROBE_TIMEOUT_MS = 10000;
+
+const getExtension = (fileName: string): string =>
+  fileName.includes('.') ? (fileName.split('.').pop() || '').toLowerCase() : '';
+
+const isVideoFile = (file: File): boolean =>
+  file.type.startsWith('video/') || getExtension(file.name) in VIDEO_TYPES;
+
+// Pick the recording out of a Jibri output directory. Jibri writes one
+// <room>_<timestamp>.mp4 per session next to a metadata.json; if several
+// videos are present the most recent one wins.
+const findJibriRecordingFile = (files: File[]): File | null => {
+  const videos = files.filter(isVideoFile);
+  if (videos.length === 0) return null;
+  return videos.reduce((latest, file) => (file.lastModified > latest.lastModified ? file : latest));
+};
+
+// Read Jibri's metadata.json when the whole output directory was provided
+const readJibriMetadata = async (files: File[]): Promise<JibriMetadata | null> => {
+  const metadataFile = files.find((file) => file.name === 'metadata.json');
+  if (!metadataFile) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(await metadataFile.text());
+    const meetingUrl =
+      parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).meeting_url : null;
+    return { meeting_url: typeof meetingUrl === 'string' ? meetingUrl : undefined };
+  } catch (error) {
+    console.error('Error reading Jibri metadata:', error);
+    return null;
+  }
+};
+
+// Read the duration of a video file by loading its metadata into a detached video element
+const probeDuration = (file: File): Promise<number | undefined> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+
+    const finish = (duration?: number) => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && isFinite(duration) ? Math.round(duration) : undefined);
+    };
+
+    const timer = setTimeout(() => finish(), PROBE_TIMEOUT_MS);
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => finish(video.duration);
+    video.onerror = () => finish();
+    video.src = url;
+  });
+};
+
+// Probe duration, size and type of a recording file
+const probeRecordingFile = async (file: File): Promise<RecordingProbe> => {
+  return {
+    duration: await probeDuration(file),
+    fileSize: file.size,
+    fileType: file.type || VIDEO_TYPES[getExtension(file.name)] || 'application/octet-stream',
+  };
+};
+
+// Take a finished recording, upload it to S3 and record it in the recordings collection
+const ingestRecording = async ({
+  files,
+  ownerId,
+  eventId,
+  meetingId,
+  title,
+  startTime,
+  endTime,
+}: IngestRecordingOptions): Promise<Recording> => {
+  try {
+    const file = findJibriRecordingFile(files);
+    if (!file) {
+      throw new Error('No recording file found');
+    }
+
+    const [probe, metadata] = await Promise.all([
+      probeRecordingFile(file),
+      readJibriMetadata(files),
+    ]);
+
+    const { recordingId, key, url } = await uploadRecording(file, eventId, meetingId);
+
+    // Fall back to the file timestamp and probed duration when the meeting didn't report them
+    const recordingEnd = endTime || new Date(file.lastModified);
+    const recordingStart =
+      startTime ||
+      (probe.duration ? new Date(recordingEnd.getTime() - probe.duration * 1000) : recordingEnd);
+
+    const details = {
+      title: title || (metadata?.meeting_url ? metadata.meeting_url.split('/').pop() : undefined),
+      startTime: recordingStart,
+      endTime: recordingEnd,
+      duration: probe.duration,
+      fileSize: probe.fileSize,
+      fileType: probe.fileType,
+    };
+
+    await saveRecordingMetadata(recordingId, details);
+    const now = new Date();
+    return {
+      ...details,
+      id: recordingId,
+      meetingId,
+      eventId,
+      ownerId,
+      url,
+      s3Key: key,
+      createdAt: now,
+      updatedAt: now,
+    };
+  } catch (error) {
+    console.error('Error ingesting recording:', error);
+    throw error;
+  }
+};
+
+export { findJibriRecordingFile, probeRecordingFile, ingestRecording };
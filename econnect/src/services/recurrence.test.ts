@@ -0,0 +1,135 @@
+import {
+  MAX_OCCURRENCES,
+  RecurrenceError,
+  describeRecurrence,
+  endRuleBefore,
+  expandOccurrences,
+  formatRRule,
+  parseRRule,
+} from './recurrence';
+import { RecurrenceRule } from '../types';
+
+const isoStrings = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('parseRRule', () => {
+  it('reads the supported parts', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;COUNT=10;WKST=MO')).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      byWeekday: ['WE', 'MO'],
+      count: 10,
+      until: null,
+    });
+    expect(parseRRule('FREQ=DAILY;UNTIL=20300110T120000Z', 'UTC').until).toEqual(
+      new Date('2030-01-10T12:00:00Z')
+    );
+  });
+
+  it('reads a date-only UNTIL as the end of that day in the event zone', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20300110', 'Asia/Tokyo').until).toEqual(
+      new Date('2030-01-10T14:59:59Z')
+    );
+    expect(parseRRule('FREQ=DAILY;UNTIL=20300110', 'America/New_York').until).toEqual(
+      new Date('2030-01-11T04:59:59Z')
+    );
+  });
+
+  it('round-trips through formatRRule', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'WEEKLY',
+      interval: 1,
+      byWeekday: ['FR', 'MO'],
+      count: null,
+      until: new Date('2030-06-30T21:59:59Z'),
+    };
+    expect(formatRRule(rule)).toBe('FREQ=WEEKLY;BYDAY=MO,FR;UNTIL=20300630T215959Z');
+    expect(parseRRule(formatRRule(rule))).toEqual({ ...rule, byWeekday: ['MO', 'FR'] });
+  });
+
+  it('rejects rules it cannot honour', () => {
+    [
+      'INTERVAL=2',
+      'FREQ=YEARLY;COUNT=2',
+      'FREQ=DAILY;COUNT=0',
+      'FREQ=WEEKLY;BYDAY=XX;COUNT=2',
+      'FREQ=DAILY;BYDAY=MO;COUNT=2',
+      'FREQ=WEEKLY;WKST=SU;COUNT=2',
+      'FREQ=DAILY;BYHOUR=9;COUNT=2',
+      'FREQ=DAILY;UNTIL=tomorrow',
+      'FREQ=DAILY;COUNT=5;UNTIL=20300110T120000Z',
+    ].forEach((text) => expect(() => parseRRule(text, 'UTC')).toThrow(RecurrenceError));
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('lists weekly occurrences on the chosen days, from the start on', () => {
+    // 2030-01-09 is a Wednesday
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4');
+    expect(isoStrings(expandOccurrences(rule, new Date('2030-01-09T09:00:00Z'), 'UTC'))).toEqual([
+      '2030-01-09T09:00:00.000Z',
+      '2030-01-14T09:00:00.000Z',
+      '2030-01-16T09:00:00.000Z',
+      '2030-01-21T09:00:00.000Z',
+    ]);
+  });
+
+  it('stops at UNTIL and honours the interval', () => {
+    const rule = parseRRule('FREQ=DAILY;INTERVAL=2;UNTIL=20300105T090000Z');
+    expect(isoStrings(expandOccurrences(rule, new Date('2030-01-01T09:00:00Z'), 'UTC'))).toEqual([
+      '2030-01-01T09:00:00.000Z',
+      '2030-01-03T09:00:00.000Z',
+      '2030-01-05T09:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the start day', () => {
+    const rule = parseRRule('FREQ=MONTHLY;COUNT=3');
+    expect(isoStrings(expandOccurrences(rule, new Date('2030-01-31T12:00:00Z'), 'UTC'))).toEqual([
+      '2030-01-31T12:00:00.000Z',
+      '2030-03-31T12:00:00.000Z',
+      '2030-05-31T12:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the wall-clock time across daylight saving changes', () => {
+    // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC after 2030-03-10
+    const rule = parseRRule('FREQ=WEEKLY;COUNT=3');
+    expect(
+      isoStrings(expandOccurrences(rule, new Date('2030-03-03T14:00:00Z'), 'America/New_York'))
+    ).toEqual([
+      '2030-03-03T14:00:00.000Z',
+      '2030-03-10T13:00:00.000Z',
+      '2030-03-17T13:00:00.000Z',
+    ]);
+  });
+
+  it('refuses open-ended and oversized series', () => {
+    const start = new Date('2030-01-01T09:00:00Z');
+    expect(() => expandOccurrences(parseRRule('FREQ=DAILY'), start, 'UTC')).toThrow(
+      RecurrenceError
+    );
+    expect(() =>
+      expandOccurrences(parseRRule(`FREQ=DAILY;COUNT=${MAX_OCCURRENCES + 1}`), start, 'UTC')
+    ).toThrow(`at most ${MAX_OCCURRENCES}`);
+  });
+});
+
+describe('endRuleBefore', () => {
+  it('ends the series just before the occurrence', () => {
+    const occurrence = new Date('2030-01-05T09:00:00Z');
+    const rule = endRuleBefore(parseRRule('FREQ=DAILY;COUNT=10'), occurrence);
+    expect(rule).toMatchObject({ count: null, until: new Date('2030-01-05T08:59:59Z') });
+    expect(expandOccurrences(rule, new Date('2030-01-01T09:00:00Z'), 'UTC')).toHaveLength(4);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarises the rule', () => {
+    expect(describeRecurrence(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;COUNT=10'))).toBe(
+      'Every 2 weeks on Mon, Wed, 10 times'
+    );
+    expect(describeRecurrence(parseRRule('FREQ=MONTHLY;UNTIL=20300110T120000Z'), 'UTC')).toBe(
+      'Every month, until Jan 10, 2030'
+    );
+  });
+});
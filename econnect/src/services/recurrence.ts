@@ -0,0 +1,245 @@
+import { addDays, addMonths, addWeeks, startOfWeek, set } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '../types';
+import { formatDateInTimeZone, fromZonedTime, getLocalTimeZone, toZonedTime } from './timeZones';
+import { AppError } from './errors';
+
+// Every occurrence becomes a meeting document, so a series is capped
+const MAX_OCCURRENCES = 100;
+
+const FREQUENCIES: readonly RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+// RRULE weekdays in week order, Monday first (the RFC 5545 default WKST)
+const WEEKDAYS: readonly Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+const PERIOD_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+// Thrown for recurrence rules the app can't parse or expand
+export class RecurrenceError extends AppError {
+  constructor(message: string) {
+    super('RecurrenceError', message);
+  }
+}
+
+const weekdayOf = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+const positiveInteger = (value: string, part: string): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new RecurrenceError(`${part} must be a positive whole number`);
+  }
+  return number;
+};
+
+// UNTIL is either a date (20261231), which lasts until the end of that day in
+// the event's zone, or a UTC date-time (20261231T235959Z)
+const parseUntil = (value: string, timeZone: string): Date => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/);
+  if (!match) {
+    throw new RecurrenceError(`Unsupported UNTIL value "${value}"`);
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return match[4]
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : fromZonedTime(new TZDate(year, month - 1, day, 23, 59, 59, timeZone), timeZone);
+};
+
+const formatUntil = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Parse the RRULE subset the app supports: FREQ, INTERVAL, BYDAY (weekly
+// only), and COUNT or UNTIL. timeZone is the event's, which a date-only
+// UNTIL is read in (the browser's by default).
+const parseRRule = (text: string, timeZone: string = getLocalTimeZone()): RecurrenceRule => {
+  const rule: RecurrenceRule = {
+    frequency: 'WEEKLY',
+    interval: 1,
+    byWeekday: [],
+    count: null,
+    until: null,
+  };
+  let hasFrequency = false;
+
+  text
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+    .forEach((part) => {
+      const [key, value = ''] = part.split('=');
+      switch (key.toUpperCase()) {
+        case 'FREQ': {
+          const frequency = value.toUpperCase() as RecurrenceFrequency;
+          if (!FREQUENCIES.includes(frequency)) {
+            throw new RecurrenceError(`Unsupported frequency "${value}"`);
+          }
+          rule.frequency = frequency;
+          hasFrequency = true;
+          break;
+        }
+        case 'INTERVAL':
+          rule.interval = positiveInteger(value, 'INTERVAL');
+          break;
+        case 'BYDAY':
+          rule.byWeekday = value.split(',').map((day) => {
+            const weekday = day.toUpperCase() as Weekday;
+            if (!WEEKDAYS.includes(weekday)) {
+              throw new RecurrenceError(`Unsupported BYDAY value "${day}"`);
+            }
+            return weekday;
+          });
+          break;
+        case 'COUNT':
+          rule.count = positiveInteger(value, 'COUNT');
+          break;
+        case 'UNTIL':
+          rule.until = parseUntil(value, timeZone);
+          break;
+        case 'WKST':
+          if (value.toUpperCase() !== 'MO') {
+            throw new RecurrenceError('Only weeks starting on Monday are supported');
+          }
+          break;
+        default:
+          throw new RecurrenceError(`Unsupported recurrence part "${key}"`);
+      }
+    });
+
+  if (!hasFrequency) {
+    throw new RecurrenceError('A recurrence needs a FREQ');
+  }
+  // RFC 5545 doesn't allow both
+  if (rule.count !== null && rule.until !== null) {
+    throw new RecurrenceError(
+      'A recurrence can end after a number of occurrences or on a date, not both'
+    );
+  }
+  if (rule.byWeekday.length > 0 && rule.frequency !== 'WEEKLY') {
+    throw new RecurrenceError('BYDAY is only supported for weekly recurrences');
+  }
+  return rule;
+};
+
+// RRULE text for a rule, as stored on the event
+const formatRRule = (rule: RecurrenceRule): string =>
+  [
+    `FREQ=${rule.frequency}`,
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+    ...(rule.frequency === 'WEEKLY' && rule.byWeekday.length > 0
+      ? [`BYDAY=${WEEKDAYS.filter((day) => rule.byWeekday.includes(day)).join(',')}`]
+      : []),
+    ...(rule.count !== null ? [`COUNT=${rule.count}`] : []),
+    ...(rule.until !== null ? [`UNTIL=${formatUntil(rule.until)}`] : []),
+  ].join(';');
+
+// Occurrence starts in the nth period (day, week or month) of the series, as
+// wall-clock times in the zone of start (a TZDate). Times of day are kept, so a 9:00 standup stays at 9:00
+// across daylight saving changes.
+const occurrencesInPeriod = (rule: RecurrenceRule, start: Date, period: number): Date[] => {
+  const step = period * rule.interval;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return [addDays(start, step)];
+    case 'MONTHLY': {
+      const date = addMonths(start, step);
+      // Like RFC 5545, skip months that don't have the start's day
+      return date.getDate() === start.getDate() ? [date] : [];
+    }
+    case 'WEEKLY': {
+      const weekStart = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), step);
+      const days = rule.byWeekday.length > 0 ? rule.byWeekday : [weekdayOf(start)];
+      return WEEKDAYS.filter((day) => days.includes(day))
+        .map((day) =>
+          set(addDays(weekStart, WEEKDAYS.indexOf(day)), {
+            hours: start.getHours(),
+            minutes: start.getMinutes(),
+            seconds: start.getSeconds(),
+            milliseconds: start.getMilliseconds(),
+          })
+        )
+        .filter((date) => date >= start);
+    }
+  }
+};
+
+// Start times of every occurrence of a series beginning at start, repeating
+// in the wall-clock time of timeZone (the browser's by default). Throws when
+// the rule is open-ended or yields more than MAX_OCCURRENCES.
+const expandOccurrences = (
+  rule: RecurrenceRule,
+  start: Date,
+  timeZone: string = getLocalTimeZone()
+): Date[] => {
+  if (rule.count === null && rule.until === null) {
+    throw new RecurrenceError('A recurrence needs a number of occurrences or an end date');
+  }
+
+  const wallStart = toZonedTime(start, timeZone);
+  const occurrences: Date[] = [];
+  // Bounds the scan for monthly rules whose day is missing from most months
+  const maxPeriods = MAX_OCCURRENCES * 12;
+  for (let period = 0; period < maxPeriods; period++) {
+    for (const wallTime of occurrencesInPeriod(rule, wallStart, period)) {
+      const date = fromZonedTime(wallTime, timeZone);
+      if ((rule.until && date > rule.until) || occurrences.length === rule.count) {
+        return occurrences;
+      }
+      if (occurrences.length === MAX_OCCURRENCES) {
+        throw new RecurrenceError(`A series can have at most ${MAX_OCCURRENCES} occurrences`);
+      }
+      occurrences.push(date);
+    }
+  }
+  return occurrences;
+};
+
+// The same rule, ending before the given occurrence. Used to split a series
+// when all following occurrences are edited.
+const endRuleBefore = (rule: RecurrenceRule, occurrenceStart: Date): RecurrenceRule => ({
+  ...rule,
+  count: null,
+  until: new Date(occurrenceStart.getTime() - 1000),
+});
+
+// Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+const describeRecurrence = (rule: RecurrenceRule, timeZone: string = getLocalTimeZone()): string => {
+  const period = PERIOD_LABELS[rule.frequency];
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${period}s` : `Every ${period}`;
+  const days =
+    rule.frequency === 'WEEKLY' && rule.byWeekday.length > 0
+      ? ` on ${WEEKDAYS.filter((day) => rule.byWeekday.includes(day))
+          .map((day) => WEEKDAY_LABELS[day])
+          .join(', ')}`
+      : '';
+  const end =
+    rule.count !== null
+      ? `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`
+      : rule.until
+        ? `, until ${formatDateInTimeZone(rule.until, timeZone)}`
+        : '';
+  return `${every}${days}${end}`;
+};
+
+export {
+  MAX_OCCURRENCES,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  weekdayOf,
+  parseRRule,
+  formatRRule,
+  expandOccurrences,
+  endRuleBefore,
+  describeRecurrence,
+};
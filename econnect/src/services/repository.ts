@@ -0,0 +1,166 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  CollectionReference,
+  DocumentReference,
+  FirestoreDataConverter,
+  Query,
+  QueryConstraint,
+  QuerySnapshot,
+} from 'firebase/firestore';
+import { firestore } from './firebase';
+import {
+  DocumentValidationError,
+  userConverter,
+  eventConverter,
+  eventMembershipConverter,
+  eventAuditConverter,
+  meetingConverter,
+  meetingMembershipConverter,
+  attendanceConverter,
+  recordingConverter,
+  meetingAnalyticsConverter,
+  virtualTableConverter,
+  serviceConverter,
+  serviceRequestConverter,
+  serviceBookingConverter,
+  serviceReviewConverter,
+} from './converters';
+import {
+  User,
+  Event,
+  EventMembership,
+  EventAuditEntry,
+  Meeting,
+  MeetingMembership,
+  AttendanceInterval,
+  Recording,
+  MeetingAnalytics,
+  VirtualTable,
+  Service,
+  ServiceRequest,
+  ServiceBooking,
+  ServiceReview,
+} from '../types';
+
+export interface Repository<T> {
+  path: string;
+  collection: () => CollectionReference<T>;
+  doc: (id: string) => DocumentReference<T>;
+  query: (...constraints: QueryConstraint[]) => Query<T>;
+  get: (id: string) => Promise<T | null>;
+  list: (...constraints: QueryConstraint[]) => Promise<T[]>;
+}
+
+export interface ParsedDocuments<T> {
+  items: T[];
+  invalid: DocumentValidationError[];
+}
+
+// Parse every document in a snapshot, setting aside the ones that fail
+// validation so one bad document doesn't take down the whole list
+const readDocuments = <T>(snapshot: QuerySnapshot<T>): ParsedDocuments<T> => {
+  const items: T[] = [];
+  const invalid: DocumentValidationError[] = [];
+
+  snapshot.docs.forEach((document) => {
+    try {
+      items.push(document.data());
+    } catch (error) {
+      if (!(error instanceof DocumentValidationError)) throw error;
+      console.warn(error.message);
+      invalid.push(error);
+    }
+  });
+
+  return { items, invalid };
+};
+
+// Typed access to one Firestore collection. Every read goes through the
+// collection's converter; writes stay with the services that own them.
+const createRepository = <T>(path: string, converter: FirestoreDataConverter<T>): Repository<T> => {
+  const collectionRef = () => collection(firestore, path).withConverter(converter);
+  const docRef = (id: string) => doc(firestore, path, id).withConverter(converter);
+
+  return {
+    path,
+    collection: collectionRef,
+    doc: docRef,
+    query: (...constraints) => query(collectionRef(), ...constraints),
+    get: async (id) => {
+      const snapshot = await getDoc(docRef(id));
+      return snapshot.exists() ? snapshot.data() : null;
+    },
+    list: async (...constraints) => {
+      const snapshot = await getDocs(query(collectionRef(), ...constraints));
+      return readDocuments(snapshot).items;
+    },
+  };
+};
+
+const usersRepository = createRepository<User>('users', userConverter);
+const eventsRepository = createRepository<Event>('events', eventConverter);
+const meetingsRepository = createRepository<Meeting>('meetings', meetingConverter);
+// Membership indexes, written by the backend only
+const eventMembersRepository = createRepository<EventMembership>(
+  'eventMembers',
+  eventMembershipConverter
+);
+const meetingMembersRepository = createRepository<MeetingMembership>(
+  'meetingMembers',
+  meetingMembershipConverter
+);
+const recordingsRepository = createRepository<Recording>('recordings', recordingConverter);
+const meetingAnalyticsRepository = createRepository<MeetingAnalytics>(
+  'meetingAnalytics',
+  meetingAnalyticsConverter
+);
+const virtualTablesRepository = createRepository<VirtualTable>(
+  'virtualTables',
+  virtualTableConverter
+);
+const servicesRepository = createRepository<Service>('services', serviceConverter);
+const serviceRequestsRepository = createRepository<ServiceRequest>(
+  'serviceRequests',
+  serviceRequestConverter
+);
+// Claimed service slots; readable by everyone signed in, without request details
+const serviceBookingsRepository = createRepository<ServiceBooking>(
+  'serviceBookings',
+  serviceBookingConverter
+);
+const serviceReviewsRepository = createRepository<ServiceReview>(
+  'serviceReviews',
+  serviceReviewConverter
+);
+
+// Attendance intervals are a subcollection of each meeting
+const attendanceRepository = (meetingId: string) =>
+  createRepository<AttendanceInterval>(`meetings/${meetingId}/attendance`, attendanceConverter);
+
+// Host actions on an event, newest last
+const eventAuditRepository = (eventId: string) =>
+  createRepository<EventAuditEntry>(`events/${eventId}/auditLog`, eventAuditConverter);
+
+export {
+  DocumentValidationError,
+  readDocuments,
+  createRepository,
+  usersRepository,
+  eventsRepository,
+  eventMembersRepository,
+  eventAuditRepository,
+  meetingsRepository,
+  meetingMembersRepository,
+  attendanceRepository,
+  recordingsRepository,
+  meetingAnalyticsRepository,
+  virtualTablesRepository,
+  servicesRepository,
+  serviceRequestsRepository,
+  serviceBookingsRepository,
+  serviceReviewsRepository,
+};
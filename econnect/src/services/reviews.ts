@@ -0,0 +1,51 @@
+import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { firestore } from './firebase';
+import { RatingSummary, ServiceRequest, ServiceReview } from '../types';
+
+const MIN_RATING = 1;
+const MAX_RATING = 5;
+// Keep in sync with firestore.rules
+const MAX_COMMENT_LENGTH = 1000;
+
+// Average rating (to one decimal) and number of reviews
+const summarizeRatings = (reviews: Pick<ServiceReview, 'rating'>[]): RatingSummary => {
+  if (reviews.length === 0) return { average: null, count: 0 };
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+  return { average: Math.round((total / reviews.length) * 10) / 10, count: reviews.length };
+};
+
+// Rate a completed request. The review is stored under the request's ID, so
+// a request can only be reviewed once; the rules check the request was the
+// reviewer's and has been completed.
+const submitServiceReview = async (
+  request: Pick<ServiceRequest, 'id' | 'serviceId' | 'providerId' | 'requesterId' | 'status'>,
+  rating: number,
+  comment?: string
+): Promise<void> => {
+  if (request.status !== 'completed') {
+    throw new Error('Only completed requests can be reviewed');
+  }
+  if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+    throw new Error(`Ratings are whole numbers from ${MIN_RATING} to ${MAX_RATING}`);
+  }
+  const trimmed = comment?.trim();
+  if (trimmed && trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Reviews are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  try {
+    await setDoc(doc(firestore, 'serviceReviews', request.id), {
+      serviceId: request.serviceId,
+      providerId: request.providerId,
+      reviewerId: request.requesterId,
+      rating,
+      ...(trimmed ? { comment: trimmed } : {}),
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error submitting service review:', error);
+    throw error;
+  }
+};
+
+export { MIN_RATING, MAX_RATING, MAX_COMMENT_LENGTH, summarizeRatings, submitServiceReview };
@@ -0,0 +1,149 @@
+import { doc, runTransaction, serverTimestamp, DocumentData } from 'firebase/firestore';
+import { firestore } from './firebase';
+import { serviceRequestsRepository, servicesRepository } from './repository';
+import { DEFAULT_SLOT_MINUTES } from './bookings';
+import { ServiceRequest, ServiceRequestStatus } from '../types';
+import { AppError } from './errors';
+
+// Statuses a request can move to from each status. Rejecting an accepted
+// request cancels it. Keep in sync with firestore.rules.
+const SERVICE_REQUEST_TRANSITIONS: Record<ServiceRequestStatus, ServiceRequestStatus[]> = {
+  pending: ['accepted', 'rejected'],
+  accepted: ['completed', 'rejected'],
+  rejected: [],
+  completed: [],
+};
+
+// Match the window generateJitsiToken lets people into the room
+const ROOM_EARLY_JOIN_MINUTES = 15;
+const ROOM_LATE_LEAVE_MINUTES = 60;
+
+// Thrown when a status change isn't allowed from the request's current status
+export class InvalidStatusTransitionError extends AppError {
+  readonly from: ServiceRequestStatus;
+  readonly to: ServiceRequestStatus;
+
+  constructor(from: ServiceRequestStatus, to: ServiceRequestStatus) {
+    super('InvalidStatusTransitionError', `A ${from} request can't be marked ${to}`);
+    this.from = from;
+    this.to = to;
+  }
+}
+
+const canTransition = (from: ServiceRequestStatus, to: ServiceRequestStatus): boolean =>
+  SERVICE_REQUEST_TRANSITIONS[from].includes(to);
+
+// Requests for "as soon as possible" have no slot, so they're given one
+// starting when they're accepted
+const sessionTimes = (
+  request: Pick<ServiceRequest, 'scheduledTime' | 'scheduledEndTime'>,
+  slotMinutes: number = DEFAULT_SLOT_MINUTES
+): { start: Date; end: Date } | null => {
+  if (!request.scheduledTime) return null;
+  return {
+    start: request.scheduledTime,
+    end:
+      request.scheduledEndTime ||
+      new Date(request.scheduledTime.getTime() + slotMinutes * 60000),
+  };
+};
+
+// When the session room of an accepted request can be joined
+const getSessionWindow = (request: ServiceRequest): { opensAt: Date; closesAt: Date } | null => {
+  const times = sessionTimes(request);
+  if (!times) return null;
+  return {
+    opensAt: new Date(times.start.getTime() - ROOM_EARLY_JOIN_MINUTES * 60000),
+    closesAt: new Date(times.end.getTime() + ROOM_LATE_LEAVE_MINUTES * 60000),
+  };
+};
+
+const isSessionRoomOpen = (request: ServiceRequest, now: Date = new Date()): boolean => {
+  const sessionWindow = getSessionWindow(request);
+  return (
+    request.status === 'accepted' &&
+    !!request.jitsiRoomName &&
+    !!sessionWindow &&
+    now >= sessionWindow.opensAt &&
+    now <= sessionWindow.closesAt
+  );
+};
+
+// Split an inbox into requests awaiting a decision, accepted sessions
+// (soonest first) and closed requests (most recent first)
+const groupServiceRequests = (requests: ServiceRequest[]) => {
+  const startOf = (request: ServiceRequest) =>
+    (request.scheduledTime || request.requestedTime).getTime();
+
+  return {
+    pending: requests.filter((request) => request.status === 'pending'),
+    upcoming: requests
+      .filter((request) => request.status === 'accepted')
+      .sort((a, b) => startOf(a) - startOf(b)),
+    history: requests
+      .filter((request) => request.status === 'rejected' || request.status === 'completed')
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+  };
+};
+
+// Move a request to a new status, checking the change against its current
+// status in a transaction. Accepting a request without a slot schedules it
+// from now for one session; a session can only be completed once it has
+// started. Rejecting frees the slot (see onServiceRequestBookingChanged), and
+// accepting gets the request its room (see onServiceRequestAccepted).
+const updateServiceRequestStatus = async (
+  requestId: string,
+  status: ServiceRequestStatus,
+  responseMessage?: string
+): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const snapshot = await transaction.get(serviceRequestsRepository.doc(requestId));
+      const request = snapshot.exists() ? snapshot.data() : null;
+      if (!request) {
+        throw new Error('Service request not found');
+      }
+      if (!canTransition(request.status, status)) {
+        throw new InvalidStatusTransitionError(request.status, status);
+      }
+
+      const now = new Date();
+      const changes: DocumentData = {
+        status,
+        responseMessage: responseMessage?.trim() || null,
+        updatedAt: serverTimestamp(),
+      };
+
+      if (status === 'accepted' && !request.scheduledTime) {
+        const service = await transaction.get(servicesRepository.doc(request.serviceId));
+        const slotMinutes = service.data()?.availability.slotMinutes || DEFAULT_SLOT_MINUTES;
+        changes.scheduledTime = now;
+        changes.scheduledEndTime = new Date(now.getTime() + slotMinutes * 60000);
+      }
+      if (status === 'completed' && request.scheduledTime && request.scheduledTime > now) {
+        throw new Error("A session can't be completed before it starts");
+      }
+
+      if (status === 'completed') {
+        changes.completedAt = serverTimestamp();
+      } else {
+        changes.respondedAt = serverTimestamp();
+      }
+
+      transaction.update(doc(firestore, 'serviceRequests', requestId), changes);
+    });
+  } catch (error) {
+    console.error('Error updating service request status:', error);
+    throw error;
+  }
+};
+
+export {
+  SERVICE_REQUEST_TRANSITIONS,
+  canTransition,
+  sessionTimes,
+  getSessionWindow,
+  isSessionRoomOpen,
+  groupServiceRequests,
+  updateServiceRequestStatus,
+};
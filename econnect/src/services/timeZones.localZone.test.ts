@@ -0,0 +1,66 @@
+/**
+ * @jest-environment ./src/localTimeZoneEnvironment.ts
+ * @local-time-zone America/New_York
+ */
+import { generateSlots } from './bookings';
+import { expandOccurrences, parseRRule } from './recurrence';
+import { formatInTimeZone, fromZonedTime, toDateTimeInputValue, toZonedTime } from './timeZones';
+
+jest.mock('./firebase', () => ({ bookServiceSlot: jest.fn() }));
+
+const isoStrings = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+// Runs as a browser in New York, which springs forward from 02:00 to 03:00 on
+// 2030-03-10. Berlin keeps its clocks that night, so its 02:30 exists even
+// though the browser's doesn't, and must not move.
+describe('time zone helpers in a browser with its own daylight saving gap', () => {
+  const berlinHalfPastTwo = new Date('2030-03-10T01:30:00Z');
+
+  it('runs with the pinned local zone', () => {
+    expect(new Date('2030-03-10T12:00:00Z').getTimezoneOffset()).toBe(240);
+  });
+
+  it('shows and reads back times in the browser gap', () => {
+    expect(formatInTimeZone(berlinHalfPastTwo, 'Europe/Berlin', 'HH:mm')).toBe('02:30');
+    expect(toDateTimeInputValue(berlinHalfPastTwo, 'Europe/Berlin')).toBe('2030-03-10T02:30');
+    const zoned = toZonedTime(berlinHalfPastTwo, 'Europe/Berlin');
+    expect(zoned.getHours()).toBe(2);
+    expect(fromZonedTime(zoned, 'Europe/Berlin')).toEqual(berlinHalfPastTwo);
+  });
+
+  it('lays out slots in the browser gap', () => {
+    // 2030-03-10 is a Sunday
+    const service = {
+      id: 's1',
+      providerId: 'provider',
+      availability: {
+        days: ['Sunday'],
+        startTime: '02:00',
+        endTime: '03:00',
+        timeZone: 'Europe/Berlin',
+        slotMinutes: 30,
+        bufferMinutes: 0,
+      },
+    };
+    const slots = generateSlots(
+      service,
+      new Date('2030-03-10T00:00:00Z'),
+      new Date('2030-03-11T00:00:00Z')
+    );
+    expect(isoStrings(slots.map((slot) => slot.startTime))).toEqual([
+      '2030-03-10T01:00:00.000Z',
+      '2030-03-10T01:30:00.000Z',
+    ]);
+  });
+
+  it('repeats occurrences through the browser gap', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=3', 'Europe/Berlin');
+    expect(
+      isoStrings(expandOccurrences(rule, new Date('2030-03-09T01:30:00Z'), 'Europe/Berlin'))
+    ).toEqual([
+      '2030-03-09T01:30:00.000Z',
+      '2030-03-10T01:30:00.000Z',
+      '2030-03-11T01:30:00.000Z',
+    ]);
+  });
+});
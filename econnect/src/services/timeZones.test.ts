@@ -0,0 +1,106 @@
+/**
+ * @jest-environment ./src/localTimeZoneEnvironment.ts
+ * @local-time-zone UTC
+ */
+// wallTime reads its fields in the local zone, so pin that to UTC, which has
+// no daylight saving gaps of its own. timeZones.localZone.test.ts covers a
+// browser zone that does.
+import {
+  convertTimeOfDay,
+  fromDateTimeInputValue,
+  fromZonedTime,
+  getTimeZoneOffset,
+  parseTimeOfDay,
+  toDateTimeInputValue,
+  toZonedTime,
+} from './timeZones';
+
+const wallTime = (value: string) => new Date(value); // local fields, read as a wall time
+
+describe('fromZonedTime', () => {
+  it('reads a wall time in the zone', () => {
+    expect(fromZonedTime(wallTime('2030-01-07T09:00:00'), 'Europe/Berlin').toISOString()).toBe(
+      '2030-01-07T08:00:00.000Z'
+    );
+    expect(fromZonedTime(wallTime('2030-07-01T09:00:00'), 'Europe/Berlin').toISOString()).toBe(
+      '2030-07-01T07:00:00.000Z'
+    );
+  });
+
+  it('moves times skipped by the clocks going forward past the gap', () => {
+    // New York springs forward from 02:00 EST to 03:00 EDT on 2030-03-10
+    expect(
+      fromZonedTime(wallTime('2030-03-10T02:30:00'), 'America/New_York').toISOString()
+    ).toBe('2030-03-10T07:30:00.000Z');
+    expect(fromZonedTime(wallTime('2030-03-31T02:30:00'), 'Europe/Berlin').toISOString()).toBe(
+      '2030-03-31T01:30:00.000Z'
+    );
+  });
+
+  it('reads times repeated by the clocks going back as the first of the two', () => {
+    // New York falls back from 02:00 EDT to 01:00 EST on 2030-11-03
+    expect(
+      fromZonedTime(wallTime('2030-11-03T01:30:00'), 'America/New_York').toISOString()
+    ).toBe('2030-11-03T05:30:00.000Z');
+    // Berlin falls back from 03:00 CEST to 02:00 CET on 2030-10-27
+    expect(fromZonedTime(wallTime('2030-10-27T02:30:00'), 'Europe/Berlin').toISOString()).toBe(
+      '2030-10-27T00:30:00.000Z'
+    );
+  });
+
+  it('round-trips with toZonedTime outside the changes', () => {
+    const instant = new Date('2030-05-15T22:45:00Z');
+    ['UTC', 'Asia/Kolkata', 'America/Los_Angeles', 'Pacific/Auckland'].forEach((zone) => {
+      expect(fromZonedTime(toZonedTime(instant, zone), zone)).toEqual(instant);
+    });
+  });
+});
+
+describe('toZonedTime', () => {
+  it('shows the instant on the zone clock', () => {
+    const zoned = toZonedTime(new Date('2030-11-03T06:30:00Z'), 'America/New_York');
+    expect([zoned.getDate(), zoned.getHours(), zoned.getMinutes()]).toEqual([3, 1, 30]);
+    expect(getTimeZoneOffset(new Date('2030-11-03T06:30:00Z'), 'America/New_York')).toBe(-300);
+  });
+});
+
+describe('datetime inputs', () => {
+  it('reads and writes input values in the zone', () => {
+    const instant = fromDateTimeInputValue('2030-01-07T09:00', 'Asia/Tokyo');
+    expect(instant.toISOString()).toBe('2030-01-07T00:00:00.000Z');
+    expect(toDateTimeInputValue(instant, 'Asia/Tokyo')).toBe('2030-01-07T09:00');
+    expect(isNaN(fromDateTimeInputValue('soon', 'Asia/Tokyo').getTime())).toBe(true);
+  });
+});
+
+describe('parseTimeOfDay', () => {
+  it('normalises 24-hour and locale times', () => {
+    expect(parseTimeOfDay('09:00')).toBe('09:00');
+    expect(parseTimeOfDay('9:05')).toBe('09:05');
+    expect(parseTimeOfDay('17:30:00')).toBe('17:30');
+    expect(parseTimeOfDay(' 09:00 AM ')).toBe('09:00');
+    expect(parseTimeOfDay('12:00 AM')).toBe('00:00');
+    expect(parseTimeOfDay('12:15 pm')).toBe('12:15');
+    expect(parseTimeOfDay('5:45 p.m.')).toBe('17:45');
+  });
+
+  it('rejects anything else', () => {
+    ['', 'noon', '24:00', '09:60', '13:00 PM', '0:30 AM', '9'].forEach((value) =>
+      expect(parseTimeOfDay(value)).toBeUndefined()
+    );
+  });
+});
+
+describe('convertTimeOfDay', () => {
+  it('gives the same moment in another zone and the day it falls on', () => {
+    const reference = new Date('2030-01-07T12:00:00Z');
+    expect(convertTimeOfDay('09:00', 'Europe/Berlin', 'America/New_York', reference)).toEqual({
+      time: '03:00',
+      dayOffset: 0,
+    });
+    expect(convertTimeOfDay('23:00', 'America/New_York', 'Asia/Tokyo', reference)).toEqual({
+      time: '13:00',
+      dayOffset: 1,
+    });
+  });
+});
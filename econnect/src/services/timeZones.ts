@@ -0,0 +1,218 @@
+import { format, parse, isValid } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import { Service } from '../types';
+
+// date-fns works on the browser's local clock unless it is given a TZDate
+// from @date-fns/tz, whose fields and arithmetic follow its own zone. These
+// helpers move instants to and from the wall-clock time of an IANA time zone
+// that way, so times are entered and shown in the zone they belong to rather
+// than wherever the viewer happens to be, and the browser's own daylight
+// saving changes never shift them.
+
+type Availability = Service['availability'];
+
+// Offered when the browser can't list its supported zones
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Africa/Lagos',
+  'Africa/Nairobi',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+const DATE_TIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+const TIME_OF_DAY_FORMAT = 'HH:mm';
+
+// The browser's IANA time zone
+const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The zone if it is a real IANA name, otherwise the browser's
+const resolveTimeZone = (timeZone?: string | null): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : getLocalTimeZone();
+
+// Every zone the browser knows, for pickers. Always includes UTC and the
+// browser's own zone.
+const listTimeZones = (): string[] => {
+  const intl = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+  return Array.from(new Set(['UTC', getLocalTimeZone(), ...zones])).sort();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minutes the zone is ahead of UTC at the given instant
+const getTimeZoneOffset = (date: Date, timeZone: string): number =>
+  -new TZDate(date.getTime(), timeZone).getTimezoneOffset();
+
+// The instant as a TZDate, whose fields show the zone's wall-clock time, for
+// formatting and calendar arithmetic with date-fns
+const toZonedTime = (date: Date, timeZone: string): TZDate => new TZDate(date.getTime(), timeZone);
+
+// The instant at which the zone's clock shows the wall time held in the
+// fields of zoned: its own zone's for a TZDate, the browser's for a Date from
+// a date picker. Times skipped when the clocks go forward move
+// forward by the size of the gap (02:30 becomes 03:30). Times repeated when
+// they go back are read as the first of the two.
+const fromZonedTime = (zoned: Date, timeZone: string): Date => {
+  const instant = new TZDate(
+    zoned.getFullYear(),
+    zoned.getMonth(),
+    zoned.getDate(),
+    zoned.getHours(),
+    zoned.getMinutes(),
+    zoned.getSeconds(),
+    zoned.getMilliseconds(),
+    timeZone
+  ).getTime();
+  // TZDate may land on either instance of a repeated time; the earlier one
+  // is still on the offset from before the change
+  const offsetBefore = getTimeZoneOffset(new Date(instant - DAY_MS), timeZone);
+  const earlier =
+    instant - (offsetBefore - getTimeZoneOffset(new Date(instant), timeZone)) * 60000;
+  return new Date(
+    earlier < instant && getTimeZoneOffset(new Date(earlier), timeZone) === offsetBefore
+      ? earlier
+      : instant
+  );
+};
+
+// Format an instant as seen in the zone, with a date-fns pattern
+const formatInTimeZone = (date: Date, timeZone: string, pattern: string): string =>
+  format(toZonedTime(date, timeZone), pattern);
+
+// Short zone name at the instant, e.g. "CEST" or "GMT+3"
+const getTimeZoneAbbreviation = (date: Date, timeZone: string): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part ? part.value : timeZone;
+};
+
+// Display formats used across the app
+const formatDateInTimeZone = (date: Date, timeZone: string): string =>
+  formatInTimeZone(date, timeZone, 'MMM d, yyyy');
+
+const formatTimeInTimeZone = (date: Date, timeZone: string): string =>
+  `${formatInTimeZone(date, timeZone, 'h:mm a')} ${getTimeZoneAbbreviation(date, timeZone)}`;
+
+const formatDateTimeInTimeZone = (date: Date, timeZone: string): string =>
+  `${formatInTimeZone(date, timeZone, 'MMM d, yyyy h:mm a')} ${getTimeZoneAbbreviation(date, timeZone)}`;
+
+// "Mar 23, 2026 9:00 AM - 10:30 AM CET", with the end date repeated only
+// when it falls on another day in the zone
+const formatTimeRangeInTimeZone = (start: Date, end: Date, timeZone: string): string => {
+  const sameDay =
+    formatInTimeZone(start, timeZone, 'yyyy-MM-dd') === formatInTimeZone(end, timeZone, 'yyyy-MM-dd');
+  const from = formatInTimeZone(start, timeZone, 'MMM d, yyyy h:mm a');
+  const to = formatInTimeZone(end, timeZone, sameDay ? 'h:mm a' : 'MMM d, yyyy h:mm a');
+  return `${from} - ${to} ${getTimeZoneAbbreviation(end, timeZone)}`;
+};
+
+// Value for a datetime-local input showing the instant in the zone
+const toDateTimeInputValue = (date: Date, timeZone: string): string =>
+  formatInTimeZone(date, timeZone, DATE_TIME_INPUT_FORMAT);
+
+// Read a datetime-local input as a wall time in the zone. Invalid input
+// gives an Invalid Date.
+const fromDateTimeInputValue = (value: string, timeZone: string): Date => {
+  const wallTime = parse(value, DATE_TIME_INPUT_FORMAT, new Date());
+  return isValid(wallTime) ? fromZonedTime(wallTime, timeZone) : new Date(NaN);
+};
+
+// Normalise a time of day to 24-hour "HH:mm". Also accepts the locale
+// strings older services were saved with, like "09:00 AM".
+const parseTimeOfDay = (value: string): string | undefined => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp]\.?[Mm]\.?)?$/);
+  if (!match) return undefined;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3] ? match[3][0].toUpperCase() : null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (meridiem === 'P' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return undefined;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// A time of day ("HH:mm") in one zone as the same moment in another, on the
+// day of reference in the source zone. dayOffset is -1 or 1 when the moment
+// falls on the previous or next day in the target zone.
+const convertTimeOfDay = (
+  time: string,
+  fromTimeZone: string,
+  toTimeZone: string,
+  reference: Date = new Date()
+): { time: string; dayOffset: number } => {
+  const day = formatInTimeZone(reference, fromTimeZone, 'yyyy-MM-dd');
+  const instant = fromDateTimeInputValue(`${day}T${time}`, fromTimeZone);
+  const targetDay = formatInTimeZone(instant, toTimeZone, 'yyyy-MM-dd');
+  return {
+    time: formatInTimeZone(instant, toTimeZone, TIME_OF_DAY_FORMAT),
+    dayOffset: targetDay === day ? 0 : targetDay > day ? 1 : -1,
+  };
+};
+
+const describeTimeOfDay = ({ time, dayOffset }: { time: string; dayOffset: number }): string =>
+  dayOffset === 0 ? time : `${time} (${dayOffset > 0 ? 'next' : 'previous'} day)`;
+
+// Opening hours in the provider's zone, plus the viewer's local equivalent
+// when they are somewhere else. Services saved before zones were recorded
+// are shown as they were entered.
+const describeAvailability = (availability: Availability, viewerTimeZone: string): string => {
+  const hours = `${availability.startTime} - ${availability.endTime}`;
+  if (!availability.timeZone) return hours;
+
+  const zoned = `${hours} (${availability.timeZone})`;
+  const from = convertTimeOfDay(availability.startTime, availability.timeZone, viewerTimeZone);
+  const to = convertTimeOfDay(availability.endTime, availability.timeZone, viewerTimeZone);
+  if (from.time === availability.startTime && from.dayOffset === 0 && to.time === availability.endTime) {
+    return zoned;
+  }
+  return `${zoned}, ${describeTimeOfDay(from)} - ${describeTimeOfDay(to)} your time`;
+};
+
+export {
+  COMMON_TIME_ZONES,
+  getLocalTimeZone,
+  isValidTimeZone,
+  resolveTimeZone,
+  listTimeZones,
+  getTimeZoneOffset,
+  toZonedTime,
+  fromZonedTime,
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  formatDateInTimeZone,
+  formatTimeInTimeZone,
+  formatDateTimeInTimeZone,
+  formatTimeRangeInTimeZone,
+  toDateTimeInputValue,
+  fromDateTimeInputValue,
+  parseTimeOfDay,
+  convertTimeOfDay,
+  describeAvailability,
+};
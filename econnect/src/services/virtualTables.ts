@@ -0,0 +1,53 @@
+import { doc, arrayRemove, arrayUnion, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { firestore } from './firebase';
+import { virtualTablesRepository } from './repository';
+import { AppError } from './errors';
+
+// Thrown when the table filled up before the join went through
+export class TableFullError extends AppError {
+  readonly tableId: string;
+
+  constructor(tableId: string) {
+    super('TableFullError', `Virtual table ${tableId} is full`);
+    this.tableId = tableId;
+  }
+}
+
+// Sit down at a table, leaving the one the user was at. Runs in a transaction
+// against the latest table documents so two people can't take the last seat.
+const joinTable = async (
+  tableId: string,
+  userId: string,
+  previousTableId: string | null
+): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const snapshot = await transaction.get(virtualTablesRepository.doc(tableId));
+      if (!snapshot.exists()) {
+        throw new Error('Table not found');
+      }
+
+      const table = snapshot.data();
+      if (table.participants.includes(userId)) return;
+      if (table.capacity && table.participants.length >= table.capacity) {
+        throw new TableFullError(tableId);
+      }
+
+      if (previousTableId && previousTableId !== tableId) {
+        transaction.update(doc(firestore, 'virtualTables', previousTableId), {
+          participants: arrayRemove(userId),
+          updatedAt: serverTimestamp(),
+        });
+      }
+      transaction.update(doc(firestore, 'virtualTables', tableId), {
+        participants: arrayUnion(userId),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error joining table:', error);
+    throw error;
+  }
+};
+
+export { joinTable };
@@ -0,0 +1,246 @@
+import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react';
+import {
+  createEntityAdapter,
+  Draft,
+  EntityAdapter,
+  EntityState,
+  ThunkAction,
+  ThunkDispatch,
+  UnknownAction,
+} from '@reduxjs/toolkit';
+import { onSnapshot, DocumentReference, Query, Unsubscribe } from 'firebase/firestore';
+import { readDocuments } from '../services/repository';
+
+// Errors are stored in the cache, so keep them serializable
+export interface FirestoreApiError {
+  code: string;
+  message: string;
+}
+
+const toApiError = (error: unknown): FirestoreApiError => ({
+  code: (error as { code?: string })?.code || (error as Error)?.name || 'unknown',
+  message: (error as Error)?.message || String(error),
+});
+
+// Base API for everything read from Firestore. Endpoints are injected by the
+// per-domain modules (eventsApi, meetingsApi, ...).
+const firestoreApi = createApi({
+  reducerPath: 'firestoreApi',
+  baseQuery: fakeBaseQuery<FirestoreApiError>(),
+  tagTypes: ['Event', 'Meeting', 'Recording', 'Service', 'ServiceRequest', 'ServiceReview'],
+  endpoints: () => ({}),
+});
+
+interface Listener<T> {
+  unsubscribe: Unsubscribe;
+  ready: Promise<void>;
+  latest?: T;
+  error?: Error; // set when the listener fails after its first snapshot
+}
+
+// The cache entry a listener feeds, once its first result is in the cache
+interface Follower<T> {
+  onUpdate: (value: T) => void;
+  onError: () => void;
+}
+
+// The subset of RTK Query's cache lifecycle API that streaming endpoints use
+interface CacheLifecycle<R> {
+  updateCachedData: (recipe: (draft: Draft<R>) => void | R) => unknown;
+  cacheDataLoaded: Promise<unknown>;
+  cacheEntryRemoved: Promise<unknown>;
+  getCacheEntry: () => { endpointName?: string };
+  dispatch: ThunkDispatch<unknown, unknown, UnknownAction>;
+}
+
+type Refetchable = {
+  initiate: (
+    arg: unknown,
+    options: { subscribe: boolean; forceRefetch: boolean }
+  ) => ThunkAction<{ unsubscribe(): void }, unknown, unknown, UnknownAction>;
+};
+
+// Keyed by stream and argument, so an entry's type is the type its stream
+// was created with
+const listeners = new Map<string, Listener<unknown>>();
+const followers = new Map<string, Follower<unknown>>();
+
+const getListener = <T>(key: string) => listeners.get(key) as Listener<T> | undefined;
+let nextStreamId = 0;
+
+// Back a cache entry with one onSnapshot listener. The first snapshot answers
+// the query; later snapshots are written into the cache. Refetches (e.g.
+// after tag invalidation) reuse the listener's latest result instead of
+// reading from Firestore again, and the listener stops when the cache entry
+// is removed. A listener that fails later on refetches its entry, which then
+// holds the error until the next refetch subscribes again.
+const createStream = <Arg, T>(
+  subscribe: (arg: Arg, next: (value: T) => void, fail: (error: Error) => void) => Unsubscribe
+) => {
+  const streamId = nextStreamId++;
+  const keyFor = (arg: Arg) => `${streamId}:${JSON.stringify(arg)}`;
+
+  const start = async (arg: Arg): Promise<T> => {
+    const key = keyFor(arg);
+    const existing = getListener<T>(key);
+    if (existing?.error) {
+      listeners.delete(key);
+      throw existing.error;
+    }
+    if (existing) {
+      await existing.ready;
+      return existing.latest as T;
+    }
+
+    const listener: Listener<T> = { unsubscribe: () => undefined, ready: Promise.resolve() };
+    listener.ready = new Promise<void>((resolve, reject) => {
+      let settled = false;
+      listener.unsubscribe = subscribe(
+        arg,
+        (value) => {
+          listener.latest = value;
+          if (!settled) {
+            settled = true;
+            resolve();
+          } else {
+            followers.get(key)?.onUpdate(value);
+          }
+        },
+        (error) => {
+          console.error('Error streaming Firestore query:', error);
+          if (!settled) {
+            settled = true;
+            listeners.delete(key);
+            reject(error);
+          } else {
+            listener.error = error;
+            followers.get(key)?.onError();
+          }
+        }
+      );
+    });
+    listeners.set(key, listener);
+
+    await listener.ready;
+    return listener.latest as T;
+  };
+
+  const follow = async (
+    arg: Arg,
+    {
+      cacheDataLoaded,
+      cacheEntryRemoved,
+      getCacheEntry,
+      dispatch,
+    }: Omit<CacheLifecycle<unknown>, 'updateCachedData'>,
+    onUpdate: (value: T) => void
+  ) => {
+    const key = keyFor(arg);
+    const onError = () => {
+      const { endpointName } = getCacheEntry();
+      const endpoints = firestoreApi.endpoints as Record<string, Refetchable>;
+      if (endpointName && endpoints[endpointName]) {
+        dispatch(endpoints[endpointName].initiate(arg, { subscribe: false, forceRefetch: true }));
+      }
+    };
+
+    try {
+      await cacheDataLoaded;
+      followers.set(key, { onUpdate, onError } as Follower<unknown>);
+      // The listener may have failed before the entry was followed
+      if (listeners.get(key)?.error) onError();
+    } catch {
+      // The entry was removed before its first result arrived
+    }
+
+    await cacheEntryRemoved;
+    followers.delete(key);
+    const listener = listeners.get(key);
+    if (listener) {
+      listener.unsubscribe();
+      listeners.delete(key);
+    }
+  };
+
+  return { start, follow };
+};
+
+// Endpoint definition for a live, normalized list of documents. keep drops
+// documents a query can't filter out itself.
+const streamCollection = <T extends { id: string }, Arg>(
+  buildQuery: (arg: Arg) => Query<T>,
+  adapter: EntityAdapter<T, string>,
+  keep?: (item: T, arg: Arg) => boolean
+) => {
+  const stream = createStream<Arg, T[]>((arg, next, fail) =>
+    onSnapshot(
+      buildQuery(arg),
+      (snapshot) => {
+        const { items } = readDocuments(snapshot);
+        next(keep ? items.filter((item) => keep(item, arg)) : items);
+      },
+      fail
+    )
+  );
+
+  return {
+    queryFn: async (arg: Arg) => {
+      try {
+        return { data: adapter.setAll(adapter.getInitialState(), await stream.start(arg)) };
+      } catch (error) {
+        return { error: toApiError(error) };
+      }
+    },
+    onCacheEntryAdded: async (arg: Arg, lifecycle: CacheLifecycle<EntityState<T, string>>) => {
+      await stream.follow(arg, lifecycle, (items) =>
+        lifecycle.updateCachedData((draft) => {
+          adapter.setAll(draft as EntityState<T, string>, items);
+        })
+      );
+    },
+  };
+};
+
+// Endpoint definition for a live single document; null when it doesn't exist
+const streamDocument = <T, Arg>(buildReference: (arg: Arg) => DocumentReference<T>) => {
+  const stream = createStream<Arg, T | null>((arg, next, fail) =>
+    onSnapshot(
+      buildReference(arg),
+      (snapshot) => {
+        try {
+          next(snapshot.exists() ? snapshot.data() : null);
+        } catch (error) {
+          fail(error as Error);
+        }
+      },
+      fail
+    )
+  );
+
+  return {
+    queryFn: async (arg: Arg) => {
+      try {
+        return { data: await stream.start(arg) };
+      } catch (error) {
+        return { error: toApiError(error) };
+      }
+    },
+    onCacheEntryAdded: async (arg: Arg, lifecycle: CacheLifecycle<T | null>) => {
+      await stream.follow(arg, lifecycle, (value) => lifecycle.updateCachedData(() => value));
+    },
+  };
+};
+
+// Run a write and report failures in RTK Query's error shape
+const runMutation = async <R>(write: () => Promise<R>) => {
+  try {
+    return { data: await write() };
+  } catch (error) {
+    return { error: toApiError(error) };
+  }
+};
+
+const createIdAdapter = <T extends { id: string }>(sortComparer?: (a: T, b: T) => number) =>
+  createEntityAdapter<T>(sortComparer ? { sortComparer } : undefined);
+
+export { firestoreApi, toApiError, streamCollection, streamDocument, runMutation, createIdAdapter };
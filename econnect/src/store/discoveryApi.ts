@@ -0,0 +1,199 @@
+import { EntityState } from '@reduxjs/toolkit';
+import {
+  getDocs,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  QueryConstraint,
+  Timestamp,
+} from 'firebase/firestore';
+import { expandOccurrences, parseRRule } from '../services/recurrence';
+import { eventsRepository, readDocuments } from '../services/repository';
+import { getLocalTimeZone } from '../services/timeZones';
+import { Event } from '../types';
+import { firestoreApi, toApiError, streamCollection, createIdAdapter } from './api';
+
+// Dates are epoch ms so the filters can be used as a cache key
+export interface DiscoveryFilters {
+  search: string;
+  from: number | null;
+  to: number | null;
+  minOpenSpots: number; // 0 = any capacity
+}
+
+// Position after the last event scanned, in (startTime, id) order
+export interface DiscoveryCursor {
+  startTime: number;
+  id: string;
+}
+
+export interface DiscoveryPage {
+  events: Event[];
+  nextCursor: DiscoveryCursor | null;
+}
+
+const PAGE_SIZE = 20;
+const SCAN_BATCH_SIZE = 50;
+// Cap on how far one page scans past events that don't match the search
+const MAX_SCAN_BATCHES = 5;
+const STARTING_SOON_WINDOW_MS = 2 * 60 * 60 * 1000;
+// How often callers should move the starting-soon window along
+const STARTING_SOON_REFRESH_MS = 60 * 1000;
+const HIGHLIGHT_LIMIT = 10;
+// Running series match the starting-soon query without starting soon, so it
+// reads more than it shows
+const STARTING_SOON_SCAN_LIMIT = 5 * HIGHLIGHT_LIMIT;
+
+// Cancelled events stay in Firestore for their members but aren't offered to anyone new
+const isOpenEvent = (event: Event): boolean => event.status !== 'cancelled';
+
+// Whether the event, or an occurrence of a series, starts between from and
+// to. Rules the series can't expand count as no match.
+const startsBetween = (event: Event, from: number, to: number): boolean => {
+  const inRange = (start: Date) => start.getTime() >= from && start.getTime() <= to;
+  if (!event.recurrence) return inRange(event.startTime);
+  const timeZone = event.timeZone || getLocalTimeZone();
+  try {
+    const rule = parseRRule(event.recurrence, timeZone);
+    return expandOccurrences(rule, event.startTime, timeZone).some(inRange);
+  } catch {
+    return false;
+  }
+};
+
+// Spots left before the event is full; Infinity when it has no limit
+const openSpots = (event: Event): number =>
+  event.maxParticipants ? Math.max(event.maxParticipants - event.participants.length, 0) : Infinity;
+
+// Firestore has no full-text search, so the text and capacity filters, and
+// the check for cancellation, run on the events each page scans
+const matchesDiscoveryFilters = (
+  event: Event,
+  { search, minOpenSpots }: Pick<DiscoveryFilters, 'search' | 'minOpenSpots'>
+): boolean => {
+  if (!isOpenEvent(event)) return false;
+  if (minOpenSpots > 0 && openSpots(event) < minOpenSpots) return false;
+
+  const term = search.trim().toLowerCase();
+  return (
+    !term ||
+    event.title.toLowerCase().includes(term) ||
+    event.description.toLowerCase().includes(term)
+  );
+};
+
+const highlightsAdapter = createIdAdapter<Event>(
+  (a, b) => a.startTime.getTime() - b.startTime.getTime()
+);
+
+const discoveryApi = firestoreApi.injectEndpoints({
+  endpoints: (build) => ({
+    // Public events that haven't ended, a page at a time, so running events
+    // and series are included. Each page reads batches in startTime order
+    // until it has a page of matches or hits the scan cap.
+    discoverEvents: build.infiniteQuery<DiscoveryPage, DiscoveryFilters, DiscoveryCursor | null>({
+      infiniteQueryOptions: {
+        initialPageParam: null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+      },
+      queryFn: async ({ queryArg: filters, pageParam }) => {
+        try {
+          const from = new Date(Math.max(filters.from ?? 0, Date.now()));
+          const rangeConstraints: QueryConstraint[] = [
+            where('isPublic', '==', true),
+            where('endsAt', '>=', from),
+            ...(filters.to !== null ? [where('startTime', '<=', new Date(filters.to))] : []),
+            orderBy('startTime'),
+            orderBy(documentId()),
+          ];
+
+          const events: Event[] = [];
+          let cursor = pageParam;
+          for (let batch = 0; batch < MAX_SCAN_BATCHES && events.length < PAGE_SIZE; batch++) {
+            const snapshot = await getDocs(
+              eventsRepository.query(
+                ...rangeConstraints,
+                ...(cursor ? [startAfter(new Date(cursor.startTime), cursor.id)] : []),
+                limit(SCAN_BATCH_SIZE)
+              )
+            );
+
+            events.push(
+              ...readDocuments(snapshot).items.filter((event) =>
+                matchesDiscoveryFilters(event, filters)
+              )
+            );
+
+            const last = snapshot.docs[snapshot.docs.length - 1];
+            if (snapshot.size < SCAN_BATCH_SIZE || !last) {
+              cursor = null;
+              break;
+            }
+            cursor = { startTime: (last.get('startTime') as Timestamp).toMillis(), id: last.id };
+          }
+
+          return { data: { events, nextCursor: cursor } };
+        } catch (error) {
+          console.error('Error discovering events:', error);
+          return { error: toApiError(error) };
+        }
+      },
+    }),
+
+    // Public events with a meeting in progress right now
+    getLiveEvents: build.query<EntityState<Event, string>, void>({
+      ...streamCollection(
+        (_arg: void) =>
+          eventsRepository.query(
+            where('isPublic', '==', true),
+            where('isLive', '==', true),
+            limit(HIGHLIGHT_LIMIT)
+          ),
+        highlightsAdapter,
+        isOpenEvent
+      ),
+      providesTags: [{ type: 'Event', id: 'LIST' }],
+    }),
+
+    // Public events, or occurrences of series, starting within a couple of
+    // hours of the given time (epoch ms). Callers pass the current time and
+    // refresh it every STARTING_SOON_REFRESH_MS, so each step streams a new
+    // window. Series that are already running match on their next occurrence,
+    // and the latest starts are read first so they don't crowd out new events.
+    getStartingSoonEvents: build.query<EntityState<Event, string>, number>({
+      ...streamCollection(
+        (from: number) =>
+          eventsRepository.query(
+            where('isPublic', '==', true),
+            where('endsAt', '>=', new Date(from)),
+            where('startTime', '<=', new Date(from + STARTING_SOON_WINDOW_MS)),
+            orderBy('startTime', 'desc'),
+            limit(STARTING_SOON_SCAN_LIMIT)
+          ),
+        highlightsAdapter,
+        (event, from) =>
+          isOpenEvent(event) && startsBetween(event, from, from + STARTING_SOON_WINDOW_MS)
+      ),
+      providesTags: [{ type: 'Event', id: 'LIST' }],
+    }),
+  }),
+});
+
+const highlightsSelectors = highlightsAdapter.getSelectors();
+
+export const {
+  useDiscoverEventsInfiniteQuery,
+  useGetLiveEventsQuery,
+  useGetStartingSoonEventsQuery,
+} = discoveryApi;
+
+export {
+  discoveryApi,
+  highlightsSelectors,
+  openSpots,
+  matchesDiscoveryFilters,
+  HIGHLIGHT_LIMIT,
+  STARTING_SOON_REFRESH_MS,
+};
@@ -0,0 +1,318 @@
+import { EntityState } from '@reduxjs/toolkit';
+import { doc, where, orderBy, limit, deleteDoc } from 'firebase/firestore';
+import { firestore } from '../services/firebase';
+import {
+  joinEvent,
+  leaveEvent,
+  promoteFromWaitlist,
+  moveInWaitlist,
+  updateFollowingOccurrences,
+  updateEvent,
+  cancelEvent,
+  transferHost,
+  setCoHost,
+  removeParticipant,
+  getJoinOutcome,
+  EventChanges,
+  JoinOutcome,
+} from '../services/events';
+import { OccurrenceChanges } from '../services/meetings';
+import {
+  eventsRepository,
+  eventMembersRepository,
+  eventAuditRepository,
+} from '../services/repository';
+import { Event, EventAuditEntry, EventMembership, RecurrenceRule } from '../types';
+import { firestoreApi, streamCollection, streamDocument, runMutation, createIdAdapter } from './api';
+import type { RootState } from './index';
+
+interface EventMembershipArgs {
+  eventId: string;
+  userId: string;
+}
+
+interface WaitlistMoveArgs extends EventMembershipArgs {
+  offset: -1 | 1;
+}
+
+interface HostActionArgs {
+  eventId: string;
+}
+
+interface UpdateEventArgs extends HostActionArgs {
+  changes: EventChanges;
+}
+
+interface CancelEventArgs extends HostActionArgs {
+  reason: string;
+}
+
+interface MemberActionArgs extends HostActionArgs {
+  userId: string;
+}
+
+interface CoHostArgs extends MemberActionArgs {
+  coHost: boolean;
+}
+
+interface FollowingOccurrencesArgs {
+  eventId: string;
+  meetingId: string;
+  changes: OccurrenceChanges;
+  rule: RecurrenceRule;
+}
+
+// Upcoming events soonest first, past events most recently ended first
+const upcomingAdapter = createIdAdapter<EventMembership>(
+  (a, b) => a.startTime.getTime() - b.startTime.getTime()
+);
+const pastAdapter = createIdAdapter<EventMembership>(
+  (a, b) => b.endsAt.getTime() - a.endsAt.getTime()
+);
+
+// The membership the backend writes when a user joins, so lists can show the
+// event before the index catches up
+const toMembership = (event: Event, userId: string): EventMembership => ({
+  id: `${event.id}_${userId}`,
+  eventId: event.id,
+  userId,
+  role: event.createdBy === userId ? 'host' : 'participant',
+  title: event.title,
+  description: event.description,
+  startTime: event.startTime,
+  endTime: event.endTime,
+  endsAt: event.recurrenceEndTime || event.endTime,
+  isPublic: event.isPublic,
+  status: event.status,
+  createdBy: event.createdBy,
+  updatedAt: new Date(),
+});
+
+// Latest host actions first
+const AUDIT_LOG_SIZE = 50;
+const auditAdapter = createIdAdapter<EventAuditEntry>(
+  (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+);
+
+const membershipTags = (result: EntityState<EventMembership, string> | undefined) => [
+  { type: 'Event' as const, id: 'LIST' },
+  ...(result ? result.ids.map((id) => ({ type: 'Event' as const, id: result.entities[id].eventId })) : []),
+];
+
+const eventsApi = firestoreApi.injectEndpoints({
+  endpoints: (build) => ({
+    // Events the user belongs to, split at the time the list was first
+    // opened by when their last occurrence ends, so running events and
+    // recurring series stay upcoming. Both read the eventMembers index with a
+    // single indexed query; the dashboard shares the upcoming list with the
+    // events page.
+    getUpcomingEvents: build.query<EntityState<EventMembership, string>, string>({
+      ...streamCollection(
+        (userId: string) =>
+          eventMembersRepository.query(
+            where('userId', '==', userId),
+            where('endsAt', '>=', new Date()),
+            orderBy('endsAt')
+          ),
+        upcomingAdapter
+      ),
+      providesTags: membershipTags,
+    }),
+
+    getPastEvents: build.query<EntityState<EventMembership, string>, string>({
+      ...streamCollection(
+        (userId: string) =>
+          eventMembersRepository.query(
+            where('userId', '==', userId),
+            where('endsAt', '<', new Date()),
+            orderBy('endsAt', 'desc')
+          ),
+        pastAdapter
+      ),
+      providesTags: membershipTags,
+    }),
+
+    getEvent: build.query<Event | null, string>({
+      ...streamDocument((eventId: string) => eventsRepository.doc(eventId)),
+      providesTags: (_result, _error, eventId) => [{ type: 'Event' as const, id: eventId }],
+    }),
+
+    getEventAuditLog: build.query<EntityState<EventAuditEntry, string>, string>({
+      ...streamCollection(
+        (eventId: string) =>
+          eventAuditRepository(eventId).query(orderBy('createdAt', 'desc'), limit(AUDIT_LOG_SIZE)),
+        auditAdapter
+      ),
+    }),
+
+    // Joining and leaving update the cached event immediately and roll back
+    // if the write is rejected. A full event puts the user on its waitlist.
+    joinEvent: build.mutation<JoinOutcome, EventMembershipArgs>({
+      queryFn: ({ eventId, userId }) => runMutation(() => joinEvent(eventId, userId)),
+      onQueryStarted: async ({ eventId, userId }, { dispatch, queryFulfilled, getState }) => {
+        const event = eventsApi.endpoints.getEvent.select(eventId)(getState() as RootState).data;
+        if (!event) return;
+
+        const outcome = getJoinOutcome(event, userId);
+        const patches = [
+          dispatch(
+            eventsApi.util.updateQueryData('getEvent', eventId, (draft) => {
+              if (!draft) return;
+              const list = outcome === 'joined' ? draft.participants : draft.waitlist;
+              if (!list.includes(userId)) list.push(userId);
+            })
+          ),
+        ];
+        if (outcome === 'joined') {
+          patches.push(
+            dispatch(
+              event.startTime < new Date()
+                ? eventsApi.util.updateQueryData('getPastEvents', userId, (draft) => {
+                    pastAdapter.upsertOne(draft, toMembership(event, userId));
+                  })
+                : eventsApi.util.updateQueryData('getUpcomingEvents', userId, (draft) => {
+                    upcomingAdapter.upsertOne(draft, toMembership(event, userId));
+                  })
+            )
+          );
+        }
+        try {
+          await queryFulfilled;
+        } catch {
+          patches.forEach((patch) => patch.undo());
+        }
+      },
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: 'Event', id: eventId }],
+    }),
+
+    // Leave the event or its waitlist; also used by hosts to remove someone
+    // from the waitlist
+    leaveEvent: build.mutation<void, EventMembershipArgs>({
+      queryFn: ({ eventId, userId }) => runMutation(() => leaveEvent(eventId, userId)),
+      onQueryStarted: async ({ eventId, userId }, { dispatch, queryFulfilled }) => {
+        const patches = [
+          dispatch(
+            eventsApi.util.updateQueryData('getEvent', eventId, (draft) => {
+              if (!draft) return;
+              draft.participants = draft.participants.filter((id) => id !== userId);
+              draft.waitlist = draft.waitlist.filter((id) => id !== userId);
+            })
+          ),
+          dispatch(
+            eventsApi.util.updateQueryData('getUpcomingEvents', userId, (draft) => {
+              upcomingAdapter.removeOne(draft, `${eventId}_${userId}`);
+            })
+          ),
+          dispatch(
+            eventsApi.util.updateQueryData('getPastEvents', userId, (draft) => {
+              pastAdapter.removeOne(draft, `${eventId}_${userId}`);
+            })
+          ),
+        ];
+        try {
+          await queryFulfilled;
+        } catch {
+          patches.forEach((patch) => patch.undo());
+        }
+      },
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: 'Event', id: eventId }],
+    }),
+
+    promoteFromWaitlist: build.mutation<void, EventMembershipArgs>({
+      queryFn: ({ eventId, userId }) => runMutation(() => promoteFromWaitlist(eventId, userId)),
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: 'Event', id: eventId }],
+    }),
+
+    moveInWaitlist: build.mutation<void, WaitlistMoveArgs>({
+      queryFn: ({ eventId, userId, offset }) =>
+        runMutation(() => moveInWaitlist(eventId, userId, offset)),
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: 'Event', id: eventId }],
+    }),
+
+    // Edit-all-following for a recurring event; resolves to the event that
+    // now holds the edited occurrences
+    updateFollowingOccurrences: build.mutation<string, FollowingOccurrencesArgs>({
+      queryFn: ({ eventId, meetingId, changes, rule }) =>
+        runMutation(() => updateFollowingOccurrences(eventId, meetingId, changes, rule)),
+      invalidatesTags: (_result, _error, { eventId }) => [
+        { type: 'Event', id: eventId },
+        { type: 'Event', id: 'LIST' },
+        { type: 'Meeting', id: `EVENT-${eventId}` },
+      ],
+    }),
+
+    // Host actions. Editing and cancelling change what event lists show.
+    updateEvent: build.mutation<void, UpdateEventArgs>({
+      queryFn: ({ eventId, changes }) => runMutation(() => updateEvent(eventId, changes)),
+      invalidatesTags: (_result, _error, { eventId }) => [
+        { type: 'Event', id: eventId },
+        { type: 'Event', id: 'LIST' },
+        { type: 'Meeting', id: `EVENT-${eventId}` },
+      ],
+    }),
+
+    cancelEvent: build.mutation<void, CancelEventArgs>({
+      queryFn: ({ eventId, reason }) => runMutation(() => cancelEvent(eventId, reason)),
+      invalidatesTags: (_result, _error, { eventId }) => [
+        { type: 'Event', id: eventId },
+        { type: 'Event', id: 'LIST' },
+        { type: 'Meeting', id: `EVENT-${eventId}` },
+      ],
+    }),
+
+    transferHost: build.mutation<void, MemberActionArgs>({
+      queryFn: ({ eventId, userId }) => runMutation(() => transferHost(eventId, userId)),
+      invalidatesTags: (_result, _error, { eventId }) => [
+        { type: 'Event', id: eventId },
+        { type: 'Event', id: 'LIST' },
+        { type: 'Meeting', id: `EVENT-${eventId}` },
+      ],
+    }),
+
+    setCoHost: build.mutation<void, CoHostArgs>({
+      queryFn: ({ eventId, userId, coHost }) =>
+        runMutation(() => setCoHost(eventId, userId, coHost)),
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: 'Event', id: eventId }],
+    }),
+
+    removeParticipant: build.mutation<void, MemberActionArgs>({
+      queryFn: ({ eventId, userId }) => runMutation(() => removeParticipant(eventId, userId)),
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: 'Event', id: eventId }],
+    }),
+
+    deleteEvent: build.mutation<null, string>({
+      queryFn: (eventId) =>
+        runMutation(async () => {
+          await deleteDoc(doc(firestore, 'events', eventId));
+          return null;
+        }),
+      invalidatesTags: (_result, _error, eventId) => [
+        { type: 'Event', id: eventId },
+        { type: 'Event', id: 'LIST' },
+      ],
+    }),
+  }),
+});
+
+const eventMembershipsSelectors = upcomingAdapter.getSelectors();
+const eventAuditSelectors = auditAdapter.getSelectors();
+
+export const {
+  useGetUpcomingEventsQuery,
+  useGetPastEventsQuery,
+  useGetEventQuery,
+  useGetEventAuditLogQuery,
+  useJoinEventMutation,
+  useLeaveEventMutation,
+  usePromoteFromWaitlistMutation,
+  useMoveInWaitlistMutation,
+  useUpdateFollowingOccurrencesMutation,
+  useUpdateEventMutation,
+  useCancelEventMutation,
+  useTransferHostMutation,
+  useSetCoHostMutation,
+  useRemoveParticipantMutation,
+  useDeleteEventMutation,
+} = eventsApi;
+
+export { eventsApi, eventMembershipsSelectors, eventAuditSelectors };
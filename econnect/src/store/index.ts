@@ -0,0 +1,23 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { firestoreApi } from './api';
+import sessionReducer from './sessionSlice';
+
+const store = configureStore({
+  reducer: {
+    [firestoreApi.reducerPath]: firestoreApi.reducer,
+    session: sessionReducer,
+  },
+  middleware: (getDefaultMiddleware) =>
+    getDefaultMiddleware({
+      // Cached documents carry Date fields from the converters
+      serializableCheck: {
+        ignoredPaths: [firestoreApi.reducerPath],
+        ignoredActionPaths: ['payload', 'meta.arg', 'meta.baseQueryMeta'],
+      },
+    }).concat(firestoreApi.middleware),
+});
+
+export type RootState = ReturnType<typeof store.getState>;
+export type AppDispatch = typeof store.dispatch;
+
+export default store;
@@ -0,0 +1,88 @@
+import { EntityState } from '@reduxjs/toolkit';
+import { where, orderBy, limit } from 'firebase/firestore';
+import { meetingsRepository, meetingMembersRepository } from '../services/repository';
+import { updateOccurrence, setOccurrenceCancelled, OccurrenceChanges } from '../services/meetings';
+import { Meeting, MeetingMembership } from '../types';
+import { firestoreApi, streamCollection, streamDocument, runMutation, createIdAdapter } from './api';
+
+interface OccurrenceUpdateArgs {
+  meetingId: string;
+  changes: OccurrenceChanges;
+}
+
+interface OccurrenceCancelArgs {
+  meetingId: string;
+  cancelled: boolean;
+}
+
+const RECENT_MEETINGS_LIMIT = 5;
+
+const meetingMembershipsAdapter = createIdAdapter<MeetingMembership>(
+  (a, b) => b.startTime.getTime() - a.startTime.getTime()
+);
+const sessionsAdapter = createIdAdapter<Meeting>((a, b) => a.sessionNumber - b.sessionNumber);
+
+const meetingsApi = firestoreApi.injectEndpoints({
+  endpoints: (build) => ({
+    getMeeting: build.query<Meeting | null, string>({
+      ...streamDocument((meetingId: string) => meetingsRepository.doc(meetingId)),
+      providesTags: (_result, _error, meetingId) => [{ type: 'Meeting' as const, id: meetingId }],
+    }),
+
+    // Sessions held for an event, in session order
+    getEventMeetings: build.query<EntityState<Meeting, string>, string>({
+      ...streamCollection(
+        (eventId: string) => meetingsRepository.query(where('eventId', '==', eventId)),
+        sessionsAdapter
+      ),
+      providesTags: (result, _error, eventId) => [
+        { type: 'Meeting' as const, id: `EVENT-${eventId}` },
+        ...(result ? result.ids.map((id) => ({ type: 'Meeting' as const, id })) : []),
+      ],
+    }),
+
+    // The latest meetings the user attended, from the meetingMembers index
+    getRecentMeetings: build.query<EntityState<MeetingMembership, string>, string>({
+      ...streamCollection(
+        (userId: string) =>
+          meetingMembersRepository.query(
+            where('userId', '==', userId),
+            orderBy('startTime', 'desc'),
+            limit(RECENT_MEETINGS_LIMIT)
+          ),
+        meetingMembershipsAdapter
+      ),
+      providesTags: (result) => [
+        { type: 'Meeting' as const, id: 'LIST' },
+        ...(result
+          ? result.ids.map((id) => ({ type: 'Meeting' as const, id: result.entities[id].meetingId }))
+          : []),
+      ],
+    }),
+
+    // Edit-this and cancel for a single occurrence of a recurring event
+    updateOccurrence: build.mutation<void, OccurrenceUpdateArgs>({
+      queryFn: ({ meetingId, changes }) => runMutation(() => updateOccurrence(meetingId, changes)),
+      invalidatesTags: (_result, _error, { meetingId }) => [{ type: 'Meeting', id: meetingId }],
+    }),
+
+    setOccurrenceCancelled: build.mutation<void, OccurrenceCancelArgs>({
+      queryFn: ({ meetingId, cancelled }) =>
+        runMutation(() => setOccurrenceCancelled(meetingId, cancelled)),
+      invalidatesTags: (_result, _error, { meetingId }) => [{ type: 'Meeting', id: meetingId }],
+    }),
+  }),
+});
+
+const meetingsSelectors = sessionsAdapter.getSelectors();
+const meetingMembershipsSelectors = meetingMembershipsAdapter.getSelectors();
+
+export const {
+  useGetMeetingQuery,
+  useGetEventMeetingsQuery,
+  useGetRecentMeetingsQuery,
+  useUpdateOccurrenceMutation,
+  useSetOccurrenceCancelledMutation,
+} = meetingsApi;
+
+export { meetingsApi, meetingsSelectors, meetingMembershipsSelectors };
@@ -0,0 +1,64 @@
+import { EntityState } from '@reduxjs/toolkit';
+import { doc, deleteDoc, where } from 'firebase/firestore';
+import { firestore } from '../services/firebase';
+import { deleteRecording } from '../services/aws';
+import { recordingsRepository } from '../services/repository';
+import { Recording } from '../types';
+import { firestoreApi, streamCollection, runMutation, createIdAdapter } from './api';
+
+interface DeleteRecordingArgs {
+  recordingId: string;
+  ownerId: string;
+}
+
+const recordingsAdapter = createIdAdapter<Recording>(
+  (a, b) => b.startTime.getTime() - a.startTime.getTime()
+);
+
+const recordingsApi = firestoreApi.injectEndpoints({
+  endpoints: (build) => ({
+    // The user's recordings, newest first
+    getUserRecordings: build.query<EntityState<Recording, string>, string>({
+      ...streamCollection(
+        (ownerId: string) => recordingsRepository.query(where('ownerId', '==', ownerId)),
+        recordingsAdapter
+      ),
+      providesTags: (result) => [
+        { type: 'Recording' as const, id: 'LIST' },
+        ...(result ? result.ids.map((id) => ({ type: 'Recording' as const, id })) : []),
+      ],
+    }),
+
+    // Remove the file from S3, then its metadata. The recording disappears
+    // from the list straight away and comes back if either step fails.
+    deleteRecording: build.mutation<null, DeleteRecordingArgs>({
+      queryFn: ({ recordingId }) =>
+        runMutation(async () => {
+          await deleteRecording(recordingId);
+          await deleteDoc(doc(firestore, 'recordings', recordingId));
+          return null;
+        }),
+      onQueryStarted: async ({ recordingId, ownerId }, { dispatch, queryFulfilled }) => {
+        const patch = dispatch(
+          recordingsApi.util.updateQueryData('getUserRecordings', ownerId, (draft) => {
+            recordingsAdapter.removeOne(draft, recordingId);
+          })
+        );
+        try {
+          await queryFulfilled;
+        } catch {
+          patch.undo();
+        }
+      },
+      invalidatesTags: (_result, _error, { recordingId }) => [
+        { type: 'Recording', id: recordingId },
+      ],
+    }),
+  }),
+});
+
+const recordingsSelectors = recordingsAdapter.getSelectors();
+
+export const { useGetUserRecordingsQuery, useDeleteRecordingMutation } = recordingsApi;
+
+export { recordingsApi, recordingsSelectors };
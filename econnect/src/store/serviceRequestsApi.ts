@@ -0,0 +1,108 @@
+import { EntityState } from '@reduxjs/toolkit';
+import { addDoc, collection, where, orderBy, serverTimestamp } from 'firebase/firestore';
+import { firestore } from '../services/firebase';
+import { serviceRequestsRepository } from '../services/repository';
+import { bookServiceSlot } from '../services/bookings';
+import { updateServiceRequestStatus } from '../services/serviceRequests';
+import { BookingSlot, Service, ServiceRequest, ServiceRequestStatus } from '../types';
+import {
+  firestoreApi,
+  streamCollection,
+  streamDocument,
+  runMutation,
+  createIdAdapter,
+} from './api';
+
+export interface ServiceRequestsArgs {
+  role: 'provider' | 'requester';
+  userId: string;
+}
+
+export type NewServiceRequest = Omit<ServiceRequest, 'id' | 'status' | 'createdAt' | 'updatedAt'>;
+
+export interface BookServiceSlotArgs {
+  service: Pick<Service, 'id' | 'providerId'>;
+  slot: BookingSlot;
+  message?: string;
+}
+
+export interface UpdateServiceRequestStatusArgs {
+  requestId: string;
+  status: ServiceRequestStatus;
+  responseMessage?: string;
+}
+
+const serviceRequestsAdapter = createIdAdapter<ServiceRequest>(
+  (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+);
+
+const serviceRequestsApi = firestoreApi.injectEndpoints({
+  endpoints: (build) => ({
+    // Requests a user has received (as provider) or sent (as requester)
+    getServiceRequests: build.query<EntityState<ServiceRequest, string>, ServiceRequestsArgs>({
+      ...streamCollection(
+        ({ role, userId }: ServiceRequestsArgs) =>
+          serviceRequestsRepository.query(
+            where(role === 'provider' ? 'providerId' : 'requesterId', '==', userId),
+            orderBy('createdAt', 'desc')
+          ),
+        serviceRequestsAdapter
+      ),
+      providesTags: (result) => [
+        { type: 'ServiceRequest' as const, id: 'LIST' },
+        ...(result ? result.ids.map((id) => ({ type: 'ServiceRequest' as const, id })) : []),
+      ],
+    }),
+
+    getServiceRequest: build.query<ServiceRequest | null, string>({
+      ...streamDocument((requestId: string) => serviceRequestsRepository.doc(requestId)),
+      providesTags: (_result, _error, requestId) => [{ type: 'ServiceRequest' as const, id: requestId }],
+    }),
+
+    createServiceRequest: build.mutation<string, NewServiceRequest>({
+      queryFn: (request) =>
+        runMutation(async () => {
+          const reference = await addDoc(collection(firestore, 'serviceRequests'), {
+            ...request,
+            status: 'pending',
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          });
+          return reference.id;
+        }),
+      invalidatesTags: [{ type: 'ServiceRequest', id: 'LIST' }],
+    }),
+
+    // Request a service for a slot, failing if someone else claimed it first
+    bookServiceSlot: build.mutation<string, BookServiceSlotArgs>({
+      queryFn: ({ service, slot, message }) =>
+        runMutation(() => bookServiceSlot(service, slot, message)),
+      invalidatesTags: [{ type: 'ServiceRequest', id: 'LIST' }],
+    }),
+
+    // Accept, reject or complete a request; invalid changes fail with an
+    // InvalidStatusTransitionError
+    updateServiceRequestStatus: build.mutation<null, UpdateServiceRequestStatusArgs>({
+      queryFn: ({ requestId, status, responseMessage }) =>
+        runMutation(async () => {
+          await updateServiceRequestStatus(requestId, status, responseMessage);
+          return null;
+        }),
+      invalidatesTags: (_result, _error, { requestId }) => [
+        { type: 'ServiceRequest', id: requestId },
+      ],
+    }),
+  }),
+});
+
+const serviceRequestsSelectors = serviceRequestsAdapter.getSelectors();
+
+export const {
+  useGetServiceRequestsQuery,
+  useGetServiceRequestQuery,
+  useCreateServiceRequestMutation,
+  useBookServiceSlotMutation,
+  useUpdateServiceRequestStatusMutation,
+} = serviceRequestsApi;
+
+export { serviceRequestsApi, serviceRequestsSelectors };
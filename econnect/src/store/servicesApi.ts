@@ -0,0 +1,150 @@
+import { EntityState } from '@reduxjs/toolkit';
+import { doc, where, orderBy, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { firestore } from '../services/firebase';
+import {
+  servicesRepository,
+  serviceBookingsRepository,
+  serviceReviewsRepository,
+} from '../services/repository';
+import { submitServiceReview } from '../services/reviews';
+import { Service, ServiceBooking, ServiceRequest, ServiceReview } from '../types';
+import { firestoreApi, streamCollection, streamDocument, runMutation, createIdAdapter } from './api';
+
+export interface ProviderBookingsArgs {
+  providerId: string;
+  from: number; // epoch millis; bookings ending before this are left out
+}
+
+export interface ServiceReviewsArgs {
+  field: 'serviceId' | 'providerId' | 'reviewerId';
+  id: string;
+}
+
+export interface SubmitServiceReviewArgs {
+  request: Pick<ServiceRequest, 'id' | 'serviceId' | 'providerId' | 'requesterId' | 'status'>;
+  rating: number;
+  comment?: string;
+}
+
+const servicesAdapter = createIdAdapter<Service>(
+  (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+);
+const bookingsAdapter = createIdAdapter<ServiceBooking>(
+  (a, b) => a.startTime.getTime() - b.startTime.getTime()
+);
+const reviewsAdapter = createIdAdapter<ServiceReview>(
+  (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+);
+
+const servicesApi = firestoreApi.injectEndpoints({
+  endpoints: (build) => ({
+    // Active services, newest first
+    getActiveServices: build.query<EntityState<Service, string>, void>({
+      ...streamCollection(
+        (_arg: void) =>
+          servicesRepository.query(where('isActive', '==', true), orderBy('createdAt', 'desc')),
+        servicesAdapter
+      ),
+      providesTags: (result) => [
+        { type: 'Service' as const, id: 'LIST' },
+        ...(result ? result.ids.map((id) => ({ type: 'Service' as const, id })) : []),
+      ],
+    }),
+
+    // A provider's active services, for their profile
+    getProviderServices: build.query<EntityState<Service, string>, string>({
+      ...streamCollection(
+        (providerId: string) =>
+          servicesRepository.query(
+            where('providerId', '==', providerId),
+            where('isActive', '==', true),
+            orderBy('createdAt', 'desc')
+          ),
+        servicesAdapter
+      ),
+      providesTags: (result) => [
+        { type: 'Service' as const, id: 'LIST' },
+        ...(result ? result.ids.map((id) => ({ type: 'Service' as const, id })) : []),
+      ],
+    }),
+
+    getService: build.query<Service | null, string>({
+      ...streamDocument((serviceId: string) => servicesRepository.doc(serviceId)),
+      providesTags: (_result, _error, serviceId) => [{ type: 'Service' as const, id: serviceId }],
+    }),
+
+    // Sessions the provider is already booked for, across all their services,
+    // for the slot picker
+    getProviderBookings: build.query<EntityState<ServiceBooking, string>, ProviderBookingsArgs>({
+      ...streamCollection(
+        ({ providerId, from }: ProviderBookingsArgs) =>
+          serviceBookingsRepository.query(
+            where('providerId', '==', providerId),
+            where('endTime', '>', new Date(from)),
+            orderBy('endTime')
+          ),
+        bookingsAdapter
+      ),
+    }),
+
+    // Reviews of a service or provider, or written by a user; newest first
+    getServiceReviews: build.query<EntityState<ServiceReview, string>, ServiceReviewsArgs>({
+      ...streamCollection(
+        ({ field, id }: ServiceReviewsArgs) =>
+          serviceReviewsRepository.query(where(field, '==', id), orderBy('createdAt', 'desc')),
+        reviewsAdapter
+      ),
+      providesTags: [{ type: 'ServiceReview' as const, id: 'LIST' }],
+    }),
+
+    submitServiceReview: build.mutation<null, SubmitServiceReviewArgs>({
+      queryFn: ({ request, rating, comment }) =>
+        runMutation(async () => {
+          await submitServiceReview(request, rating, comment);
+          return null;
+        }),
+      invalidatesTags: [{ type: 'ServiceReview', id: 'LIST' }],
+    }),
+
+    // Hide a service from the catalogue; it leaves the list immediately
+    deactivateService: build.mutation<null, string>({
+      queryFn: (serviceId) =>
+        runMutation(async () => {
+          await updateDoc(doc(firestore, 'services', serviceId), {
+            isActive: false,
+            updatedAt: serverTimestamp(),
+          });
+          return null;
+        }),
+      onQueryStarted: async (serviceId, { dispatch, queryFulfilled }) => {
+        const patch = dispatch(
+          servicesApi.util.updateQueryData('getActiveServices', undefined, (draft) => {
+            servicesAdapter.removeOne(draft, serviceId);
+          })
+        );
+        try {
+          await queryFulfilled;
+        } catch {
+          patch.undo();
+        }
+      },
+      invalidatesTags: (_result, _error, serviceId) => [{ type: 'Service', id: serviceId }],
+    }),
+  }),
+});
+
+const servicesSelectors = servicesAdapter.getSelectors();
+const bookingsSelectors = bookingsAdapter.getSelectors();
+const reviewsSelectors = reviewsAdapter.getSelectors();
+
+export const {
+  useGetActiveServicesQuery,
+  useGetProviderServicesQuery,
+  useGetServiceQuery,
+  useGetProviderBookingsQuery,
+  useGetServiceReviewsQuery,
+  useSubmitServiceReviewMutation,
+  useDeactivateServiceMutation,
+} = servicesApi;
+
+export { servicesApi, servicesSelectors, bookingsSelectors, reviewsSelectors };
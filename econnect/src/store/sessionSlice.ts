@@ -0,0 +1,55 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+export type SessionStatus = 'idle' | 'joining' | 'joined';
+
+// The Jitsi meeting the user currently has open, if any
+export interface SessionState {
+  status: SessionStatus;
+  meetingId: string | null;
+  eventId: string | null;
+  roomName: string | null;
+  isHost: boolean;
+  joinedAt: number | null; // epoch ms, kept as a number so the state stays serializable
+}
+
+export interface SessionJoiningPayload {
+  meetingId: string;
+  eventId: string;
+  roomName: string;
+  isHost: boolean;
+}
+
+const initialState: SessionState = {
+  status: 'idle',
+  meetingId: null,
+  eventId: null,
+  roomName: null,
+  isHost: false,
+  joinedAt: null,
+};
+
+const sessionSlice = createSlice({
+  name: 'session',
+  initialState,
+  reducers: {
+    sessionJoining: (_state, action: PayloadAction<SessionJoiningPayload>) => ({
+      ...initialState,
+      ...action.payload,
+      status: 'joining',
+    }),
+    sessionJoined: (state, action: PayloadAction<{ meetingId: string; joinedAt: number }>) => {
+      // Ignore late events from a meeting the user has already left
+      if (state.meetingId !== action.payload.meetingId) return;
+      state.status = 'joined';
+      state.joinedAt = action.payload.joinedAt;
+    },
+    sessionLeft: (state, action: PayloadAction<{ meetingId: string }>) => {
+      if (state.meetingId !== action.payload.meetingId) return state;
+      return initialState;
+    },
+  },
+});
+
+export const { sessionJoining, sessionJoined, sessionLeft } = sessionSlice.actions;
+
+export default sessionSlice.reducer;
@@ -1,42 +1,126 @@
 // User types
+export type UserRole = 'admin' | 'user' | 'service-provider';
+
 export interface User {
   id: string;
   email: string;
   displayName: string;
   photoURL?: string;
-  role: 'admin' | 'user' | 'service-provider';
+  role: UserRole;
+  timeZone?: string; // IANA zone times are shown in, e.g. 'Europe/Berlin'; unset = the browser's
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Event types
+export type EventStatus = 'scheduled' | 'cancelled';
+
 export interface Event {
   id: string;
   title: string;
   description: string;
   startTime: Date;
   endTime: Date;
+  timeZone?: string; // IANA zone the event was scheduled in; recurrences repeat in its wall-clock time
   createdBy: string; // User ID
+  coHosts: string[]; // Participants who moderate the meetings alongside the host
+  status: EventStatus;
+  cancelledAt?: Date | null;
+  cancellationReason?: string | null;
   isPublic: boolean;
   maxParticipants?: number;
   participants: string[]; // Array of User IDs
+  waitlist: string[]; // User IDs waiting for a spot, first in line first
   jitsiRoomName: string;
+  activeMeetingId?: string | null; // Meeting ID of the session currently open for this event
+  isLive?: boolean; // Whether one of its meetings is live; kept by the backend
+  sessionCount?: number; // Number of meeting sessions created so far
+  recurrence?: string | null; // RFC 5545 RRULE, e.g. 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10'
+  recurrenceEndTime?: Date | null; // End of the last occurrence of a recurring event
+  endsAt?: Date | null; // recurrenceEndTime for a series, else endTime; what discovery filters on
+  roomMode?: OccurrenceRoomMode; // Whether occurrences share the event's Jitsi room
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Recurrence types. Stored on the event as RRULE text; each occurrence is
+// expanded into its own meeting session when the series is created.
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days, weeks or months
+  byWeekday: Weekday[]; // weekly rules only; empty = the start's weekday
+  count: number | null; // number of occurrences; a rule has count or until
+  until: Date | null; // last possible start of an occurrence
+}
+
+export type OccurrenceRoomMode = 'shared' | 'per-occurrence';
+
+// Audit trail of host actions, at events/{eventId}/auditLog/{entryId}.
+// Written by the backend from each change users make to an event; read-only
+// for clients.
+export type EventAuditAction =
+  | 'updated'
+  | 'cancelled'
+  | 'host-transferred'
+  | 'co-host-added'
+  | 'co-host-removed'
+  | 'participant-removed';
+
+export interface EventAuditEntry {
+  id: string;
+  eventId: string;
+  action: EventAuditAction;
+  actorId: string; // User ID of the host or admin who acted
+  targetUserId?: string | null; // User the action was about, if any
+  fields: string[]; // Event fields an update changed
+  reason?: string | null;
+  createdAt: Date;
+}
+
+// Index of the events a user belongs to, one document per member at
+// eventMembers/{eventId}_{userId}. Maintained by the backend from the event's
+// participants; carries a copy of the fields event lists display.
+export type EventMemberRole = 'host' | 'participant';
+
+export interface EventMembership {
+  id: string;
+  eventId: string;
+  userId: string;
+  role: EventMemberRole;
+  title: string;
+  description: string;
+  startTime: Date;
+  endTime: Date;
+  endsAt: Date; // End of the last occurrence; endTime for one-off events
+  isPublic: boolean;
+  status: EventStatus;
+  createdBy: string; // User ID
+  updatedAt: Date;
+}
+
 // Meeting types
+export type MeetingStatus = 'scheduled' | 'live' | 'ended' | 'cancelled';
+
 export interface Meeting {
   id: string;
   eventId: string;
+  sessionNumber: number; // 1-based index of this session within its event
+  status: MeetingStatus;
   title: string;
   description?: string;
-  startTime: Date;
-  endTime?: Date;
+  startTime: Date; // Scheduled start
+  endTime?: Date; // Set when the session ends
+  scheduledEndTime?: Date; // Planned end of an occurrence of a recurring event
+  occurrenceStart?: Date; // Start the recurrence rule gave this occurrence, kept when it is moved
+  startedAt?: Date; // When the first participant joined the conference
   hostId: string; // User ID
-  participants: Participant[];
+  participants: string[]; // IDs of every user who has attended; intervals live in the attendance subcollection
   jitsiRoomName: string;
   recordingEnabled: boolean;
+  recordingMode?: JitsiRecordingMode;
   recordingStarted?: Date;
   recordingEnded?: Date;
   recordingUrl?: string;
@@ -44,12 +128,41 @@ export interface Meeting {
   updatedAt: Date;
 }
 
-export interface Participant {
+// Index of the meetings a user attended, at meetingMembers/{meetingId}_{userId}
+export interface MeetingMembership {
+  id: string;
+  meetingId: string;
+  eventId: string;
+  userId: string;
+  title: string;
+  startTime: Date;
+  status: MeetingStatus;
+  sessionNumber: number;
+  updatedAt: Date;
+}
+
+export type RecordingStatus = 'idle' | 'starting' | 'on' | 'stopping' | 'failed';
+
+export interface RecordingState {
+  status: RecordingStatus;
+  mode: JitsiRecordingMode | null;
+  error?: string;
+  startedAt?: Date;
+  endedAt?: Date;
+}
+
+// One continuous stay of a user in a meeting, stored in meetings/{meetingId}/attendance.
+// A user who drops and rejoins gets a new interval each time.
+export interface AttendanceInterval {
+  id: string;
+  meetingId: string;
   userId: string;
   displayName: string;
   role: 'moderator' | 'viewer';
+  jitsiParticipantId?: string;
   joinTime: Date;
-  leaveTime?: Date;
+  leaveTime?: Date; // unset while the user is still in the meeting
+  lastSeen: Date; // heartbeat, used to close intervals left open by a crashed tab
 }
 
 // Recording types
@@ -75,6 +188,7 @@ export interface MeetingAnalytics {
   id: string;
   meetingId: string;
   eventId: string;
+  title?: string;
   hostId: string; // User ID
   participantCount: number;
   averageDuration: number; // in seconds
@@ -91,7 +205,8 @@ export interface ParticipantAnalytics {
   displayName: string;
   joinTime: Date;
   leaveTime?: Date;
-  duration?: number; // in seconds
+  duration?: number; // in seconds, summed over all of the user's stays
+  intervalCount?: number; // number of separate stays in the meeting
   role: 'moderator' | 'viewer';
 }
 
@@ -117,27 +232,77 @@ export interface Service {
   currency: string;
   availability: {
     days: string[]; // e.g., ['Monday', 'Tuesday', ...]
-    startTime: string; // e.g., '09:00'
+    startTime: string; // 24-hour time in timeZone, e.g., '09:00'
     endTime: string; // e.g., '17:00'
+    timeZone?: string; // IANA zone of the provider; unset on services saved before zones
+    slotMinutes?: number; // length of a bookable slot; defaults to 60
+    bufferMinutes?: number; // gap kept free after each booking; defaults to 0
   };
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// pending -> accepted | rejected, accepted -> completed | rejected
+export type ServiceRequestStatus = 'pending' | 'accepted' | 'rejected' | 'completed';
+
 export interface ServiceRequest {
   id: string;
   serviceId: string;
   requesterId: string; // User ID
   providerId: string; // User ID
-  status: 'pending' | 'accepted' | 'rejected' | 'completed';
+  status: ServiceRequestStatus;
   requestedTime: Date;
   scheduledTime?: Date;
+  scheduledEndTime?: Date; // End of the booked slot
+  bookingId?: string | null; // serviceBookings document holding the slot
   message?: string;
+  responseMessage?: string; // Provider's note with the last status change
+  respondedAt?: Date; // When the provider accepted or rejected the request
+  completedAt?: Date;
+  jitsiRoomName?: string; // Set by the backend once the request is accepted
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A claimed slot of a service, at serviceBookings/{serviceId}_{startMillis}.
+// The ID is derived from the slot, so two requests can't claim the same one.
+// Created with the request, and released by the backend if it's rejected.
+export interface ServiceBooking {
+  id: string;
+  serviceId: string;
+  providerId: string;
+  requesterId: string;
+  requestId: string;
+  startTime: Date;
+  endTime: Date;
+  createdAt: Date;
+}
+
+// A requester's rating of a completed request, at serviceReviews/{requestId}
+// so each request is reviewed at most once. Public, and never edited.
+export interface ServiceReview {
+  id: string; // ID of the reviewed service request
+  serviceId: string;
+  providerId: string;
+  reviewerId: string; // User ID of the requester
+  rating: number; // 1 to 5 stars
+  comment?: string;
+  createdAt: Date;
+}
+
+export interface RatingSummary {
+  average: number | null; // null until the first review
+  count: number;
+}
+
+// A bookable slot generated from a service's availability
+export interface BookingSlot {
+  id: string; // ID of the serviceBookings document that would claim it
+  startTime: Date;
+  endTime: Date;
+}
+
 // Jitsi types
 export interface JitsiMeetConfig {
   roomName: string;
@@ -165,9 +330,138 @@ export interface JitsiMeetExternalAPI {
   addListener: (event: string, listener: (data: any) => void) => void;
   removeListener: (event: string, listener: (data: any) => void) => void;
   dispose: () => void;
-  getParticipantsInfo: () => any[];
+  getParticipantsInfo: () => JitsiParticipantInfo[];
   getDisplayName: (id: string) => string;
   getVideoQuality: () => string;
   isAudioMuted: () => boolean;
   isVideoMuted: () => boolean;
 }
+
+// Jitsi event types
+export type JitsiRecordingMode = 'file' | 'stream';
+
+export interface JitsiParticipantInfo {
+  id: string;
+  displayName?: string;
+  formattedDisplayName?: string;
+  avatarURL?: string;
+  email?: string;
+}
+
+export interface JitsiBreakoutRoom {
+  id: string;
+  jid: string;
+  name?: string;
+  isMainRoom?: boolean;
+  participants: Record<string, {
+    jid: string;
+    role: string;
+    displayName?: string;
+  }>;
+}
+
+// Payloads emitted by JitsiMeetExternalAPI, keyed by event name
+export interface JitsiEventMap {
+  // Conference lifecycle
+  videoConferenceJoined: {
+    roomName: string;
+    id: string;
+    displayName: string;
+    avatarURL?: string;
+    breakoutRoom?: boolean;
+  };
+  videoConferenceLeft: { roomName: string };
+  readyToClose: Record<string, never>;
+  passwordRequired: Record<string, never>;
+  subjectChange: { subject: string };
+  conferenceCreatedTimestamp: { timestamp: number };
+
+  // Participants
+  participantJoined: { id: string; displayName: string };
+  participantLeft: { id: string };
+  participantKickedOut: {
+    kicked: { id: string; local: boolean };
+    kicker: { id: string };
+  };
+  participantRoleChanged: { id: string; role: 'moderator' | 'participant' | 'none' };
+  displayNameChange: { id: string; displayname: string };
+  emailChange: { id: string; email: string };
+  avatarChanged: { id: string; avatarURL: string };
+  knockingParticipant: { participant: { id: string; name: string } };
+  dominantSpeakerChanged: { id: string };
+  raiseHandUpdated: { id: string; handRaised: number };
+
+  // Local media
+  audioMuteStatusChanged: { muted: boolean };
+  videoMuteStatusChanged: { muted: boolean };
+  audioAvailabilityChanged: { available: boolean };
+  videoAvailabilityChanged: { available: boolean };
+  moderationStatusChanged: { mediaType: 'audio' | 'video'; enabled: boolean };
+  cameraError: { type: string; message: string };
+  micError: { type: string; message: string };
+  deviceListChanged: { devices: Record<string, MediaDeviceInfo[]> };
+  videoQualityChanged: { videoQuality: number };
+
+  // Chat
+  incomingMessage: {
+    from: string;
+    nick: string;
+    privateMessage: boolean;
+    message: string;
+    stamp?: string;
+  };
+  outgoingMessage: { message: string; privateMessage: boolean };
+  chatUpdated: { isOpen: boolean; unreadCount: number };
+  endpointTextMessageReceived: {
+    senderInfo: { jid: string; id: string };
+    eventData: { name: string; text: string };
+  };
+
+  // Recording and streaming
+  recordingStatusChanged: {
+    on: boolean;
+    mode: JitsiRecordingMode;
+    error?: string;
+    transcription?: boolean;
+  };
+  recordingLinkAvailable: { link: string; ttl: number };
+
+  // Screen sharing
+  screenSharingStatusChanged: {
+    on: boolean;
+    details: { sourceType?: 'window' | 'screen' | 'proxy' | 'device' };
+  };
+  contentSharingParticipantsChanged: { data: string[] };
+
+  // Breakout rooms
+  breakoutRoomsUpdated: { rooms: Record<string, JitsiBreakoutRoom> };
+
+  // Layout
+  tileViewChanged: { enabled: boolean };
+  filmstripDisplayChanged: { visible: boolean };
+  participantsPaneToggled: { open: boolean };
+
+  // Errors
+  errorOccurred: {
+    details?: Record<string, any>;
+    message?: string;
+    name: string;
+    type: 'CONFIG' | 'CONNECTION' | 'NOT_SUPPORTED';
+    isFatal: boolean;
+  };
+}
+
+export type JitsiEventName = keyof JitsiEventMap;
+
+// Discriminated union of every event, useful for logging or reducers
+export type JitsiEvent = {
+  [K in JitsiEventName]: { type: K; payload: JitsiEventMap[K] };
+}[JitsiEventName];
+
+export type JitsiEventHandler<K extends JitsiEventName> = (payload: JitsiEventMap[K]) => void;
+
+export type JitsiEventHandlers = {
+  [K in JitsiEventName]?: JitsiEventHandler<K>;
+};
+
+export type JitsiUnsubscribe = () => void;